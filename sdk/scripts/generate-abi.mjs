@@ -0,0 +1,200 @@
+#!/usr/bin/env node
+/**
+ * Generate src/generated/legionSafeAbi.ts, src/generated/legionSafeStorageLayout.ts
+ * and src/generated/legionSafeBytecode.ts from the Foundry build artifacts of
+ * LegionSafe and ERC1967Proxy (built alongside it for script/Deploy.s.sol).
+ *
+ * Usage:
+ *   forge build                         # from the repository root
+ *   npm run generate:abi                # writes the ABI module
+ *   npm run generate:abi -- --check     # exits 1 if the module is out of date
+ *
+ * An alternative LegionSafe artifact path can be passed as the first positional
+ * argument; ERC1967Proxy is read from the same output directory.
+ *
+ * The bytecode check only holds for the compiler pinned in foundry.toml
+ * (`solc_version`, `bytecode_hash`); bump the pin and regenerate together.
+ */
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { dirname, relative, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const sdkRoot = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const defaultArtifact = resolve(sdkRoot, '../out/LegionSafe.sol/LegionSafe.json');
+const outputFile = resolve(sdkRoot, 'src/generated/legionSafeAbi.ts');
+const layoutFile = resolve(sdkRoot, 'src/generated/legionSafeStorageLayout.ts');
+const bytecodeFile = resolve(sdkRoot, 'src/generated/legionSafeBytecode.ts');
+
+const args = process.argv.slice(2);
+const check = args.includes('--check');
+const artifactPath = resolve(args.find((arg) => !arg.startsWith('--')) ?? defaultArtifact);
+const proxyArtifactPath = resolve(dirname(artifactPath), '../ERC1967Proxy.sol/ERC1967Proxy.json');
+
+for (const path of [artifactPath, proxyArtifactPath]) {
+  if (!existsSync(path)) {
+    console.error(`Artifact not found: ${path}`);
+    console.error('Run `forge build` from the repository root first.');
+    process.exit(1);
+  }
+}
+
+const { abi, storageLayout, bytecode } = JSON.parse(readFileSync(artifactPath, 'utf8'));
+const { bytecode: proxyBytecode } = JSON.parse(readFileSync(proxyArtifactPath, 'utf8'));
+if (!Array.isArray(abi)) {
+  console.error(`Artifact has no ABI: ${artifactPath}`);
+  process.exit(1);
+}
+if (!storageLayout?.storage) {
+  console.error(`Artifact has no storage layout: ${artifactPath}`);
+  console.error('Set `extra_output = ["storageLayout"]` in foundry.toml and rebuild.');
+  process.exit(1);
+}
+
+const TYPE_ORDER = ['constructor', 'fallback', 'receive', 'function', 'event', 'error'];
+
+/**
+ * Put ABI entries and keys in a stable order so the output does not depend on
+ * which compiler frontend produced the artifact.
+ */
+function normalizeParam(param) {
+  const out = { name: param.name, type: param.type };
+  if (param.indexed !== undefined) out.indexed = param.indexed;
+  if (param.internalType !== undefined) out.internalType = param.internalType;
+  if (param.components) out.components = param.components.map(normalizeParam);
+  return out;
+}
+
+function normalizeEntry(entry) {
+  const out = { type: entry.type };
+  if (entry.name !== undefined) out.name = entry.name;
+  if (entry.inputs) out.inputs = entry.inputs.map(normalizeParam);
+  if (entry.outputs) out.outputs = entry.outputs.map(normalizeParam);
+  if (entry.stateMutability !== undefined) out.stateMutability = entry.stateMutability;
+  if (entry.anonymous !== undefined) out.anonymous = entry.anonymous;
+  return out;
+}
+
+function compareStrings(a, b) {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareEntries(a, b) {
+  const byType = TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type);
+  if (byType !== 0) return byType;
+  const byName = compareStrings(a.name ?? '', b.name ?? '');
+  if (byName !== 0) return byName;
+  return compareStrings(JSON.stringify(a.inputs), JSON.stringify(b.inputs));
+}
+
+/**
+ * Drop AST ids from type ids (`t_struct(SpendingLimit)38_storage`), which
+ * change whenever the compiler sees a different set of sources.
+ */
+function normalizeTypeId(id) {
+  return id.replace(/(t_(?:struct|enum|contract)\([^)]*\))\d+/g, '$1');
+}
+
+function normalizeVariable(variable) {
+  return {
+    label: variable.label,
+    offset: variable.offset,
+    slot: variable.slot,
+    type: normalizeTypeId(variable.type),
+  };
+}
+
+function normalizeType(type) {
+  const out = { encoding: type.encoding, label: type.label, numberOfBytes: type.numberOfBytes };
+  if (type.base !== undefined) out.base = normalizeTypeId(type.base);
+  if (type.key !== undefined) out.key = normalizeTypeId(type.key);
+  if (type.value !== undefined) out.value = normalizeTypeId(type.value);
+  if (type.members) out.members = type.members.map(normalizeVariable);
+  return out;
+}
+
+function creationCode(bytecode, path) {
+  const object = bytecode?.object;
+  if (!object || object === '0x') {
+    console.error(`Artifact has no creation bytecode: ${path}`);
+    process.exit(1);
+  }
+  if (Object.keys(bytecode.linkReferences ?? {}).length > 0) {
+    console.error(`Artifact needs linked libraries, which the SDK cannot deploy: ${path}`);
+    process.exit(1);
+  }
+  return object.startsWith('0x') ? object : `0x${object}`;
+}
+
+const normalized = abi.map(normalizeEntry).sort(compareEntries);
+const normalizedLayout = {
+  storage: storageLayout.storage.map(normalizeVariable),
+  types: Object.fromEntries(
+    Object.entries(storageLayout.types ?? {})
+      .map(([id, type]) => [normalizeTypeId(id), normalizeType(type)])
+      .sort(([a], [b]) => compareStrings(a, b))
+  ),
+};
+
+const header = `// This file is generated by scripts/generate-abi.mjs from the Foundry
+// build artifact of src/LegionSafe.sol. Do not edit it by hand.
+`;
+
+const outputs = [
+  {
+    file: outputFile,
+    summary: `${abi.length} entries`,
+    source: `${header}
+/**
+ * LegionSafe contract ABI
+ */
+export const LEGION_SAFE_ABI = ${JSON.stringify(normalized, null, 2)} as const;
+`,
+  },
+  {
+    file: layoutFile,
+    summary: `${normalizedLayout.storage.length} variables`,
+    source: `${header}
+import type { StorageLayout } from '../upgrade.js';
+
+/**
+ * Storage layout of the LegionSafe implementation this SDK was built against
+ */
+export const LEGION_SAFE_STORAGE_LAYOUT: StorageLayout = ${JSON.stringify(normalizedLayout, null, 2)};
+`,
+  },
+  {
+    file: bytecodeFile,
+    summary: 'LegionSafe and ERC1967Proxy',
+    source: `${header}
+/**
+ * Creation bytecode of the LegionSafe implementation
+ */
+export const LEGION_SAFE_BYTECODE = '${creationCode(bytecode, artifactPath)}' as const;
+
+/**
+ * Creation bytecode of OpenZeppelin's ERC1967Proxy
+ */
+export const ERC1967_PROXY_BYTECODE = '${creationCode(proxyBytecode, proxyArtifactPath)}' as const;
+`,
+  },
+];
+
+let stale = false;
+for (const { file, summary, source } of outputs) {
+  const current = existsSync(file) ? readFileSync(file, 'utf8') : '';
+  const target = relative(process.cwd(), file);
+
+  if (check) {
+    if (current !== source) {
+      console.error(`${target} is out of date. Run \`npm run generate:abi\`.`);
+      stale = true;
+    } else {
+      console.log(`${target} is up to date`);
+    }
+  } else {
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, source);
+    console.log(`Wrote ${target} (${summary})`);
+  }
+}
+if (stale) process.exit(1);
@@ -1,11 +1,25 @@
 import {
   Address,
   Hash,
+  Hex,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  EncodeFunctionDataParameters,
+  Log,
+  TransactionReceipt,
   formatUnits,
   encodeFunctionData,
-  decodeErrorResult,
 } from "viem";
 import { LEGION_SAFE_ABI, ERC20_ABI } from "./abis.js";
+import {
+  CallNotAuthorizedError,
+  LegionSafeError,
+  SpenderNotWhitelistedError,
+  getApproveSpenders,
+  getSelector,
+  replayRevertError,
+  toLegionSafeError,
+} from "./errors.js";
 import type {
   LegionSafeConfig,
   AuthorizeCallParams,
@@ -18,8 +32,79 @@ import type {
   SetSpenderWhitelistParams,
   SetSpendingLimitParams,
   SpendingLimitInfo,
+  SpendingPreflightOptions,
+  SpendingPreflightResult,
+  GasConfig,
   GasOptions,
+  BatchCallItem,
+  ManageResult,
+  ManageBatchResult,
+  ReturnDataSource,
+  AuthorizationSnapshot,
+  AuthorizationSnapshotOptions,
+  VaultPolicy,
+  PolicyPlan,
+  PolicyPlanOptions,
+  PolicyChange,
+  PolicyApplyResult,
+  SwapParams,
+  SwapResult,
+  SwapViaKyberParams,
+  SwapViaKyberResult,
+  ExactOutputSwapParams,
+  ExactOutputSwapResult,
+  OwnershipStatus,
+  OwnershipStatusOptions,
+  TransferOwnershipOptions,
+  UpgradeParams,
+  ReadOptions,
+  VaultSnapshot,
+  VaultSnapshotOptions,
+  VaultTokenSnapshot,
 } from "./types.js";
+import {
+  recoverTransactionOutput,
+  decodeManageOutput,
+  decodeManageBatchOutput,
+  decodeCallReturnData,
+} from "./returnData.js";
+import { getAuthorizationSnapshot } from "./authorization.js";
+import { getOwnershipStatus } from "./ownership.js";
+import {
+  UpgradeValidation,
+  UpgradeValidationError,
+  UpgradeValidationParams,
+  getImplementation,
+  validateUpgrade,
+} from "./upgrade.js";
+import { BatchValidationError, LegionSafeBatchBuilder } from "./batch.js";
+import { APPROVE_SELECTOR, NATIVE_TOKEN_ADDRESS, ZERO_ADDRESS } from "./constants.js";
+import { isNativeToken, uniqueAddresses } from "./utils.js";
+import { resolveGasFees, resolveGasParameters } from "./gas.js";
+import { planPolicy } from "./policy.js";
+import { LegionSafeSimulator } from "./simulation.js";
+import { BestRouteSwapper, BestRouteSwapperOptions } from "./swapper.js";
+import { TokenScreener, TokenScreenerOptions } from "./screener.js";
+import { quoteExactOutput } from "./exactOutput.js";
+import {
+  SettlementSource,
+  measureTokenFlow,
+  realizedSlippageBps,
+} from "./settlement.js";
+import {
+  LegionSafeTransactionManager,
+  TransactionManagerOptions,
+} from "./transactions.js";
+import { preflightSpendingLimits } from "./spending.js";
+import { ContractRead, ReadBatcher, ReadResult, readValue } from "./reads.js";
+import { LegionSafeWatcher, WatchHandlers, WatchOptions } from "./watch.js";
+import { KyberSwapClient } from "./integrations/kyberswap/client.js";
+import type { SwapCalldata, SwapProvider } from "./integrations/types.js";
+
+type WriteFunctionName = ContractFunctionName<
+  typeof LEGION_SAFE_ABI,
+  "nonpayable" | "payable"
+>;
 
 /**
  * Main SDK client for interacting with LegionSafe contracts
@@ -28,11 +113,30 @@ export class LegionSafeClient {
   public readonly safeAddress: Address;
   private readonly walletClient;
   private readonly publicClient;
+  private readonly returnDataSource: ReturnDataSource;
+  private readonly deploymentBlock?: bigint;
+  private readonly gasConfig: GasConfig;
+  private readonly reads: ReadBatcher;
+  /** Decimals and symbol per token, which do not change */
+  private readonly tokenMetadata = new Map<string, { decimals: number; symbol?: string }>();
+  /** Tracked tokens seen by the last snapshot, read speculatively by the next */
+  private lastTrackedTokens: Address[] = [];
+  /** Dry-run counterparts of every write method */
+  public readonly simulate: LegionSafeSimulator;
 
   constructor(config: LegionSafeConfig) {
     this.safeAddress = config.safeAddress;
     this.walletClient = config.walletClient;
     this.publicClient = config.publicClient;
+    this.returnDataSource = config.returnDataSource ?? "auto";
+    this.deploymentBlock = config.deploymentBlock;
+    this.gasConfig = config.gas ?? {};
+    this.reads = new ReadBatcher(config.publicClient, config.multicall);
+    this.simulate = new LegionSafeSimulator(
+      config.publicClient,
+      config.safeAddress,
+      this.reads
+    );
   }
 
   /**
@@ -47,16 +151,135 @@ export class LegionSafeClient {
 
   /**
    * Wait for transaction and return result
+   *
+   * @param hash Transaction hash
+   * @param calls Calls the transaction executes, used to decode a revert
+   * @throws {LegionSafeError} If the transaction was mined but reverted, with
+   *   `transactionHash` set
    */
-  private async waitForTransaction(hash: Hash): Promise<TransactionResult> {
+  private async waitForTransaction(
+    hash: Hash,
+    calls: BatchCallItem[] = []
+  ): Promise<TransactionResult> {
+    return toTransactionResult(hash, await this.waitForReceipt(hash, calls));
+  }
+
+  /**
+   * Wait for the receipt of a transaction that must succeed
+   *
+   * @throws {LegionSafeError} If the transaction was mined but reverted
+   */
+  private async waitForReceipt(
+    hash: Hash,
+    calls: BatchCallItem[] = []
+  ): Promise<TransactionReceipt> {
     const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
 
-    return {
-      hash,
-      blockNumber: receipt.blockNumber,
-      gasUsed: receipt.gasUsed,
-      status: receipt.status,
-    };
+    if (receipt.status === "reverted") {
+      throw await this.getMinedRevertError(hash, receipt.blockNumber, calls);
+    }
+
+    return receipt;
+  }
+
+  /**
+   * Typed error for a transaction that was mined and reverted, attributed
+   * to the offending call like estimation failures
+   */
+  private async getMinedRevertError(
+    hash: Hash,
+    blockNumber: bigint,
+    calls: BatchCallItem[]
+  ): Promise<LegionSafeError> {
+    const replayed = await replayRevertError(this.publicClient, hash, blockNumber, calls);
+    const error = (await this.toTypedError(replayed, calls)) as LegionSafeError;
+    error.transactionHash = hash;
+    return error;
+  }
+
+  /**
+   * Send a transaction to the vault, converting reverts into typed errors
+   *
+   * @throws {LegionSafeError} If the call reverts
+   */
+  private async writeSafe<functionName extends WriteFunctionName>(
+    functionName: functionName,
+    args: ContractFunctionArgs<
+      typeof LEGION_SAFE_ABI,
+      "nonpayable" | "payable",
+      functionName
+    >,
+    gasOptions?: GasOptions,
+    calls: BatchCallItem[] = []
+  ): Promise<Hash> {
+    try {
+      const account = this.getAccount();
+      const data = encodeFunctionData({
+        abi: LEGION_SAFE_ABI,
+        functionName,
+        args,
+      } as EncodeFunctionDataParameters);
+      const gas = await resolveGasParameters(
+        this.publicClient,
+        { account, to: this.safeAddress, data },
+        this.gasConfig,
+        gasOptions
+      );
+
+      return await this.walletClient.sendTransaction({
+        account,
+        chain: this.walletClient.chain,
+        to: this.safeAddress,
+        data,
+        ...gas,
+      });
+    } catch (error) {
+      throw await this.toTypedError(error, calls);
+    }
+  }
+
+  /**
+   * Convert a viem error into a typed LegionSafeError, using on-chain state to
+   * attribute CallNotAuthorized/SpenderNotWhitelisted to a specific call
+   */
+  private async toTypedError(
+    error: unknown,
+    calls: BatchCallItem[] = []
+  ): Promise<unknown> {
+    const typed = toLegionSafeError(error, { calls });
+
+    try {
+      if (typed instanceof SpenderNotWhitelistedError && !typed.spender) {
+        for (const spender of getApproveSpenders(calls)) {
+          if (!(await this.isSpenderWhitelisted(spender))) {
+            return new SpenderNotWhitelistedError({
+              spender,
+              data: typed.data,
+              cause: typed.cause,
+            });
+          }
+        }
+      }
+
+      if (typed instanceof CallNotAuthorizedError && !typed.target) {
+        for (const call of calls) {
+          const selector = getSelector(call.data);
+          if (selector === APPROVE_SELECTOR) continue;
+          if (!(await this.isCallAuthorized(call.target, selector))) {
+            return new CallNotAuthorizedError({
+              target: call.target,
+              selector,
+              data: typed.data,
+              cause: typed.cause,
+            });
+          }
+        }
+      }
+    } catch {
+      // Attribution is best effort; fall back to the unattributed error
+    }
+
+    return typed;
   }
 
   /**
@@ -75,15 +298,11 @@ export class LegionSafeClient {
    * ```
    */
   async authorizeCall(params: AuthorizeCallParams): Promise<TransactionResult> {
-    const hash = await this.walletClient.writeContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "setCallAuthorization",
-      args: [params.target, params.selector, params.authorized],
-      account: this.getAccount(),
-      chain: this.walletClient.chain,
-      ...((params.gasOptions as any) || {}),
-    });
+    const hash = await this.writeSafe(
+      "setCallAuthorization",
+      [params.target, params.selector, params.authorized],
+      params.gasOptions
+    );
 
     return this.waitForTransaction(hash);
   }
@@ -93,25 +312,31 @@ export class LegionSafeClient {
    *
    * @param target Target contract address
    * @param selector 4-byte function selector
+   * @param options Block to read at
    * @returns Whether the call is authorized
    */
   async isCallAuthorized(
     target: Address,
-    selector: `0x${string}`
+    selector: `0x${string}`,
+    options?: ReadOptions
   ): Promise<boolean> {
-    return this.publicClient.readContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "authorizedCalls",
-      args: [target, selector],
-    });
+    return this.reads.read(
+      {
+        address: this.safeAddress,
+        abi: LEGION_SAFE_ABI,
+        functionName: "authorizedCalls",
+        args: [target, selector],
+      },
+      options
+    );
   }
 
   /**
    * Execute an arbitrary call through the vault's manage() function
    *
-   * @param params Manage call parameters
-   * @returns Transaction result with returned data
+   * @param params Manage call parameters. Pass the target's `abi` to get
+   *   `decodedReturnData` back.
+   * @returns Transaction result with the target's return data
    *
    * @example
    * ```typescript
@@ -125,30 +350,35 @@ export class LegionSafeClient {
    */
   async manage(
     params: ManageCallParams
-  ): Promise<TransactionResult & { returnData: `0x${string}` }> {
-    const hash = await this.walletClient.writeContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "manage",
-      args: [params.target, params.data, params.value],
-      account: this.getAccount(),
-      chain: this.walletClient.chain,
-      ...((params.gasOptions as any) || {}),
-    });
-
-    const result = await this.waitForTransaction(hash);
+  ): Promise<ManageResult> {
+    const hash = await this.writeSafe(
+      "manage",
+      [params.target, params.data, params.value],
+      params.gasOptions,
+      [params]
+    );
+
+    const result = await this.waitForTransaction(hash, [params]);
+    const recovered = await this.recoverOutput(result, decodeManageOutput);
+
+    if (!recovered) {
+      return { ...result, returnData: "0x", returnDataSource: "unavailable" };
+    }
 
     return {
       ...result,
-      returnData: "0x", // Return data is available in logs
+      returnData: recovered.output,
+      decodedReturnData: decodeCallReturnData(params, recovered.output),
+      returnDataSource: recovered.source,
     };
   }
 
   /**
    * Execute multiple calls atomically through the vault's manageBatch() function
    *
-   * @param params Batch call parameters
-   * @returns Transaction result with array of returned data
+   * @param params Batch call parameters. Give a call an `abi` to get its
+   *   entry in `decodedReturnData` decoded.
+   * @returns Transaction result with each target's return data
    *
    * @example
    * ```typescript
@@ -160,38 +390,126 @@ export class LegionSafeClient {
    * });
    * ```
    */
-  async manageBatch(
+  async manageBatch(params: ManageBatchParams): Promise<ManageBatchResult> {
+    return (await this.sendManageBatch(params)).result;
+  }
+
+  /**
+   * manageBatch() that also hands back the receipt, for callers that read
+   * its logs
+   */
+  private async sendManageBatch(
     params: ManageBatchParams
-  ): Promise<TransactionResult & { returnData: `0x${string}`[] }> {
+  ): Promise<{ result: ManageBatchResult; receipt: TransactionReceipt }> {
     // Transform object array into separate arrays for contract call
     const targets = params.calls.map((call) => call.target);
     const data = params.calls.map((call) => call.data);
     const values = params.calls.map((call) => call.value);
 
-    const hash = await this.walletClient.writeContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "manageBatch",
-      args: [targets, data, values],
-      account: this.getAccount(),
-      chain: this.walletClient.chain,
-      ...((params.gasOptions as any) || {}),
-    });
+    const hash = await this.writeSafe(
+      "manageBatch",
+      [targets, data, values],
+      params.gasOptions,
+      params.calls
+    );
 
-    const result = await this.waitForTransaction(hash);
+    const receipt = await this.waitForReceipt(hash, params.calls);
+    const result = toTransactionResult(hash, receipt);
 
     return {
-      ...result,
-      returnData: [], // Return data available in logs
+      result: {
+        ...result,
+        ...(await this.getBatchReturnData(params.calls, result)),
+      },
+      receipt,
     };
   }
 
+  /**
+   * Start a fluent manageBatch() builder
+   *
+   * @example
+   * ```typescript
+   * const result = await client
+   *   .batch()
+   *   .approve(USDT, ROUTER, amount)
+   *   .call(ROUTER, routerAbi, "swap", [USDT, WBNB, amount])
+   *   .revokeApproval(USDT, ROUTER)
+   *   .send();
+   * ```
+   */
+  batch(): LegionSafeBatchBuilder {
+    return new LegionSafeBatchBuilder(
+      this,
+      this.walletClient.chain?.id ?? this.publicClient.chain?.id
+    );
+  }
+
+  /**
+   * Recover and decode the return data of a mined manageBatch() transaction
+   */
+  private async getBatchReturnData(
+    calls: BatchCallItem[],
+    result: TransactionResult
+  ): Promise<
+    Pick<ManageBatchResult, "returnData" | "decodedReturnData" | "returnDataSource">
+  > {
+    const recovered = await this.recoverOutput(result, decodeManageBatchOutput);
+
+    if (!recovered) {
+      return {
+        returnData: [],
+        decodedReturnData: calls.map(() => undefined),
+        returnDataSource: "unavailable",
+      };
+    }
+
+    return {
+      returnData: recovered.output,
+      decodedReturnData: calls.map((call, i) =>
+        decodeCallReturnData(call, recovered.output[i])
+      ),
+      returnDataSource: recovered.source,
+    };
+  }
+
+  /**
+   * Recover the output of a successful vault transaction and decode it
+   *
+   * A replay can run on state an earlier transaction in the block changed and
+   * return something that does not decode; that counts as unavailable rather
+   * than failing a transaction that was mined.
+   */
+  private async recoverOutput<output>(
+    result: TransactionResult,
+    decode: (output: Hex) => output
+  ): Promise<{ output: output; source: "trace" | "simulate" } | undefined> {
+    if (result.status !== "success") return undefined;
+
+    const recovered = await recoverTransactionOutput(
+      this.publicClient,
+      result.hash,
+      result.blockNumber,
+      this.returnDataSource
+    );
+    if (!recovered) return undefined;
+
+    try {
+      return { output: decode(recovered.output), source: recovered.source };
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Force manageBatch transaction onchain even if simulation fails
    * Useful for debugging - will execute the transaction and show the onchain error
    *
+   * Unlike manageBatch(), a mined revert is returned rather than thrown.
+   *
    * @param params Batch call parameters
-   * @returns Transaction result with status (may be 'reverted')
+   * @returns Transaction result with status (may be 'reverted') and, if it
+   *   reverted, the decoded error
    *
    * @example
    * ```typescript
@@ -206,18 +524,11 @@ export class LegionSafeClient {
    */
   async manageBatchForce(
     params: ManageBatchParams
-  ): Promise<TransactionResult & { returnData: `0x${string}`[] }> {
+  ): Promise<ManageBatchResult & { error?: LegionSafeError }> {
     const targets = params.calls.map((call) => call.target);
     const data = params.calls.map((call) => call.data);
     const values = params.calls.map((call) => call.value);
 
-    console.log("⚠️ FORCE MODE: Sending transaction without simulation");
-    console.log("Safe Address:", this.safeAddress);
-    console.log("Sender:", this.getAccount().address);
-    console.log("Targets:", targets);
-    console.log("Values:", values);
-    console.log("Gas Options:", params.gasOptions);
-
     // Encode the function call manually
     const calldata = encodeFunctionData({
       abi: LEGION_SAFE_ABI,
@@ -225,145 +536,48 @@ export class LegionSafeClient {
       args: [targets, data, values],
     });
 
-    console.log("Encoded calldata length:", calldata.length);
-
+    let hash: Hash;
     try {
-      // Prepare transaction without simulation
-      const request = await this.walletClient.prepareTransactionRequest({
+      // Fees come from the strategy; the limit is left to the wallet client
+      // when not given, as estimation fails for batches that revert
+      const fees = await resolveGasFees(
+        this.publicClient,
+        this.gasConfig,
+        params.gasOptions
+      );
+      hash = await this.walletClient.sendTransaction({
         account: this.getAccount(),
+        chain: this.walletClient.chain,
         to: this.safeAddress,
         data: calldata,
-        chain: this.walletClient.chain,
         gas: params.gasOptions?.gas,
-        gasPrice: params.gasOptions?.gasPrice,
-        maxFeePerGas: params.gasOptions?.maxFeePerGas,
-        maxPriorityFeePerGas: params.gasOptions?.maxPriorityFeePerGas,
-      } as any);
-
-      console.log("📤 Sending transaction...");
-      console.log("To:", request.to);
-      console.log("Gas:", request.gas);
-
-      // Send the transaction directly without simulation
-      const hash = await this.walletClient.sendTransaction(request as any);
-
-      console.log("✅ Transaction sent:", hash);
-      console.log("🔗 View on explorer");
-      console.log("⏳ Waiting for confirmation...");
-
-      // Wait for the transaction receipt
-      const receipt = await this.publicClient.waitForTransactionReceipt({
-        hash,
-        timeout: 120_000, // 2 minute timeout
+        ...fees,
       });
-
-      console.log("\n📦 Receipt received");
-      console.log("Status:", receipt.status);
-      console.log("Block:", receipt.blockNumber);
-      console.log("Gas used:", receipt.gasUsed);
-
-      if (receipt.status === "reverted") {
-        console.error("\n❌ Transaction REVERTED onchain!");
-        await this.extractRevertReason(hash, receipt.blockNumber);
-      } else {
-        console.log("\n✅ Transaction SUCCEEDED onchain!");
-      }
-
-      return {
-        hash,
-        blockNumber: receipt.blockNumber,
-        gasUsed: receipt.gasUsed,
-        status: receipt.status,
-        returnData: [],
-      };
-    } catch (sendError: any) {
-      console.error("\n❌ Failed to send transaction");
-      console.error("Error:", sendError.message);
-      console.error("Stack:", sendError.stack);
-      throw sendError;
+    } catch (sendError) {
+      throw await this.toTypedError(sendError, params.calls);
     }
-  }
-
-  /**
-   * Extract revert reason from a failed transaction
-   * @private
-   */
-  private async extractRevertReason(hash: `0x${string}`, blockNumber: bigint) {
-    try {
-      console.log("🔍 Extracting revert reason...");
 
-      const tx = await this.publicClient.getTransaction({ hash });
-
-      // Replay the transaction at the previous block to get the error
-      await this.publicClient.call({
-        account: tx.from,
-        to: tx.to!,
-        data: tx.input,
-        blockNumber: blockNumber - 1n,
-      });
-    } catch (error: any) {
-      console.error("\n=== REVERT REASON ===");
-      console.error("Message:", error.message);
-      console.error("Short Message:", error.shortMessage);
-
-      const errorData = error.cause?.data || error.data;
-      if (errorData) {
-        const selector = errorData.slice(0, 10);
-        console.error("\nError Selector:", selector);
-        this.logKnownError(selector);
-
-        // Try to decode with ABI
-        try {
-          const decoded = decodeErrorResult({
-            abi: LEGION_SAFE_ABI,
-            data: errorData,
-          });
-          console.error("Decoded Error:", decoded);
-        } catch (decodeErr) {
-          console.error("Could not decode with ABI");
-        }
-      }
-
-      if (error.metaMessages) {
-        console.error("\nMeta Messages:");
-        error.metaMessages.forEach((msg: string) => console.error("  -", msg));
-      }
-    }
-  }
+    const receipt = await this.publicClient.waitForTransactionReceipt({
+      hash,
+      timeout: 120_000,
+    });
+    const error =
+      receipt.status === "reverted"
+        ? await this.getMinedRevertError(hash, receipt.blockNumber, params.calls)
+        : undefined;
 
-  /**
-   * Log known error selectors with descriptions
-   * @private
-   */
-  private logKnownError(selector: string) {
-    const knownErrors: Record<string, string> = {
-      "0xa5fa8d2b":
-        "SpenderNotWhitelisted() - The spender address is not whitelisted for approvals",
-      "0x82b42900":
-        "Unauthorized() - Caller is not authorized (not owner or operator)",
-      "0xd47e0481": "CallNotAuthorized() - The function call is not authorized",
-      "0x3f2c5891": "InvalidAddress() - An invalid address was provided",
-      "0x750b219c": "InvalidAmount() - An invalid amount was provided",
-      "0x5ff9a827": "CallFailed(bytes) - The external call failed",
-      "0xc49eb42f": "WithdrawalFailed() - ETH withdrawal failed",
-      "0xc1ab6dc1": "InvalidInput() - Invalid input parameters",
-      "0x08c379a0": "Error(string) - Standard Solidity revert with message",
-      "0x4e487b71": "Panic(uint256) - Solidity panic error",
+    const result: TransactionResult = {
+      hash,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed,
+      status: receipt.status,
     };
 
-    if (knownErrors[selector]) {
-      console.error("🔍 Decoded:", knownErrors[selector]);
-    } else {
-      console.error("❓ Unknown error selector");
-      console.error(
-        "🌐 Lookup at:",
-        `https://openchain.xyz/signatures?query=${selector}`
-      );
-      console.error(
-        "🌐 Or at:",
-        `https://www.4byte.directory/signatures/?bytes4_signature=${selector}`
-      );
-    }
+    return {
+      ...result,
+      ...(await this.getBatchReturnData(params.calls, result)),
+      error,
+    };
   }
 
   /**
@@ -373,15 +587,11 @@ export class LegionSafeClient {
    * @returns Transaction result
    */
   async withdrawETH(params: WithdrawETHParams): Promise<TransactionResult> {
-    const hash = await this.walletClient.writeContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "withdrawETH",
-      args: [params.amount],
-      account: this.getAccount(),
-      chain: this.walletClient.chain,
-      ...((params.gasOptions as any) || {}),
-    });
+    const hash = await this.writeSafe(
+      "withdrawETH",
+      [params.amount],
+      params.gasOptions
+    );
 
     return this.waitForTransaction(hash);
   }
@@ -393,15 +603,11 @@ export class LegionSafeClient {
    * @returns Transaction result
    */
   async withdrawAllETH(gasOptions?: GasOptions): Promise<TransactionResult> {
-    const hash = await this.walletClient.writeContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "withdrawAllETH",
-      args: [],
-      account: this.getAccount(),
-      chain: this.walletClient.chain,
-      ...((gasOptions as any) || {}),
-    });
+    const hash = await this.writeSafe(
+      "withdrawAllETH",
+      [],
+      gasOptions
+    );
 
     return this.waitForTransaction(hash);
   }
@@ -413,15 +619,11 @@ export class LegionSafeClient {
    * @returns Transaction result
    */
   async withdrawERC20(params: WithdrawERC20Params): Promise<TransactionResult> {
-    const hash = await this.walletClient.writeContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "withdrawERC20",
-      args: [params.token, params.amount],
-      account: this.getAccount(),
-      chain: this.walletClient.chain,
-      ...((params.gasOptions as any) || {}),
-    });
+    const hash = await this.writeSafe(
+      "withdrawERC20",
+      [params.token, params.amount],
+      params.gasOptions
+    );
 
     return this.waitForTransaction(hash);
   }
@@ -437,15 +639,11 @@ export class LegionSafeClient {
     token: Address,
     gasOptions?: GasOptions
   ): Promise<TransactionResult> {
-    const hash = await this.walletClient.writeContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "withdrawAllERC20",
-      args: [token],
-      account: this.getAccount(),
-      chain: this.walletClient.chain,
-      ...((gasOptions as any) || {}),
-    });
+    const hash = await this.writeSafe(
+      "withdrawAllERC20",
+      [token],
+      gasOptions
+    );
 
     return this.waitForTransaction(hash);
   }
@@ -453,47 +651,51 @@ export class LegionSafeClient {
   /**
    * Get the vault's native token balance
    *
+   * @param options Block to read at
    * @returns Balance information
    */
-  async getETHBalance(): Promise<BalanceInfo> {
-    const balance = await this.publicClient.readContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "getETHBalance",
-    });
+  async getETHBalance(options?: ReadOptions): Promise<BalanceInfo> {
+    const balance = await this.reads.read(
+      {
+        address: this.safeAddress,
+        abi: LEGION_SAFE_ABI,
+        functionName: "getETHBalance",
+      },
+      options
+    );
 
-    return {
-      raw: balance,
-      formatted: formatUnits(balance, 18),
-      decimals: 18,
-    };
+    return nativeBalanceInfo(balance);
   }
 
   /**
    * Get the vault's ERC20 token balance
    *
+   * Decimals and symbol are cached after the first read, so later calls
+   * only read the balance.
+   *
    * @param token Token address
+   * @param options Block to read at
    * @returns Balance information with symbol
    */
-  async getTokenBalance(token: Address): Promise<BalanceInfo> {
+  async getTokenBalance(token: Address, options?: ReadOptions): Promise<BalanceInfo> {
+    const cached = this.tokenMetadata.get(token.toLowerCase());
     const [balance, decimals, symbol] = await Promise.all([
-      this.publicClient.readContract({
-        address: this.safeAddress,
-        abi: LEGION_SAFE_ABI,
-        functionName: "getTokenBalance",
-        args: [token],
-      }),
-      this.publicClient.readContract({
-        address: token,
-        abi: ERC20_ABI,
-        functionName: "decimals",
-      }),
-      this.publicClient.readContract({
-        address: token,
-        abi: ERC20_ABI,
-        functionName: "symbol",
-      }),
+      this.reads.read(
+        {
+          address: this.safeAddress,
+          abi: LEGION_SAFE_ABI,
+          functionName: "getTokenBalance",
+          args: [token],
+        },
+        options
+      ),
+      cached?.decimals ??
+        this.reads.read({ address: token, abi: ERC20_ABI, functionName: "decimals" }, options),
+      cached
+        ? cached.symbol
+        : this.reads.read({ address: token, abi: ERC20_ABI, functionName: "symbol" }, options),
     ]);
+    this.tokenMetadata.set(token.toLowerCase(), { decimals, symbol });
 
     return {
       raw: balance,
@@ -505,46 +707,174 @@ export class LegionSafeClient {
 
   /**
    * Get the vault's owner address
+   *
+   * @param options Block to read at
    */
-  async getOwner(): Promise<Address> {
-    return this.publicClient.readContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "owner",
-    });
+  async getOwner(options?: ReadOptions): Promise<Address> {
+    return this.reads.read(
+      {
+        address: this.safeAddress,
+        abi: LEGION_SAFE_ABI,
+        functionName: "owner",
+      },
+      options
+    );
   }
 
   /**
    * Get the vault's operator address
+   *
+   * @param options Block to read at
    */
-  async getOperator(): Promise<Address> {
-    return this.publicClient.readContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "operator",
-    });
+  async getOperator(options?: ReadOptions): Promise<Address> {
+    return this.reads.read(
+      {
+        address: this.safeAddress,
+        abi: LEGION_SAFE_ABI,
+        functionName: "operator",
+      },
+      options
+    );
+  }
+
+  /**
+   * Get the address that can accept ownership (zero address if no transfer is pending)
+   *
+   * @param options Block to read at
+   */
+  async getPendingOwner(options?: ReadOptions): Promise<Address> {
+    return this.reads.read(
+      {
+        address: this.safeAddress,
+        abi: LEGION_SAFE_ABI,
+        functionName: "pendingOwner",
+      },
+      options
+    );
+  }
+
+  /**
+   * Get the owner, pending owner and operator, with the blocks and
+   * timestamps of the ownership events behind them
+   *
+   * @param options Block range
+   *
+   * @example
+   * ```typescript
+   * const status = await client.getOwnershipStatus();
+   * if (status.pendingOwner) {
+   *   console.log(`${status.pendingOwner} can accept since ${status.transferStarted?.timestamp}`);
+   * }
+   * ```
+   */
+  async getOwnershipStatus(
+    options: OwnershipStatusOptions = {}
+  ): Promise<OwnershipStatus> {
+    return getOwnershipStatus(
+      this.publicClient,
+      this.safeAddress,
+      { fromBlock: this.deploymentBlock, ...options },
+      this.reads
+    );
   }
 
   /**
-   * Transfer ownership to a new address (owner only)
+   * Start transferring ownership to a new address (owner only)
+   *
+   * Ownership is two-step: `newOwner` becomes the pending owner and takes
+   * over once it calls acceptOwnership(). Starting a new transfer replaces
+   * any pending one.
    *
    * @param newOwner New owner address
    * @param gasOptions Optional gas configuration
+   * @param options Allow the zero address or the operator as new owner
    * @returns Transaction result
+   * @throws {Error} If `newOwner` is the zero address or the operator and that is not allowed
    */
   async transferOwnership(
     newOwner: Address,
+    gasOptions?: GasOptions,
+    options: TransferOwnershipOptions = {}
+  ): Promise<TransactionResult> {
+    if (newOwner === ZERO_ADDRESS && !options.allowZeroAddress) {
+      throw new Error(
+        "Refusing to transfer ownership to the zero address; use cancelOwnershipTransfer() to cancel a pending transfer"
+      );
+    }
+    if (!options.allowOperator) {
+      const operator = await this.getOperator();
+      if (newOwner.toLowerCase() === operator.toLowerCase()) {
+        throw new Error(
+          `Refusing to transfer ownership to the operator ${operator}; pass allowOperator to merge the roles`
+        );
+      }
+    }
+
+    const hash = await this.writeSafe(
+      "transferOwnership",
+      [newOwner],
+      gasOptions
+    );
+
+    return this.waitForTransaction(hash);
+  }
+
+  /**
+   * Cancel a pending ownership transfer (owner only)
+   *
+   * @param gasOptions Optional gas configuration
+   * @returns Transaction result
+   */
+  async cancelOwnershipTransfer(
     gasOptions?: GasOptions
   ): Promise<TransactionResult> {
-    const hash = await this.walletClient.writeContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "transferOwnership",
-      args: [newOwner],
-      account: this.getAccount(),
-      chain: this.walletClient.chain,
-      ...((gasOptions as any) || {}),
-    });
+    const hash = await this.writeSafe(
+      "transferOwnership",
+      [ZERO_ADDRESS],
+      gasOptions
+    );
+
+    return this.waitForTransaction(hash);
+  }
+
+  /**
+   * Accept a pending ownership transfer (pending owner only)
+   *
+   * The wallet client's account must be the pending owner.
+   *
+   * @param gasOptions Optional gas configuration
+   * @returns Transaction result
+   * @throws {OwnableUnauthorizedAccountError} If the account is not the pending owner
+   */
+  async acceptOwnership(gasOptions?: GasOptions): Promise<TransactionResult> {
+    const hash = await this.writeSafe("acceptOwnership", [], gasOptions);
+
+    return this.waitForTransaction(hash);
+  }
+
+  /**
+   * Renounce ownership (owner only)
+   *
+   * Irreversible: withdrawals, policy changes and upgrades all require the
+   * owner, so whatever the vault holds stays under the operator's current
+   * permissions for good. Requires `allowLockout` to be set.
+   *
+   * @param gasOptions Optional gas configuration
+   * @param options Must set `allowLockout`
+   * @returns Transaction result
+   * @throws {Error} If `allowLockout` is not set
+   */
+  async renounceOwnership(
+    gasOptions?: GasOptions,
+    options: { allowLockout?: boolean } = {}
+  ): Promise<TransactionResult> {
+    if (!options.allowLockout) {
+      throw new Error(
+        "Renouncing ownership locks the vault's funds and policy forever; pass allowLockout to confirm"
+      );
+    }
+
+    const hash = await this.writeSafe("renounceOwnership", [], gasOptions);
 
     return this.waitForTransaction(hash);
   }
@@ -560,15 +890,64 @@ export class LegionSafeClient {
     newOperator: Address,
     gasOptions?: GasOptions
   ): Promise<TransactionResult> {
-    const hash = await this.walletClient.writeContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "setOperator",
-      args: [newOperator],
-      account: this.getAccount(),
-      chain: this.walletClient.chain,
-      ...((gasOptions as any) || {}),
-    });
+    const hash = await this.writeSafe(
+      "setOperator",
+      [newOperator],
+      gasOptions
+    );
+
+    return this.waitForTransaction(hash);
+  }
+
+  /**
+   * Get the implementation the vault proxy runs, from its ERC-1967 slot
+   */
+  async getImplementation(): Promise<Address> {
+    return getImplementation(this.publicClient, this.safeAddress);
+  }
+
+  /**
+   * Check an upgrade without sending it
+   *
+   * @param params New implementation and storage layouts
+   * @returns Current implementation and any reasons not to upgrade
+   */
+  async validateUpgrade(
+    params: UpgradeValidationParams
+  ): Promise<UpgradeValidation> {
+    return validateUpgrade(this.publicClient, this.safeAddress, params);
+  }
+
+  /**
+   * Upgrade the vault to a new implementation (owner only)
+   *
+   * Runs validateUpgrade() first: the new implementation must be deployed,
+   * still expose proxiableUUID(), and keep the storage layout of the running
+   * one (`newLayout`, from the new implementation's Foundry build artifact).
+   *
+   * @param params New implementation, its storage layout and optional init call
+   * @returns Transaction result
+   * @throws {UpgradeValidationError} If the upgrade is unsafe
+   * @throws {LegionSafeError} If the call reverts
+   *
+   * @example
+   * ```typescript
+   * const artifact = JSON.parse(readFileSync("out/LegionSafe.sol/LegionSafe.json", "utf8"));
+   * await client.upgrade({
+   *   newImplementation: "0xNewImplementation",
+   *   newLayout: storageLayoutFromArtifact(artifact),
+   * });
+   * ```
+   */
+  async upgrade(params: UpgradeParams): Promise<TransactionResult> {
+    const { issues } = await this.validateUpgrade(params);
+    if (issues.length > 0) throw new UpgradeValidationError(issues);
+
+    const hash = await this.writeSafe(
+      "upgradeToAndCall",
+      [params.newImplementation, params.initData ?? "0x"],
+      params.gasOptions
+    );
 
     return this.waitForTransaction(hash);
   }
@@ -594,15 +973,11 @@ export class LegionSafeClient {
   async setSpenderWhitelist(
     params: SetSpenderWhitelistParams
   ): Promise<TransactionResult> {
-    const hash = await this.walletClient.writeContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "setSpenderWhitelist",
-      args: [params.spender, params.whitelisted],
-      account: this.getAccount(),
-      chain: this.walletClient.chain,
-      ...((params.gasOptions as any) || {}),
-    });
+    const hash = await this.writeSafe(
+      "setSpenderWhitelist",
+      [params.spender, params.whitelisted],
+      params.gasOptions
+    );
 
     return this.waitForTransaction(hash);
   }
@@ -611,15 +986,19 @@ export class LegionSafeClient {
    * Check if a spender is whitelisted
    *
    * @param spender Spender address
+   * @param options Block to read at
    * @returns Whether the spender is whitelisted
    */
-  async isSpenderWhitelisted(spender: Address): Promise<boolean> {
-    return this.publicClient.readContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "whitelistedSpenders",
-      args: [spender],
-    });
+  async isSpenderWhitelisted(spender: Address, options?: ReadOptions): Promise<boolean> {
+    return this.reads.read(
+      {
+        address: this.safeAddress,
+        abi: LEGION_SAFE_ABI,
+        functionName: "whitelistedSpenders",
+        args: [spender],
+      },
+      options
+    );
   }
 
   /**
@@ -633,15 +1012,11 @@ export class LegionSafeClient {
     token: Address,
     gasOptions?: GasOptions
   ): Promise<TransactionResult> {
-    const hash = await this.walletClient.writeContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "addTrackedToken",
-      args: [token],
-      account: this.getAccount(),
-      chain: this.walletClient.chain,
-      ...((gasOptions as any) || {}),
-    });
+    const hash = await this.writeSafe(
+      "addTrackedToken",
+      [token],
+      gasOptions
+    );
 
     return this.waitForTransaction(hash);
   }
@@ -657,15 +1032,11 @@ export class LegionSafeClient {
     token: Address,
     gasOptions?: GasOptions
   ): Promise<TransactionResult> {
-    const hash = await this.walletClient.writeContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "removeTrackedToken",
-      args: [token],
-      account: this.getAccount(),
-      chain: this.walletClient.chain,
-      ...((gasOptions as any) || {}),
-    });
+    const hash = await this.writeSafe(
+      "removeTrackedToken",
+      [token],
+      gasOptions
+    );
 
     return this.waitForTransaction(hash);
   }
@@ -673,14 +1044,18 @@ export class LegionSafeClient {
   /**
    * Get the list of tracked tokens
    *
+   * @param options Block to read at
    * @returns Array of tracked token addresses
    */
-  async getTrackedTokens(): Promise<Address[]> {
-    return this.publicClient.readContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "getTrackedTokens",
-    }) as Promise<Address[]>;
+  async getTrackedTokens(options?: ReadOptions): Promise<Address[]> {
+    return this.reads.read(
+      {
+        address: this.safeAddress,
+        abi: LEGION_SAFE_ABI,
+        functionName: "getTrackedTokens",
+      },
+      options
+    ) as Promise<Address[]>;
   }
 
   /**
@@ -708,15 +1083,11 @@ export class LegionSafeClient {
   async setSpendingLimit(
     params: SetSpendingLimitParams
   ): Promise<TransactionResult> {
-    const hash = await this.walletClient.writeContract({
-      address: this.safeAddress,
-      abi: LEGION_SAFE_ABI,
-      functionName: "setSpendingLimit",
-      args: [params.token, params.limitPerWindow, params.windowDuration || 0n],
-      account: this.getAccount(),
-      chain: this.walletClient.chain,
-      ...((params.gasOptions as any) || {}),
-    });
+    const hash = await this.writeSafe(
+      "setSpendingLimit",
+      [params.token, params.limitPerWindow, params.windowDuration || 0n],
+      params.gasOptions
+    );
 
     return this.waitForTransaction(hash);
   }
@@ -725,6 +1096,7 @@ export class LegionSafeClient {
    * Get spending limit information for a token
    *
    * @param token Token address
+   * @param options Block to read at
    * @returns Spending limit info including remaining amount and window end time
    *
    * @example
@@ -734,32 +1106,680 @@ export class LegionSafeClient {
    * console.log(`Window ends at: ${new Date(Number(info.windowEndsAt) * 1000)}`);
    * ```
    */
-  async getSpendingLimitInfo(token: Address): Promise<SpendingLimitInfo> {
+  async getSpendingLimitInfo(
+    token: Address,
+    options?: ReadOptions
+  ): Promise<SpendingLimitInfo> {
     const [limitData, remainingData] = await Promise.all([
-      this.publicClient.readContract({
-        address: this.safeAddress,
-        abi: LEGION_SAFE_ABI,
-        functionName: "spendingLimits",
-        args: [token],
-      }) as Promise<[bigint, bigint, bigint, bigint]>,
-      this.publicClient.readContract({
-        address: this.safeAddress,
-        abi: LEGION_SAFE_ABI,
-        functionName: "getRemainingLimit",
-        args: [token],
-      }) as Promise<[bigint, bigint]>,
+      this.reads.read(
+        {
+          address: this.safeAddress,
+          abi: LEGION_SAFE_ABI,
+          functionName: "spendingLimits",
+          args: [token],
+        },
+        options
+      ) as Promise<[bigint, bigint, bigint, bigint]>,
+      this.reads.read(
+        {
+          address: this.safeAddress,
+          abi: LEGION_SAFE_ABI,
+          functionName: "getRemainingLimit",
+          args: [token],
+        },
+        options
+      ) as Promise<[bigint, bigint]>,
+    ]);
+
+    return spendingLimitInfo(limitData, remainingData);
+  }
+
+  /**
+   * Read owner, operator, balances and spending limits of every tracked
+   * token, and the whitelist state of the given spenders, at one block
+   *
+   * Everything is read in one aggregated call. Tracked tokens are only known
+   * once they are read, so the tokens seen by the previous snapshot are read
+   * along with them; a second call is only made for tokens that were added
+   * since (or on the first snapshot), pinned to the same block.
+   *
+   * @param options Extra tokens, spenders and block to read at
+   *
+   * @example
+   * ```typescript
+   * const snapshot = await client.getVaultSnapshot({ spenders: [routerAddress] });
+   * for (const { token, balance, limit } of snapshot.tokens) {
+   *   console.log(token, balance.formatted, limit?.remaining);
+   * }
+   * ```
+   */
+  async getVaultSnapshot(options: VaultSnapshotOptions = {}): Promise<VaultSnapshot> {
+    const vault = { address: this.safeAddress, abi: LEGION_SAFE_ABI };
+    const spenders = options.spenders ?? [];
+    const calls: ContractRead[] = [
+      { ...vault, functionName: "owner" },
+      { ...vault, functionName: "pendingOwner" },
+      { ...vault, functionName: "operator" },
+      { ...vault, functionName: "getTrackedTokens" },
+      { ...vault, functionName: "getETHBalance" },
+      ...spenders.map((spender) => ({ ...vault, functionName: "whitelistedSpenders", args: [spender] })),
+    ];
+    const candidates = uniqueAddresses([...this.lastTrackedTokens, ...(options.tokens ?? [])]);
+    const tokenReads = candidates.map((token) => this.queueTokenSnapshot(token, calls));
+
+    const { blockNumber, results } = await this.reads.readAllWithBlock(calls, options);
+    const [owner, pendingOwner, operator, trackedTokens, nativeBalance] = results
+      .slice(0, 5)
+      .map((result) => readValue(result)) as [Address, Address, Address, Address[], bigint];
+    this.lastTrackedTokens = trackedTokens;
+
+    const tokens = uniqueAddresses([...trackedTokens, ...(options.tokens ?? [])]);
+    const read = new Set(candidates.map((token) => token.toLowerCase()));
+    const missing = tokens.filter((token) => !read.has(token.toLowerCase()));
+    const missingCalls: ContractRead[] = [];
+    const missingReads = missing.map((token) => this.queueTokenSnapshot(token, missingCalls));
+    const missingResults = await this.reads.readAll(missingCalls, { blockNumber });
+
+    const native = nativeBalanceInfo(nativeBalance);
+    const tracked = new Set(trackedTokens.map((token) => token.toLowerCase()));
+    const snapshots = new Map<string, Omit<VaultTokenSnapshot, "tracked">>();
+    candidates.forEach((token, i) => snapshots.set(token.toLowerCase(), tokenReads[i](results, native)));
+    missing.forEach((token, i) => snapshots.set(token.toLowerCase(), missingReads[i](missingResults, native)));
+
+    return {
+      blockNumber,
+      owner,
+      pendingOwner: pendingOwner === ZERO_ADDRESS ? undefined : pendingOwner,
+      operator,
+      nativeBalance: native,
+      trackedTokens,
+      tokens: tokens.map((token) => ({
+        ...snapshots.get(token.toLowerCase())!,
+        token,
+        tracked: tracked.has(token.toLowerCase()),
+      })),
+      spenders: spenders.map((spender, i) => ({
+        spender,
+        whitelisted: readValue<boolean>(results[5 + i]),
+      })),
+    };
+  }
+
+  /**
+   * Queue the reads behind one token of a vault snapshot
+   *
+   * @returns Function building the token's snapshot from the call results
+   */
+  private queueTokenSnapshot(
+    token: Address,
+    calls: ContractRead[]
+  ): (results: ReadResult[], nativeBalance: BalanceInfo) => Omit<VaultTokenSnapshot, "tracked"> {
+    const vault = { address: this.safeAddress, abi: LEGION_SAFE_ABI };
+    const push = (call: ContractRead) => calls.push(call) - 1;
+    const isNative = token === ZERO_ADDRESS;
+    const cached = this.tokenMetadata.get(token.toLowerCase());
+
+    const balance = isNative ? -1 : push({ ...vault, functionName: "getTokenBalance", args: [token] });
+    const decimals = isNative || cached ? -1 : push({ address: token, abi: ERC20_ABI, functionName: "decimals" });
+    const symbol = isNative || cached ? -1 : push({ address: token, abi: ERC20_ABI, functionName: "symbol" });
+    const limit = push({ ...vault, functionName: "spendingLimits", args: [token] });
+    const remaining = push({ ...vault, functionName: "getRemainingLimit", args: [token] });
+
+    return (results, nativeBalance) => {
+      const info = spendingLimitInfo(
+        readValue<[bigint, bigint, bigint, bigint]>(results[limit]),
+        readValue<[bigint, bigint]>(results[remaining])
+      );
+      const hasLimit = info.limitPerWindow !== 0n && info.windowDuration !== 0n;
+      if (isNative) {
+        return { token, balance: nativeBalance, limit: hasLimit ? info : undefined };
+      }
+
+      const metadata = cached ?? {
+        decimals: readValue<number>(results[decimals]),
+        // Some tokens return bytes32 or nothing for symbol()
+        symbol: results[symbol].status === "success" ? (results[symbol].result as string) : undefined,
+      };
+      this.tokenMetadata.set(token.toLowerCase(), metadata);
+      const raw = readValue<bigint>(results[balance]);
+
+      return {
+        token,
+        balance: { raw, formatted: formatUnits(raw, metadata.decimals), ...metadata },
+        limit: hasLimit ? info : undefined,
+      };
+    };
+  }
+
+  /**
+   * Predict whether a batch would revert with SpendingLimitExceeded
+   *
+   * Simulates the batch call by call, measures how much of each tracked token
+   * every call spends and replays that against the current window, including
+   * the reset that happens once the block timestamp crosses `windowEndsAt`.
+   * Requires an RPC with `eth_simulateV1`.
+   *
+   * @param params Batch to check
+   * @param options Execution timestamp override
+   * @returns Per-token spend, headroom and whether the limit would be breached
+   *
+   * @example
+   * ```typescript
+   * const preflight = await client.checkSpendingLimits({ calls });
+   * for (const token of preflight.tokens) {
+   *   if (token.wouldExceed) {
+   *     console.log(`${token.token}: spend ${token.spend} > headroom ${token.headroom}`);
+   *   }
+   * }
+   * ```
+   */
+  async checkSpendingLimits(
+    params: ManageBatchParams,
+    options?: SpendingPreflightOptions
+  ): Promise<SpendingPreflightResult> {
+    return preflightSpendingLimits(
+      this.publicClient,
+      this.safeAddress,
+      params,
+      options,
+      this.reads
+    );
+  }
+
+  /**
+   * Watch the vault's events and derived signals
+   *
+   * Events are delivered once they are `options.confirmations` blocks deep
+   * (default 2). The subscription is re-established automatically after RPC
+   * errors and resumes where it left off.
+   *
+   * @param handlers Callbacks per event type, plus `onSignal` for derived alerts
+   * @param options Confirmation depth, alert threshold and expected implementations
+   * @returns Function that stops watching
+   *
+   * @example
+   * ```typescript
+   * const unwatch = await client.watch(
+   *   {
+   *     onManaged: (e) => console.log("call to", e.args.target),
+   *     onSignal: (s) => alert(s.type),
+   *     onError: console.error,
+   *   },
+   *   { confirmations: 3, expectedImplementations: [currentImpl] }
+   * );
+   * ```
+   */
+  async watch(
+    handlers: WatchHandlers,
+    options?: WatchOptions
+  ): Promise<() => void> {
+    const watcher = new LegionSafeWatcher(
+      this.publicClient,
+      this.safeAddress,
+      handlers,
+      options,
+      this.reads
+    );
+    await watcher.start();
+    return () => watcher.stop();
+  }
+
+  /**
+   * List the (target, selector) pairs and spenders currently enabled
+   *
+   * `authorizedCalls` and `whitelistedSpenders` are mappings and cannot be
+   * enumerated, so the policy is rebuilt from `CallAuthorized` and
+   * `SpenderWhitelisted` events since the deployment block and every entry is
+   * confirmed against the mapping. Selectors are labelled with ERC20 and
+   * KyberSwap signatures out of the box; pass `abis` or `signatures` for others.
+   *
+   * @param options Block range and extra selector signatures
+   * @returns Enabled calls and spenders at the snapshot block
+   *
+   * @example
+   * ```typescript
+   * const snapshot = await client.getAuthorizationSnapshot({ abis: [ROUTER_ABI] });
+   * for (const call of snapshot.calls) {
+   *   console.log(call.target, call.signature ?? call.selector);
+   * }
+   * ```
+   */
+  async getAuthorizationSnapshot(
+    options: AuthorizationSnapshotOptions = {}
+  ): Promise<AuthorizationSnapshot> {
+    return getAuthorizationSnapshot(
+      this.publicClient,
+      this.safeAddress,
+      { fromBlock: this.deploymentBlock, ...options },
+      this.reads
+    );
+  }
+
+  /**
+   * Create a transaction manager that pipelines manage()/manageBatch() calls
+   *
+   * The manager assigns nonces locally and returns as soon as a transaction is
+   * broadcast, so several calls can be in flight at once. Use one manager per
+   * operator account and don't send from that account by other means while it
+   * is in use.
+   *
+   * @param options Confirmation depth, polling and fee bump settings
+   *
+   * @example
+   * ```typescript
+   * const txm = client.createTransactionManager();
+   * const submission = await txm.manage({ target, data, value: 0n });
+   * const result = await submission.wait();
+   * ```
+   */
+  createTransactionManager(
+    options?: TransactionManagerOptions
+  ): LegionSafeTransactionManager {
+    return new LegionSafeTransactionManager(
+      this.walletClient,
+      this.publicClient,
+      this.safeAddress,
+      { gas: this.gasConfig, ...options }
+    );
+  }
+
+  // ============================================
+  // DEX Integration Methods
+  // ============================================
+
+  /**
+   * Create a token screener that probes round trips from the vault's address
+   *
+   * @param options Tax, liquidity and owner-control thresholds
+   */
+  createTokenScreener(options?: TokenScreenerOptions): TokenScreener {
+    return new TokenScreener(
+      this.publicClient,
+      { probe: this.safeAddress, ...options },
+      this.reads
+    );
+  }
+
+  /**
+   * Create a router that swaps through whichever provider nets the most output
+   *
+   * @param providers Aggregators to compare
+   * @param options Per-provider timeout, native price and gas price
+   */
+  createBestRouteSwapper(
+    providers: SwapProvider[],
+    options?: BestRouteSwapperOptions
+  ): BestRouteSwapper {
+    return new BestRouteSwapper(this, this.publicClient, providers, options);
+  }
+
+  /**
+   * Swap through any SwapProvider from the vault in one call
+   *
+   * Quotes with the vault as sender and recipient, approves the provider's
+   * spender for ERC20 input, checks the approval and router selector against
+   * the vault's whitelist and authorizations, simulates, and sends the batch.
+   *
+   * @param provider Aggregator to route through (KyberSwapClient, OneInchClient, ...)
+   * @param params Tokens, amount and slippage
+   * @returns Batch result with the quoted and realized output amounts
+   * @throws {BatchValidationError} If the router or its selector is not allowed
+   * @throws {LegionSafeError} If the simulation or the mined transaction reverts
+   *
+   * @example
+   * ```typescript
+   * const swap = await client.swap(new ParaSwapClient(56), {
+   *   tokenIn: NATIVE_TOKEN_ADDRESS,
+   *   tokenOut: USDT,
+   *   amountIn: parseEther("0.1"),
+   *   slippageBps: 50,
+   * });
+   * console.log(`received ${swap.amountOut} (quoted ${swap.quotedAmountOut})`);
+   * ```
+   */
+  async swap(provider: SwapProvider, params: SwapParams): Promise<SwapResult> {
+    await this.assertProviderChain(provider);
+
+    const quote = await provider.quote(params);
+    const calldata = await provider.buildCalldata(quote, {
+      sender: this.safeAddress,
+      recipient: this.safeAddress,
+      slippageBps: params.slippageBps ?? 50,
+    });
+
+    return this.executeSwap(calldata, params);
+  }
+
+  /**
+   * Validate, simulate and send a swap built by a SwapProvider
+   *
+   * @param calldata Router call built with the vault as sender and recipient
+   * @param params Output token, simulation and gas settings
+   * @throws {TokenScreeningError} If `params.screener` rejects the output token
+   * @throws {BatchValidationError} If the router or its selector is not allowed
+   * @throws {LegionSafeError} If the simulation or the mined transaction reverts
+   */
+  async executeSwap(
+    calldata: SwapCalldata,
+    params: Pick<SwapParams, "tokenOut" | "skipSimulation" | "screener" | "gasOptions">
+  ): Promise<SwapResult> {
+    if (params.screener && !isNativeToken(params.tokenOut)) {
+      await params.screener.assertSafe(params.tokenOut);
+    }
+
+    const batch = this.batch().swap(calldata);
+
+    const issues = await batch.validate();
+    if (issues.length > 0) throw new BatchValidationError(issues);
+
+    // Balance deltas use the zero address for the native token
+    const outToken = isNativeToken(params.tokenOut) ? ZERO_ADDRESS : params.tokenOut;
+    let simulatedAmountOut: bigint | undefined;
+    if (!params.skipSimulation) {
+      const sim = await this.simulate.manageBatch(
+        { calls: batch.build() },
+        { tokens: [outToken] }
+      );
+      if (!sim.success) throw sim.error;
+      simulatedAmountOut = sim.balanceDeltas?.find(
+        (delta) => delta.token.toLowerCase() === outToken.toLowerCase()
+      )?.delta;
+    }
+
+    // Throws the decoded revert if the swap is mined but reverts, so a
+    // failed swap never reports a zero output as settled
+    const {
+      result,
+      receipt: { logs },
+    } = await this.sendManageBatch({
+      calls: batch.build(),
+      gasOptions: params.gasOptions,
+    });
+
+    const [spent, received] = await Promise.all([
+      isNativeToken(calldata.tokenIn)
+        ? { amount: calldata.value, source: "call-value" as const }
+        : this.measureSettledAmount(logs, calldata.tokenIn, "spent", result.blockNumber),
+      this.measureSettledAmount(logs, outToken, "received", result.blockNumber),
     ]);
 
-    const [limitPerWindow, windowDuration, spent, lastWindowStart] = limitData;
-    const [remaining, windowEndsAt] = remainingData;
+    return {
+      ...result,
+      provider: calldata.provider,
+      routerAddress: calldata.target,
+      amountIn: calldata.amountIn,
+      quotedAmountOut: calldata.amountOut,
+      simulatedAmountOut,
+      amountOut: received.amount,
+      amountOutSource: received.source,
+      amountSpent: spent.amount,
+      amountSpentSource: spent.source,
+      realizedSlippageBps: realizedSlippageBps(calldata.amountOut, received.amount),
+    };
+  }
+
+  /**
+   * Swap from the vault until it holds a given amount of the output token
+   *
+   * Sizes the input with quoteExactOutput() (aggregators only quote exact
+   * input), builds the calldata so its minimum output covers `amountOut`
+   * after slippage and `tokenOutTaxBps`, and executes it like swap(). The
+   * vault may receive somewhat more than `amountOut`, never less.
+   *
+   * @param provider Aggregator to route through
+   * @param params Output target, input cap and slippage
+   * @returns Swap result with the target and the measured amounts
+   * @throws {ExactOutputUnreachableError} If `maxAmountIn` does not cover the target
+   * @throws {BatchValidationError} If the router or its selector is not allowed
+   * @throws {LegionSafeError} If the simulation or the mined transaction reverts
+   *
+   * @example
+   * ```typescript
+   * const swap = await client.swapExactOutput(new KyberSwapClient(56), {
+   *   tokenIn: USDT,
+   *   tokenOut: NATIVE_TOKEN_ADDRESS,
+   *   amountOut: parseEther("1"),
+   *   maxAmountIn: parseUnits("700", 18),
+   * });
+   * console.log(`spent ${swap.amountSpent} for ${swap.amountOut}`);
+   * ```
+   */
+  async swapExactOutput(
+    provider: SwapProvider,
+    params: ExactOutputSwapParams
+  ): Promise<ExactOutputSwapResult> {
+    await this.assertProviderChain(provider);
+
+    const slippageBps = params.slippageBps ?? 50;
+    const { quote, quotes } = await quoteExactOutput(provider, {
+      ...params,
+      slippageBps,
+    });
+    const calldata = await provider.buildCalldata(quote, {
+      sender: this.safeAddress,
+      recipient: this.safeAddress,
+      slippageBps,
+    });
 
     return {
-      limitPerWindow,
-      windowDuration,
-      spent,
-      lastWindowStart,
-      remaining,
-      windowEndsAt,
+      ...(await this.executeSwap(calldata, params)),
+      targetAmountOut: params.amountOut,
+      quotes,
     };
   }
+
+  /**
+   * Swap through KyberSwap from the vault in one call
+   *
+   * Shorthand for `swap(new KyberSwapClient(chainId), params)`.
+   *
+   * @example
+   * ```typescript
+   * const swap = await client.swapViaKyber({
+   *   tokenIn: NATIVE_TOKEN_ADDRESS,
+   *   tokenOut: USDT,
+   *   amountIn: parseEther("0.1"),
+   *   slippageBps: 50,
+   * });
+   * console.log(`received ${swap.amountOut} (quoted ${swap.quotedAmountOut})`);
+   * ```
+   */
+  async swapViaKyber(params: SwapViaKyberParams): Promise<SwapViaKyberResult> {
+    const chainId =
+      this.walletClient.chain?.id ?? (await this.publicClient.getChainId());
+    return this.swap(new KyberSwapClient(chainId), params);
+  }
+
+  /**
+   * Throw if a provider quotes for a different chain than the vault's
+   */
+  private async assertProviderChain(provider: SwapProvider): Promise<void> {
+    const chainId =
+      this.walletClient.chain?.id ?? (await this.publicClient.getChainId());
+    if (provider.chainId !== chainId) {
+      throw new Error(
+        `${provider.name} is configured for chain ${provider.chainId}, but the vault is on chain ${chainId}`
+      );
+    }
+  }
+
+  /**
+   * Amount of a token the vault received or spent in a swap transaction
+   *
+   * Reads the token's Transfer events in the receipt, which exclude transfer
+   * tax and other activity in the block. Native token and tokens that emitted
+   * no Transfer fall back to the vault balance before and after the block.
+   */
+  private async measureSettledAmount(
+    logs: Log[],
+    token: Address,
+    direction: "received" | "spent",
+    blockNumber: bigint
+  ): Promise<{ amount: bigint; source: SettlementSource }> {
+    if (token !== ZERO_ADDRESS) {
+      const flow = measureTokenFlow(logs, token, this.safeAddress);
+      if (flow.transfers > 0) {
+        const [plus, minus] =
+          direction === "received" ? [flow.received, flow.sent] : [flow.sent, flow.received];
+        return { amount: plus > minus ? plus - minus : 0n, source: "transfer-logs" };
+      }
+    }
+
+    const [before, after] = await Promise.all([
+      this.readVaultBalance(token, blockNumber - 1n),
+      this.readVaultBalance(token, blockNumber),
+    ]);
+    const [plus, minus] = direction === "received" ? [after, before] : [before, after];
+    return { amount: plus > minus ? plus - minus : 0n, source: "balance-snapshot" };
+  }
+
+  /**
+   * Vault balance of a token (zero address for native token) at a block
+   */
+  private async readVaultBalance(
+    token: Address,
+    blockNumber: bigint
+  ): Promise<bigint> {
+    return token === ZERO_ADDRESS
+      ? this.reads.read(
+          { address: this.safeAddress, abi: LEGION_SAFE_ABI, functionName: "getETHBalance" },
+          { blockNumber }
+        )
+      : this.reads.read(
+          { address: token, abi: ERC20_ABI, functionName: "balanceOf", args: [this.safeAddress] },
+          { blockNumber }
+        );
+  }
+
+  // ============================================
+  // Policy Methods
+  // ============================================
+
+  /**
+   * Diff a desired vault policy against on-chain state
+   *
+   * Nothing is sent; render the result with formatPolicyPlan() and pass it to
+   * applyPolicy() once reviewed.
+   *
+   * @param desired Desired operator, calls, spenders, tracked tokens and limits
+   * @param options Pruning and event replay range
+   * @returns Changes needed, in the order they would be sent
+   *
+   * @example
+   * ```typescript
+   * const plan = await client.planPolicy({
+   *   whitelistedSpenders: [KYBER_ROUTER],
+   *   authorizedCalls: [{ target: USDT, signature: "approve(address,uint256)" }],
+   *   trackedTokens: [USDT],
+   *   spendingLimits: [{ token: USDT, limitPerWindow: "1000000000", windowDuration: 3600 }],
+   * });
+   * console.log(formatPolicyPlan(plan));
+   * ```
+   */
+  async planPolicy(
+    desired: VaultPolicy,
+    options: PolicyPlanOptions = {}
+  ): Promise<PolicyPlan> {
+    return planPolicy(
+      this.publicClient,
+      this.safeAddress,
+      desired,
+      { fromBlock: this.deploymentBlock, ...options },
+      this.reads
+    );
+  }
+
+  /**
+   * Send the transactions that bring the vault in line with a policy (owner only)
+   *
+   * Takes either a policy, which is planned first, or a plan returned by
+   * planPolicy(). Transactions are sent one at a time in plan order, each
+   * waiting for its receipt; if one fails or reverts, its decoded error is
+   * thrown and the remaining changes are not sent, so re-planning picks up
+   * where it stopped.
+   *
+   * @param policy Desired policy or a reviewed plan
+   * @param options Planning options and gas configuration for every transaction
+   * @returns The plan and one transaction result per change
+   */
+  async applyPolicy(
+    policy: VaultPolicy | PolicyPlan,
+    options: PolicyPlanOptions & { gasOptions?: GasOptions } = {}
+  ): Promise<PolicyApplyResult> {
+    const plan =
+      "changes" in policy ? policy : await this.planPolicy(policy, options);
+
+    const transactions: PolicyApplyResult["transactions"] = [];
+    for (const change of plan.changes) {
+      const result = await this.applyPolicyChange(change, options.gasOptions);
+      transactions.push({ change, result });
+    }
+
+    return { plan, transactions };
+  }
+
+  private async applyPolicyChange(
+    change: PolicyChange,
+    gasOptions?: GasOptions
+  ): Promise<TransactionResult> {
+    switch (change.kind) {
+      case "setOperator":
+        return this.setOperator(change.to, gasOptions);
+      case "setCallAuthorization":
+        return this.authorizeCall({
+          target: change.target,
+          selector: change.selector,
+          authorized: change.authorized,
+          gasOptions,
+        });
+      case "setSpenderWhitelist":
+        return this.setSpenderWhitelist({
+          spender: change.spender,
+          whitelisted: change.whitelisted,
+          gasOptions,
+        });
+      case "addTrackedToken":
+        return this.addTrackedToken(change.token, gasOptions);
+      case "removeTrackedToken":
+        return this.removeTrackedToken(change.token, gasOptions);
+      case "setSpendingLimit":
+        return this.setSpendingLimit({
+          token: change.token,
+          limitPerWindow: change.to.limitPerWindow,
+          windowDuration: change.to.windowDuration,
+          gasOptions,
+        });
+    }
+  }
+}
+
+function toTransactionResult(hash: Hash, receipt: TransactionReceipt): TransactionResult {
+  return {
+    hash,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed,
+    status: receipt.status,
+  };
+}
+
+function nativeBalanceInfo(balance: bigint): BalanceInfo {
+  return {
+    raw: balance,
+    formatted: formatUnits(balance, 18),
+    decimals: 18,
+  };
+}
+
+function spendingLimitInfo(
+  [limitPerWindow, windowDuration, spent, lastWindowStart]: readonly [bigint, bigint, bigint, bigint],
+  [remaining, windowEndsAt]: readonly [bigint, bigint]
+): SpendingLimitInfo {
+  return {
+    limitPerWindow,
+    windowDuration,
+    spent,
+    lastWindowStart,
+    remaining,
+    windowEndsAt,
+  };
 }
@@ -0,0 +1,87 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { toFunctionSelector, type AbiFunction } from 'viem';
+import { LEGION_SAFE_ABI } from './abis.js';
+import { LEGION_SAFE_STORAGE_LAYOUT } from './generated/legionSafeStorageLayout.js';
+import { compareStorageLayouts, type StorageLayout } from './upgrade.js';
+
+const ARTIFACT_PATH = fileURLToPath(
+  new URL('../../out/LegionSafe.sol/LegionSafe.json', import.meta.url)
+);
+
+type AbiEntry = { type: string; name?: string; inputs?: readonly { type: string }[] };
+
+function entryKey(entry: AbiEntry): string {
+  const inputs = (entry.inputs ?? []).map((input) => input.type).join(',');
+  return `${entry.type}:${entry.name ?? ''}(${inputs})`;
+}
+
+function sortEntries<T extends AbiEntry>(abi: readonly T[]): T[] {
+  return [...abi].sort((a, b) => (entryKey(a) < entryKey(b) ? -1 : 1));
+}
+
+describe('LEGION_SAFE_ABI', () => {
+  it('covers every function the client and the contract rely on', () => {
+    const names = new Set(
+      LEGION_SAFE_ABI.filter((entry) => entry.type === 'function').map(
+        (entry) => (entry as AbiFunction).name
+      )
+    );
+
+    for (const name of [
+      'initialize',
+      'manage',
+      'manageBatch',
+      'withdrawETH',
+      'withdrawAllETH',
+      'withdrawERC20',
+      'withdrawAllERC20',
+      'acceptOwnership',
+      'pendingOwner',
+      'renounceOwnership',
+      'upgradeToAndCall',
+      'proxiableUUID',
+      'setSpendingLimit',
+      'getRemainingLimit',
+    ]) {
+      expect(names).toContain(name);
+    }
+  });
+
+  it('matches the on-chain selectors', () => {
+    const manage = LEGION_SAFE_ABI.find(
+      (entry) => entry.type === 'function' && entry.name === 'manage'
+    ) as AbiFunction;
+    expect(toFunctionSelector(manage)).toBe(
+      toFunctionSelector('manage(address,bytes,uint256)')
+    );
+  });
+
+  it.skipIf(!existsSync(ARTIFACT_PATH))(
+    'matches the compiled Foundry artifact',
+    () => {
+      const artifact = JSON.parse(readFileSync(ARTIFACT_PATH, 'utf8')) as {
+        abi: AbiEntry[];
+      };
+
+      expect(sortEntries(LEGION_SAFE_ABI as readonly AbiEntry[])).toEqual(
+        sortEntries(artifact.abi)
+      );
+    }
+  );
+});
+
+describe('LEGION_SAFE_STORAGE_LAYOUT', () => {
+  it.skipIf(!existsSync(ARTIFACT_PATH))(
+    'matches the compiled Foundry artifact',
+    () => {
+      const artifact = JSON.parse(readFileSync(ARTIFACT_PATH, 'utf8')) as {
+        storageLayout: StorageLayout;
+      };
+
+      expect(compareStorageLayouts(artifact.storageLayout, LEGION_SAFE_STORAGE_LAYOUT)).toEqual([]);
+      expect(compareStorageLayouts(LEGION_SAFE_STORAGE_LAYOUT, artifact.storageLayout)).toEqual([]);
+    }
+  );
+});
@@ -1,234 +1,8 @@
 /**
- * LegionSafe contract ABI
+ * LegionSafe contract ABI, generated from the Foundry build artifact.
+ * Regenerate with `npm run generate:abi` after changing src/LegionSafe.sol.
  */
-export const LEGION_SAFE_ABI = [
-  {
-    type: "constructor",
-    inputs: [
-      { name: "_owner", type: "address" },
-      { name: "_operator", type: "address" },
-    ],
-    stateMutability: "nonpayable",
-  },
-  {
-    type: "function",
-    name: "owner",
-    inputs: [],
-    outputs: [{ name: "", type: "address" }],
-    stateMutability: "view",
-  },
-  {
-    type: "function",
-    name: "operator",
-    inputs: [],
-    outputs: [{ name: "", type: "address" }],
-    stateMutability: "view",
-  },
-  {
-    type: "function",
-    name: "setCallAuthorization",
-    inputs: [
-      { name: "target", type: "address" },
-      { name: "selector", type: "bytes4" },
-      { name: "authorized", type: "bool" },
-    ],
-    outputs: [],
-    stateMutability: "nonpayable",
-  },
-  {
-    type: "function",
-    name: "manage",
-    inputs: [
-      { name: "target", type: "address" },
-      { name: "data", type: "bytes" },
-      { name: "value", type: "uint256" },
-    ],
-    outputs: [{ name: "", type: "bytes" }],
-    stateMutability: "nonpayable",
-  },
-  {
-    type: "function",
-    name: "manageBatch",
-    inputs: [
-      { name: "targets", type: "address[]" },
-      { name: "data", type: "bytes[]" },
-      { name: "values", type: "uint256[]" },
-    ],
-    outputs: [{ name: "", type: "bytes[]" }],
-    stateMutability: "nonpayable",
-  },
-  {
-    type: "function",
-    name: "transferOwnership",
-    inputs: [{ name: "newOwner", type: "address" }],
-    outputs: [],
-    stateMutability: "nonpayable",
-  },
-  {
-    type: "function",
-    name: "setOperator",
-    inputs: [{ name: "newOperator", type: "address" }],
-    outputs: [],
-    stateMutability: "nonpayable",
-  },
-  {
-    type: "function",
-    name: "withdrawETH",
-    inputs: [{ name: "amount", type: "uint256" }],
-    outputs: [],
-    stateMutability: "nonpayable",
-  },
-  {
-    type: "function",
-    name: "withdrawAllETH",
-    inputs: [],
-    outputs: [],
-    stateMutability: "nonpayable",
-  },
-  {
-    type: "function",
-    name: "withdrawERC20",
-    inputs: [
-      { name: "token", type: "address" },
-      { name: "amount", type: "uint256" },
-    ],
-    outputs: [],
-    stateMutability: "nonpayable",
-  },
-  {
-    type: "function",
-    name: "withdrawAllERC20",
-    inputs: [{ name: "token", type: "address" }],
-    outputs: [],
-    stateMutability: "nonpayable",
-  },
-  {
-    type: "function",
-    name: "getETHBalance",
-    inputs: [],
-    outputs: [{ name: "", type: "uint256" }],
-    stateMutability: "view",
-  },
-  {
-    type: "function",
-    name: "getTokenBalance",
-    inputs: [{ name: "token", type: "address" }],
-    outputs: [{ name: "", type: "uint256" }],
-    stateMutability: "view",
-  },
-  {
-    type: "function",
-    name: "authorizedCalls",
-    inputs: [
-      { name: "target", type: "address" },
-      { name: "selector", type: "bytes4" },
-    ],
-    outputs: [{ name: "", type: "bool" }],
-    stateMutability: "view",
-  },
-  {
-    type: "function",
-    name: "setSpenderWhitelist",
-    inputs: [
-      { name: "spender", type: "address" },
-      { name: "whitelisted", type: "bool" },
-    ],
-    outputs: [],
-    stateMutability: "nonpayable",
-  },
-  {
-    type: "function",
-    name: "whitelistedSpenders",
-    inputs: [{ name: "spender", type: "address" }],
-    outputs: [{ name: "", type: "bool" }],
-    stateMutability: "view",
-  },
-  {
-    type: "function",
-    name: "addTrackedToken",
-    inputs: [{ name: "token", type: "address" }],
-    outputs: [],
-    stateMutability: "nonpayable",
-  },
-  {
-    type: "function",
-    name: "removeTrackedToken",
-    inputs: [{ name: "token", type: "address" }],
-    outputs: [],
-    stateMutability: "nonpayable",
-  },
-  {
-    type: "function",
-    name: "getTrackedTokens",
-    inputs: [],
-    outputs: [{ name: "", type: "address[]" }],
-    stateMutability: "view",
-  },
-  {
-    type: "function",
-    name: "setSpendingLimit",
-    inputs: [
-      { name: "token", type: "address" },
-      { name: "limitPerWindow", type: "uint256" },
-      { name: "windowDuration", type: "uint256" },
-    ],
-    outputs: [],
-    stateMutability: "nonpayable",
-  },
-  {
-    type: "function",
-    name: "getRemainingLimit",
-    inputs: [{ name: "token", type: "address" }],
-    outputs: [
-      { name: "remaining", type: "uint256" },
-      { name: "windowEndsAt", type: "uint256" },
-    ],
-    stateMutability: "view",
-  },
-  {
-    type: "function",
-    name: "spendingLimits",
-    inputs: [{ name: "token", type: "address" }],
-    outputs: [
-      { name: "limitPerWindow", type: "uint256" },
-      { name: "windowDuration", type: "uint256" },
-      { name: "spent", type: "uint256" },
-      { name: "lastWindowStart", type: "uint256" },
-    ],
-    stateMutability: "view",
-  },
-  {
-    type: "event",
-    name: "CallAuthorized",
-    inputs: [
-      { name: "target", type: "address", indexed: true },
-      { name: "selector", type: "bytes4", indexed: true },
-      { name: "authorized", type: "bool", indexed: false },
-    ],
-  },
-  {
-    type: "event",
-    name: "Managed",
-    inputs: [
-      { name: "target", type: "address", indexed: true },
-      { name: "data", type: "bytes", indexed: false },
-      { name: "value", type: "uint256", indexed: false },
-    ],
-  },
-  {
-    type: "event",
-    name: "ManagedBatch",
-    inputs: [
-      { name: "targets", type: "address[]", indexed: false },
-      { name: "data", type: "bytes[]", indexed: false },
-      { name: "values", type: "uint256[]", indexed: false },
-    ],
-  },
-  {
-    type: "receive",
-    stateMutability: "payable",
-  },
-] as const;
+export { LEGION_SAFE_ABI } from "./generated/legionSafeAbi.js";
 
 /**
  * ERC20 token ABI (minimal)
@@ -275,4 +49,33 @@ export const ERC20_ABI = [
     outputs: [{ name: "", type: "bool" }],
     stateMutability: "nonpayable",
   },
+  {
+    type: "event",
+    name: "Transfer",
+    inputs: [
+      { name: "from", type: "address", indexed: true },
+      { name: "to", type: "address", indexed: true },
+      { name: "value", type: "uint256", indexed: false },
+    ],
+  },
+] as const;
+
+/**
+ * Wrapped native token ABI (WETH9 / WBNB)
+ */
+export const WRAPPED_NATIVE_ABI = [
+  {
+    type: "function",
+    name: "deposit",
+    inputs: [],
+    outputs: [],
+    stateMutability: "payable",
+  },
+  {
+    type: "function",
+    name: "withdraw",
+    inputs: [{ name: "wad", type: "uint256" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
 ] as const;
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { getAuthorizationSnapshot } from './authorization.js';
+import { KYBERSWAP_SELECTORS } from './integrations/kyberswap/constants.js';
+import { StubEventLog, eventLog, stubChain, stubEvents } from './test/stubs.js';
+
+const SAFE = '0x1111111111111111111111111111111111111111';
+const ROUTER = '0x6131B5fae19EA4f9D964eAc0408E4408b66337b5';
+const USDT = '0x55d398326f99059fF775485246999027B3197955';
+
+/** Client replaying a fixed event history against fixed mappings */
+function stubClient(events: StubEventLog[], mappings: Record<string, boolean>) {
+  return stubChain({
+    getContractEvents: stubEvents(events),
+    readContract: async ({ args }: { args: string[] }) => mappings[args.join(':').toLowerCase()] ?? false,
+  }).publicClient;
+}
+
+describe('getAuthorizationSnapshot', () => {
+  it('keeps the last state of each entry and labels known selectors', async () => {
+    const client = stubClient(
+      [
+        eventLog('CallAuthorized', { target: ROUTER, selector: KYBERSWAP_SELECTORS.SWAP, authorized: true }, 1n),
+        eventLog('CallAuthorized', { target: USDT, selector: '0x095ea7b3', authorized: true }, 2n),
+        eventLog('CallAuthorized', { target: ROUTER, selector: KYBERSWAP_SELECTORS.SWAP, authorized: false }, 3n),
+        eventLog('SpenderWhitelisted', { spender: ROUTER, whitelisted: true }, 4n),
+      ],
+      {
+        [`${USDT}:0x095ea7b3`.toLowerCase()]: true,
+        [ROUTER.toLowerCase()]: true,
+      }
+    );
+
+    const snapshot = await getAuthorizationSnapshot(client, SAFE);
+
+    expect(snapshot.blockNumber).toBe(100n);
+    expect(snapshot.calls).toHaveLength(1);
+    expect(snapshot.calls[0]).toMatchObject({
+      target: USDT,
+      selector: '0x095ea7b3',
+      signature: 'approve(address,uint256)',
+      blockNumber: 2n,
+    });
+    expect(snapshot.spenders.map((s) => s.spender)).toEqual([ROUTER]);
+    expect(snapshot.inconsistencies).toEqual([]);
+  });
+
+  it('reports entries whose storage disagrees with the event history', async () => {
+    const client = stubClient(
+      [eventLog('CallAuthorized', { target: ROUTER, selector: KYBERSWAP_SELECTORS.SWAP, authorized: true }, 1n)],
+      {}
+    );
+
+    const snapshot = await getAuthorizationSnapshot(client, SAFE, {
+      signatures: { [KYBERSWAP_SELECTORS.SWAP]: 'swap(...)' },
+    });
+
+    expect(snapshot.calls).toEqual([]);
+    expect(snapshot.inconsistencies).toEqual([
+      { kind: 'call', target: ROUTER, selector: KYBERSWAP_SELECTORS.SWAP, onChain: false },
+    ]);
+  });
+});
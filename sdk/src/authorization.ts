@@ -0,0 +1,157 @@
+import {
+  Abi,
+  AbiFunction,
+  Address,
+  Hex,
+  PublicClient,
+  toFunctionSelector,
+  toFunctionSignature,
+} from "viem";
+import { LEGION_SAFE_ABI, ERC20_ABI } from "./abis.js";
+import { LegionSafeEventIndexer } from "./indexer.js";
+import { KYBERSWAP_SELECTORS } from "./integrations/kyberswap/constants.js";
+import { ReadBatcher } from "./reads.js";
+import type {
+  AuthorizationSnapshot,
+  AuthorizationSnapshotOptions,
+  AuthorizedCallEntry,
+  WhitelistedSpenderEntry,
+} from "./types.js";
+
+/**
+ * Build a selector -> signature table from ABIs
+ */
+export function buildSelectorTable(abis: readonly Abi[]): Record<Hex, string> {
+  const table: Record<Hex, string> = {};
+  for (const abi of abis) {
+    for (const item of abi) {
+      if (item.type !== "function") continue;
+      const signature = toFunctionSignature(item as AbiFunction);
+      table[toFunctionSelector(signature)] = signature;
+    }
+  }
+  return table;
+}
+
+/**
+ * Selectors the SDK knows out of the box
+ */
+function defaultSelectorTable(): Record<Hex, string> {
+  const table = buildSelectorTable([ERC20_ABI]);
+  for (const [name, selector] of Object.entries(KYBERSWAP_SELECTORS)) {
+    table[selector] = `KyberSwap ${name}`;
+  }
+  return table;
+}
+
+/**
+ * Reconstruct the vault's current authorization policy from its event history
+ *
+ * Replays `CallAuthorized` and `SpenderWhitelisted` from `fromBlock`, keeps the
+ * last state of every (target, selector) pair and spender, and confirms each
+ * candidate against the `authorizedCalls` / `whitelistedSpenders` mappings at
+ * the snapshot block. Entries where history and storage disagree are reported
+ * in `inconsistencies` instead of being silently dropped. The mapping reads
+ * are aggregated, so confirming every candidate costs one `eth_call`.
+ *
+ * @param publicClient Public client
+ * @param safeAddress Vault address
+ * @param options Block range and extra selector signatures
+ * @param reads Batcher the mapping reads are aggregated through (default: a
+ *   new one on `publicClient`)
+ */
+export async function getAuthorizationSnapshot(
+  publicClient: PublicClient,
+  safeAddress: Address,
+  options: AuthorizationSnapshotOptions = {},
+  reads: ReadBatcher = new ReadBatcher(publicClient)
+): Promise<AuthorizationSnapshot> {
+  const blockNumber = options.toBlock ?? (await publicClient.getBlockNumber());
+  const indexer = new LegionSafeEventIndexer({
+    publicClient,
+    safeAddress,
+    fromBlock: options.fromBlock,
+    maxBlockRange: options.maxBlockRange,
+  });
+
+  const [callEvents, spenderEvents] = await Promise.all([
+    indexer.getCallAuthorizations({ toBlock: blockNumber }),
+    indexer.getSpenderWhitelistChanges({ toBlock: blockNumber }),
+  ]);
+
+  const signatures: Record<string, string> = {
+    ...defaultSelectorTable(),
+    ...buildSelectorTable(options.abis ?? []),
+  };
+  for (const [selector, signature] of Object.entries(options.signatures ?? {})) {
+    signatures[selector.toLowerCase()] = signature;
+  }
+
+  // Last event per key wins; events are in chain order
+  const calls = new Map<string, (typeof callEvents)[number]>();
+  for (const event of callEvents) {
+    calls.set(`${event.args.target.toLowerCase()}:${event.args.selector}`, event);
+  }
+  const spenders = new Map<string, (typeof spenderEvents)[number]>();
+  for (const event of spenderEvents) {
+    spenders.set(event.args.spender.toLowerCase(), event);
+  }
+
+  const snapshot: AuthorizationSnapshot = {
+    blockNumber,
+    calls: [],
+    spenders: [],
+    inconsistencies: [],
+  };
+
+  await Promise.all([
+    ...[...calls.values()].map(async (event) => {
+      const { target, selector, authorized } = event.args;
+      const onChain = await reads.read(
+        { address: safeAddress, abi: LEGION_SAFE_ABI, functionName: "authorizedCalls", args: [target, selector] },
+        { blockNumber }
+      );
+      if (onChain !== authorized) {
+        snapshot.inconsistencies.push({ kind: "call", target, selector, onChain });
+      }
+      if (!onChain) return;
+
+      const entry: AuthorizedCallEntry = {
+        target,
+        selector,
+        signature: signatures[selector.toLowerCase()],
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+      };
+      snapshot.calls.push(entry);
+    }),
+    ...[...spenders.values()].map(async (event) => {
+      const { spender, whitelisted } = event.args;
+      const onChain = await reads.read(
+        { address: safeAddress, abi: LEGION_SAFE_ABI, functionName: "whitelistedSpenders", args: [spender] },
+        { blockNumber }
+      );
+      if (onChain !== whitelisted) {
+        snapshot.inconsistencies.push({ kind: "spender", spender, onChain });
+      }
+      if (!onChain) return;
+
+      const entry: WhitelistedSpenderEntry = {
+        spender,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+      };
+      snapshot.spenders.push(entry);
+    }),
+  ]);
+
+  // Promise.all resolves in arbitrary order; keep the output stable
+  snapshot.calls.sort((a, b) =>
+    a.target === b.target
+      ? a.selector.localeCompare(b.selector)
+      : a.target.localeCompare(b.target)
+  );
+  snapshot.spenders.sort((a, b) => a.spender.localeCompare(b.spender));
+
+  return snapshot;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { decodeFunctionData } from 'viem';
+import { ERC20_ABI } from './abis.js';
+import { BatchValidationError, LegionSafeBatchBuilder } from './batch.js';
+import { NATIVE_TOKEN_ADDRESS } from './constants.js';
+import { CallNotAuthorizedError, SpenderNotWhitelistedError } from './errors.js';
+import type { LegionSafeClient } from './LegionSafeClient.js';
+
+const ROUTER = '0x6131B5fae19EA4f9D964eAc0408E4408b66337b5';
+const OTHER = '0x3333333333333333333333333333333333333333';
+const USDT = '0x55d398326f99059fF775485246999027B3197955';
+const WBNB = '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c';
+
+/** Client where only ROUTER is whitelisted and only ERC20 transfer on USDT is authorized */
+const client = {
+  isSpenderWhitelisted: async (spender: string) => spender.toLowerCase() === ROUTER.toLowerCase(),
+  isCallAuthorized: async (target: string, selector: string) =>
+    target === USDT && selector === '0xa9059cbb',
+  manageBatch: async () => {
+    throw new Error('should not send');
+  },
+} as unknown as LegionSafeClient;
+
+describe('LegionSafeBatchBuilder', () => {
+  it('encodes steps in order', () => {
+    const calls = new LegionSafeBatchBuilder(client, 56)
+      .wrapNative(5n)
+      .approve(WBNB, ROUTER, 5n)
+      .kyberSwap({ routerAddress: ROUTER, calldata: '0xe21fd0e9', tokenIn: NATIVE_TOKEN_ADDRESS, amountIn: 7n })
+      .revokeApproval(WBNB, ROUTER)
+      .build();
+
+    expect(calls.map((call) => [call.target, call.value])).toEqual([
+      [WBNB, 5n],
+      [WBNB, 0n],
+      [ROUTER, 7n],
+      [WBNB, 0n],
+    ]);
+    expect(decodeFunctionData({ abi: ERC20_ABI, data: calls[3].data }).args).toEqual([ROUTER, 0n]);
+  });
+
+  it('prepends an approval for ERC20 KyberSwap input', () => {
+    const steps = new LegionSafeBatchBuilder(client)
+      .kyberSwap({ routerAddress: ROUTER, calldata: '0xe21fd0e9', tokenIn: USDT, amountIn: 9n })
+      .getSteps();
+
+    expect(steps.map((step) => step.call.target)).toEqual([USDT, ROUTER]);
+  });
+
+  it('approves the provider spender before a SwapProvider call', () => {
+    const calls = new LegionSafeBatchBuilder(client)
+      .swap({
+        provider: '0x',
+        target: OTHER,
+        data: '0x2213bc0b',
+        value: 0n,
+        spender: ROUTER,
+        tokenIn: USDT,
+        amountIn: 9n,
+        amountOut: 1n,
+      })
+      .build();
+
+    expect(calls.map((call) => call.target)).toEqual([USDT, OTHER]);
+    expect(decodeFunctionData({ abi: ERC20_ABI, data: calls[0].data }).args).toEqual([ROUTER, 9n]);
+  });
+
+  it('reports steps the vault would reject', async () => {
+    const builder = new LegionSafeBatchBuilder(client)
+      .approve(USDT, OTHER, 1n)
+      .call(USDT, ERC20_ABI, 'transfer', [OTHER, 1n])
+      .call(WBNB, ERC20_ABI, 'transfer', [OTHER, 1n]);
+
+    const issues = await builder.validate();
+
+    expect(issues.map((issue) => issue.index)).toEqual([0, 2]);
+    expect(issues[0].error).toBeInstanceOf(SpenderNotWhitelistedError);
+    expect(issues[0].error).toMatchObject({ spender: OTHER });
+    expect(issues[1].error).toBeInstanceOf(CallNotAuthorizedError);
+    await expect(builder.send()).rejects.toBeInstanceOf(BatchValidationError);
+  });
+
+  it('reports truncated calldata instead of throwing', async () => {
+    const issues = await new LegionSafeBatchBuilder(client)
+      .raw({ target: USDT, data: '0x095ea7b3000000000000000000000000', value: 0n })
+      .raw({ target: USDT, data: '0x', value: 0n })
+      .validate();
+
+    expect(issues.map((issue) => issue.index)).toEqual([0, 1]);
+    expect(issues[0].error).toBeInstanceOf(SpenderNotWhitelistedError);
+    expect(issues[1].error).toBeInstanceOf(CallNotAuthorizedError);
+  });
+
+  it('requires a wrapped token on unknown chains', () => {
+    expect(() => new LegionSafeBatchBuilder(client).wrapNative(1n)).toThrow('pass it explicitly');
+  });
+});
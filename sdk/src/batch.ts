@@ -0,0 +1,309 @@
+import {
+  Abi,
+  Address,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  EncodeFunctionDataParameters,
+  Hex,
+  encodeFunctionData,
+  getAddress,
+  maxUint256,
+} from "viem";
+import { ERC20_ABI, WRAPPED_NATIVE_ABI } from "./abis.js";
+import { APPROVE_SELECTOR, WRAPPED_NATIVE_TOKENS } from "./constants.js";
+import { CallNotAuthorizedError, SpenderNotWhitelistedError, getSelector } from "./errors.js";
+import type { SwapCalldata } from "./integrations/types.js";
+import type { LegionSafeClient } from "./LegionSafeClient.js";
+import { isNativeToken } from "./utils.js";
+import type {
+  BatchCallItem,
+  GasOptions,
+  ManageBatchResult,
+  ManageBatchSimulationResult,
+  SimulationOptions,
+} from "./types.js";
+
+/**
+ * One step of a batch
+ */
+export interface BatchStep {
+  /** Human-readable description, e.g. "approve USDT -> 0x6131..." */
+  label: string;
+  /** Call sent to manageBatch() */
+  call: BatchCallItem;
+}
+
+/**
+ * A step the vault would reject
+ */
+export interface BatchIssue {
+  /** Index of the step in the batch */
+  index: number;
+  /** The step */
+  step: BatchStep;
+  /** Error manageBatch() would revert with */
+  error: CallNotAuthorizedError | SpenderNotWhitelistedError;
+}
+
+/**
+ * Parameters for a KyberSwap step, as returned by KyberSwapClient.getSwapCalldata()
+ */
+export interface KyberSwapStepParams {
+  /** KyberSwap router */
+  routerAddress: Address;
+  /** Swap calldata built with the vault as sender and recipient */
+  calldata: Hex;
+  /** Input token (NATIVE_TOKEN_ADDRESS for native token) */
+  tokenIn: Address;
+  /** Input amount */
+  amountIn: bigint;
+  /** Prepend an approval of `amountIn` to the router for ERC20 input (default: true) */
+  approve?: boolean;
+}
+
+/**
+ * Thrown by send() when steps would revert with CallNotAuthorized or
+ * SpenderNotWhitelisted
+ */
+export class BatchValidationError extends Error {
+  constructor(public readonly issues: BatchIssue[]) {
+    super(
+      `Batch would revert:\n` +
+        issues.map((issue) => `  step ${issue.index} (${issue.step.label}): ${issue.error.message}`).join("\n")
+    );
+    this.name = "BatchValidationError";
+  }
+}
+
+/**
+ * Fluent builder for manageBatch()
+ *
+ * Encodes each step and, before sending or simulating, checks it against the
+ * vault's call authorizations and spender whitelist so a misconfigured step is
+ * reported by index instead of reverting the whole batch.
+ *
+ * @example
+ * ```typescript
+ * const result = await client
+ *   .batch()
+ *   .wrapNative(parseEther("1"))
+ *   .approve(WBNB, ROUTER, parseEther("1"))
+ *   .call(ROUTER, routerAbi, "swapExactTokensForTokens", [...])
+ *   .revokeApproval(WBNB, ROUTER)
+ *   .send();
+ * ```
+ */
+export class LegionSafeBatchBuilder {
+  private readonly steps: BatchStep[] = [];
+
+  constructor(
+    private readonly client: LegionSafeClient,
+    private readonly chainId?: number
+  ) {}
+
+  /**
+   * Approve `spender` to spend `amount` of `token` (spender must be whitelisted)
+   */
+  approve(token: Address, spender: Address, amount: bigint = maxUint256): this {
+    return this.push(`approve ${token} -> ${spender}`, {
+      target: token,
+      data: encodeFunctionData({
+        abi: ERC20_ABI,
+        functionName: "approve",
+        args: [spender, amount],
+      }),
+      value: 0n,
+      abi: ERC20_ABI,
+    });
+  }
+
+  /**
+   * Reset the allowance of `spender` to zero
+   *
+   * The vault treats this as any other approval, so the spender must still be
+   * whitelisted.
+   */
+  revokeApproval(token: Address, spender: Address): this {
+    this.approve(token, spender, 0n);
+    this.steps[this.steps.length - 1].label = `revoke ${token} -> ${spender}`;
+    return this;
+  }
+
+  /**
+   * Call any function on a target contract
+   */
+  call<
+    const abi extends Abi,
+    functionName extends ContractFunctionName<abi, "nonpayable" | "payable">,
+  >(
+    target: Address,
+    abi: abi,
+    functionName: functionName,
+    args: ContractFunctionArgs<abi, "nonpayable" | "payable", functionName>,
+    value: bigint = 0n
+  ): this {
+    return this.push(`${String(functionName)} on ${target}`, {
+      target,
+      data: encodeFunctionData({ abi, functionName, args } as EncodeFunctionDataParameters),
+      value,
+      abi,
+    });
+  }
+
+  /**
+   * Add a pre-encoded call
+   */
+  raw(call: BatchCallItem, label = `call ${call.data.slice(0, 10)} on ${call.target}`): this {
+    return this.push(label, call);
+  }
+
+  /**
+   * Execute a KyberSwap route, approving the router first for ERC20 input
+   */
+  kyberSwap(params: KyberSwapStepParams): this {
+    const native = isNativeToken(params.tokenIn);
+    if (!native && params.approve !== false) {
+      this.approve(params.tokenIn, params.routerAddress, params.amountIn);
+    }
+    return this.push(`KyberSwap ${params.amountIn} of ${params.tokenIn}`, {
+      target: params.routerAddress,
+      data: params.calldata,
+      value: native ? params.amountIn : 0n,
+    });
+  }
+
+  /**
+   * Execute a swap built by any SwapProvider, approving its spender first for
+   * ERC20 input
+   */
+  swap(calldata: SwapCalldata): this {
+    if (!isNativeToken(calldata.tokenIn)) {
+      this.approve(calldata.tokenIn, calldata.spender, calldata.amountIn);
+    }
+    return this.push(`${calldata.provider} ${calldata.amountIn} of ${calldata.tokenIn}`, {
+      target: calldata.target,
+      data: calldata.data,
+      value: calldata.value,
+    });
+  }
+
+  /**
+   * Wrap native token (deposit into WETH/WBNB)
+   *
+   * @param wrappedToken Wrapped token (default: the chain's, from WRAPPED_NATIVE_TOKENS)
+   */
+  wrapNative(amount: bigint, wrappedToken?: Address): this {
+    const token = this.wrappedToken(wrappedToken);
+    return this.push(`wrap ${amount} native into ${token}`, {
+      target: token,
+      data: encodeFunctionData({ abi: WRAPPED_NATIVE_ABI, functionName: "deposit" }),
+      value: amount,
+      abi: WRAPPED_NATIVE_ABI,
+    });
+  }
+
+  /**
+   * Unwrap native token (withdraw from WETH/WBNB)
+   *
+   * @param wrappedToken Wrapped token (default: the chain's, from WRAPPED_NATIVE_TOKENS)
+   */
+  unwrapNative(amount: bigint, wrappedToken?: Address): this {
+    const token = this.wrappedToken(wrappedToken);
+    return this.push(`unwrap ${amount} of ${token}`, {
+      target: token,
+      data: encodeFunctionData({
+        abi: WRAPPED_NATIVE_ABI,
+        functionName: "withdraw",
+        args: [amount],
+      }),
+      value: 0n,
+      abi: WRAPPED_NATIVE_ABI,
+    });
+  }
+
+  /**
+   * Steps added so far
+   */
+  getSteps(): readonly BatchStep[] {
+    return this.steps;
+  }
+
+  /**
+   * Calls to pass to manageBatch()
+   */
+  build(): BatchCallItem[] {
+    return this.steps.map((step) => step.call);
+  }
+
+  /**
+   * Check every step against `authorizedCalls` and `whitelistedSpenders`
+   *
+   * @returns Steps that would revert; empty when the batch passes
+   */
+  async validate(): Promise<BatchIssue[]> {
+    const checks = await Promise.all(
+      this.steps.map(async (step, index): Promise<BatchIssue | undefined> => {
+        const { target, data } = step.call;
+        const selector = getSelector(data);
+
+        // The vault rejects calldata without a selector, and approve calldata
+        // too short to hold the spender word
+        if (data.length < 10) {
+          return { index, step, error: new CallNotAuthorizedError({ target }) };
+        }
+        if (selector === APPROVE_SELECTOR) {
+          if (data.length < 74) return { index, step, error: new SpenderNotWhitelistedError() };
+          const spender = getAddress(`0x${data.slice(34, 74)}`);
+          if (await this.client.isSpenderWhitelisted(spender)) return undefined;
+          return { index, step, error: new SpenderNotWhitelistedError({ spender }) };
+        }
+
+        if (await this.client.isCallAuthorized(target, selector)) return undefined;
+        return { index, step, error: new CallNotAuthorizedError({ target, selector }) };
+      })
+    );
+    return checks.filter((issue): issue is BatchIssue => issue !== undefined);
+  }
+
+  /**
+   * Validate and send the batch
+   *
+   * @throws {BatchValidationError} If any step would be rejected by the vault
+   */
+  async send(gasOptions?: GasOptions): Promise<ManageBatchResult> {
+    const issues = await this.validate();
+    if (issues.length > 0) throw new BatchValidationError(issues);
+    return this.client.manageBatch({ calls: this.build(), gasOptions });
+  }
+
+  /**
+   * Validate and simulate the batch
+   *
+   * The simulation runs even when validation finds issues, so its error shows
+   * the revert the vault would produce.
+   */
+  async simulate(
+    options?: SimulationOptions
+  ): Promise<ManageBatchSimulationResult & { issues: BatchIssue[] }> {
+    const [issues, simulation] = await Promise.all([
+      this.validate(),
+      this.client.simulate.manageBatch({ calls: this.build() }, options),
+    ]);
+    return { ...simulation, issues };
+  }
+
+  private push(label: string, call: BatchCallItem): this {
+    this.steps.push({ label, call });
+    return this;
+  }
+
+  private wrappedToken(wrappedToken?: Address): Address {
+    const token = wrappedToken ?? (this.chainId ? WRAPPED_NATIVE_TOKENS[this.chainId] : undefined);
+    if (!token) {
+      throw new Error(
+        `No wrapped native token known for chain ${this.chainId ?? "unknown"}; pass it explicitly`
+      );
+    }
+    return token;
+  }
+}
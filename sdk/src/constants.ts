@@ -20,3 +20,31 @@ export const NATIVE_TOKEN_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE'
  * Zero address
  */
 export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000' as Address;
+
+/**
+ * Selector of ERC20 `approve(address,uint256)`, which the vault checks against
+ * the spender whitelist instead of the call authorizations
+ */
+export const APPROVE_SELECTOR = '0x095ea7b3' as const;
+
+/**
+ * Multicall3, deployed at the same address on most EVM chains
+ */
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11' as Address;
+
+/**
+ * ERC-1967 implementation slot: bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+ */
+export const ERC1967_IMPLEMENTATION_SLOT =
+  '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc' as const;
+
+/**
+ * Wrapped native token (WETH, WBNB, WPOL) addresses by chain ID
+ */
+export const WRAPPED_NATIVE_TOKENS: Record<number, Address> = {
+  1: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+  56: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c',
+  137: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270',
+  42161: '0x82aF49447D8a07e3bd95BD7d56f35241523fBab1',
+  8453: '0x4200000000000000000000000000000000000006',
+};
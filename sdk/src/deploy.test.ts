@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { getContractAddress } from 'viem';
+import { CREATE2_FACTORY, deployLegionSafe, predictLegionSafeAddress } from './deploy.js';
+import { LEGION_SAFE_BYTECODE } from './generated/legionSafeBytecode.js';
+import { stubChain } from './test/stubs.js';
+
+const DEPLOYER = '0x1111111111111111111111111111111111111111';
+const OPERATOR = '0x2222222222222222222222222222222222222222';
+const SALT = `0x${'42'.repeat(32)}` as const;
+
+/** Chain where only `deployed` addresses have code; every transaction succeeds at block 7 */
+function chain(deployed: string[]) {
+  return stubChain(
+    { getCode: async ({ address }: { address: string }) => (deployed.includes(address) ? '0x60' : undefined) },
+    { account: DEPLOYER, blockNumber: 7n }
+  );
+}
+
+describe('predictLegionSafeAddress', () => {
+  it('depends on owner, operator and salt only', () => {
+    const a = predictLegionSafeAddress({ owner: DEPLOYER, operator: OPERATOR, salt: SALT });
+    const b = predictLegionSafeAddress({ owner: OPERATOR, operator: DEPLOYER, salt: SALT });
+
+    expect(a.implementation).toBe(
+      getContractAddress({ opcode: 'CREATE2', from: CREATE2_FACTORY, salt: `0x${'00'.repeat(32)}`, bytecode: LEGION_SAFE_BYTECODE })
+    );
+    expect(b.implementation).toBe(a.implementation);
+    expect(b.safeAddress).not.toBe(a.safeAddress);
+    expect(predictLegionSafeAddress({ owner: DEPLOYER, operator: OPERATOR, salt: SALT })).toEqual(a);
+  });
+});
+
+describe('deployLegionSafe', () => {
+  it('deploys through the CREATE2 factory and reuses an existing implementation', async () => {
+    const predicted = predictLegionSafeAddress({ owner: DEPLOYER, operator: OPERATOR, salt: SALT });
+    const { publicClient, walletClient, sent } = chain([CREATE2_FACTORY, predicted.implementation]);
+
+    const result = await deployLegionSafe({ walletClient, publicClient, owner: DEPLOYER, operator: OPERATOR, salt: SALT });
+
+    expect(result).toMatchObject({ ...predicted, deploymentBlock: 7n });
+    expect(result.client.safeAddress).toBe(predicted.safeAddress);
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe(CREATE2_FACTORY);
+    expect(sent[0].data!.startsWith(SALT)).toBe(true);
+  });
+
+  it('refuses to redeploy a salted vault or apply a policy it cannot sign', async () => {
+    const predicted = predictLegionSafeAddress({ owner: DEPLOYER, operator: OPERATOR, salt: SALT });
+    const { publicClient, walletClient, sent } = chain([CREATE2_FACTORY, predicted.safeAddress]);
+
+    await expect(
+      deployLegionSafe({ walletClient, publicClient, owner: DEPLOYER, operator: OPERATOR, salt: SALT })
+    ).rejects.toThrow(`already deployed at ${predicted.safeAddress}`);
+    await expect(
+      deployLegionSafe({ walletClient, publicClient, owner: OPERATOR, operator: DEPLOYER, initialPolicy: {} })
+    ).rejects.toThrow('requires the wallet to be the owner');
+    expect(sent).toEqual([]);
+  });
+});
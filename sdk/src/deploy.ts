@@ -0,0 +1,298 @@
+import {
+  Address,
+  Hex,
+  PublicClient,
+  WalletClient,
+  concat,
+  encodeDeployData,
+  encodeFunctionData,
+  getContractAddress,
+  parseAbi,
+} from "viem";
+import { LEGION_SAFE_ABI } from "./abis.js";
+import { ZERO_ADDRESS } from "./constants.js";
+import { resolveGasFees } from "./gas.js";
+import {
+  ERC1967_PROXY_BYTECODE,
+  LEGION_SAFE_BYTECODE,
+} from "./generated/legionSafeBytecode.js";
+import { LegionSafeClient } from "./LegionSafeClient.js";
+import type {
+  GasConfig,
+  GasOptions,
+  PolicyApplyResult,
+  ReturnDataSource,
+  TransactionResult,
+  VaultPolicy,
+} from "./types.js";
+
+/**
+ * Deterministic deployment proxy (https://github.com/Arachnid/deterministic-deployment-proxy),
+ * at the same address on most EVM chains; takes `salt ++ initCode` as calldata
+ */
+export const CREATE2_FACTORY = "0x4e59b44847b379578588920cA78FbF26c0B4956C" as const;
+
+/**
+ * CREATE2 salt of the implementation, so every vault deployed in CREATE2 mode
+ * with the same SDK version shares one implementation per chain
+ */
+const IMPLEMENTATION_SALT = `0x${"00".repeat(32)}` as const;
+
+const ERC1967_PROXY_ABI = parseAbi([
+  "constructor(address implementation, bytes _data) payable",
+]);
+
+/**
+ * Parameters for deployLegionSafe()
+ */
+export interface DeployLegionSafeParams {
+  /** Wallet that pays for the deployment (and, with `initialPolicy`, the owner) */
+  walletClient: WalletClient;
+  /** Public client for receipts and reads */
+  publicClient: PublicClient;
+  /** Vault owner */
+  owner: Address;
+  /** Vault operator */
+  operator: Address;
+  /**
+   * Policy applied right after deployment; requires the wallet's account to
+   * be `owner`
+   */
+  initialPolicy?: VaultPolicy;
+  /**
+   * Deploy through the CREATE2 factory with this salt, so the same owner,
+   * operator and salt give the same vault address on every chain
+   */
+  salt?: Hex;
+  /** CREATE2 factory (default: CREATE2_FACTORY) */
+  create2Factory?: Address;
+  /** Use an implementation that is already deployed instead of the bundled bytecode */
+  implementation?: Address;
+  /** Gas configuration of the deployments and of the returned client */
+  gas?: GasConfig;
+  /** Gas overrides for every deployment and policy transaction */
+  gasOptions?: GasOptions;
+  /** Return data recovery of the returned client */
+  returnDataSource?: ReturnDataSource;
+}
+
+/**
+ * Result of deployLegionSafe()
+ */
+export interface DeployLegionSafeResult {
+  /** Client for the new vault */
+  client: LegionSafeClient;
+  /** Proxy address; use this for every interaction */
+  safeAddress: Address;
+  /** Implementation behind the proxy */
+  implementation: Address;
+  /** Block the proxy was deployed at */
+  deploymentBlock: bigint;
+  /** Deployment transactions sent, implementation first (none for a reused implementation) */
+  transactions: TransactionResult[];
+  /** Initial policy transactions, when `initialPolicy` was given */
+  policy?: PolicyApplyResult;
+}
+
+/**
+ * Addresses a CREATE2 deployment will produce
+ */
+export interface PredictedLegionSafeAddresses {
+  /** Proxy address */
+  safeAddress: Address;
+  /** Implementation address */
+  implementation: Address;
+}
+
+/**
+ * Compute the addresses deployLegionSafe() produces in CREATE2 mode
+ *
+ * @param params Owner, operator and salt (and implementation/factory if overridden)
+ */
+export function predictLegionSafeAddress(
+  params: Pick<DeployLegionSafeParams, "owner" | "operator" | "salt" | "create2Factory" | "implementation"> & {
+    salt: Hex;
+  }
+): PredictedLegionSafeAddresses {
+  const factory = params.create2Factory ?? CREATE2_FACTORY;
+  const implementation =
+    params.implementation ??
+    getContractAddress({
+      opcode: "CREATE2",
+      from: factory,
+      salt: IMPLEMENTATION_SALT,
+      bytecode: LEGION_SAFE_BYTECODE,
+    });
+
+  return {
+    implementation,
+    safeAddress: getContractAddress({
+      opcode: "CREATE2",
+      from: factory,
+      salt: params.salt,
+      bytecode: proxyInitCode(implementation, params.owner, params.operator),
+    }),
+  };
+}
+
+/**
+ * Deploy a LegionSafe implementation and an ERC1967 proxy initialized with
+ * `initialize(owner, operator)`, from the bytecode bundled with the SDK
+ *
+ * Without `salt` both contracts are deployed with plain CREATE. With `salt`
+ * they go through the CREATE2 factory: the implementation under a fixed salt
+ * (reused if it is already there) and the proxy under `salt`, so its address
+ * depends only on owner, operator and salt. The proxy initializes in its
+ * constructor, so nobody can front-run initialization.
+ *
+ * @param params Deployer, roles, optional CREATE2 salt and initial policy
+ * @returns Client for the new vault and the deployment transactions
+ * @throws {Error} If an address is zero, the salted vault already exists, or
+ *   `initialPolicy` is given but the wallet is not the owner
+ *
+ * @example
+ * ```typescript
+ * const { client, safeAddress } = await deployLegionSafe({
+ *   walletClient,
+ *   publicClient,
+ *   owner: walletClient.account.address,
+ *   operator: botAddress,
+ *   salt: keccak256(toHex("strategy-eth-meme")),
+ *   initialPolicy: { whitelistedSpenders: [KYBER_ROUTER] },
+ * });
+ * ```
+ */
+export async function deployLegionSafe(
+  params: DeployLegionSafeParams
+): Promise<DeployLegionSafeResult> {
+  const { walletClient, publicClient, owner, operator } = params;
+  const account = walletClient.account;
+  if (!account) {
+    throw new Error("Wallet client must have an account");
+  }
+  if (owner === ZERO_ADDRESS || operator === ZERO_ADDRESS) {
+    throw new Error("Owner and operator must not be the zero address");
+  }
+  if (
+    params.initialPolicy &&
+    account.address.toLowerCase() !== owner.toLowerCase()
+  ) {
+    throw new Error(
+      `Applying an initial policy requires the wallet to be the owner ${owner}, not ${account.address}`
+    );
+  }
+
+  const send = async (to: Address | undefined, data: Hex) => {
+    const fees = await resolveGasFees(publicClient, params.gas, params.gasOptions);
+    const hash = await walletClient.sendTransaction({
+      account,
+      chain: walletClient.chain,
+      to,
+      data,
+      gas: params.gasOptions?.gas,
+      ...fees,
+    });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status === "reverted") {
+      throw new Error(`Deployment transaction ${hash} reverted`);
+    }
+    const result: TransactionResult = {
+      hash,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed,
+      status: receipt.status,
+    };
+    return { result, contractAddress: receipt.contractAddress ?? undefined };
+  };
+
+  const transactions: TransactionResult[] = [];
+  let implementation: Address;
+  let safeAddress: Address;
+  let deploymentBlock: bigint;
+
+  if (params.salt) {
+    const factory = params.create2Factory ?? CREATE2_FACTORY;
+    if (!(await hasCode(publicClient, factory))) {
+      throw new Error(`No CREATE2 factory at ${factory} on this chain`);
+    }
+    const predicted = predictLegionSafeAddress({ ...params, salt: params.salt });
+    if (await hasCode(publicClient, predicted.safeAddress)) {
+      throw new Error(
+        `A vault with this owner, operator and salt is already deployed at ${predicted.safeAddress}`
+      );
+    }
+
+    implementation = predicted.implementation;
+    if (!params.implementation && !(await hasCode(publicClient, implementation))) {
+      const { result } = await send(
+        factory,
+        concat([IMPLEMENTATION_SALT, LEGION_SAFE_BYTECODE])
+      );
+      transactions.push(result);
+    }
+
+    const { result } = await send(
+      factory,
+      concat([params.salt, proxyInitCode(implementation, owner, operator)])
+    );
+    transactions.push(result);
+    safeAddress = predicted.safeAddress;
+    deploymentBlock = result.blockNumber;
+  } else {
+    if (params.implementation) {
+      implementation = params.implementation;
+    } else {
+      const { result, contractAddress } = await send(undefined, LEGION_SAFE_BYTECODE);
+      transactions.push(result);
+      implementation = contractAddress!;
+    }
+
+    const { result, contractAddress } = await send(
+      undefined,
+      proxyInitCode(implementation, owner, operator)
+    );
+    transactions.push(result);
+    safeAddress = contractAddress!;
+    deploymentBlock = result.blockNumber;
+  }
+
+  const client = new LegionSafeClient({
+    safeAddress,
+    walletClient,
+    publicClient,
+    deploymentBlock,
+    gas: params.gas,
+    returnDataSource: params.returnDataSource,
+  });
+
+  const policy = params.initialPolicy
+    ? await client.applyPolicy(params.initialPolicy, {
+        gasOptions: params.gasOptions,
+      })
+    : undefined;
+
+  return { client, safeAddress, implementation, deploymentBlock, transactions, policy };
+}
+
+/**
+ * ERC1967Proxy creation code that initializes the vault in its constructor
+ */
+function proxyInitCode(implementation: Address, owner: Address, operator: Address): Hex {
+  return encodeDeployData({
+    abi: ERC1967_PROXY_ABI,
+    bytecode: ERC1967_PROXY_BYTECODE,
+    args: [
+      implementation,
+      encodeFunctionData({
+        abi: LEGION_SAFE_ABI,
+        functionName: "initialize",
+        args: [owner, operator],
+      }),
+    ],
+  });
+}
+
+async function hasCode(publicClient: PublicClient, address: Address): Promise<boolean> {
+  const code = await publicClient.getCode({ address });
+  return code !== undefined && code !== "0x";
+}
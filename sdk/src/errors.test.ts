@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { RawContractError, encodeErrorResult, encodeFunctionData, parseAbi } from 'viem';
+import { LegionSafeClient } from './LegionSafeClient.js';
+import { LEGION_SAFE_ABI, ERC20_ABI } from './abis.js';
+import {
+  CallFailedError,
+  CallNotAuthorizedError,
+  ContractRevertError,
+  SpenderNotWhitelistedError,
+  SpendingLimitExceededError,
+  UnknownRevertError,
+  decodeLegionSafeError,
+} from './errors.js';
+import { stubChain, txHash } from './test/stubs.js';
+
+const TOKEN = '0x55d398326f99059fF775485246999027B3197955';
+const ROUTER = '0x6131B5fae19EA4f9D964eAc0408E4408b66337b5';
+
+describe('decodeLegionSafeError', () => {
+  it('decodes SpendingLimitExceeded with its arguments', () => {
+    const data = encodeErrorResult({
+      abi: LEGION_SAFE_ABI,
+      errorName: 'SpendingLimitExceeded',
+      args: [TOKEN, 150n, 100n],
+    });
+
+    const error = decodeLegionSafeError(data);
+
+    expect(error).toBeInstanceOf(SpendingLimitExceededError);
+    expect(error).toMatchObject({ token: TOKEN, amount: 150n, limit: 100n });
+  });
+
+  it('attributes SpenderNotWhitelisted to the approve call', () => {
+    const data = encodeErrorResult({
+      abi: LEGION_SAFE_ABI,
+      errorName: 'SpenderNotWhitelisted',
+    });
+    const approve = encodeFunctionData({
+      abi: ERC20_ABI,
+      functionName: 'approve',
+      args: [ROUTER, 1n],
+    });
+
+    const error = decodeLegionSafeError(data, {
+      calls: [{ target: TOKEN, data: approve, value: 0n }],
+    });
+
+    expect(error).toBeInstanceOf(SpenderNotWhitelistedError);
+    expect((error as SpenderNotWhitelistedError).spender).toBe(ROUTER);
+  });
+
+  it('decodes the inner revert of CallFailed against the target ABI', () => {
+    const targetAbi = parseAbi(['error InsufficientOutput(uint256 amountOut)']);
+    const inner = encodeErrorResult({
+      abi: targetAbi,
+      errorName: 'InsufficientOutput',
+      args: [42n],
+    });
+    const data = encodeErrorResult({
+      abi: LEGION_SAFE_ABI,
+      errorName: 'CallFailed',
+      args: [inner],
+    });
+
+    const error = decodeLegionSafeError(data, {
+      calls: [{ target: ROUTER, data: '0x12345678', value: 0n, abi: targetAbi }],
+    });
+
+    expect(error).toBeInstanceOf(CallFailedError);
+    const reason = (error as CallFailedError).reason;
+    expect(reason).toBeInstanceOf(ContractRevertError);
+    expect(reason.errorName).toBe('InsufficientOutput');
+    expect((reason as ContractRevertError).args).toEqual([42n]);
+  });
+
+  it('falls back to UnknownRevertError for unknown selectors', () => {
+    const error = decodeLegionSafeError('0xdeadbeef');
+
+    expect(error).toBeInstanceOf(UnknownRevertError);
+    expect((error as UnknownRevertError).selector).toBe('0xdeadbeef');
+  });
+});
+
+describe('LegionSafeClient mined reverts', () => {
+  const SAFE = '0x1111111111111111111111111111111111111111';
+
+  function client(replay: () => Promise<unknown>) {
+    const { publicClient, walletClient } = stubChain({
+      waitForTransactionReceipt: async () => ({ status: 'reverted', blockNumber: 100n, gasUsed: 50_000n }),
+      call: replay,
+    });
+    return new LegionSafeClient({ safeAddress: SAFE, publicClient, walletClient });
+  }
+
+  it('throws the revert decoded from a replay of the transaction', async () => {
+    const data = encodeErrorResult({
+      abi: LEGION_SAFE_ABI,
+      errorName: 'SpendingLimitExceeded',
+      args: [TOKEN, 150n, 100n],
+    });
+    const legion = client(async () => {
+      throw new RawContractError({ data });
+    });
+
+    const error = await legion.manage({ target: ROUTER, data: '0x12345678', value: 0n }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(SpendingLimitExceededError);
+    expect(error).toMatchObject({ token: TOKEN, amount: 150n, transactionHash: txHash(1) });
+  });
+
+  it('throws UnknownRevertError when the replay does not revert', async () => {
+    const legion = client(async () => ({ data: '0x' }));
+
+    const error = await legion.withdrawETH({ amount: 1n }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(UnknownRevertError);
+    expect(error.transactionHash).toBe(txHash(1));
+  });
+});
+
+describe('LegionSafeClient revert attribution', () => {
+  const SAFE = '0x1111111111111111111111111111111111111111';
+  const OTHER = '0x2222222222222222222222222222222222222222';
+
+  it('skips approve calldata in any hex case when attributing CallNotAuthorized', async () => {
+    const data = encodeErrorResult({ abi: LEGION_SAFE_ABI, errorName: 'CallNotAuthorized' });
+    const { publicClient, walletClient } = stubChain({
+      estimateGas: async () => {
+        throw new RawContractError({ data });
+      },
+      // Only calls to ROUTER are authorized
+      readContract: async ({ args }: { args: [string, string] }) => args[0] === ROUTER,
+    });
+    const legion = new LegionSafeClient({ safeAddress: SAFE, publicClient, walletClient, multicall: false });
+    const approve = encodeFunctionData({ abi: ERC20_ABI, functionName: 'approve', args: [ROUTER, 1n] });
+
+    const error = await legion
+      .manageBatch({
+        calls: [
+          { target: TOKEN, data: `0x${approve.slice(2).toUpperCase()}`, value: 0n },
+          { target: ROUTER, data: '0x12345678', value: 0n },
+          { target: OTHER, data: '0xabcdef01', value: 0n },
+        ],
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(CallNotAuthorizedError);
+    expect(error).toMatchObject({ target: OTHER, selector: '0xabcdef01' });
+  });
+});
@@ -0,0 +1,550 @@
+import {
+  Abi,
+  Address,
+  BaseError,
+  Hash,
+  Hex,
+  MethodNotFoundRpcError,
+  MethodNotSupportedRpcError,
+  PublicClient,
+  UnsupportedProviderMethodError,
+  decodeErrorResult,
+  decodeFunctionData,
+  isHex,
+} from "viem";
+import { LEGION_SAFE_ABI, ERC20_ABI } from "./abis.js";
+import { APPROVE_SELECTOR } from "./constants.js";
+import type { BatchCallItem } from "./types.js";
+
+/**
+ * Base class for every error thrown by the SDK after a LegionSafe call reverts
+ */
+export class LegionSafeError extends Error {
+  override name = "LegionSafeError";
+  /** Name of the Solidity error, e.g. "SpendingLimitExceeded" */
+  readonly errorName: string;
+  /** Raw revert data */
+  readonly data?: Hex;
+  /** Hash of the transaction, when it was mined and reverted on-chain */
+  transactionHash?: Hash;
+
+  constructor(
+    message: string,
+    options: { errorName: string; data?: Hex; cause?: unknown }
+  ) {
+    super(message, { cause: options.cause });
+    this.errorName = options.errorName;
+    this.data = options.data;
+  }
+}
+
+interface RevertErrorOptions {
+  data?: Hex;
+  cause?: unknown;
+}
+
+/**
+ * Caller is not the operator (`manage`, `manageBatch`)
+ */
+export class UnauthorizedError extends LegionSafeError {
+  override name = "UnauthorizedError";
+
+  constructor(options: RevertErrorOptions = {}) {
+    super("Caller is not the operator", { errorName: "Unauthorized", ...options });
+  }
+}
+
+/**
+ * Caller is not the owner (owner-only functions)
+ */
+export class OwnableUnauthorizedAccountError extends LegionSafeError {
+  override name = "OwnableUnauthorizedAccountError";
+  /** Account that attempted the call */
+  readonly account: Address;
+
+  constructor(account: Address, options: RevertErrorOptions = {}) {
+    super(`Account ${account} is not the owner`, {
+      errorName: "OwnableUnauthorizedAccount",
+      ...options,
+    });
+    this.account = account;
+  }
+}
+
+/**
+ * Ownership cannot be transferred to the given address
+ */
+export class OwnableInvalidOwnerError extends LegionSafeError {
+  override name = "OwnableInvalidOwnerError";
+  /** Rejected owner address */
+  readonly owner: Address;
+
+  constructor(owner: Address, options: RevertErrorOptions = {}) {
+    super(`Invalid owner ${owner}`, { errorName: "OwnableInvalidOwner", ...options });
+    this.owner = owner;
+  }
+}
+
+/**
+ * A zero address was passed where a real address is required
+ */
+export class InvalidAddressError extends LegionSafeError {
+  override name = "InvalidAddressError";
+
+  constructor(options: RevertErrorOptions = {}) {
+    super("An invalid address was provided", { errorName: "InvalidAddress", ...options });
+  }
+}
+
+/**
+ * Amount is zero or exceeds the vault balance
+ */
+export class InvalidAmountError extends LegionSafeError {
+  override name = "InvalidAmountError";
+
+  constructor(options: RevertErrorOptions = {}) {
+    super("An invalid amount was provided", { errorName: "InvalidAmount", ...options });
+  }
+}
+
+/**
+ * `manageBatch` arrays have mismatched lengths
+ */
+export class InvalidInputError extends LegionSafeError {
+  override name = "InvalidInputError";
+
+  constructor(options: RevertErrorOptions = {}) {
+    super("Invalid input parameters", { errorName: "InvalidInput", ...options });
+  }
+}
+
+/**
+ * Sending native token to the owner failed
+ */
+export class WithdrawalFailedError extends LegionSafeError {
+  override name = "WithdrawalFailedError";
+
+  constructor(options: RevertErrorOptions = {}) {
+    super("ETH withdrawal failed", { errorName: "WithdrawalFailed", ...options });
+  }
+}
+
+/**
+ * Token is already on the tracking list
+ */
+export class TokenAlreadyTrackedError extends LegionSafeError {
+  override name = "TokenAlreadyTrackedError";
+
+  constructor(options: RevertErrorOptions = {}) {
+    super("Token is already tracked", { errorName: "TokenAlreadyTracked", ...options });
+  }
+}
+
+/**
+ * Token is not on the tracking list
+ */
+export class TokenNotTrackedError extends LegionSafeError {
+  override name = "TokenNotTrackedError";
+
+  constructor(options: RevertErrorOptions = {}) {
+    super("Token is not tracked", { errorName: "TokenNotTracked", ...options });
+  }
+}
+
+/**
+ * The (target, selector) pair is not authorized
+ */
+export class CallNotAuthorizedError extends LegionSafeError {
+  override name = "CallNotAuthorizedError";
+  /** Target of the rejected call, when it can be determined */
+  readonly target?: Address;
+  /** Selector of the rejected call, when it can be determined */
+  readonly selector?: Hex;
+
+  constructor(
+    options: RevertErrorOptions & { target?: Address; selector?: Hex } = {}
+  ) {
+    super(
+      options.target && options.selector
+        ? `Call ${options.selector} on ${options.target} is not authorized`
+        : "The function call is not authorized",
+      { errorName: "CallNotAuthorized", data: options.data, cause: options.cause }
+    );
+    this.target = options.target;
+    this.selector = options.selector;
+  }
+}
+
+/**
+ * An `approve` call targets a spender that is not whitelisted
+ */
+export class SpenderNotWhitelistedError extends LegionSafeError {
+  override name = "SpenderNotWhitelistedError";
+  /** Spender of the rejected approval, when it can be determined */
+  readonly spender?: Address;
+
+  constructor(options: RevertErrorOptions & { spender?: Address } = {}) {
+    super(
+      options.spender
+        ? `Spender ${options.spender} is not whitelisted`
+        : "The spender address is not whitelisted",
+      { errorName: "SpenderNotWhitelisted", data: options.data, cause: options.cause }
+    );
+    this.spender = options.spender;
+  }
+}
+
+/**
+ * A managed call spent more of a tracked token than the current window allows
+ */
+export class SpendingLimitExceededError extends LegionSafeError {
+  override name = "SpendingLimitExceededError";
+  /** Tracked token (zero address for native token) */
+  readonly token: Address;
+  /** Amount the call tried to spend */
+  readonly amount: bigint;
+  /** Configured limit per window */
+  readonly limit: bigint;
+
+  constructor(
+    token: Address,
+    amount: bigint,
+    limit: bigint,
+    options: RevertErrorOptions = {}
+  ) {
+    super(`Spending ${amount} of ${token} exceeds limit ${limit}`, {
+      errorName: "SpendingLimitExceeded",
+      ...options,
+    });
+    this.token = token;
+    this.amount = amount;
+    this.limit = limit;
+  }
+}
+
+/**
+ * The external call made by `manage`/`manageBatch` reverted
+ */
+export class CallFailedError extends LegionSafeError {
+  override name = "CallFailedError";
+  /** Revert data returned by the target */
+  readonly returnData: Hex;
+  /** The target's revert, decoded where possible */
+  readonly reason: LegionSafeError;
+
+  constructor(
+    returnData: Hex,
+    reason: LegionSafeError,
+    options: RevertErrorOptions = {}
+  ) {
+    super(`External call failed: ${reason.message}`, {
+      errorName: "CallFailed",
+      ...options,
+    });
+    this.returnData = returnData;
+    this.reason = reason;
+  }
+}
+
+/**
+ * A revert decoded against an ABI other than LegionSafe's own errors,
+ * e.g. `Error(string)`, `Panic(uint256)` or a target's custom error
+ */
+export class ContractRevertError extends LegionSafeError {
+  override name = "ContractRevertError";
+  /** Decoded error arguments */
+  readonly args: readonly unknown[];
+
+  constructor(
+    errorName: string,
+    args: readonly unknown[],
+    options: RevertErrorOptions = {}
+  ) {
+    super(formatRevert(errorName, args), { errorName, ...options });
+    this.args = args;
+  }
+}
+
+/**
+ * Revert data that matches no known ABI
+ */
+export class UnknownRevertError extends LegionSafeError {
+  override name = "UnknownRevertError";
+  /** 4-byte error selector, if any */
+  readonly selector?: Hex;
+
+  constructor(options: RevertErrorOptions = {}) {
+    const selector =
+      options.data && options.data.length >= 10
+        ? (options.data.slice(0, 10) as Hex)
+        : undefined;
+    super(
+      selector ? `Unknown revert ${selector}` : "Reverted without data",
+      { errorName: "Unknown", ...options }
+    );
+    this.selector = selector;
+  }
+}
+
+function formatRevert(errorName: string, args: readonly unknown[]): string {
+  if (errorName === "Error" && typeof args[0] === "string") return args[0];
+  if (errorName === "Panic") return `Panic(0x${(args[0] as bigint).toString(16)})`;
+  return `${errorName}(${args.map(String).join(", ")})`;
+}
+
+/**
+ * Options for decoding revert data
+ */
+export interface DecodeRevertOptions {
+  /** Calls that were being executed, used to attribute reverts and decode target errors */
+  calls?: BatchCallItem[];
+  /** Extra ABIs to decode target reverts against */
+  abis?: readonly Abi[];
+  /** Underlying error to attach as `cause` */
+  cause?: unknown;
+}
+
+/**
+ * Decode LegionSafe revert data into a typed error
+ *
+ * `CallFailed` payloads are decoded recursively against the ABIs of the calls
+ * being executed, LegionSafe's own ABI and a minimal ERC20 ABI.
+ *
+ * @param data Raw revert data
+ * @param options Decoding context
+ * @returns Typed error
+ */
+export function decodeLegionSafeError(
+  data: Hex,
+  options: DecodeRevertOptions = {}
+): LegionSafeError {
+  const { cause } = options;
+
+  let decoded;
+  try {
+    decoded = decodeErrorResult({ abi: LEGION_SAFE_ABI, data });
+  } catch {
+    return decodeForeignRevert(data, options);
+  }
+
+  const args = (decoded.args ?? []) as readonly unknown[];
+  switch (decoded.errorName) {
+    case "Unauthorized":
+      return new UnauthorizedError({ data, cause });
+    case "OwnableUnauthorizedAccount":
+      return new OwnableUnauthorizedAccountError(args[0] as Address, { data, cause });
+    case "OwnableInvalidOwner":
+      return new OwnableInvalidOwnerError(args[0] as Address, { data, cause });
+    case "InvalidAddress":
+      return new InvalidAddressError({ data, cause });
+    case "InvalidAmount":
+      return new InvalidAmountError({ data, cause });
+    case "InvalidInput":
+      return new InvalidInputError({ data, cause });
+    case "WithdrawalFailed":
+      return new WithdrawalFailedError({ data, cause });
+    case "TokenAlreadyTracked":
+      return new TokenAlreadyTrackedError({ data, cause });
+    case "TokenNotTracked":
+      return new TokenNotTrackedError({ data, cause });
+    case "CallNotAuthorized": {
+      const candidates = (options.calls ?? []).filter(
+        (call) => getSelector(call.data) !== APPROVE_SELECTOR
+      );
+      const call = candidates.length === 1 ? candidates[0] : undefined;
+      return new CallNotAuthorizedError({
+        data,
+        cause,
+        target: call?.target,
+        selector: call ? getSelector(call.data) : undefined,
+      });
+    }
+    case "SpenderNotWhitelisted": {
+      const spenders = getApproveSpenders(options.calls ?? []);
+      return new SpenderNotWhitelistedError({
+        data,
+        cause,
+        spender: spenders.length === 1 ? spenders[0] : undefined,
+      });
+    }
+    case "SpendingLimitExceeded":
+      return new SpendingLimitExceededError(
+        args[0] as Address,
+        args[1] as bigint,
+        args[2] as bigint,
+        { data, cause }
+      );
+    case "CallFailed": {
+      const returnData = args[0] as Hex;
+      const reason = decodeLegionSafeError(returnData, { ...options, cause: undefined });
+      return new CallFailedError(returnData, reason, { data, cause });
+    }
+    default:
+      return new ContractRevertError(decoded.errorName, args, { data, cause });
+  }
+}
+
+/**
+ * Decode revert data that did not come from LegionSafe itself
+ */
+function decodeForeignRevert(
+  data: Hex,
+  options: DecodeRevertOptions
+): LegionSafeError {
+  const abis: Abi[] = [
+    ...(options.abis ?? []),
+    ...(options.calls ?? []).flatMap((call) => (call.abi ? [call.abi] : [])),
+    ERC20_ABI,
+  ];
+
+  for (const abi of abis) {
+    try {
+      const decoded = decodeErrorResult({ abi, data });
+      return new ContractRevertError(
+        decoded.errorName,
+        (decoded.args ?? []) as readonly unknown[],
+        { data, cause: options.cause }
+      );
+    } catch {
+      // Try the next ABI
+    }
+  }
+
+  return new UnknownRevertError({ data, cause: options.cause });
+}
+
+/**
+ * Find the raw revert data inside a viem error
+ *
+ * @param error Error thrown by a viem action
+ * @returns Revert data, or undefined if the error is not a revert
+ */
+export function getRevertData(error: unknown): Hex | undefined {
+  if (!(error instanceof BaseError)) return undefined;
+
+  let data: Hex | undefined;
+  error.walk((err) => {
+    const { raw, data: errData } = err as { raw?: unknown; data?: unknown };
+    // ContractFunctionRevertedError exposes `raw`; RPC errors expose `data`,
+    // either as hex or as `{ data: hex }` depending on the node
+    const candidate =
+      raw ??
+      (errData && typeof errData === "object"
+        ? (errData as { data?: unknown }).data
+        : errData);
+    if (typeof candidate === "string" && isHex(candidate) && candidate.length >= 10) {
+      data = candidate;
+      return true;
+    }
+    return false;
+  });
+  return data;
+}
+
+/** Messages of nodes that reject an unknown method without the standard code */
+const UNSUPPORTED_METHOD_MESSAGE =
+  /method\b.*\b(not found|not supported|not available|does not exist)|unsupported method/i;
+
+/**
+ * Whether an error means the node does not implement the requested RPC
+ * method, as opposed to the request itself failing (a revert, a timeout, a
+ * rate limit or bad arguments)
+ *
+ * @param error Error thrown by a viem action
+ */
+export function isUnsupportedMethodError(error: unknown): boolean {
+  for (let err = error; err instanceof Error; err = err.cause) {
+    const { code } = err as { code?: unknown };
+    if (
+      code === MethodNotFoundRpcError.code ||
+      code === MethodNotSupportedRpcError.code ||
+      code === UnsupportedProviderMethodError.code ||
+      UNSUPPORTED_METHOD_MESSAGE.test(err.message)
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Convert an error thrown while sending or simulating a call into a typed
+ * LegionSafeError. Errors that carry no revert data are returned unchanged.
+ *
+ * @param error Error thrown by a viem action
+ * @param options Decoding context
+ */
+export function toLegionSafeError(
+  error: unknown,
+  options: Omit<DecodeRevertOptions, "cause"> = {}
+): unknown {
+  if (error instanceof LegionSafeError) return error;
+  const data = getRevertData(error);
+  if (!data) return error;
+  return decodeLegionSafeError(data, { ...options, cause: error });
+}
+
+/**
+ * Typed error for a transaction that was mined and reverted
+ *
+ * Replays the transaction on the parent block and decodes its revert. State
+ * can move between estimation and inclusion (a price moves, another call uses
+ * up the spending window), so this can differ from what gas estimation saw.
+ * Falls back to UnknownRevertError when the replay does not revert (an
+ * earlier transaction in the block caused it) or cannot be run.
+ *
+ * @param publicClient Public client
+ * @param hash Reverted transaction
+ * @param blockNumber Block it was mined in
+ * @param calls Calls the transaction executed, used to attribute the revert
+ * @returns Error with `transactionHash` set
+ */
+export async function replayRevertError(
+  publicClient: PublicClient,
+  hash: Hash,
+  blockNumber: bigint,
+  calls: BatchCallItem[] = []
+): Promise<LegionSafeError> {
+  let error: LegionSafeError = new UnknownRevertError();
+  try {
+    const tx = await publicClient.getTransaction({ hash });
+    await publicClient.call({
+      account: tx.from,
+      to: tx.to!,
+      data: tx.input,
+      value: tx.value,
+      blockNumber: blockNumber - 1n,
+    });
+  } catch (replayError) {
+    const data = getRevertData(replayError);
+    if (data) error = decodeLegionSafeError(data, { calls, cause: replayError });
+  }
+  error.transactionHash = hash;
+  return error;
+}
+
+/**
+ * Get the 4-byte selector of calldata, lowercased so it compares equal to
+ * selector constants whatever the calldata's hex case
+ */
+export function getSelector(data: Hex): Hex {
+  return data.slice(0, 10).toLowerCase() as Hex;
+}
+
+/**
+ * Spenders of every `approve` call in a list of calls
+ */
+export function getApproveSpenders(calls: BatchCallItem[]): Address[] {
+  const spenders: Address[] = [];
+  for (const call of calls) {
+    if (getSelector(call.data) !== APPROVE_SELECTOR) continue;
+    try {
+      const { args } = decodeFunctionData({ abi: ERC20_ABI, data: call.data });
+      spenders.push(args[0] as Address);
+    } catch {
+      // Malformed approve calldata; the contract would still read the spender
+      // from bytes 4-36, which the caller can inspect from `data`
+    }
+  }
+  return spenders;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ExactOutputUnreachableError, quoteExactOutput } from './exactOutput.js';
+import type { SwapProvider, SwapQuoteRequest } from './integrations/types.js';
+
+const USDT = '0x55d398326f99059fF775485246999027B3197955';
+const MEME = '0x2222222222222222222222222222222222222222';
+
+/** Constant-product pool with 1,000,000 of each token and no fee */
+function pool(): SwapProvider & { requested: bigint[] } {
+  const requested: bigint[] = [];
+  return {
+    name: 'Pool',
+    chainId: 56,
+    routerAddress: '0x4444444444444444444444444444444444444444',
+    requiredSelectors: [],
+    requested,
+    quote: async ({ tokenIn, tokenOut, amountIn }: SwapQuoteRequest) => {
+      requested.push(amountIn);
+      return {
+        provider: 'Pool',
+        chainId: 56,
+        tokenIn,
+        tokenOut,
+        amountIn,
+        amountOut: (amountIn * 1_000_000n) / (1_000_000n + amountIn),
+        routerAddress: '0x4444444444444444444444444444444444444444',
+        quotedAt: 0,
+        raw: {},
+      };
+    },
+    buildCalldata: async () => {
+      throw new Error('not used');
+    },
+  };
+}
+
+describe('quoteExactOutput', () => {
+  it('narrows the input to the smallest quote covering the target after slippage and tax', async () => {
+    const provider = pool();
+
+    const { quote, requiredAmountOut, quotes } = await quoteExactOutput(provider, {
+      tokenIn: USDT,
+      tokenOut: MEME,
+      amountOut: 98_000n,
+      maxAmountIn: 500_000n,
+      slippageBps: 100,
+      tokenOutTaxBps: 100,
+    });
+
+    // 98,000 / 0.99 / 0.99
+    expect(requiredAmountOut).toBe(99_990n);
+    expect(quote.amountOut).toBeGreaterThanOrEqual(requiredAmountOut);
+    expect(quote.amountOut * 10_000n).toBeLessThanOrEqual(requiredAmountOut * 10_010n);
+    expect(quotes).toBe(provider.requested.length);
+    expect(provider.requested[0]).toBe(500_000n);
+  });
+
+  it('throws when the maximum input cannot cover the target', async () => {
+    await expect(
+      quoteExactOutput(pool(), { tokenIn: USDT, tokenOut: MEME, amountOut: 400_000n, maxAmountIn: 500_000n })
+    ).rejects.toBeInstanceOf(ExactOutputUnreachableError);
+  });
+});
@@ -0,0 +1,117 @@
+import { Address } from "viem";
+import type { SwapProvider, SwapQuote } from "./integrations/types.js";
+
+/**
+ * Output amount to size an exact-input quote for
+ */
+export interface ExactOutputQuoteRequest {
+  /** Input token (NATIVE_TOKEN_ADDRESS for native token) */
+  tokenIn: Address;
+  /** Output token (NATIVE_TOKEN_ADDRESS for native token) */
+  tokenOut: Address;
+  /** Output amount the vault must end up with */
+  amountOut: bigint;
+  /** Most input the vault will spend */
+  maxAmountIn: bigint;
+  /** Slippage tolerance the calldata will be built with, in bps (default: 50) */
+  slippageBps?: number;
+  /** Transfer tax the output token takes on receipt, in bps (default: 0) */
+  tokenOutTaxBps?: number;
+  /** Most quotes to request while narrowing the input (default: 6) */
+  maxQuotes?: number;
+  /** Stop narrowing once the quote overshoots the target by at most this, in bps (default: 10) */
+  toleranceBps?: number;
+}
+
+/**
+ * Smallest exact-input quote found that still covers the output target
+ */
+export interface ExactOutputQuote {
+  /** Quote to build calldata from, with `amountIn` sized for the target */
+  quote: SwapQuote;
+  /**
+   * Quoted output needed so that, after slippage and transfer tax, the vault
+   * still receives `amountOut`
+   */
+  requiredAmountOut: bigint;
+  /** Number of quotes requested */
+  quotes: number;
+}
+
+/**
+ * Thrown when even `maxAmountIn` does not quote enough output
+ */
+export class ExactOutputUnreachableError extends Error {
+  constructor(
+    public readonly provider: string,
+    public readonly requiredAmountOut: bigint,
+    public readonly maxAmountOut: bigint
+  ) {
+    super(
+      `${provider} quotes at most ${maxAmountOut} for the maximum input, ` +
+        `but ${requiredAmountOut} is needed to cover the output after slippage and tax`
+    );
+    this.name = "ExactOutputUnreachableError";
+  }
+}
+
+/**
+ * Size the input of an exact-input provider to hit an output target
+ *
+ * Aggregators only quote exact-input swaps, so this quotes `maxAmountIn`
+ * first and then scales the input down by the ratio of target to quoted
+ * output. Price impact only makes output grow slower than input, so each
+ * scaled-down input still covers the target; a quote that falls short (split
+ * routes, rounding) ends the search with the last covering quote.
+ *
+ * The target is grossed up for slippage and transfer tax, so the router's
+ * minimum output check guarantees the vault receives at least `amountOut`
+ * whenever the swap succeeds. Taxed outputs also need `slippageBps` above the
+ * tax for routers that check the post-tax balance.
+ *
+ * @throws {ExactOutputUnreachableError} If `maxAmountIn` does not cover the target
+ */
+export async function quoteExactOutput(
+  provider: SwapProvider,
+  request: ExactOutputQuoteRequest
+): Promise<ExactOutputQuote> {
+  const requiredAmountOut = grossUp(
+    grossUp(request.amountOut, request.slippageBps ?? 50),
+    request.tokenOutTaxBps ?? 0
+  );
+  const maxQuotes = request.maxQuotes ?? 6;
+  const toleranceBps = BigInt(request.toleranceBps ?? 10);
+
+  const quote = (amountIn: bigint) =>
+    provider.quote({ tokenIn: request.tokenIn, tokenOut: request.tokenOut, amountIn });
+
+  let best = await quote(request.maxAmountIn);
+  let quotes = 1;
+  if (best.amountOut < requiredAmountOut) {
+    throw new ExactOutputUnreachableError(provider.name, requiredAmountOut, best.amountOut);
+  }
+
+  while (quotes < maxQuotes) {
+    const overshoot = best.amountOut - requiredAmountOut;
+    if (overshoot * 10_000n <= requiredAmountOut * toleranceBps) break;
+
+    const amountIn = ceilDiv(best.amountIn * requiredAmountOut, best.amountOut);
+    if (amountIn >= best.amountIn) break;
+
+    const next = await quote(amountIn);
+    quotes++;
+    if (next.amountOut < requiredAmountOut) break;
+    best = next;
+  }
+
+  return { quote: best, requiredAmountOut, quotes };
+}
+
+/** Amount that is still `amount` after losing `bps` of it */
+function grossUp(amount: bigint, bps: number): bigint {
+  return ceilDiv(amount * 10_000n, 10_000n - BigInt(bps));
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - 1n) / b;
+}
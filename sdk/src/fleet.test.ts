@@ -0,0 +1,157 @@
+import { describe, expect, it, vi } from 'vitest';
+import { UnknownRevertError } from './errors.js';
+import { LegionSafeFleet } from './fleet.js';
+import { stubChain } from './test/stubs.js';
+
+const VAULT_A = '0x1111111111111111111111111111111111111111';
+const VAULT_B = '0x2222222222222222222222222222222222222222';
+const OWNER = '0x3333333333333333333333333333333333333333';
+const OPERATOR = '0x4444444444444444444444444444444444444444';
+const USDT = '0x5555555555555555555555555555555555555555';
+const WETH = '0x6666666666666666666666666666666666666666';
+const IMPLEMENTATION = '0x7777777777777777777777777777777777777777';
+const ZERO = '0x0000000000000000000000000000000000000000';
+
+/** Error a write method throws for a transaction that was mined but reverted */
+const reverted = (hash: string) => Object.assign(new UnknownRevertError(), { transactionHash: hash });
+
+type Call = { address: string; functionName: string; args?: string[] };
+
+/**
+ * Chain where every vault has the same roles, tracks native token and USDT
+ * (limited to 100, 40 left) and holds 5 wei and 7 USDT; `broken` vaults revert.
+ * Without `multicall` the chain has no Multicall3.
+ */
+function chain(broken: string[] = [], { multicall = true } = {}) {
+  const multicalls: Call[][] = [];
+  const reads: Call[] = [];
+  const read = ({ address, functionName, args }: Call) => {
+    if (broken.includes(address)) return { status: 'failure', error: new Error(`${address} reverted`) };
+    const results: Record<string, unknown> = {
+      owner: OWNER,
+      pendingOwner: ZERO,
+      operator: OPERATOR,
+      getTrackedTokens: [ZERO, USDT],
+      getETHBalance: 5n,
+      UPGRADE_INTERFACE_VERSION: '5.0.0',
+      getTokenBalance: args?.[0] === USDT ? 7n : 0n,
+      getRemainingLimit: args?.[0] === USDT ? [40n, 1000n] : [0n, 0n],
+    };
+    return { status: 'success', result: results[functionName] };
+  };
+  const { publicClient, walletClient } = stubChain(
+    {
+      getStorageAt: async () => `0x${IMPLEMENTATION.slice(2).padStart(64, '0')}`,
+      multicall: async ({ contracts }: { contracts: Call[] }) => {
+        multicalls.push(contracts);
+        if (!multicall) throw new Error('returned no data ("0x")');
+        return contracts.map(read);
+      },
+      readContract: async (call: Call) => {
+        reads.push(call);
+        const result = read(call);
+        if (result.status === 'failure') throw result.error;
+        return result.result;
+      },
+    },
+    { account: OWNER, blockNumber: 10n }
+  );
+  return { publicClient, walletClient, multicalls, reads };
+}
+
+function fleet(broken: string[] = [], { baseMulticall = true } = {}) {
+  const bsc = chain(broken);
+  const base = chain(broken, { multicall: baseMulticall });
+  const legion = new LegionSafeFleet({
+    chains: { 56: bsc, 8453: base },
+    vaults: [
+      { id: 'a', chainId: 56, safeAddress: VAULT_A },
+      { id: 'b', chainId: 56, safeAddress: VAULT_B },
+      { id: 'c', chainId: 8453, safeAddress: VAULT_A },
+    ],
+  });
+  return { legion, bsc, base };
+}
+
+describe('LegionSafeFleet', () => {
+  it('reads every vault of a chain in two multicalls plus one storage read each', async () => {
+    const { legion, bsc, base } = fleet();
+
+    const states = await legion.getStates({ tokens: { 56: [WETH] } });
+
+    expect(states).toMatchObject({ fulfilled: 3, rejected: 0 });
+    expect(bsc.multicalls).toHaveLength(2);
+    expect(base.multicalls).toHaveLength(2);
+    expect(states.results[0]).toMatchObject({
+      status: 'fulfilled',
+      value: {
+        blockNumber: 10n,
+        owner: OWNER,
+        pendingOwner: undefined,
+        operator: OPERATOR,
+        implementation: IMPLEMENTATION,
+        upgradeInterfaceVersion: '5.0.0',
+        nativeBalance: 5n,
+        tokens: [
+          { token: ZERO, balance: 5n, remaining: undefined },
+          { token: USDT, balance: 7n, remaining: 40n, windowEndsAt: 1000n },
+          { token: WETH, balance: 0n, remaining: undefined },
+        ],
+      },
+    });
+    // Extra tokens are per chain
+    expect(states.results[2].status === 'fulfilled' && states.results[2].value.tokens).toHaveLength(2);
+  });
+
+  it('reads call by call on a chain without Multicall3', async () => {
+    const { legion, base } = fleet([], { baseMulticall: false });
+
+    const states = await legion.getStates();
+
+    expect(states).toMatchObject({ fulfilled: 3, rejected: 0 });
+    expect(states.results[2]).toMatchObject({ status: 'fulfilled', value: { owner: OWNER, nativeBalance: 5n } });
+    expect(base.reads.length).toBeGreaterThan(0);
+  });
+
+  it('reports failing vaults without failing the rest', async () => {
+    const { legion } = fleet([VAULT_B]);
+
+    const states = await legion.getStates();
+
+    expect(states).toMatchObject({ fulfilled: 2, rejected: 1 });
+    expect(states.results[1]).toMatchObject({ vault: { id: 'b' }, status: 'rejected' });
+
+    vi.spyOn(legion.client('a'), 'setOperator').mockRejectedValue(new Error('not owner'));
+    vi.spyOn(legion.client('b'), 'setOperator').mockRejectedValue(reverted('0x01'));
+    vi.spyOn(legion.client('c'), 'setOperator').mockResolvedValue({ hash: '0x02', status: 'success' } as never);
+
+    const rotation = await legion.rotateOperator((vault) => (vault.chainId === 56 ? OWNER : OPERATOR));
+
+    expect(rotation).toMatchObject({ fulfilled: 1, rejected: 2 });
+    expect(rotation.results.map((result) => result.status)).toEqual(['rejected', 'rejected', 'fulfilled']);
+    expect(rotation.results[1]).toMatchObject({ error: { transactionHash: '0x01' } });
+    expect(legion.client('c').setOperator).toHaveBeenCalledWith(OPERATOR, undefined);
+  });
+
+  it('sweeps only tokens with a balance', async () => {
+    const { legion } = fleet();
+    const withdrawERC20 = vi
+      .spyOn(legion.client('a'), 'withdrawAllERC20')
+      .mockResolvedValue({ hash: '0x01', status: 'success' } as never);
+    const withdrawETH = vi.spyOn(legion.client('a'), 'withdrawAllETH').mockRejectedValue(reverted('0x02'));
+
+    const sweep = await legion.sweep({ tokens: { 56: [WETH] }, native: true, filter: (vault) => vault.id === 'a' });
+
+    expect(sweep.results).toHaveLength(1);
+    expect(withdrawERC20).toHaveBeenCalledOnce();
+    expect(withdrawERC20).toHaveBeenCalledWith(USDT, undefined);
+    expect(withdrawETH).toHaveBeenCalledOnce();
+    expect(sweep.results[0]).toMatchObject({
+      status: 'fulfilled',
+      value: [
+        { token: USDT, amount: 7n, result: { hash: '0x01' } },
+        { token: ZERO, amount: 5n, error: expect.objectContaining({ transactionHash: '0x02' }) },
+      ],
+    });
+  });
+});
@@ -0,0 +1,540 @@
+import { Address, PublicClient, WalletClient } from "viem";
+import { LEGION_SAFE_ABI } from "./abis.js";
+import { ZERO_ADDRESS } from "./constants.js";
+import { LegionSafeClient } from "./LegionSafeClient.js";
+import { ContractRead, ReadBatcher } from "./reads.js";
+import { getImplementation } from "./upgrade.js";
+import { uniqueAddresses } from "./utils.js";
+import type {
+  GasConfig,
+  GasOptions,
+  MulticallConfig,
+  PolicyApplyResult,
+  PolicyPlan,
+  PolicyPlanOptions,
+  ReturnDataSource,
+  TransactionResult,
+  VaultPolicy,
+} from "./types.js";
+
+/**
+ * RPC and signer for one chain of a fleet
+ */
+export interface FleetChain {
+  /** Public client for the chain */
+  publicClient: PublicClient;
+  /** Wallet that signs on every vault of the chain (the owner for bulk owner actions) */
+  walletClient: WalletClient;
+  /** Gas configuration of the chain's vault clients */
+  gas?: GasConfig;
+  /** Return data recovery of the chain's vault clients */
+  returnDataSource?: ReturnDataSource;
+  /**
+   * Multicall3 settings of the chain (default: the chain's `multicall3`
+   * contract, else the canonical address); false reads call by call
+   */
+  multicall?: MulticallConfig | false;
+}
+
+/**
+ * One vault of a fleet
+ */
+export interface FleetVault {
+  /** Unique name, e.g. the strategy the vault runs */
+  id: string;
+  /** Chain the vault is on; must be configured in `chains` */
+  chainId: number;
+  /** Vault (proxy) address */
+  safeAddress: Address;
+  /** Block the vault was deployed at */
+  deploymentBlock?: bigint;
+}
+
+/**
+ * Configuration for LegionSafeFleet
+ */
+export interface LegionSafeFleetConfig {
+  /** RPC and signer per chain ID */
+  chains: Record<number, FleetChain>;
+  /** Vaults to start with */
+  vaults?: FleetVault[];
+}
+
+/**
+ * Outcome of a fleet operation on one vault, shaped like Promise.allSettled()
+ */
+export type FleetResult<T> =
+  | { vault: FleetVault; status: "fulfilled"; value: T }
+  | { vault: FleetVault; status: "rejected"; error: unknown };
+
+/**
+ * Per-vault outcomes of a fleet operation, in fleet order
+ */
+export interface FleetReport<T> {
+  results: FleetResult<T>[];
+  /** Vaults the operation succeeded on */
+  fulfilled: number;
+  /** Vaults the operation failed on; the others were not affected */
+  rejected: number;
+}
+
+/**
+ * Vaults to include in a fleet operation
+ */
+export interface FleetFilterOptions {
+  /** Only include vaults this returns true for (default: all) */
+  filter?: (vault: FleetVault) => boolean;
+}
+
+/**
+ * Options for LegionSafeFleet.getStates()
+ */
+export interface FleetStateOptions extends FleetFilterOptions {
+  /** Tokens to read on every vault of a chain besides its tracked tokens, by chain ID */
+  tokens?: Record<number, Address[]>;
+}
+
+/**
+ * Balance and spending headroom of one token in a vault
+ */
+export interface FleetTokenState {
+  /** Token (zero address for native token) */
+  token: Address;
+  /** Vault balance */
+  balance: bigint;
+  /** Amount left in the current spending window (undefined if the token has no limit) */
+  remaining?: bigint;
+  /** When the current spending window ends (undefined if the token has no limit) */
+  windowEndsAt?: bigint;
+}
+
+/**
+ * State of one vault, read in the same block as the rest of its chain
+ */
+export interface FleetVaultState {
+  /** Block the state was read at */
+  blockNumber: bigint;
+  /** Owner */
+  owner: Address;
+  /** Address that can accept ownership, if a transfer is pending */
+  pendingOwner?: Address;
+  /** Operator */
+  operator: Address;
+  /** Implementation behind the proxy */
+  implementation: Address;
+  /** UUPS interface version of the implementation, e.g. "5.0.0" */
+  upgradeInterfaceVersion: string;
+  /** Native token balance */
+  nativeBalance: bigint;
+  /** Tokens tracked for spending limits */
+  trackedTokens: Address[];
+  /** Tracked tokens followed by the extra tokens requested for the chain */
+  tokens: FleetTokenState[];
+}
+
+/**
+ * Token withdrawn by LegionSafeFleet.sweep()
+ */
+export interface FleetWithdrawal {
+  /** Token (zero address for native token) */
+  token: Address;
+  /** Balance that was swept */
+  amount: bigint;
+  /** Transaction, if the withdrawal went through */
+  result?: TransactionResult;
+  /** Error, if it did not; later tokens are still attempted */
+  error?: unknown;
+}
+
+/**
+ * Options for LegionSafeFleet.sweep()
+ */
+export interface FleetSweepOptions extends FleetFilterOptions {
+  /** Tokens to sweep on every vault of a chain besides its tracked tokens, by chain ID */
+  tokens?: Record<number, Address[]>;
+  /** Sweep tracked tokens (default: true) */
+  trackedTokens?: boolean;
+  /** Sweep the native token too (default: false) */
+  native?: boolean;
+  /** Optional gas configuration */
+  gasOptions?: GasOptions;
+}
+
+const STATE_FUNCTIONS = [
+  "owner",
+  "pendingOwner",
+  "operator",
+  "getTrackedTokens",
+  "getETHBalance",
+  "UPGRADE_INTERFACE_VERSION",
+] as const;
+
+/**
+ * Many vaults across chains, with aggregated reads and bulk owner actions
+ *
+ * Reads go through Multicall3, one aggregated call per chain and round, all
+ * pinned to one block, so states of a chain are consistent with each other.
+ * Bulk actions run vault by
+ * vault on each chain (vaults of a chain share a signer, and so a nonce
+ * sequence) and chains in parallel; a failure on one vault is reported in its
+ * result and does not stop the others.
+ *
+ * @example
+ * ```typescript
+ * const fleet = new LegionSafeFleet({
+ *   chains: { 56: { publicClient: bscPublic, walletClient: bscOwner } },
+ *   vaults: [{ id: "meme-1", chainId: 56, safeAddress: "0x..." }],
+ * });
+ *
+ * const states = await fleet.getStates();
+ * const rotation = await fleet.rotateOperator(newBot);
+ * for (const result of rotation.results) {
+ *   if (result.status === "rejected") console.error(result.vault.id, result.error);
+ * }
+ * ```
+ */
+export class LegionSafeFleet {
+  private readonly chains: Record<number, FleetChain>;
+  private readonly members = new Map<string, FleetVault>();
+  private readonly clients = new Map<string, LegionSafeClient>();
+  private readonly readers = new Map<number, ReadBatcher>();
+
+  constructor(config: LegionSafeFleetConfig) {
+    this.chains = config.chains;
+    for (const vault of config.vaults ?? []) this.add(vault);
+  }
+
+  /**
+   * Vaults in the fleet, in the order they were added
+   */
+  get vaults(): FleetVault[] {
+    return [...this.members.values()];
+  }
+
+  /**
+   * Add a vault
+   *
+   * @throws {Error} If the id is taken or the vault's chain is not configured
+   */
+  add(vault: FleetVault): this {
+    if (this.members.has(vault.id)) {
+      throw new Error(`Fleet already has a vault named ${vault.id}`);
+    }
+    if (!this.chains[vault.chainId]) {
+      throw new Error(`No chain ${vault.chainId} configured for vault ${vault.id}`);
+    }
+    this.members.set(vault.id, vault);
+    return this;
+  }
+
+  /**
+   * Remove a vault
+   */
+  remove(id: string): boolean {
+    this.clients.delete(id);
+    return this.members.delete(id);
+  }
+
+  /**
+   * Client for one vault, built from its chain's configuration
+   *
+   * @throws {Error} If there is no vault with this id
+   */
+  client(id: string): LegionSafeClient {
+    const vault = this.members.get(id);
+    if (!vault) throw new Error(`Fleet has no vault named ${id}`);
+
+    let client = this.clients.get(id);
+    if (!client) {
+      const chain = this.chains[vault.chainId];
+      client = new LegionSafeClient({
+        safeAddress: vault.safeAddress,
+        walletClient: chain.walletClient,
+        publicClient: chain.publicClient,
+        deploymentBlock: vault.deploymentBlock,
+        gas: chain.gas,
+        returnDataSource: chain.returnDataSource,
+        multicall: chain.multicall,
+      });
+      this.clients.set(id, client);
+    }
+    return client;
+  }
+
+  /**
+   * Read owner, operator, implementation, balances and spending headroom of
+   * every vault
+   *
+   * @param options Vault filter and extra tokens per chain
+   */
+  async getStates(options: FleetStateOptions = {}): Promise<FleetReport<FleetVaultState>> {
+    const vaults = this.select(options);
+    const byChain = groupByChain(vaults);
+
+    const results = new Map<FleetVault, FleetResult<FleetVaultState>>();
+    await Promise.all(
+      [...byChain].map(async ([chainId, chainVaults]) => {
+        try {
+          const states = await this.readChain(chainId, chainVaults, options.tokens?.[chainId] ?? []);
+          chainVaults.forEach((vault, i) => results.set(vault, states[i]));
+        } catch (error) {
+          for (const vault of chainVaults) results.set(vault, { vault, status: "rejected", error });
+        }
+      })
+    );
+
+    return report(vaults.map((vault) => results.get(vault)!));
+  }
+
+  /**
+   * Set the same operator, or one per vault, on every vault (owner only)
+   *
+   * @param newOperator Operator, or a function picking one per vault
+   * @param options Vault filter and gas configuration
+   */
+  async rotateOperator(
+    newOperator: Address | ((vault: FleetVault) => Address),
+    options: FleetFilterOptions & { gasOptions?: GasOptions } = {}
+  ): Promise<FleetReport<TransactionResult>> {
+    return this.each(options, (client, vault) =>
+      client.setOperator(
+        typeof newOperator === "function" ? newOperator(vault) : newOperator,
+        options.gasOptions
+      )
+    );
+  }
+
+  /**
+   * Withdraw the whole balance of each token to each vault's owner (owner only)
+   *
+   * Balances are read first, so tokens a vault does not hold are skipped
+   * instead of reverting with InvalidAmount.
+   *
+   * @param options Tokens to sweep, vault filter and gas configuration
+   */
+  async sweep(options: FleetSweepOptions = {}): Promise<FleetReport<FleetWithdrawal[]>> {
+    const states = await this.getStates({ filter: options.filter, tokens: options.tokens });
+    const stateOf = new Map(states.results.map((result) => [result.vault, result]));
+
+    return this.each(options, async (client, vault) => {
+      const state = stateOf.get(vault)!;
+      if (state.status === "rejected") throw state.error;
+
+      const extra = new Set((options.tokens?.[vault.chainId] ?? []).map((token) => token.toLowerCase()));
+      const sweepTracked = options.trackedTokens ?? true;
+      const withdrawals: FleetWithdrawal[] = [];
+
+      for (const { token, balance } of state.value.tokens) {
+        if (token === ZERO_ADDRESS || balance === 0n) continue;
+        if (!sweepTracked && !extra.has(token.toLowerCase())) continue;
+        withdrawals.push(
+          await settle(token, balance, () => client.withdrawAllERC20(token, options.gasOptions))
+        );
+      }
+      if (options.native && state.value.nativeBalance > 0n) {
+        withdrawals.push(
+          await settle(ZERO_ADDRESS, state.value.nativeBalance, () =>
+            client.withdrawAllETH(options.gasOptions)
+          )
+        );
+      }
+
+      return withdrawals;
+    });
+  }
+
+  /**
+   * Plan the same policy, or one per vault, on every vault
+   *
+   * @param policy Policy, or a function building one per vault
+   * @param options Vault filter and planning options
+   */
+  async planPolicy(
+    policy: VaultPolicy | ((vault: FleetVault) => VaultPolicy),
+    options: FleetFilterOptions & PolicyPlanOptions = {}
+  ): Promise<FleetReport<PolicyPlan>> {
+    return this.each(
+      options,
+      (client, vault) =>
+        client.planPolicy(typeof policy === "function" ? policy(vault) : policy, options),
+      { parallel: true }
+    );
+  }
+
+  /**
+   * Apply the same policy, or one per vault, on every vault (owner only)
+   *
+   * @param policy Policy, or a function building one per vault
+   * @param options Vault filter, planning options and gas configuration
+   */
+  async applyPolicy(
+    policy: VaultPolicy | ((vault: FleetVault) => VaultPolicy),
+    options: FleetFilterOptions & PolicyPlanOptions & { gasOptions?: GasOptions } = {}
+  ): Promise<FleetReport<PolicyApplyResult>> {
+    return this.each(options, (client, vault) =>
+      client.applyPolicy(typeof policy === "function" ? policy(vault) : policy, options)
+    );
+  }
+
+  /**
+   * Run an action on every selected vault: one vault at a time per chain
+   * (unless `parallel`), chains in parallel
+   */
+  private async each<T>(
+    options: FleetFilterOptions,
+    action: (client: LegionSafeClient, vault: FleetVault) => Promise<T>,
+    { parallel = false } = {}
+  ): Promise<FleetReport<T>> {
+    const vaults = this.select(options);
+    const results = new Map<FleetVault, FleetResult<T>>();
+
+    const run = async (vault: FleetVault) => {
+      try {
+        results.set(vault, { vault, status: "fulfilled", value: await action(this.client(vault.id), vault) });
+      } catch (error) {
+        results.set(vault, { vault, status: "rejected", error });
+      }
+    };
+
+    await Promise.all(
+      [...groupByChain(vaults).values()].map(async (chainVaults) => {
+        if (parallel) {
+          await Promise.all(chainVaults.map(run));
+        } else {
+          for (const vault of chainVaults) await run(vault);
+        }
+      })
+    );
+
+    return report(vaults.map((vault) => results.get(vault)!));
+  }
+
+  private select(options: FleetFilterOptions): FleetVault[] {
+    return options.filter ? this.vaults.filter(options.filter) : this.vaults;
+  }
+
+  /**
+   * Read the state of every vault of a chain in two aggregated reads (roles,
+   * tracked tokens and native balance first, then token balances and
+   * limits), plus one `eth_getStorageAt` per vault for its implementation
+   */
+  private async readChain(
+    chainId: number,
+    vaults: FleetVault[],
+    extraTokens: Address[]
+  ): Promise<FleetResult<FleetVaultState>[]> {
+    const { publicClient } = this.chains[chainId];
+    const reads = this.reader(chainId);
+    const blockNumber = await publicClient.getBlockNumber();
+
+    const [first, implementations] = await Promise.all([
+      reads.readAll(
+        vaults.flatMap((vault) =>
+          STATE_FUNCTIONS.map((functionName): ContractRead => ({
+            address: vault.safeAddress,
+            abi: LEGION_SAFE_ABI,
+            functionName,
+          }))
+        ),
+        { blockNumber }
+      ),
+      Promise.all(
+        vaults.map((vault) =>
+          getImplementation(publicClient, vault.safeAddress, blockNumber).catch((error: unknown) => error)
+        )
+      ),
+    ]);
+
+    const tokensOf = vaults.map((_, i) => {
+      const tracked = first[i * STATE_FUNCTIONS.length + 3];
+      return uniqueAddresses([...(tracked.status === "success" ? (tracked.result as Address[]) : []), ...extraTokens]);
+    });
+
+    const second = await reads.readAll(
+      vaults.flatMap((vault, i) =>
+        tokensOf[i].flatMap((token): ContractRead[] => [
+          token === ZERO_ADDRESS
+            ? { address: vault.safeAddress, abi: LEGION_SAFE_ABI, functionName: "getETHBalance" }
+            : { address: vault.safeAddress, abi: LEGION_SAFE_ABI, functionName: "getTokenBalance", args: [token] },
+          { address: vault.safeAddress, abi: LEGION_SAFE_ABI, functionName: "getRemainingLimit", args: [token] },
+        ])
+      ),
+      { blockNumber }
+    );
+
+    let cursor = 0;
+    return vaults.map((vault, i) => {
+      const stateReads = first.slice(i * STATE_FUNCTIONS.length, (i + 1) * STATE_FUNCTIONS.length);
+      const tokenReads = second.slice(cursor, (cursor += tokensOf[i].length * 2));
+      const implementation = implementations[i];
+
+      const failed = [...stateReads, ...tokenReads].find((read) => read.status === "failure");
+      if (failed) return { vault, status: "rejected", error: failed.error };
+      if (typeof implementation !== "string") return { vault, status: "rejected", error: implementation };
+
+      const [owner, pendingOwner, operator, trackedTokens, nativeBalance, version] = stateReads.map(
+        (read) => read.result
+      ) as [Address, Address, Address, Address[], bigint, string];
+
+      return {
+        vault,
+        status: "fulfilled",
+        value: {
+          blockNumber,
+          owner,
+          pendingOwner: pendingOwner === ZERO_ADDRESS ? undefined : pendingOwner,
+          operator,
+          implementation: implementation as Address,
+          upgradeInterfaceVersion: version,
+          nativeBalance,
+          trackedTokens,
+          tokens: tokensOf[i].map((token, j) => {
+            const [remaining, windowEndsAt] = tokenReads[j * 2 + 1].result as [bigint, bigint];
+            const limited = windowEndsAt !== 0n;
+            return {
+              token,
+              balance: tokenReads[j * 2].result as bigint,
+              remaining: limited ? remaining : undefined,
+              windowEndsAt: limited ? windowEndsAt : undefined,
+            };
+          }),
+        },
+      };
+    });
+  }
+
+  private reader(chainId: number): ReadBatcher {
+    let reader = this.readers.get(chainId);
+    if (!reader) {
+      const chain = this.chains[chainId];
+      reader = new ReadBatcher(chain.publicClient, chain.multicall);
+      this.readers.set(chainId, reader);
+    }
+    return reader;
+  }
+}
+
+async function settle(
+  token: Address,
+  amount: bigint,
+  withdraw: () => Promise<TransactionResult>
+): Promise<FleetWithdrawal> {
+  try {
+    return { token, amount, result: await withdraw() };
+  } catch (error) {
+    return { token, amount, error };
+  }
+}
+
+function groupByChain(vaults: FleetVault[]): Map<number, FleetVault[]> {
+  const groups = new Map<number, FleetVault[]>();
+  for (const vault of vaults) {
+    groups.set(vault.chainId, [...(groups.get(vault.chainId) ?? []), vault]);
+  }
+  return groups;
+}
+
+function report<T>(results: FleetResult<T>[]): FleetReport<T> {
+  const fulfilled = results.filter((result) => result.status === "fulfilled").length;
+  return { results, fulfilled, rejected: results.length - fulfilled };
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { PublicClient } from 'viem';
+import {
+  GasPriceTooHighError,
+  aggressiveStrategy,
+  eip1559Strategy,
+  legacyStrategy,
+  resolveGasFees,
+  resolveGasParameters,
+} from './gas.js';
+
+const GWEI = 1_000_000_000n;
+const ACCOUNT = '0x1111111111111111111111111111111111111111';
+const SAFE = '0x2222222222222222222222222222222222222222';
+
+const client = {
+  getFeeHistory: async () => ({
+    baseFeePerGas: [10n * GWEI, 11n * GWEI, 12n * GWEI],
+    reward: [[1n * GWEI], [3n * GWEI], [2n * GWEI]],
+  }),
+  getGasPrice: async () => 5n * GWEI,
+  estimateGas: async () => 100_000n,
+} as unknown as PublicClient;
+
+describe('gas strategies', () => {
+  it('eip1559 uses the median sampled tip and the next base fee', async () => {
+    const fees = await eip1559Strategy().getFees(client);
+
+    expect(fees).toEqual({
+      maxFeePerGas: 2n * 12n * GWEI + 2n * GWEI,
+      maxPriorityFeePerGas: 2n * GWEI,
+    });
+  });
+
+  it('legacy scales eth_gasPrice', async () => {
+    const fees = await legacyStrategy({ multiplierBps: 11_000n }).getFees(client);
+
+    expect(fees).toEqual({ gasPrice: 5_500_000_000n });
+  });
+
+  it('aggressive raises the tip without touching the base fee headroom', async () => {
+    const fees = await aggressiveStrategy({ tipMultiplierBps: 20_000n }).getFees(client);
+
+    expect(fees).toEqual({
+      maxFeePerGas: 3n * 12n * GWEI + 4n * GWEI,
+      maxPriorityFeePerGas: 4n * GWEI,
+    });
+  });
+
+  it('aggressive scales eth_gasPrice when the chain reports no base fee', async () => {
+    const zeroBaseFee = {
+      ...client,
+      getFeeHistory: async () => ({ baseFeePerGas: [0n, 0n], reward: [[1n * GWEI]] }),
+    } as unknown as PublicClient;
+
+    const fees = await aggressiveStrategy({ tipMultiplierBps: 20_000n }).getFees(zeroBaseFee);
+
+    expect(fees).toEqual({ gasPrice: 10n * GWEI });
+  });
+});
+
+describe('resolveGasFees', () => {
+  it('lets explicit values override the strategy', async () => {
+    const fees = await resolveGasFees(
+      client,
+      { strategy: eip1559Strategy() },
+      { maxPriorityFeePerGas: 7n * GWEI }
+    );
+
+    expect(fees.maxPriorityFeePerGas).toBe(7n * GWEI);
+    expect(fees.maxFeePerGas).toBe(26n * GWEI);
+  });
+
+  it('refuses a partial EIP-1559 override of a legacy strategy', async () => {
+    await expect(
+      resolveGasFees(client, { strategy: legacyStrategy() }, { maxPriorityFeePerGas: 7n * GWEI })
+    ).rejects.toThrow('partial EIP-1559 override');
+  });
+
+  it('refuses fees above the cap', async () => {
+    await expect(
+      resolveGasFees(client, { strategy: legacyStrategy(), maxFeePerGasCap: 4n * GWEI })
+    ).rejects.toBeInstanceOf(GasPriceTooHighError);
+  });
+});
+
+describe('resolveGasParameters', () => {
+  it('scales the estimated gas limit', async () => {
+    const params = await resolveGasParameters(
+      client,
+      { account: ACCOUNT, to: SAFE, data: '0x' },
+      { strategy: legacyStrategy() }
+    );
+
+    expect(params).toEqual({ gas: 120_000n, gasPrice: 5n * GWEI });
+  });
+
+  it('keeps an explicit gas limit', async () => {
+    const params = await resolveGasParameters(
+      client,
+      { account: ACCOUNT, to: SAFE, data: '0x' },
+      { strategy: legacyStrategy() },
+      { gas: 50_000n }
+    );
+
+    expect(params.gas).toBe(50_000n);
+  });
+});
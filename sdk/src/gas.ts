@@ -0,0 +1,259 @@
+import { Account, Address, Hex, PublicClient } from "viem";
+import type { GasConfig, GasFees, GasOptions, GasStrategy } from "./types.js";
+
+/**
+ * Thrown instead of sending when the fee would exceed `maxFeePerGasCap`
+ */
+export class GasPriceTooHighError extends Error {
+  constructor(
+    public readonly fee: bigint,
+    public readonly cap: bigint,
+    public readonly strategy?: string
+  ) {
+    super(
+      `Fee ${fee} wei exceeds the cap of ${cap} wei` +
+        (strategy ? ` (strategy: ${strategy})` : "")
+    );
+    this.name = "GasPriceTooHighError";
+  }
+}
+
+const scale = (value: bigint, bps: bigint) => (value * bps) / 10_000n;
+
+const median = (values: bigint[]) => {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)] ?? 0n;
+};
+
+/**
+ * Base fee of the next block, from the latest block header
+ */
+async function getNextBaseFee(publicClient: PublicClient): Promise<bigint> {
+  const block = await publicClient.getBlock();
+  if (block.baseFeePerGas === null) {
+    throw new Error("Chain does not support EIP-1559; use legacyStrategy()");
+  }
+  return block.baseFeePerGas;
+}
+
+/**
+ * Next base fee and the median priority fee paid at a percentile over recent
+ * blocks, from `eth_feeHistory`
+ */
+async function sampleFees(
+  publicClient: PublicClient,
+  percentile: number,
+  blockCount: number
+): Promise<{ baseFee: bigint; tip: bigint }> {
+  const history = await publicClient.getFeeHistory({
+    blockCount,
+    rewardPercentiles: [percentile],
+    blockTag: "latest",
+  });
+  return {
+    // The last entry is the base fee of the next block
+    baseFee: history.baseFeePerGas[history.baseFeePerGas.length - 1] ?? 0n,
+    tip: median((history.reward ?? []).map((rewards) => rewards[0])),
+  };
+}
+
+/**
+ * The node's suggested fees (`eth_maxPriorityFeePerGas`), falling back to
+ * `eth_gasPrice` on chains without EIP-1559
+ */
+export function defaultStrategy(): GasStrategy {
+  return {
+    name: "default",
+    async getFees(publicClient) {
+      try {
+        const fees = await publicClient.estimateFeesPerGas();
+        return {
+          maxFeePerGas: fees.maxFeePerGas,
+          maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+        };
+      } catch {
+        return { gasPrice: await publicClient.getGasPrice() };
+      }
+    },
+  };
+}
+
+/**
+ * EIP-1559 fees with the priority fee taken from recent blocks via `eth_feeHistory`
+ *
+ * @param options.percentile Percentile of priority fees paid in each block (default: 50)
+ * @param options.blockCount Blocks to sample; the median across them is used (default: 10)
+ * @param options.baseFeeMultiplierBps Headroom on the next base fee, in bps (default: 20000 = 2x)
+ */
+export function eip1559Strategy(
+  options: { percentile?: number; blockCount?: number; baseFeeMultiplierBps?: bigint } = {}
+): GasStrategy {
+  const percentile = options.percentile ?? 50;
+  const blockCount = options.blockCount ?? 10;
+  const baseFeeMultiplierBps = options.baseFeeMultiplierBps ?? 20_000n;
+
+  return {
+    name: `eip1559(p${percentile})`,
+    async getFees(publicClient) {
+      const { baseFee, tip } = await sampleFees(publicClient, percentile, blockCount);
+      return {
+        maxFeePerGas: scale(baseFee, baseFeeMultiplierBps) + tip,
+        maxPriorityFeePerGas: tip,
+      };
+    },
+  };
+}
+
+/**
+ * Legacy `gasPrice`, e.g. for BSC
+ *
+ * @param options.multiplierBps Multiplier on `eth_gasPrice`, in bps (default: 10000)
+ */
+export function legacyStrategy(options: { multiplierBps?: bigint } = {}): GasStrategy {
+  const multiplierBps = options.multiplierBps ?? 10_000n;
+  return {
+    name: "legacy",
+    async getFees(publicClient) {
+      return { gasPrice: scale(await publicClient.getGasPrice(), multiplierBps) };
+    },
+  };
+}
+
+/**
+ * EIP-1559 fees with a fixed priority fee
+ *
+ * @param tip Priority fee in wei
+ * @param options.baseFeeMultiplierBps Headroom on the next base fee, in bps (default: 20000 = 2x)
+ */
+export function fixedTipStrategy(
+  tip: bigint,
+  options: { baseFeeMultiplierBps?: bigint } = {}
+): GasStrategy {
+  const baseFeeMultiplierBps = options.baseFeeMultiplierBps ?? 20_000n;
+  return {
+    name: `fixedTip(${tip})`,
+    async getFees(publicClient) {
+      const baseFee = await getNextBaseFee(publicClient);
+      return {
+        maxFeePerGas: scale(baseFee, baseFeeMultiplierBps) + tip,
+        maxPriorityFeePerGas: tip,
+      };
+    },
+  };
+}
+
+/**
+ * Fees that outbid most of the mempool, for time-critical trades
+ *
+ * Uses the 95th percentile priority fee scaled by `tipMultiplierBps` and 3x
+ * base fee headroom. When `eth_feeHistory` reports no base fee (a chain
+ * without EIP-1559, or one such as BSC with a zero base fee) or with
+ * `legacy`, it scales `eth_gasPrice` instead. Combine with `maxFeePerGasCap`
+ * so a fee spike cannot drain the operator.
+ *
+ * @param options.tipMultiplierBps Multiplier on the sampled priority fee, in bps (default: 15000)
+ * @param options.legacy Always use `gasPrice` instead of EIP-1559 fees
+ */
+export function aggressiveStrategy(
+  options: { tipMultiplierBps?: bigint; legacy?: boolean } = {}
+): GasStrategy {
+  const tipMultiplierBps = options.tipMultiplierBps ?? 15_000n;
+  const legacy = legacyStrategy({ multiplierBps: tipMultiplierBps });
+
+  return {
+    name: "aggressive",
+    async getFees(publicClient) {
+      if (options.legacy) return legacy.getFees(publicClient);
+
+      const { baseFee, tip } = await sampleFees(publicClient, 95, 5);
+      if (baseFee === 0n) return legacy.getFees(publicClient);
+      const scaledTip = scale(tip, tipMultiplierBps);
+      return {
+        maxFeePerGas: scale(baseFee, 30_000n) + scaledTip,
+        maxPriorityFeePerGas: scaledTip,
+      };
+    },
+  };
+}
+
+/**
+ * Resolve the fees of a transaction from explicit values, the per-call
+ * strategy or the client-wide strategy, and enforce the fee cap
+ *
+ * A single `maxFeePerGas` or `maxPriorityFeePerGas` overrides that field of
+ * the strategy's EIP-1559 fees.
+ *
+ * @throws {GasPriceTooHighError} If the fee exceeds `maxFeePerGasCap`
+ * @throws If a single EIP-1559 field is overridden and the strategy returns
+ *   a legacy `gasPrice`
+ */
+export async function resolveGasFees(
+  publicClient: PublicClient,
+  config: GasConfig = {},
+  overrides: GasOptions = {}
+): Promise<GasFees> {
+  const strategy = overrides.strategy ?? config.strategy ?? defaultStrategy();
+  let fees: GasFees;
+
+  if (overrides.gasPrice !== undefined) {
+    fees = { gasPrice: overrides.gasPrice };
+  } else if (
+    overrides.maxFeePerGas !== undefined &&
+    overrides.maxPriorityFeePerGas !== undefined
+  ) {
+    fees = {
+      maxFeePerGas: overrides.maxFeePerGas,
+      maxPriorityFeePerGas: overrides.maxPriorityFeePerGas,
+    };
+  } else {
+    fees = await strategy.getFees(publicClient);
+    if (fees.gasPrice === undefined) {
+      fees = {
+        maxFeePerGas: overrides.maxFeePerGas ?? fees.maxFeePerGas,
+        maxPriorityFeePerGas: overrides.maxPriorityFeePerGas ?? fees.maxPriorityFeePerGas,
+      };
+    } else if (
+      overrides.maxFeePerGas !== undefined ||
+      overrides.maxPriorityFeePerGas !== undefined
+    ) {
+      throw new Error(
+        `Strategy ${strategy.name} returned a legacy gasPrice; pass both maxFeePerGas and ` +
+          "maxPriorityFeePerGas, or gasPrice, instead of a partial EIP-1559 override"
+      );
+    }
+  }
+
+  const cap = overrides.maxFeePerGasCap ?? config.maxFeePerGasCap;
+  const fee = fees.gasPrice ?? fees.maxFeePerGas;
+  if (cap !== undefined && fee > cap) {
+    throw new GasPriceTooHighError(fee, cap, strategy.name);
+  }
+  return fees;
+}
+
+/**
+ * Resolve the gas limit and fees of a transaction
+ *
+ * Without an explicit `gas`, the limit is estimated and scaled by
+ * `gasLimitMultiplierBps`.
+ *
+ * @throws {GasPriceTooHighError} If the fee exceeds `maxFeePerGasCap`
+ */
+export async function resolveGasParameters(
+  publicClient: PublicClient,
+  request: { account: Account | Address; to: Address; data: Hex; value?: bigint },
+  config: GasConfig = {},
+  overrides: GasOptions = {}
+): Promise<{ gas: bigint } & GasFees> {
+  const multiplierBps =
+    overrides.gasLimitMultiplierBps ?? config.gasLimitMultiplierBps ?? 12_000n;
+
+  const [fees, gas] = await Promise.all([
+    resolveGasFees(publicClient, config, overrides),
+    overrides.gas ??
+      publicClient
+        .estimateGas(request)
+        .then((estimate) => scale(estimate, multiplierBps)),
+  ]);
+  return { gas, ...fees };
+}
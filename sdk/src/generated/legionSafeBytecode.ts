@@ -0,0 +1,12 @@
+// This file is generated by scripts/generate-abi.mjs from the Foundry
+// build artifact of src/LegionSafe.sol. Do not edit it by hand.
+
+/**
+ * Creation bytecode of the LegionSafe implementation
+ */
+export const LEGION_SAFE_BYTECODE = '0x60a06040523073ffffffffffffffffffffffffffffffffffffffff1660809073ffffffffffffffffffffffffffffffffffffffff16815250348015610042575f5ffd5b5061005161005660201b60201c565b6101b6565b5f61006561015460201b60201c565b9050805f0160089054906101000a900460ff16156100af576040517ff92ee8a900000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b67ffffffffffffffff8016815f015f9054906101000a900467ffffffffffffffff1667ffffffffffffffff16146101515767ffffffffffffffff815f015f6101000a81548167ffffffffffffffff021916908367ffffffffffffffff1602179055507fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d267ffffffffffffffff604051610148919061019d565b60405180910390a15b50565b5f7ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00905090565b5f67ffffffffffffffff82169050919050565b6101978161017b565b82525050565b5f6020820190506101b05f83018461018e565b92915050565b6080516148766101dc5f395f81816121ac0152818161220101526123bb01526148765ff3fe6080604052600436106101e6575f3560e01c806390386bbf11610101578063c51e8e4411610094578063e30c397811610063578063e30c397814610749578063f14210a614610773578063f2fde38b1461079b578063f6e715d0146107c35761023b565b8063c51e8e4414610695578063c79f9b58146106bd578063ce0ab277146106f9578063d6914f1e146107215761023b565b8063a62d984d116100d0578063a62d984d146105df578063aa72d9e714610607578063ad3cb1cc14610643578063b3ab15fb1461066d5761023b565b806390386bbf1461053a5780639c69775014610550578063a08658391461058d578063a1db9782146105b75761023b565b80636e947298116101795780638305368a116101485780638305368a14610484578063857abbd4146104c057806389dcfbb1146104e85780638da5cb5b146105105761023b565b80636e947298146103f2578063715018a61461041c57806379ba5097146104325780637c9e6cfd146104485761023b565b806352d1902d116101b557806352d1902d14610335578063570ca7351461035f578063658c820a14610389578063695def4c146103c85761023b565b8063186677031461028b5780633aecd0e3146102b5578063485cc955146102f15780634f1ef286146103195761023b565b3661023b573373ffffffffffffffffffffffffffffffffffffffff167f85177f287940f2f05425a4029951af0e047a7f9c4eaa9a6e6917bcd869f866953460405161023191906134f8565b60405180910390a2005b3373ffffffffffffffffffffffffffffffffffffffff167f85177f287940f2f05425a4029951af0e047a7f9c4eaa9a6e6917bcd869f866953460405161028191906134f8565b60405180910390a2005b348015610296575f5ffd5b5061029f6107ff565b6040516102ac91906134f8565b60405180910390f35b3480156102c0575f5ffd5b506102db60048036038101906102d6919061357c565b610805565b6040516102e891906134f8565b60405180910390f35b3480156102fc575f5ffd5b50610317600480360381019061031291906135a7565b610885565b005b610333600480360381019061032e9190613721565b610b4c565b005b348015610340575f5ffd5b50610349610b6b565b6040516103569190613793565b60405180910390f35b34801561036a575f5ffd5b50610373610b9c565b60405161038091906137bb565b60405180910390f35b348015610394575f5ffd5b506103af60048036038101906103aa919061357c565b610bc0565b6040516103bf94939291906137d4565b60405180910390f35b3480156103d3575f5ffd5b506103dc610bec565b6040516103e991906138ce565b60405180910390f35b3480156103fd575f5ffd5b50610406610c77565b60405161041391906134f8565b60405180910390f35b348015610427575f5ffd5b50610430610c7e565b005b34801561043d575f5ffd5b50610446610c91565b005b348015610453575f5ffd5b5061046e600480360381019061046991906139f5565b610d1f565b60405161047b9190613bc0565b60405180910390f35b34801561048f575f5ffd5b506104aa60048036038101906104a59190613c0a565b610f56565b6040516104b791906137bb565b60405180910390f35b3480156104cb575f5ffd5b506104e660048036038101906104e1919061357c565b610f91565b005b3480156104f3575f5ffd5b5061050e6004803603810190610509919061357c565b611162565b005b34801561051b575f5ffd5b506105246112d0565b60405161053191906137bb565b60405180910390f35b348015610545575f5ffd5b5061054e611305565b005b34801561055b575f5ffd5b506105766004803603810190610571919061357c565b61146e565b604051610584929190613c35565b60405180910390f35b348015610598575f5ffd5b506105a1611566565b6040516105ae9190613c96565b60405180910390f35b3480156105c2575f5ffd5b506105dd60048036038101906105d89190613caf565b611571565b005b3480156105ea575f5ffd5b506106056004803603810190610600919061357c565b6116c7565b005b348015610612575f5ffd5b5061062d6004803603810190610628919061357c565b6118c5565b60405161063a9190613d07565b60405180910390f35b34801561064e575f5ffd5b506106576118e2565b6040516106649190613d72565b60405180910390f35b348015610678575f5ffd5b50610693600480360381019061068e919061357c565b61191b565b005b3480156106a0575f5ffd5b506106bb60048036038101906106b69190613d92565b611a49565b005b3480156106c8575f5ffd5b506106e360048036038101906106de9190613e0c565b611b5b565b6040516106f09190613d07565b60405180910390f35b348015610704575f5ffd5b5061071f600480360381019061071a9190613e74565b611b85565b005b34801561072c575f5ffd5b5061074760048036038101906107429190613ec4565b611d06565b005b348015610754575f5ffd5b5061075d611e19565b60405161076a91906137bb565b60405180910390f35b34801561077e575f5ffd5b5061079960048036038101906107949190613c0a565b611e4e565b005b3480156107a6575f5ffd5b506107c160048036038101906107bc919061357c565b611fed565b005b3480156107ce575f5ffd5b506107e960048036038101906107e49190613f57565b6120a6565b6040516107f69190614010565b60405180910390f35b61546081565b5f8173ffffffffffffffffffffffffffffffffffffffff166370a08231306040518263ffffffff1660e01b815260040161083f91906137bb565b602060405180830381865afa15801561085a573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061087e9190614044565b9050919050565b5f61088e612153565b90505f815f0160089054906101000a900460ff161590505f825f015f9054906101000a900467ffffffffffffffff1690505f5f8267ffffffffffffffff161480156108d65750825b90505f60018367ffffffffffffffff1614801561090957505f3073ffffffffffffffffffffffffffffffffffffffff163b145b905081158015610917575080155b1561094e576040517ff92ee8a900000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b6001855f015f6101000a81548167ffffffffffffffff021916908367ffffffffffffffff160217905550831561099b576001855f0160086101000a81548160ff0219169083151502179055505b5f73ffffffffffffffffffffffffffffffffffffffff168773ffffffffffffffffffffffffffffffffffffffff161480610a0057505f73ffffffffffffffffffffffffffffffffffffffff168673ffffffffffffffffffffffffffffffffffffffff16145b15610a37576040517fe6c4247b00000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b610a408761217a565b610a4861218e565b610a506121a0565b855f5f6101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508573ffffffffffffffffffffffffffffffffffffffff165f73ffffffffffffffffffffffffffffffffffffffff167fd58299b712891143e76310d5e664c4203c940a67db37cf856bdaa3c5c76a802c60405160405180910390a38315610b43575f855f0160086101000a81548160ff0219169083151502179055507fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d26001604051610b3a91906140c4565b60405180910390a15b50505050505050565b610b546121aa565b610b5d82612290565b610b67828261229b565b5050565b5f610b746123b9565b7f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc5f1b905090565b5f5f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff1681565b6003602052805f5260405f205f91509050805f0154908060010154908060020154908060030154905084565b60606004805480602002602001604051908101604052809291908181526020018280548015610c6d57602002820191905f5260205f20905b815f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019060010190808311610c24575b5050505050905090565b5f47905090565b610c86612440565b610c8f5f6124c7565b565b5f610c9a612504565b90508073ffffffffffffffffffffffffffffffffffffffff16610cbb611e19565b73ffffffffffffffffffffffffffffffffffffffff1614610d1357806040517f118cdaa7000000000000000000000000000000000000000000000000000000008152600401610d0a91906137bb565b60405180910390fd5b610d1c816124c7565b50565b60605f5f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff1614610da6576040517f82b4290000000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b610dae61250b565b8484905087879050141580610dc95750828290508787905014155b15610e00576040517fb4fa3fb300000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b5f8787905067ffffffffffffffff811115610e1e57610e1d6135fd565b5b604051908082528060200260200182016040528015610e5157816020015b6060815260200190600190039081610e3c5790505b5090505f5f90505b88889050811015610efe57610ed3898983818110610e7a57610e796140dd565b5b9050602002016020810190610e8f919061357c565b888884818110610ea257610ea16140dd565b5b9050602002810190610eb49190614116565b888886818110610ec757610ec66140dd565b5b9050602002013561255f565b828281518110610ee657610ee56140dd565b5b60200260200101819052508080600101915050610e59565b507f87c003fb6f327368e751abab111abe66dc9f88209dcef1e2a7eb5fd94bff3ca2888888888888604051610f38969594939291906143ae565b60405180910390a180915050610f4c61290e565b9695505050505050565b60048181548110610f65575f80fd5b905f5260205f20015f915054906101000a900473ffffffffffffffffffffffffffffffffffffffff1681565b610f99612440565b610fa161250b565b5f73ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff1603611006576040517fe6c4247b00000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b5f8173ffffffffffffffffffffffffffffffffffffffff166370a08231306040518263ffffffff1660e01b815260040161104091906137bb565b602060405180830381865afa15801561105b573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061107f9190614044565b90505f81036110ba576040517f2c5211c600000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b5f6110c36112d0565b90506110f081838573ffffffffffffffffffffffffffffffffffffffff166129259092919063ffffffff16565b8073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff167fd1c19fbcd4551a5edfb66d43d2e337c04837afda3482b42bdf569a8fccdae5fb8460405161114d91906134f8565b60405180910390a3505061115f61290e565b50565b61116a612440565b5f5f90505b600480549050811015611229578173ffffffffffffffffffffffffffffffffffffffff16600482815481106111a7576111a66140dd565b5b905f5260205f20015f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff160361121c576040517f858420e900000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b808060010191505061116f565b50600481908060018154018082558091505060019003905f5260205f20015f9091909190916101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508073ffffffffffffffffffffffffffffffffffffffff167f4b2fda650ccc24e0402aed618ae44d4600945a05d5801363ff07928e94a3841760405160405180910390a250565b5f5f6112da6129a4565b9050805f015f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff1691505090565b61130d612440565b61131561250b565b5f4790505f8103611352576040517f2c5211c600000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b5f61135b6112d0565b90505f8173ffffffffffffffffffffffffffffffffffffffff16836040516113829061442b565b5f6040518083038185875af1925050503d805f81146113bc576040519150601f19603f3d011682016040523d82523d5f602084013e6113c1565b606091505b50509050806113fc576040517f27fcd9d100000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b8173ffffffffffffffffffffffffffffffffffffffff165f73ffffffffffffffffffffffffffffffffffffffff167fd1c19fbcd4551a5edfb66d43d2e337c04837afda3482b42bdf569a8fccdae5fb8560405161145991906134f8565b60405180910390a350505061146c61290e565b565b5f5f5f60035f8573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020015f2090505f815f015414806114c457505f8160010154145b156114d5575f5f9250925050611561565b5f81600101548260010154426114eb9190614499565b6114f591906144c9565b9050816003015481111561152257815f0154826001015482611517919061450a565b935093505050611561565b8160020154825f015411611536575f61154a565b8160020154825f0154611549919061453d565b5b935081600101548161155c919061450a565b925050505b915091565b63095ea7b360e01b81565b611579612440565b61158161250b565b5f73ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff16036115e6576040517fe6c4247b00000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b5f810361161f576040517f2c5211c600000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b5f6116286112d0565b905061165581838573ffffffffffffffffffffffffffffffffffffffff166129259092919063ffffffff16565b8073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff167fd1c19fbcd4551a5edfb66d43d2e337c04837afda3482b42bdf569a8fccdae5fb846040516116b291906134f8565b60405180910390a3506116c361290e565b5050565b6116cf612440565b5f5f90505b60048054905081101561188f578173ffffffffffffffffffffffffffffffffffffffff166004828154811061170c5761170b6140dd565b5b905f5260205f20015f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16036118825760046001600480549050611763919061453d565b81548110611774576117736140dd565b5b905f5260205f20015f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff16600482815481106117b0576117af6140dd565b5b905f5260205f20015f6101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff160217905550600480548061180757611806614570565b5b600190038181905f5260205f20015f6101000a81549073ffffffffffffffffffffffffffffffffffffffff021916905590558173ffffffffffffffffffffffffffffffffffffffff167fcd537cd377c78753c3dfd24e9b414be383cf1a4089576d0cb19daad2f61298ab60405160405180910390a2506118c2565b80806001019150506116d4565b506040517f63cf441000000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b50565b6002602052805f5260405f205f915054906101000a900460ff1681565b6040518060400160405280600581526020017f352e302e3000000000000000000000000000000000000000000000000000000081525081565b611923612440565b5f73ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff1603611988576040517fe6c4247b00000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b5f5f5f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff169050815f5f6101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508173ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff167fd58299b712891143e76310d5e664c4203c940a67db37cf856bdaa3c5c76a802c60405160405180910390a35050565b611a51612440565b5f5f8214611a5f5781611a63565b6154605b90505f818242611a739190614499565b611a7d91906144c9565b905060405180608001604052808581526020018381526020015f81526020018281525060035f8773ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020015f205f820151815f01556020820151816001015560408201518160020155606082015181600301559050508473ffffffffffffffffffffffffffffffffffffffff167fd93de6cb6a222110be7bd3a39523c688a6da5210fa2cfdba51091f8e29c3272885604051611b4c91906134f8565b60405180910390a25050505050565b6001602052815f5260405f20602052805f5260405f205f915091509054906101000a900460ff1681565b611b8d612440565b5f73ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff1603611bf2576040517fe6c4247b00000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b8060015f8573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020015f205f847bffffffffffffffffffffffffffffffffffffffffffffffffffffffff19167bffffffffffffffffffffffffffffffffffffffffffffffffffffffff191681526020019081526020015f205f6101000a81548160ff021916908315150217905550817bffffffffffffffffffffffffffffffffffffffffffffffffffffffff19168373ffffffffffffffffffffffffffffffffffffffff167fc8eecb95faf0ccfc39eb71144b531b041a7f1cbcf8b7657ac77bf1f0fda7922583604051611cf99190613d07565b60405180910390a3505050565b611d0e612440565b5f73ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff1603611d73576040517fe6c4247b00000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b8060025f8473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020015f205f6101000a81548160ff0219169083151502179055508173ffffffffffffffffffffffffffffffffffffffff167f0bfb38161e30bc280457780b265692d0a33a30e405385106e9ef471ff5b617dd82604051611e0d9190613d07565b60405180910390a25050565b5f5f611e236129cb565b9050805f015f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff1691505090565b611e56612440565b611e5e61250b565b5f8103611e97576040517f2c5211c600000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b47811115611ed1576040517f2c5211c600000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b5f611eda6112d0565b90505f8173ffffffffffffffffffffffffffffffffffffffff1683604051611f019061442b565b5f6040518083038185875af1925050503d805f8114611f3b576040519150601f19603f3d011682016040523d82523d5f602084013e611f40565b606091505b5050905080611f7b576040517f27fcd9d100000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b8173ffffffffffffffffffffffffffffffffffffffff165f73ffffffffffffffffffffffffffffffffffffffff167fd1c19fbcd4551a5edfb66d43d2e337c04837afda3482b42bdf569a8fccdae5fb85604051611fd891906134f8565b60405180910390a35050611fea61290e565b50565b611ff5612440565b5f611ffe6129cb565b905081815f015f6101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508173ffffffffffffffffffffffffffffffffffffffff166120606112d0565b73ffffffffffffffffffffffffffffffffffffffff167f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e2270060405160405180910390a35050565b60605f5f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff161461212d576040517f82b4290000000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b61213561250b565b6121418585858561255f565b905061214b61290e565b949350505050565b5f7ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00905090565b6121826129f2565b61218b81612a32565b50565b6121966129f2565b61219e612ab6565b565b6121a86129f2565b565b7f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff163073ffffffffffffffffffffffffffffffffffffffff16148061225757507f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff1661223e612ad5565b73ffffffffffffffffffffffffffffffffffffffff1614155b1561228e576040517fe07c8dba00000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b565b612298612440565b50565b8173ffffffffffffffffffffffffffffffffffffffff166352d1902d6040518163ffffffff1660e01b8152600401602060405180830381865afa92505050801561230357506040513d601f19601f8201168201806040525081019061230091906145c7565b60015b61234457816040517f4c9c8ce300000000000000000000000000000000000000000000000000000000815260040161233b91906137bb565b60405180910390fd5b7f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc5f1b81146123aa57806040517faa1d49a40000000000000000000000000000000000000000000000000000000081526004016123a19190613793565b60405180910390fd5b6123b48383612b28565b505050565b7f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff163073ffffffffffffffffffffffffffffffffffffffff161461243e576040517fe07c8dba00000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b565b612448612504565b73ffffffffffffffffffffffffffffffffffffffff166124666112d0565b73ffffffffffffffffffffffffffffffffffffffff16146124c557612489612504565b6040517f118cdaa70000000000000000000000000000000000000000000000000000000081526004016124bc91906137bb565b60405180910390fd5b565b5f6124d06129cb565b9050805f015f6101000a81549073ffffffffffffffffffffffffffffffffffffffff021916905561250082612b9a565b5050565b5f33905090565b5f612514612c6b565b90506002815f015403612553576040517f3ee5aeb500000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b6002815f018190555050565b60605f73ffffffffffffffffffffffffffffffffffffffff168573ffffffffffffffffffffffffffffffffffffffff16036125c6576040517fe6c4247b00000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b6004848490501015612604576040517f6867fe3400000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b5f84845f90600492612618939291906145fa565b90612623919061464a565b905063095ea7b360e01b7bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916817bffffffffffffffffffffffffffffffffffffffffffffffffffffffff19160361271b575f8585600490602492612686939291906145fa565b9061269191906146a8565b5f1c905060025f8273ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020015f205f9054906101000a900460ff16612715576040517f550e13b600000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b506127e9565b60015f8773ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020015f205f827bffffffffffffffffffffffffffffffffffffffffffffffffffffffff19167bffffffffffffffffffffffffffffffffffffffffffffffffffffffff191681526020019081526020015f205f9054906101000a900460ff166127e8576040517f6867fe3400000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b5b5f6127f2612c92565b90505f5f8873ffffffffffffffffffffffffffffffffffffffff1686898960405161281e92919061472a565b5f6040518083038185875af1925050503d805f8114612858576040519150601f19603f3d011682016040523d82523d5f602084013e61285d565b606091505b5091509150816128a457806040517fa5fa8d2b00000000000000000000000000000000000000000000000000000000815260040161289b9190614010565b60405180910390fd5b6128ad83612e72565b8873ffffffffffffffffffffffffffffffffffffffff167f75e7f304ec072adf2ece225a1aad049b824e2ef20e7b784ba970991aea235cee878a8a6040516128f79392919061476e565b60405180910390a280945050505050949350505050565b5f612917612c6b565b90506001815f018190555050565b61299f838473ffffffffffffffffffffffffffffffffffffffff1663a9059cbb858560405160240161295892919061479e565b604051602081830303815290604052915060e01b6020820180517bffffffffffffffffffffffffffffffffffffffffffffffffffffffff8381831617835250505050613055565b505050565b5f7f9016d09d72d40fdae2fd8ceac6b6234c7706214fd39c1cd1e609a0528c199300905090565b5f7f237e158222e3e6968b72b9db0d8043aacf074ad9f650f0d1606b4d82ee432c00905090565b6129fa6130f0565b612a30576040517fd7e6bcf800000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b565b612a3a6129f2565b5f73ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff1603612aaa575f6040517f1e4fbdf7000000000000000000000000000000000000000000000000000000008152600401612aa191906137bb565b60405180910390fd5b612ab3816124c7565b50565b612abe6129f2565b5f612ac7612c6b565b90506001815f018190555050565b5f612b017f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc5f1b61310e565b5f015f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905090565b612b3182613117565b8173ffffffffffffffffffffffffffffffffffffffff167fbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b60405160405180910390a25f81511115612b8d57612b8782826131e0565b50612b96565b612b95613260565b5b5050565b5f612ba36129a4565b90505f815f015f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905082825f015f6101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508273ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e060405160405180910390a3505050565b5f7f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f00905090565b60605f60048054905067ffffffffffffffff811115612cb457612cb36135fd565b5b604051908082528060200260200182016040528015612ce25781602001602082028036833780820191505090505b5090505f5f90505b600480549050811015612e6a575f73ffffffffffffffffffffffffffffffffffffffff1660048281548110612d2257612d216140dd565b5b905f5260205f20015f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1603612d8a5747828281518110612d7957612d786140dd565b5b602002602001018181525050612e5d565b60048181548110612d9e57612d9d6140dd565b5b905f5260205f20015f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff166370a08231306040518263ffffffff1660e01b8152600401612dfe91906137bb565b602060405180830381865afa158015612e19573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190612e3d9190614044565b828281518110612e5057612e4f6140dd565b5b6020026020010181815250505b8080600101915050612cea565b508091505090565b5f5f90505b600480549050811015613051575f5f73ffffffffffffffffffffffffffffffffffffffff1660048381548110612eb057612eaf6140dd565b5b905f5260205f20015f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1603612efb57479050612fb1565b60048281548110612f0f57612f0e6140dd565b5b905f5260205f20015f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff166370a08231306040518263ffffffff1660e01b8152600401612f6f91906137bb565b602060405180830381865afa158015612f8a573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190612fae9190614044565b90505b828281518110612fc457612fc36140dd565b5b6020026020010151811015613043575f81848481518110612fe857612fe76140dd565b5b6020026020010151612ffa919061453d565b905061304160048481548110613013576130126140dd565b5b905f5260205f20015f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff168261329c565b505b508080600101915050612e77565b5050565b5f5f60205f8451602086015f885af180613074576040513d5f823e3d81fd5b3d92505f519150505f821461308d5760018114156130a8565b5f8473ffffffffffffffffffffffffffffffffffffffff163b145b156130ea57836040517f5274afe70000000000000000000000000000000000000000000000000000000081526004016130e191906137bb565b60405180910390fd5b50505050565b5f6130f9612153565b5f0160089054906101000a900460ff16905090565b5f819050919050565b5f8173ffffffffffffffffffffffffffffffffffffffff163b0361317257806040517f4c9c8ce300000000000000000000000000000000000000000000000000000000815260040161316991906137bb565b60405180910390fd5b8061319e7f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc5f1b61310e565b5f015f6101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff16021790555050565b60605f5f8473ffffffffffffffffffffffffffffffffffffffff168460405161320991906147f5565b5f60405180830381855af49150503d805f8114613241576040519150601f19603f3d011682016040523d82523d5f602084013e613246565b606091505b509150915061325685838361340f565b9250505092915050565b5f34111561329a576040517fb398979f00000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b565b5f60035f8473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020015f2090505f815f015414806132f057505f8160010154145b156132fb575061340b565b5f81600101548260010154426133119190614499565b61331b91906144c9565b9050816003015481111561333c575f82600201819055508082600301819055505b815f0154838360020154613350919061450a565b111561339a578383835f01546040517f84bb52cf0000000000000000000000000000000000000000000000000000000081526004016133919392919061480b565b60405180910390fd5b82826002015f8282546133ad919061450a565b925050819055508373ffffffffffffffffffffffffffffffffffffffff167fe30d7ae7bfd7dd4b7f98823d3602efe378d54e447a918519c4dc339756b2261f848460020154604051613400929190613c35565b60405180910390a250505b5050565b6060826134245761341f8261349c565b613494565b5f825114801561344a57505f8473ffffffffffffffffffffffffffffffffffffffff163b145b1561348c57836040517f9996b31500000000000000000000000000000000000000000000000000000000815260040161348391906137bb565b60405180910390fd5b819050613495565b5b9392505050565b5f815111156134ae5780518082602001fd5b6040517fd6bda27500000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b5f819050919050565b6134f2816134e0565b82525050565b5f60208201905061350b5f8301846134e9565b92915050565b5f604051905090565b5f5ffd5b5f5ffd5b5f73ffffffffffffffffffffffffffffffffffffffff82169050919050565b5f61354b82613522565b9050919050565b61355b81613541565b8114613565575f5ffd5b50565b5f8135905061357681613552565b92915050565b5f602082840312156135915761359061351a565b5b5f61359e84828501613568565b91505092915050565b5f5f604083850312156135bd576135bc61351a565b5b5f6135ca85828601613568565b92505060206135db85828601613568565b9150509250929050565b5f5ffd5b5f5ffd5b5f601f19601f8301169050919050565b7f4e487b71000000000000000000000000000000000000000000000000000000005f52604160045260245ffd5b613633826135ed565b810181811067ffffffffffffffff82111715613652576136516135fd565b5b80604052505050565b5f613664613511565b9050613670828261362a565b919050565b5f67ffffffffffffffff82111561368f5761368e6135fd565b5b613698826135ed565b9050602081019050919050565b828183375f83830152505050565b5f6136c56136c084613675565b61365b565b9050828152602081018484840111156136e1576136e06135e9565b5b6136ec8482856136a5565b509392505050565b5f82601f830112613708576137076135e5565b5b81356137188482602086016136b3565b91505092915050565b5f5f604083850312156137375761373661351a565b5b5f61374485828601613568565b925050602083013567ffffffffffffffff8111156137655761376461351e565b5b613771858286016136f4565b9150509250929050565b5f819050919050565b61378d8161377b565b82525050565b5f6020820190506137a65f830184613784565b92915050565b6137b581613541565b82525050565b5f6020820190506137ce5f8301846137ac565b92915050565b5f6080820190506137e75f8301876134e9565b6137f460208301866134e9565b61380160408301856134e9565b61380e60608301846134e9565b95945050505050565b5f81519050919050565b5f82825260208201905092915050565b5f819050602082019050919050565b61384981613541565b82525050565b5f61385a8383613840565b60208301905092915050565b5f602082019050919050565b5f61387c82613817565b6138868185613821565b935061389183613831565b805f5b838110156138c15781516138a8888261384f565b97506138b383613866565b925050600181019050613894565b5085935050505092915050565b5f6020820190508181035f8301526138e68184613872565b905092915050565b5f5ffd5b5f5ffd5b5f5f83601f84011261390b5761390a6135e5565b5b8235905067ffffffffffffffff811115613928576139276138ee565b5b602083019150836020820283011115613944576139436138f2565b5b9250929050565b5f5f83601f8401126139605761395f6135e5565b5b8235905067ffffffffffffffff81111561397d5761397c6138ee565b5b602083019150836020820283011115613999576139986138f2565b5b9250929050565b5f5f83601f8401126139b5576139b46135e5565b5b8235905067ffffffffffffffff8111156139d2576139d16138ee565b5b6020830191508360208202830111156139ee576139ed6138f2565b5b9250929050565b5f5f5f5f5f5f60608789031215613a0f57613a0e61351a565b5b5f87013567ffffffffffffffff811115613a2c57613a2b61351e565b5b613a3889828a016138f6565b9650965050602087013567ffffffffffffffff811115613a5b57613a5a61351e565b5b613a6789828a0161394b565b9450945050604087013567ffffffffffffffff811115613a8a57613a8961351e565b5b613a9689828a016139a0565b92509250509295509295509295565b5f81519050919050565b5f82825260208201905092915050565b5f819050602082019050919050565b5f81519050919050565b5f82825260208201905092915050565b8281835e5f83830152505050565b5f613b0082613ace565b613b0a8185613ad8565b9350613b1a818560208601613ae8565b613b23816135ed565b840191505092915050565b5f613b398383613af6565b905092915050565b5f602082019050919050565b5f613b5782613aa5565b613b618185613aaf565b935083602082028501613b7385613abf565b805f5b85811015613bae5784840389528151613b8f8582613b2e565b9450613b9a83613b41565b925060208a01995050600181019050613b76565b50829750879550505050505092915050565b5f6020820190508181035f830152613bd88184613b4d565b905092915050565b613be9816134e0565b8114613bf3575f5ffd5b50565b5f81359050613c0481613be0565b92915050565b5f60208284031215613c1f57613c1e61351a565b5b5f613c2c84828501613bf6565b91505092915050565b5f604082019050613c485f8301856134e9565b613c5560208301846134e9565b9392505050565b5f7fffffffff0000000000000000000000000000000000000000000000000000000082169050919050565b613c9081613c5c565b82525050565b5f602082019050613ca95f830184613c87565b92915050565b5f5f60408385031215613cc557613cc461351a565b5b5f613cd285828601613568565b9250506020613ce385828601613bf6565b9150509250929050565b5f8115159050919050565b613d0181613ced565b82525050565b5f602082019050613d1a5f830184613cf8565b92915050565b5f81519050919050565b5f82825260208201905092915050565b5f613d4482613d20565b613d4e8185613d2a565b9350613d5e818560208601613ae8565b613d67816135ed565b840191505092915050565b5f6020820190508181035f830152613d8a8184613d3a565b905092915050565b5f5f5f60608486031215613da957613da861351a565b5b5f613db686828701613568565b9350506020613dc786828701613bf6565b9250506040613dd886828701613bf6565b9150509250925092565b613deb81613c5c565b8114613df5575f5ffd5b50565b5f81359050613e0681613de2565b92915050565b5f5f60408385031215613e2257613e2161351a565b5b5f613e2f85828601613568565b9250506020613e4085828601613df8565b9150509250929050565b613e5381613ced565b8114613e5d575f5ffd5b50565b5f81359050613e6e81613e4a565b92915050565b5f5f5f60608486031215613e8b57613e8a61351a565b5b5f613e9886828701613568565b9350506020613ea986828701613df8565b9250506040613eba86828701613e60565b9150509250925092565b5f5f60408385031215613eda57613ed961351a565b5b5f613ee785828601613568565b9250506020613ef885828601613e60565b9150509250929050565b5f5f83601f840112613f1757613f166135e5565b5b8235905067ffffffffffffffff811115613f3457613f336138ee565b5b602083019150836001820283011115613f5057613f4f6138f2565b5b9250929050565b5f5f5f5f60608587031215613f6f57613f6e61351a565b5b5f613f7c87828801613568565b945050602085013567ffffffffffffffff811115613f9d57613f9c61351e565b5b613fa987828801613f02565b93509350506040613fbc87828801613bf6565b91505092959194509250565b5f82825260208201905092915050565b5f613fe282613ace565b613fec8185613fc8565b9350613ffc818560208601613ae8565b614005816135ed565b840191505092915050565b5f6020820190508181035f8301526140288184613fd8565b905092915050565b5f8151905061403e81613be0565b92915050565b5f602082840312156140595761405861351a565b5b5f61406684828501614030565b91505092915050565b5f819050919050565b5f67ffffffffffffffff82169050919050565b5f819050919050565b5f6140ae6140a96140a48461406f565b61408b565b614078565b9050919050565b6140be81614094565b82525050565b5f6020820190506140d75f8301846140b5565b92915050565b7f4e487b71000000000000000000000000000000000000000000000000000000005f52603260045260245ffd5b5f5ffd5b5f5ffd5b5f5ffd5b5f5f833560016020038436030381126141325761413161410a565b5b80840192508235915067ffffffffffffffff8211156141545761415361410e565b5b6020830192506001820236038313156141705761416f614112565b5b509250929050565b5f819050919050565b5f61418f6020840184613568565b905092915050565b5f602082019050919050565b5f6141ae8385613821565b93506141b982614178565b805f5b858110156141f1576141ce8284614181565b6141d8888261384f565b97506141e383614197565b9250506001810190506141bc565b5085925050509392505050565b5f819050919050565b5f6142128385613ad8565b935061421f8385846136a5565b614228836135ed565b840190509392505050565b5f61423f848484614207565b90509392505050565b5f5ffd5b5f5ffd5b5f5ffd5b5f5f833560016020038436030381126142705761426f614250565b5b83810192508235915060208301925067ffffffffffffffff82111561429857614297614248565b5b6001820236038313156142ae576142ad61424c565b5b509250929050565b5f602082019050919050565b5f6142cd8385613aaf565b9350836020840285016142df846141fe565b805f5b878110156143245784840389526142f98284614254565b614304868284614233565b955061430f846142b6565b935060208b019a5050506001810190506142e2565b50829750879450505050509392505050565b5f82825260208201905092915050565b5f5ffd5b82818337505050565b5f61435e8385614336565b93507f07ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff83111561439157614390614346565b5b6020830292506143a283858461434a565b82840190509392505050565b5f6060820190508181035f8301526143c781888a6141a3565b905081810360208301526143dc8186886142c2565b905081810360408301526143f1818486614353565b9050979650505050505050565b5f81905092915050565b50565b5f6144165f836143fe565b915061442182614408565b5f82019050919050565b5f6144358261440b565b9150819050919050565b7f4e487b71000000000000000000000000000000000000000000000000000000005f52601260045260245ffd5b7f4e487b71000000000000000000000000000000000000000000000000000000005f52601160045260245ffd5b5f6144a3826134e0565b91506144ae836134e0565b9250826144be576144bd61443f565b5b828204905092915050565b5f6144d3826134e0565b91506144de836134e0565b92508282026144ec816134e0565b915082820484148315176145035761450261446c565b5b5092915050565b5f614514826134e0565b915061451f836134e0565b92508282019050808211156145375761453661446c565b5b92915050565b5f614547826134e0565b9150614552836134e0565b925082820390508181111561456a5761456961446c565b5b92915050565b7f4e487b71000000000000000000000000000000000000000000000000000000005f52603160045260245ffd5b6145a68161377b565b81146145b0575f5ffd5b50565b5f815190506145c18161459d565b92915050565b5f602082840312156145dc576145db61351a565b5b5f6145e9848285016145b3565b91505092915050565b5f5ffd5b5f5ffd5b5f5f8585111561460d5761460c6145f2565b5b8386111561461e5761461d6145f6565b5b6001850283019150848603905094509492505050565b5f82905092915050565b5f82821b905092915050565b5f6146558383614634565b826146608135613c5c565b925060048210156146a05761469b7fffffffff000000000000000000000000000000000000000000000000000000008360040360080261463e565b831692505b505092915050565b5f6146b38383614634565b826146be813561377b565b925060208210156146fe576146f97fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff8360200360080261463e565b831692505b505092915050565b5f61471183856143fe565b935061471e8385846136a5565b82840190509392505050565b5f614736828486614706565b91508190509392505050565b5f61474d8385613fc8565b935061475a8385846136a5565b614763836135ed565b840190509392505050565b5f6040820190506147815f8301866134e9565b8181036020830152614794818486614742565b9050949350505050565b5f6040820190506147b15f8301856137ac565b6147be60208301846134e9565b9392505050565b5f6147cf82613ace565b6147d981856143fe565b93506147e9818560208601613ae8565b80840191505092915050565b5f61480082846147c5565b915081905092915050565b5f60608201905061481e5f8301866137ac565b61482b60208301856134e9565b61483860408301846134e9565b94935050505056fea26469706673582212203cb5a58879f6671c01e2ff4969a1a1ab9dd0571387e9411c202ade80cca63b2664736f6c634300081c0033' as const;
+
+/**
+ * Creation bytecode of OpenZeppelin's ERC1967Proxy
+ */
+export const ERC1967_PROXY_BYTECODE = '0x6080604052604051610694380380610694833981810160405281019061002591906104d8565b610035828261003c60201b60201c565b50506105b4565b61004b826100c060201b60201c565b8173ffffffffffffffffffffffffffffffffffffffff167fbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b60405160405180910390a25f815111156100ad576100a7828261018f60201b60201c565b506100bc565b6100bb61021560201b60201c565b5b5050565b5f8173ffffffffffffffffffffffffffffffffffffffff163b0361011b57806040517f4c9c8ce30000000000000000000000000000000000000000000000000000000081526004016101129190610541565b60405180910390fd5b8061014d7f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc5f1b61025160201b60201c565b5f015f6101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff16021790555050565b60605f5f8473ffffffffffffffffffffffffffffffffffffffff16846040516101b8919061059e565b5f60405180830381855af49150503d805f81146101f0576040519150601f19603f3d011682016040523d82523d5f602084013e6101f5565b606091505b509150915061020b85838361025a60201b60201c565b9250505092915050565b5f34111561024f576040517fb398979f00000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b565b5f819050919050565b60608261027557610270826102ed60201b60201c565b6102e5565b5f825114801561029b57505f8473ffffffffffffffffffffffffffffffffffffffff163b145b156102dd57836040517f9996b3150000000000000000000000000000000000000000000000000000000081526004016102d49190610541565b60405180910390fd5b8190506102e6565b5b9392505050565b5f815111156102ff5780518082602001fd5b6040517fd6bda27500000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b5f604051905090565b5f5ffd5b5f5ffd5b5f73ffffffffffffffffffffffffffffffffffffffff82169050919050565b5f61036b82610342565b9050919050565b61037b81610361565b8114610385575f5ffd5b50565b5f8151905061039681610372565b92915050565b5f5ffd5b5f5ffd5b5f601f19601f8301169050919050565b7f4e487b71000000000000000000000000000000000000000000000000000000005f52604160045260245ffd5b6103ea826103a4565b810181811067ffffffffffffffff82111715610409576104086103b4565b5b80604052505050565b5f61041b610331565b905061042782826103e1565b919050565b5f67ffffffffffffffff821115610446576104456103b4565b5b61044f826103a4565b9050602081019050919050565b8281835e5f83830152505050565b5f61047c6104778461042c565b610412565b905082815260208101848484011115610498576104976103a0565b5b6104a384828561045c565b509392505050565b5f82601f8301126104bf576104be61039c565b5b81516104cf84826020860161046a565b91505092915050565b5f5f604083850312156104ee576104ed61033a565b5b5f6104fb85828601610388565b925050602083015167ffffffffffffffff81111561051c5761051b61033e565b5b610528858286016104ab565b9150509250929050565b61053b81610361565b82525050565b5f6020820190506105545f830184610532565b92915050565b5f81519050919050565b5f81905092915050565b5f6105788261055a565b6105828185610564565b935061059281856020860161045c565b80840191505092915050565b5f6105a9828461056e565b915081905092915050565b60d4806105c05f395ff3fe6080604052600a600c565b005b60186014601a565b6026565b565b5f60216044565b905090565b365f5f375f5f365f845af43d5f5f3e805f81146040573d5ff35b3d5ffd5b5f606e7f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc5f1b6095565b5f015f9054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905090565b5f81905091905056fea2646970667358221220add9a5610d38eb3ac82b5367b696e8ac3669b86847965c5a590ed23e8ca6895564736f6c634300081c0033' as const;
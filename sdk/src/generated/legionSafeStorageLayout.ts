@@ -0,0 +1,129 @@
+// This file is generated by scripts/generate-abi.mjs from the Foundry
+// build artifact of src/LegionSafe.sol. Do not edit it by hand.
+
+import type { StorageLayout } from '../upgrade.js';
+
+/**
+ * Storage layout of the LegionSafe implementation this SDK was built against
+ */
+export const LEGION_SAFE_STORAGE_LAYOUT: StorageLayout = {
+  "storage": [
+    {
+      "label": "operator",
+      "offset": 0,
+      "slot": "0",
+      "type": "t_address"
+    },
+    {
+      "label": "authorizedCalls",
+      "offset": 0,
+      "slot": "1",
+      "type": "t_mapping(t_address,t_mapping(t_bytes4,t_bool))"
+    },
+    {
+      "label": "whitelistedSpenders",
+      "offset": 0,
+      "slot": "2",
+      "type": "t_mapping(t_address,t_bool)"
+    },
+    {
+      "label": "spendingLimits",
+      "offset": 0,
+      "slot": "3",
+      "type": "t_mapping(t_address,t_struct(SpendingLimit)_storage)"
+    },
+    {
+      "label": "trackedTokens",
+      "offset": 0,
+      "slot": "4",
+      "type": "t_array(t_address)dyn_storage"
+    }
+  ],
+  "types": {
+    "t_address": {
+      "encoding": "inplace",
+      "label": "address",
+      "numberOfBytes": "20"
+    },
+    "t_array(t_address)dyn_storage": {
+      "encoding": "dynamic_array",
+      "label": "address[]",
+      "numberOfBytes": "32",
+      "base": "t_address"
+    },
+    "t_bool": {
+      "encoding": "inplace",
+      "label": "bool",
+      "numberOfBytes": "1"
+    },
+    "t_bytes4": {
+      "encoding": "inplace",
+      "label": "bytes4",
+      "numberOfBytes": "4"
+    },
+    "t_mapping(t_address,t_bool)": {
+      "encoding": "mapping",
+      "label": "mapping(address => bool)",
+      "numberOfBytes": "32",
+      "key": "t_address",
+      "value": "t_bool"
+    },
+    "t_mapping(t_address,t_mapping(t_bytes4,t_bool))": {
+      "encoding": "mapping",
+      "label": "mapping(address => mapping(bytes4 => bool))",
+      "numberOfBytes": "32",
+      "key": "t_address",
+      "value": "t_mapping(t_bytes4,t_bool)"
+    },
+    "t_mapping(t_address,t_struct(SpendingLimit)_storage)": {
+      "encoding": "mapping",
+      "label": "mapping(address => struct LegionSafe.SpendingLimit)",
+      "numberOfBytes": "32",
+      "key": "t_address",
+      "value": "t_struct(SpendingLimit)_storage"
+    },
+    "t_mapping(t_bytes4,t_bool)": {
+      "encoding": "mapping",
+      "label": "mapping(bytes4 => bool)",
+      "numberOfBytes": "32",
+      "key": "t_bytes4",
+      "value": "t_bool"
+    },
+    "t_struct(SpendingLimit)_storage": {
+      "encoding": "inplace",
+      "label": "struct LegionSafe.SpendingLimit",
+      "numberOfBytes": "128",
+      "members": [
+        {
+          "label": "limitPerWindow",
+          "offset": 0,
+          "slot": "0",
+          "type": "t_uint256"
+        },
+        {
+          "label": "windowDuration",
+          "offset": 0,
+          "slot": "1",
+          "type": "t_uint256"
+        },
+        {
+          "label": "spent",
+          "offset": 0,
+          "slot": "2",
+          "type": "t_uint256"
+        },
+        {
+          "label": "lastWindowStart",
+          "offset": 0,
+          "slot": "3",
+          "type": "t_uint256"
+        }
+      ]
+    },
+    "t_uint256": {
+      "encoding": "inplace",
+      "label": "uint256",
+      "numberOfBytes": "32"
+    }
+  }
+};
@@ -1,9 +1,74 @@
 // Core client
 export { LegionSafeClient } from './LegionSafeClient.js';
+export { LegionSafeSimulator } from './simulation.js';
+export { ReadBatcher } from './reads.js';
+export type { ContractRead, ReadResult } from './reads.js';
+export { deployLegionSafe, predictLegionSafeAddress, CREATE2_FACTORY } from './deploy.js';
+export type {
+  DeployLegionSafeParams,
+  DeployLegionSafeResult,
+  PredictedLegionSafeAddresses,
+} from './deploy.js';
+export { LegionSafeFleet } from './fleet.js';
+export type {
+  FleetChain,
+  FleetVault,
+  LegionSafeFleetConfig,
+  FleetResult,
+  FleetReport,
+  FleetFilterOptions,
+  FleetStateOptions,
+  FleetTokenState,
+  FleetVaultState,
+  FleetWithdrawal,
+  FleetSweepOptions,
+} from './fleet.js';
+export { LegionSafeBatchBuilder, BatchValidationError } from './batch.js';
+export type { BatchStep, BatchIssue, KyberSwapStepParams } from './batch.js';
+export { BestRouteSwapper, NoRouteError } from './swapper.js';
+export type {
+  BestRouteSwapperOptions,
+  BestRouteParams,
+  RankedQuote,
+  ExcludedProvider,
+  BestRouteResult,
+} from './swapper.js';
+export {
+  TokenScreener,
+  TokenScreeningError,
+  TOKEN_RISK_SIGNATURES,
+  extractSelectors,
+} from './screener.js';
+export type {
+  TokenScreenerOptions,
+  TokenRiskCategory,
+  TokenRiskFinding,
+  TokenRoundTrip,
+  TokenLiquidity,
+  TokenScreeningReport,
+} from './screener.js';
+export { quoteExactOutput, ExactOutputUnreachableError } from './exactOutput.js';
+export type { ExactOutputQuoteRequest, ExactOutputQuote } from './exactOutput.js';
+export { measureTokenFlow, realizedSlippageBps } from './settlement.js';
+export type { SettlementSource, TokenFlow } from './settlement.js';
+export { LegionSafeEventIndexer } from './indexer.js';
+
+export type { WatchHandlers, WatchOptions, WatchSignal } from './watch.js';
+export { LegionSafeWatcher } from './watch.js';
+
+export type {
+  TransactionStatus,
+  TransactionFees,
+  Submission,
+  TransactionManagerOptions,
+} from './transactions.js';
+export { LegionSafeTransactionManager, TransactionDroppedError } from './transactions.js';
 
 // Types
 export type {
   LegionSafeConfig,
+  MulticallConfig,
+  ReadOptions,
   AuthorizeCallParams,
   ManageCallParams,
   BatchCallItem,
@@ -11,34 +76,175 @@ export type {
   WithdrawETHParams,
   WithdrawERC20Params,
   TransactionResult,
+  ManageResult,
+  ManageBatchResult,
+  ReturnDataSource,
+  SimulationOptions,
+  SimulationResult,
+  ManageSimulationResult,
+  ManageBatchSimulationResult,
+  BalanceDelta,
   BalanceInfo,
   GasOptions,
+  GasFees,
+  GasStrategy,
+  GasConfig,
   SetSpenderWhitelistParams,
   SetSpendingLimitParams,
   SpendingLimitInfo,
+  SpendingLimitState,
+  VaultSnapshotOptions,
+  VaultTokenSnapshot,
+  VaultSnapshot,
+  SpendingPreflightOptions,
+  SpendingForecast,
+  SpendingPreflightResult,
+  AuthorizationSnapshotOptions,
+  AuthorizedCallEntry,
+  WhitelistedSpenderEntry,
+  AuthorizationInconsistency,
+  AuthorizationSnapshot,
+  PolicyAmount,
+  PolicyCall,
+  PolicySpendingLimit,
+  VaultPolicy,
+  PolicyPlanOptions,
+  PolicyState,
+  SpendingLimitConfig,
+  PolicyChange,
+  PolicyPlan,
+  PolicyApplyResult,
+  SwapParams,
+  SwapResult,
+  SwapViaKyberParams,
+  SwapViaKyberResult,
+  ExactOutputSwapParams,
+  ExactOutputSwapResult,
+  TransferOwnershipOptions,
+  OwnershipStatusOptions,
+  OwnershipEventInfo,
+  OwnershipStatus,
+  UpgradeParams,
 } from './types.js';
 
+export type {
+  LegionSafeEventName,
+  LegionSafeEventLog,
+  IndexerCursor,
+  EventIndexerConfig,
+  BlockRange,
+  EventQuery,
+} from './indexer.js';
+
+// Gas
+export {
+  defaultStrategy,
+  eip1559Strategy,
+  legacyStrategy,
+  fixedTipStrategy,
+  aggressiveStrategy,
+  resolveGasFees,
+  resolveGasParameters,
+  GasPriceTooHighError,
+} from './gas.js';
+
+// Spending limits
+export { forecastSpending, preflightSpendingLimits } from './spending.js';
+
+// Authorization policy
+export { getAuthorizationSnapshot, buildSelectorTable } from './authorization.js';
+export { getOwnershipStatus } from './ownership.js';
+
+// Upgrades
+export {
+  getImplementation,
+  validateUpgrade,
+  compareStorageLayouts,
+  storageLayoutFromArtifact,
+  UpgradeValidationError,
+} from './upgrade.js';
+export type {
+  StorageLayout,
+  StorageVariable,
+  StorageType,
+  StorageLayoutIssue,
+  UpgradeIssue,
+  UpgradeValidationParams,
+  UpgradeValidation,
+} from './upgrade.js';
+export { LEGION_SAFE_STORAGE_LAYOUT } from './generated/legionSafeStorageLayout.js';
+export { diffPolicy, planPolicy, formatPolicyPlan } from './policy.js';
+
+// Errors
+export {
+  LegionSafeError,
+  UnauthorizedError,
+  OwnableUnauthorizedAccountError,
+  OwnableInvalidOwnerError,
+  InvalidAddressError,
+  InvalidAmountError,
+  InvalidInputError,
+  WithdrawalFailedError,
+  TokenAlreadyTrackedError,
+  TokenNotTrackedError,
+  CallNotAuthorizedError,
+  SpenderNotWhitelistedError,
+  SpendingLimitExceededError,
+  CallFailedError,
+  ContractRevertError,
+  UnknownRevertError,
+  decodeLegionSafeError,
+  getRevertData,
+  replayRevertError,
+  toLegionSafeError,
+} from './errors.js';
+
+export type { DecodeRevertOptions } from './errors.js';
+
 // ABIs
-export { LEGION_SAFE_ABI, ERC20_ABI } from './abis.js';
+export { LEGION_SAFE_ABI, ERC20_ABI, WRAPPED_NATIVE_ABI } from './abis.js';
+export { LEGION_SAFE_BYTECODE, ERC1967_PROXY_BYTECODE } from './generated/legionSafeBytecode.js';
 
 // Constants
-export { CHAIN_IDS, NATIVE_TOKEN_ADDRESS, ZERO_ADDRESS } from './constants.js';
+export {
+  CHAIN_IDS,
+  NATIVE_TOKEN_ADDRESS,
+  ZERO_ADDRESS,
+  WRAPPED_NATIVE_TOKENS,
+  ERC1967_IMPLEMENTATION_SLOT,
+  MULTICALL3_ADDRESS,
+} from './constants.js';
 
 // Utilities
 export {
   getFunctionSelector,
   isZeroAddress,
+  isNativeToken,
   isValidAddress,
   formatHash,
 } from './utils.js';
 
 // Integrations
+export { HttpTransport, AggregatorApiError } from './integrations/http.js';
+export type { HttpTransportOptions } from './integrations/http.js';
+
+export type {
+  SwapProvider,
+  SwapQuoteRequest,
+  SwapQuote,
+  SwapBuildParams,
+  SwapCalldata,
+  AggregatorClientOptions,
+} from './integrations/types.js';
+
 export {
   KyberSwapClient,
   KYBERSWAP_API_BASE,
   KYBERSWAP_CHAIN_NAMES,
   KYBERSWAP_ROUTERS,
   KYBERSWAP_SELECTORS,
+  QuoteDegradedError,
+  compareQuotes,
 } from './integrations/kyberswap/index.js';
 
 export type {
@@ -47,4 +253,83 @@ export type {
   KyberSwapBuildRouteRequest,
   KyberSwapBuildRouteResponse,
   KyberSwapParams,
+  KyberSwapClientOptions,
+  QuoteComparison,
 } from './integrations/kyberswap/index.js';
+
+export {
+  OneInchClient,
+  ONEINCH_API_BASE,
+  ONEINCH_ROUTERS,
+  ONEINCH_SELECTORS,
+} from './integrations/oneinch/index.js';
+
+export type {
+  OneInchQuoteResponse,
+  OneInchSwapResponse,
+} from './integrations/oneinch/index.js';
+
+export {
+  ZeroExClient,
+  ZEROX_API_BASE,
+  ZEROX_ALLOWANCE_HOLDERS,
+  ZEROX_SELECTORS,
+} from './integrations/zerox/index.js';
+
+export type {
+  ZeroExPriceResponse,
+  ZeroExQuoteResponse,
+} from './integrations/zerox/index.js';
+
+export {
+  OpenOceanClient,
+  OPENOCEAN_API_BASE,
+  OPENOCEAN_ROUTERS,
+  OPENOCEAN_SELECTORS,
+} from './integrations/openocean/index.js';
+
+export type {
+  OpenOceanResponse,
+  OpenOceanQuote,
+  OpenOceanSwap,
+} from './integrations/openocean/index.js';
+
+export {
+  ParaSwapClient,
+  PARASWAP_API_BASE,
+  PARASWAP_ROUTERS,
+  PARASWAP_SELECTORS,
+} from './integrations/paraswap/index.js';
+
+export type {
+  ParaSwapPriceRoute,
+  ParaSwapPriceResponse,
+  ParaSwapTransactionRequest,
+  ParaSwapTransactionResponse,
+} from './integrations/paraswap/index.js';
+
+export {
+  UniswapV2Provider,
+  UniswapV3Provider,
+  UNISWAP_V2_ROUTER_ABI,
+  UNISWAP_V2_FACTORY_ABI,
+  UNISWAP_V2_PAIR_ABI,
+  UNISWAP_V3_ROUTER_ABI,
+  UNISWAP_V3_QUOTER_ABI,
+  UNISWAP_V2_DEPLOYMENTS,
+  UNISWAP_V3_DEPLOYMENTS,
+  UNISWAP_V2_SELECTORS,
+  UNISWAP_V3_SELECTORS,
+  UNISWAP_V2_GAS_PER_HOP,
+  UNISWAP_V3_ADDRESS_THIS,
+} from './integrations/uniswap/index.js';
+
+export type {
+  UniswapV2Deployment,
+  UniswapV3Deployment,
+  UniswapProviderOptions,
+  UniswapV2ProviderOptions,
+  UniswapV3ProviderOptions,
+  UniswapV2Route,
+  UniswapV3Route,
+} from './integrations/uniswap/index.js';
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { EventIndexerConfig, LegionSafeEventIndexer } from './indexer.js';
+import { StubEventLog, eventLog, stubChain, stubEvents } from './test/stubs.js';
+
+const SAFE = '0x1111111111111111111111111111111111111111';
+const USDT = '0x2222222222222222222222222222222222222222';
+const WBNB = '0x3333333333333333333333333333333333333333';
+const ROUTER = '0x4444444444444444444444444444444444444444';
+
+type Query = { eventName?: string; fromBlock: bigint; toBlock: bigint };
+
+/**
+ * Indexer over a fixed history with the head at `chain.head`; `reject`
+ * fails the queries it returns true for, like an RPC refusing a range
+ */
+function indexer(
+  events: StubEventLog[],
+  options: Partial<EventIndexerConfig> & { reject?: (query: Query) => boolean } = {}
+) {
+  const chain = { head: 1_000n, queries: [] as Query[] };
+  const { publicClient } = stubChain({
+    getBlockNumber: async () => chain.head,
+    getContractEvents: stubEvents(events, (query) => {
+      chain.queries.push(query);
+      if (options.reject?.(query)) throw new Error('query returned more than 10000 results');
+    }),
+  });
+  const { reject: _, ...config } = options;
+  return { chain, indexer: new LegionSafeEventIndexer({ publicClient, safeAddress: SAFE, ...config }) };
+}
+
+const ranges = (queries: Query[]) => queries.map((query) => [query.fromBlock, query.toBlock]);
+
+describe('LegionSafeEventIndexer', () => {
+  it('pages through the range in maxBlockRange steps from the configured start', async () => {
+    const { chain, indexer: events } = indexer([], { fromBlock: 50n, maxBlockRange: 100n });
+
+    await events.getAllEvents({ toBlock: 300n });
+
+    expect(ranges(chain.queries)).toEqual([
+      [50n, 149n],
+      [150n, 249n],
+      [250n, 300n],
+    ]);
+  });
+
+  it('halves the range when the RPC rejects it and grows it back after a success', async () => {
+    const { chain, indexer: events } = indexer([], {
+      maxBlockRange: 100n,
+      reject: (query) => query.fromBlock === 0n && query.toBlock - query.fromBlock >= 25n,
+    });
+
+    await events.getAllEvents({ fromBlock: 0n, toBlock: 224n });
+
+    expect(ranges(chain.queries)).toEqual([
+      [0n, 99n],
+      [0n, 49n],
+      [0n, 24n],
+      [25n, 74n],
+      [75n, 174n],
+      [175n, 224n],
+    ]);
+  });
+
+  it('gives up once a single block is rejected', async () => {
+    const { chain, indexer: events } = indexer([], { maxBlockRange: 4n, reject: () => true });
+
+    await expect(events.getAllEvents({ fromBlock: 0n, toBlock: 10n })).rejects.toThrow('more than 10000 results');
+    expect(ranges(chain.queries)).toEqual([
+      [0n, 3n],
+      [0n, 1n],
+      [0n, 0n],
+    ]);
+  });
+
+  it('returns events of every type in chain order across pages', async () => {
+    const { indexer: events } = indexer(
+      [
+        eventLog('Withdrawn', { token: USDT }, 150n, 3),
+        eventLog('Managed', { target: ROUTER }, 150n, 1),
+        eventLog('SpendingTracked', { token: USDT }, 20n),
+        eventLog('Managed', { target: ROUTER }, 150n, 2),
+      ],
+      { maxBlockRange: 100n }
+    );
+
+    const logs = await events.getAllEvents({ fromBlock: 0n, toBlock: 199n });
+
+    expect(logs.map((log) => [log.eventName, log.blockNumber, log.logIndex])).toEqual([
+      ['SpendingTracked', 20n, 0],
+      ['Managed', 150n, 1],
+      ['Managed', 150n, 2],
+      ['Withdrawn', 150n, 3],
+    ]);
+  });
+
+  it('filters one event type on its indexed arguments', async () => {
+    const { chain, indexer: events } = indexer([
+      eventLog('Withdrawn', { token: USDT }, 10n),
+      eventLog('Withdrawn', { token: WBNB }, 11n),
+      eventLog('Managed', { target: ROUTER }, 12n),
+    ]);
+
+    const withdrawals = await events.getWithdrawals({ token: USDT, fromBlock: 0n });
+
+    expect(withdrawals.map((log) => log.blockNumber)).toEqual([10n]);
+    expect(chain.queries).toEqual([{ eventName: 'Withdrawn', fromBlock: 0n, toBlock: 1_000n }]);
+  });
+
+  it('syncs from the cursor to the head and resumes from a persisted cursor', async () => {
+    const history = [eventLog('Managed', { target: ROUTER }, 900n), eventLog('Managed', { target: ROUTER }, 1_100n)];
+    const { chain, indexer: events } = indexer(history, { fromBlock: 800n });
+
+    const first = await events.sync();
+    expect(first.events.map((log) => log.blockNumber)).toEqual([900n]);
+    expect(first.cursor).toEqual({ nextBlock: 1_001n });
+
+    // No new blocks: nothing to fetch
+    const queries = chain.queries.length;
+    expect(await events.sync()).toEqual({ events: [], cursor: { nextBlock: 1_001n } });
+    expect(chain.queries).toHaveLength(queries);
+
+    const resumed = indexer(history, { fromBlock: 800n, cursor: first.cursor });
+    resumed.chain.head = 1_200n;
+    const second = await resumed.indexer.sync();
+
+    expect(second.events.map((log) => log.blockNumber)).toEqual([1_100n]);
+    expect(ranges(resumed.chain.queries)).toEqual([[1_001n, 1_200n]]);
+    expect(resumed.indexer.cursor).toEqual({ nextBlock: 1_201n });
+  });
+});
@@ -0,0 +1,277 @@
+import {
+  Address,
+  BlockNumber,
+  ContractEventArgs,
+  ContractEventName,
+  GetContractEventsReturnType,
+  PublicClient,
+} from "viem";
+import { LEGION_SAFE_ABI } from "./abis.js";
+
+/**
+ * Name of any event emitted by LegionSafe
+ */
+export type LegionSafeEventName = ContractEventName<typeof LEGION_SAFE_ABI>;
+
+/**
+ * Decoded LegionSafe event log
+ */
+export type LegionSafeEventLog<
+  eventName extends LegionSafeEventName = LegionSafeEventName
+> = GetContractEventsReturnType<typeof LEGION_SAFE_ABI, eventName, true>[number];
+
+/**
+ * Position of an indexer in the chain, persisted by the caller to resume later
+ */
+export interface IndexerCursor {
+  /** First block that has not been indexed yet */
+  nextBlock: bigint;
+}
+
+/**
+ * Configuration for LegionSafeEventIndexer
+ */
+export interface EventIndexerConfig {
+  /** Public client for reading logs */
+  publicClient: PublicClient;
+  /** Address of the LegionSafe proxy */
+  safeAddress: Address;
+  /**
+   * Block the vault was deployed at (default: 0)
+   *
+   * Queries without their own `fromBlock`, and the first `sync()`, start
+   * here; left at 0 they page through the whole chain in `maxBlockRange`
+   * steps, which is hundreds of thousands of eth_getLogs calls on mainnets.
+   */
+  fromBlock?: bigint;
+  /** Largest block range requested in one eth_getLogs call (default: 5000) */
+  maxBlockRange?: bigint;
+  /** Cursor to resume from (overrides `fromBlock`) */
+  cursor?: IndexerCursor;
+}
+
+/**
+ * Block range of a query; bounds are inclusive
+ */
+export interface BlockRange {
+  /** First block (default: the indexer's `fromBlock`) */
+  fromBlock?: bigint;
+  /** Last block (default: latest) */
+  toBlock?: bigint;
+}
+
+/**
+ * Query for a single event type
+ */
+export type EventQuery<eventName extends LegionSafeEventName> = BlockRange & {
+  /** Event to fetch */
+  eventName: eventName;
+  /** Filter on indexed arguments */
+  args?: ContractEventArgs<typeof LEGION_SAFE_ABI, eventName>;
+};
+
+/**
+ * Fetches and decodes LegionSafe events, paging through block ranges the RPC
+ * accepts
+ *
+ * `sync()` keeps a cursor so a long-running process can index incrementally and
+ * resume after a restart; the query helpers read any range on demand.
+ *
+ * @example
+ * ```typescript
+ * const indexer = new LegionSafeEventIndexer({
+ *   publicClient,
+ *   safeAddress,
+ *   fromBlock: 42_000_000n, // deployment block
+ * });
+ *
+ * const withdrawals = await indexer.getWithdrawals({ token: USDT });
+ * const swaps = await indexer.getManageCalls({ target: KYBER_ROUTER });
+ *
+ * // Incremental indexing
+ * const { events, cursor } = await indexer.sync();
+ * await db.save(events, cursor);
+ * ```
+ */
+export class LegionSafeEventIndexer {
+  public readonly safeAddress: Address;
+  private readonly publicClient: PublicClient;
+  private readonly fromBlock: bigint;
+  private readonly maxBlockRange: bigint;
+  private nextBlock: bigint;
+
+  constructor(config: EventIndexerConfig) {
+    this.publicClient = config.publicClient;
+    this.safeAddress = config.safeAddress;
+    this.fromBlock = config.fromBlock ?? 0n;
+    this.maxBlockRange = config.maxBlockRange ?? 5000n;
+    this.nextBlock = config.cursor?.nextBlock ?? this.fromBlock;
+
+    if (this.maxBlockRange < 1n) {
+      throw new Error("maxBlockRange must be at least 1");
+    }
+  }
+
+  /**
+   * Current cursor; persist it to resume indexing later
+   */
+  get cursor(): IndexerCursor {
+    return { nextBlock: this.nextBlock };
+  }
+
+  /**
+   * Fetch every event from the cursor up to `toBlock` and advance the cursor
+   *
+   * @param toBlock Last block to index (default: latest)
+   * @returns Events in chain order and the new cursor
+   */
+  async sync(
+    toBlock?: bigint
+  ): Promise<{ events: LegionSafeEventLog[]; cursor: IndexerCursor }> {
+    const to = toBlock ?? (await this.publicClient.getBlockNumber());
+    if (to < this.nextBlock) {
+      return { events: [], cursor: this.cursor };
+    }
+
+    const events = await this.getAllEvents({ fromBlock: this.nextBlock, toBlock: to });
+    this.nextBlock = to + 1n;
+    return { events, cursor: this.cursor };
+  }
+
+  /**
+   * Fetch every LegionSafe event in a block range
+   */
+  async getAllEvents(range: BlockRange = {}): Promise<LegionSafeEventLog[]> {
+    return this.fetchLogs(range, (fromBlock, toBlock) =>
+      this.publicClient.getContractEvents<typeof LEGION_SAFE_ABI, undefined, true>({
+        address: this.safeAddress,
+        abi: LEGION_SAFE_ABI,
+        fromBlock,
+        toBlock,
+        strict: true,
+      })
+    );
+  }
+
+  /**
+   * Fetch one event type in a block range, optionally filtered on indexed arguments
+   */
+  async getEvents<eventName extends LegionSafeEventName>(
+    query: EventQuery<eventName>
+  ): Promise<LegionSafeEventLog<eventName>[]> {
+    return this.fetchLogs(query, (fromBlock, toBlock) =>
+      this.publicClient.getContractEvents<typeof LEGION_SAFE_ABI, eventName, true>({
+        address: this.safeAddress,
+        abi: LEGION_SAFE_ABI,
+        eventName: query.eventName,
+        args: query.args,
+        fromBlock,
+        toBlock,
+        strict: true,
+      })
+    );
+  }
+
+  /**
+   * All withdrawals, optionally for one token (zero address for native token)
+   */
+  async getWithdrawals(
+    query: BlockRange & { token?: Address } = {}
+  ): Promise<LegionSafeEventLog<"Withdrawn">[]> {
+    return this.getEvents({
+      ...query,
+      eventName: "Withdrawn",
+      args: query.token ? { token: query.token } : undefined,
+    });
+  }
+
+  /**
+   * All calls executed through manage()/manageBatch(), optionally to one target
+   *
+   * manageBatch() emits one `Managed` event per call, so batches are included.
+   */
+  async getManageCalls(
+    query: BlockRange & { target?: Address } = {}
+  ): Promise<LegionSafeEventLog<"Managed">[]> {
+    return this.getEvents({
+      ...query,
+      eventName: "Managed",
+      args: query.target ? { target: query.target } : undefined,
+    });
+  }
+
+  /**
+   * All spending recorded against limits, optionally for one token
+   */
+  async getSpending(
+    query: BlockRange & { token?: Address } = {}
+  ): Promise<LegionSafeEventLog<"SpendingTracked">[]> {
+    return this.getEvents({
+      ...query,
+      eventName: "SpendingTracked",
+      args: query.token ? { token: query.token } : undefined,
+    });
+  }
+
+  /**
+   * All authorization changes for (target, selector) pairs
+   */
+  async getCallAuthorizations(
+    query: BlockRange & { target?: Address } = {}
+  ): Promise<LegionSafeEventLog<"CallAuthorized">[]> {
+    return this.getEvents({
+      ...query,
+      eventName: "CallAuthorized",
+      args: query.target ? { target: query.target } : undefined,
+    });
+  }
+
+  /**
+   * All spender whitelist changes
+   */
+  async getSpenderWhitelistChanges(
+    query: BlockRange & { spender?: Address } = {}
+  ): Promise<LegionSafeEventLog<"SpenderWhitelisted">[]> {
+    return this.getEvents({
+      ...query,
+      eventName: "SpenderWhitelisted",
+      args: query.spender ? { spender: query.spender } : undefined,
+    });
+  }
+
+  /**
+   * Fetch logs range by range, halving the range when the RPC rejects it
+   */
+  private async fetchLogs<log extends { blockNumber: bigint; logIndex: number }>(
+    range: BlockRange,
+    fetchRange: (fromBlock: BlockNumber, toBlock: BlockNumber) => Promise<log[]>
+  ): Promise<log[]> {
+    const fromBlock = range.fromBlock ?? this.fromBlock;
+    const toBlock = range.toBlock ?? (await this.publicClient.getBlockNumber());
+
+    const logs: log[] = [];
+    let start = fromBlock;
+    let size = this.maxBlockRange;
+
+    while (start <= toBlock) {
+      const end = start + size - 1n < toBlock ? start + size - 1n : toBlock;
+      try {
+        logs.push(...(await fetchRange(start, end)));
+        start = end + 1n;
+        // Grow back towards the configured range after a successful page
+        size = size * 2n < this.maxBlockRange ? size * 2n : this.maxBlockRange;
+      } catch (error) {
+        if (size === 1n) throw error;
+        size = size / 2n;
+      }
+    }
+
+    return logs.sort((a, b) =>
+      a.blockNumber === b.blockNumber
+        ? a.logIndex - b.logIndex
+        : a.blockNumber < b.blockNumber
+        ? -1
+        : 1
+    );
+  }
+}
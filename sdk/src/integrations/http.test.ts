@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { AggregatorApiError, HttpTransport } from './http.js';
+import { stubFetch } from '../test/stubs.js';
+
+const URL = 'https://api.example.com/quote';
+
+/** fetch that replays `responses` in order */
+function replay(responses: (() => Response)[]) {
+  return stubFetch((_, i) => {
+    if (!responses[i]) throw new Error('no more responses');
+    return responses[i]();
+  });
+}
+
+describe('HttpTransport', () => {
+  it('retries 429 and 5xx responses and sends the client ID', async () => {
+    const { fetch, requests } = replay([
+      () => new Response('busy', { status: 503 }),
+      () => new Response('slow down', { status: 429, headers: { 'retry-after': '0' } }),
+      () => new Response(JSON.stringify({ ok: true })),
+    ]);
+    const http = new HttpTransport('Test', { fetch, clientId: 'bot-1', retryDelayMs: 1 });
+
+    await expect(http.get(URL)).resolves.toEqual({ ok: true });
+    expect(requests).toHaveLength(3);
+    expect(requests[0].headers['x-client-id']).toBe('bot-1');
+  });
+
+  it('throws a typed error with the API error code without retrying 4xx', async () => {
+    const { fetch, requests } = replay([
+      () => new Response(JSON.stringify({ code: 4008, message: 'route not found' }), { status: 400 }),
+    ]);
+    const http = new HttpTransport('Test', { fetch, retryDelayMs: 1 });
+
+    const error = await http.get<never>(URL).catch((e: AggregatorApiError) => e);
+
+    expect(error).toBeInstanceOf(AggregatorApiError);
+    expect(error).toMatchObject({ provider: 'Test', status: 400, code: 4008, retryable: false });
+    expect(error.message).toContain('route not found');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('keeps the raw body when the error body has no message string', async () => {
+    const { fetch } = replay([() => new Response(JSON.stringify({ error: { code: 'E_RATE' } }), { status: 400 })]);
+    const http = new HttpTransport('Test', { fetch });
+
+    const error = await http.get<never>(URL).catch((e: AggregatorApiError) => e);
+
+    expect(error).toMatchObject({ code: 'E_RATE' });
+    expect(error.message).toBe('Test API error 400: {"error":{"code":"E_RATE"}}');
+  });
+
+  it('retries a POST only when it opts in', async () => {
+    const responses = () => [
+      () => new Response('busy', { status: 503 }),
+      () => new Response(JSON.stringify({ ok: true })),
+    ];
+    const once = replay(responses());
+    const retried = replay(responses());
+
+    await expect(new HttpTransport('Test', { fetch: once.fetch }).post(URL, {})).rejects.toMatchObject({
+      status: 503,
+    });
+    await expect(
+      new HttpTransport('Test', { fetch: retried.fetch, retryDelayMs: 1 }).post(URL, {}, undefined, { retry: true })
+    ).resolves.toEqual({ ok: true });
+    expect(once.requests).toHaveLength(1);
+    expect(retried.requests).toHaveLength(2);
+  });
+
+  it('does not retry a successful response whose body is not JSON', async () => {
+    const { fetch, requests } = replay([() => new Response('<html>maintenance</html>')]);
+    const http = new HttpTransport('Test', { fetch, retryDelayMs: 1 });
+
+    await expect(http.get(URL)).rejects.toMatchObject({
+      status: 200,
+      retryable: false,
+      body: '<html>maintenance</html>',
+    });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('gives up after the configured retries', async () => {
+    const { fetch, requests } = replay(
+      Array.from({ length: 5 }, () => () => new Response('down', { status: 502 }))
+    );
+    const http = new HttpTransport('Test', { fetch, retries: 2, retryDelayMs: 1 });
+
+    await expect(http.get(URL)).rejects.toMatchObject({ status: 502 });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('times out slow requests', async () => {
+    const fetch = ((_url: string, init?: RequestInit) =>
+      new Promise((_, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      })) as typeof globalThis.fetch;
+    const http = new HttpTransport('Test', { fetch, timeoutMs: 10, retries: 0 });
+
+    await expect(http.get(URL)).rejects.toThrow('timed out after 10ms');
+  });
+
+  it('spaces requests beyond the burst to the configured rate', async () => {
+    const { fetch } = replay(
+      Array.from({ length: 3 }, () => () => new Response('{}'))
+    );
+    const http = new HttpTransport('Test', {
+      fetch,
+      rateLimit: { requestsPerSecond: 20, burst: 1 },
+    });
+
+    const start = Date.now();
+    await Promise.all([http.get(URL), http.get(URL), http.get(URL)]);
+
+    // Two requests had to wait ~50ms each for a token
+    expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+  });
+});
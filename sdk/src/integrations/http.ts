@@ -0,0 +1,320 @@
+/**
+ * Default `x-client-id` sent by the aggregator clients
+ */
+export const DEFAULT_CLIENT_ID = 'legionsafe-sdk';
+
+/**
+ * Error returned by an aggregator API, or a request that never got a response
+ */
+export class AggregatorApiError extends Error {
+  /** API that failed, e.g. 'KyberSwap' */
+  readonly provider: string;
+  /** Request URL */
+  readonly url: string;
+  /** HTTP status; undefined for timeouts and network failures */
+  readonly status?: number;
+  /** Error code from the response body, when the API sends one */
+  readonly code?: string | number;
+  /** Raw response body */
+  readonly body?: string;
+
+  constructor(options: {
+    provider: string;
+    url: string;
+    message: string;
+    status?: number;
+    code?: string | number;
+    body?: string;
+    cause?: unknown;
+  }) {
+    super(`${options.provider} API error${options.status ? ` ${options.status}` : ''}: ${options.message}`, {
+      cause: options.cause,
+    });
+    this.name = 'AggregatorApiError';
+    this.provider = options.provider;
+    this.url = options.url;
+    this.status = options.status;
+    this.code = options.code;
+    this.body = options.body;
+  }
+
+  /** Whether the request may succeed if retried (429, 5xx, timeout, network failure) */
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 429 || this.status >= 500;
+  }
+}
+
+/**
+ * Options for HttpTransport
+ */
+export interface HttpTransportOptions {
+  /** Per-attempt timeout in ms (default: 10000) */
+  timeoutMs?: number;
+  /** Retries after the first attempt on 429/5xx/timeouts (default: 3) */
+  retries?: number;
+  /** Base delay of the exponential backoff in ms (default: 250) */
+  retryDelayMs?: number;
+  /** Longest delay between retries in ms (default: 5000) */
+  maxRetryDelayMs?: number;
+  /** Client-side rate limit */
+  rateLimit?: {
+    /** Sustained requests per second */
+    requestsPerSecond: number;
+    /** Requests allowed in a burst (default: requestsPerSecond) */
+    burst?: number;
+  };
+  /** Sent as `x-client-id` */
+  clientId?: string;
+  /** Extra headers on every request */
+  headers?: Record<string, string>;
+  /** fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Token bucket: `take()` waits until a token is available
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly ratePerMs: number,
+    private readonly capacity: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  take(): Promise<void> {
+    // Serialize callers so tokens are handed out in request order
+    const next = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        await sleep((1 - this.tokens) / this.ratePerMs);
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    this.queue = next;
+    return next;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.ratePerMs);
+    this.updatedAt = now;
+  }
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * HTTP client shared by the aggregator integrations
+ *
+ * Every request gets a timeout, `x-client-id`, rate limiting, and retries with
+ * exponential backoff and full jitter on 429, 5xx and network failures
+ * (honouring `Retry-After`); POSTs are only retried when they opt in. Failures surface as AggregatorApiError with the
+ * status and the API's own error code.
+ */
+export class HttpTransport {
+  private readonly bucket?: TokenBucket;
+  private readonly fetchFn: typeof fetch;
+
+  constructor(
+    private readonly provider: string,
+    private readonly options: HttpTransportOptions = {}
+  ) {
+    // Resolve global fetch lazily so it can be replaced after construction
+    this.fetchFn = options.fetch ?? ((input, init) => globalThis.fetch(input, init));
+    if (options.rateLimit) {
+      const { requestsPerSecond, burst } = options.rateLimit;
+      this.bucket = new TokenBucket(requestsPerSecond / 1000, burst ?? requestsPerSecond);
+    }
+  }
+
+  /**
+   * Reuse a shared transport, or create one from options
+   *
+   * @param defaults Options applied under `http` (e.g. a default client ID);
+   *   headers are merged
+   */
+  static from(
+    provider: string,
+    http?: HttpTransportOptions | HttpTransport,
+    defaults: HttpTransportOptions = {}
+  ): HttpTransport {
+    return http instanceof HttpTransport
+      ? http
+      : new HttpTransport(provider, {
+          ...defaults,
+          ...http,
+          headers: { ...defaults.headers, ...http?.headers },
+        });
+  }
+
+  /**
+   * GET a JSON resource
+   *
+   * @throws {AggregatorApiError} On a non-2xx response after retries, or a timeout
+   */
+  async get<T>(url: string, headers?: Record<string, string>): Promise<T> {
+    return this.request<T>(url, { method: 'GET', headers });
+  }
+
+  /**
+   * POST a JSON body
+   *
+   * Sent once unless `retry` is set: a POST that timed out or failed with a
+   * 5xx may still have taken effect, so only endpoints without side effects
+   * (e.g. building calldata) should opt in to retries.
+   *
+   * @param options.retry Retry like get() on 429, 5xx and timeouts (default: false)
+   * @throws {AggregatorApiError} On a non-2xx response (after retries, when
+   *   enabled), or a timeout
+   */
+  async post<T>(
+    url: string,
+    body: unknown,
+    headers?: Record<string, string>,
+    options: { retry?: boolean } = {}
+  ): Promise<T> {
+    return this.request<T>(
+      url,
+      { method: 'POST', body: JSON.stringify(body), headers },
+      options.retry ? undefined : 0
+    );
+  }
+
+  private async request<T>(
+    url: string,
+    init: { method: string; body?: string; headers?: Record<string, string> },
+    retries = this.options.retries ?? 3
+  ): Promise<T> {
+
+    for (let attempt = 0; ; attempt++) {
+      let retryAfterMs: number | undefined;
+      try {
+        await this.bucket?.take();
+        const response = await this.send(url, init);
+        if (response.ok) return await this.parse<T>(url, response);
+
+        retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+        throw await this.toError(url, response);
+      } catch (error) {
+        const apiError =
+          error instanceof AggregatorApiError
+            ? error
+            : new AggregatorApiError({
+                provider: this.provider,
+                url,
+                message: error instanceof Error ? error.message : String(error),
+                cause: error,
+              });
+        if (!apiError.retryable || attempt >= retries) throw apiError;
+
+        await sleep(
+          retryAfterMs !== undefined
+            ? Math.min(retryAfterMs, this.options.maxRetryDelayMs ?? 5_000)
+            : this.backoff(attempt)
+        );
+      }
+    }
+  }
+
+  private async send(
+    url: string,
+    init: { method: string; body?: string; headers?: Record<string, string> }
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutMs = this.options.timeoutMs ?? 10_000;
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      return await this.fetchFn(url, {
+        method: init.method,
+        body: init.body,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.options.clientId ? { 'x-client-id': this.options.clientId } : {}),
+          ...this.options.headers,
+          ...init.headers,
+        },
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new AggregatorApiError({
+          provider: this.provider,
+          url,
+          message: `request timed out after ${timeoutMs}ms`,
+          cause: error,
+        });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Parse a successful response; a body that is not JSON will not become
+   * JSON on a retry, so it fails with the response's status
+   */
+  private async parse<T>(url: string, response: Response): Promise<T> {
+    const body = await response.text();
+    try {
+      return JSON.parse(body) as T;
+    } catch (error) {
+      throw new AggregatorApiError({
+        provider: this.provider,
+        url,
+        message: 'response is not valid JSON',
+        status: response.status,
+        body,
+        cause: error,
+      });
+    }
+  }
+
+  private async toError(url: string, response: Response): Promise<AggregatorApiError> {
+    const body = await response.text().catch(() => '');
+    let code: string | number | undefined;
+    let message = body || response.statusText;
+    try {
+      const json = JSON.parse(body);
+      code = json.code ?? json.errorCode ?? json.error?.code;
+      // `error` is a string on some APIs and an object on others
+      message =
+        [json.message, json.description, json.error?.message, json.error].find(
+          (value) => typeof value === 'string'
+        ) ?? message;
+    } catch {
+      // Not JSON; keep the raw body
+    }
+
+    return new AggregatorApiError({
+      provider: this.provider,
+      url,
+      message: String(message),
+      status: response.status,
+      code,
+      body,
+    });
+  }
+
+  /** Exponential backoff with full jitter */
+  private backoff(attempt: number): number {
+    const base = this.options.retryDelayMs ?? 250;
+    const max = this.options.maxRetryDelayMs ?? 5_000;
+    return Math.random() * Math.min(max, base * 2 ** attempt);
+  }
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { KyberSwapClient, QuoteDegradedError, compareQuotes } from './client.js';
+import type { KyberSwapRoute } from './types.js';
+
+const USDT = '0x55d398326f99059fF775485246999027B3197955';
+const WBNB = '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c';
+const SAFE = '0x1111111111111111111111111111111111111111';
+
+function route(amountOut: string, quotedAt?: number): KyberSwapRoute {
+  return {
+    routeSummary: { tokenIn: USDT, tokenOut: WBNB, amountIn: '1000', amountOut } as KyberSwapRoute['routeSummary'],
+    routerAddress: '0x6131B5fae19EA4f9D964eAc0408E4408b66337b5',
+    quotedAt,
+  };
+}
+
+/** Serve `amountOut` from the routes endpoint and record build requests */
+function stubApi(amountOut: string) {
+  const builds: unknown[] = [];
+  vi.stubGlobal('fetch', async (url: string, init?: { body?: string }) => {
+    if (url.includes('/route/build')) {
+      builds.push(JSON.parse(init!.body!));
+      return new Response(JSON.stringify({ data: { data: '0x', amountOut } }));
+    }
+    return new Response(JSON.stringify({ data: route(amountOut) }));
+  });
+  return builds;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('KyberSwapClient quotes', () => {
+  it('stamps quotes and caches them when enabled', async () => {
+    stubApi('500');
+    const kyber = new KyberSwapClient(56, { quoteCacheMs: 60_000 });
+
+    const first = await kyber.getRoute(USDT, WBNB, '1000');
+    const second = await kyber.getRoute(USDT, WBNB, '1000');
+
+    expect(first.quotedAt).toBeTypeOf('number');
+    expect(second).toBe(first);
+  });
+
+  it('re-quotes a stale route before building', async () => {
+    const builds = stubApi('995');
+    const kyber = new KyberSwapClient(56, { maxQuoteAgeMs: 1_000 });
+
+    await kyber.buildSwap(route('1000', Date.now() - 5_000), SAFE, SAFE);
+
+    expect(builds).toHaveLength(1);
+    expect(builds[0]).toMatchObject({ routeSummary: { amountOut: '995' } });
+  });
+
+  it('refuses to build when the re-quote degraded too much', async () => {
+    stubApi('900');
+    const kyber = new KyberSwapClient(56, { maxDegradationBps: 50 });
+
+    await expect(kyber.buildSwap(route('1000'), SAFE, SAFE)).rejects.toBeInstanceOf(
+      QuoteDegradedError
+    );
+  });
+
+  it('implements SwapProvider on top of getRoute and buildSwap', async () => {
+    stubApi('500');
+    const kyber = new KyberSwapClient(56);
+
+    const quote = await kyber.quote({ tokenIn: USDT, tokenOut: WBNB, amountIn: 1000n });
+    const calldata = await kyber.buildCalldata(quote, { sender: SAFE, recipient: SAFE });
+
+    expect(quote).toMatchObject({ provider: 'KyberSwap', amountOut: 500n });
+    expect(calldata).toMatchObject({ target: kyber.routerAddress, spender: kyber.routerAddress, value: 0n });
+  });
+
+  it('compares amountOut in bps', () => {
+    expect(compareQuotes(route('1000'), route('990')).degradationBps).toBe(100);
+    expect(compareQuotes(route('1000'), route('1010')).degradationBps).toBe(-100);
+  });
+});
@@ -1,25 +1,90 @@
-import { Address } from 'viem';
+import { Address, Hex } from 'viem';
 import {
   KyberSwapRoute,
   KyberSwapBuildRouteRequest,
   KyberSwapBuildRouteResponse,
+  KyberSwapClientOptions,
   KyberSwapParams,
+  QuoteComparison,
 } from './types.js';
 import {
   KYBERSWAP_API_BASE,
   KYBERSWAP_CHAIN_NAMES,
   KYBERSWAP_ROUTERS,
+  KYBERSWAP_SELECTORS,
 } from './constants.js';
+import { DEFAULT_CLIENT_ID, HttpTransport } from '../http.js';
+import type {
+  SwapBuildParams,
+  SwapCalldata,
+  SwapProvider,
+  SwapQuote,
+  SwapQuoteRequest,
+} from '../types.js';
+import { NATIVE_TOKEN_ADDRESS } from '../../constants.js';
+import { isNativeToken } from '../../utils.js';
+
+/**
+ * Thrown by buildSwap() when a re-quote returns less than the original quote
+ * allows
+ */
+export class QuoteDegradedError extends Error {
+  constructor(
+    public readonly comparison: QuoteComparison,
+    public readonly maxDegradationBps: number
+  ) {
+    super(
+      `Fresh quote dropped ${comparison.degradationBps} bps ` +
+        `(${comparison.originalAmountOut} -> ${comparison.freshAmountOut}), ` +
+        `more than the allowed ${maxDegradationBps} bps`
+    );
+    this.name = 'QuoteDegradedError';
+  }
+}
+
+/**
+ * Compare a fresh quote's amountOut with the original quote's
+ */
+export function compareQuotes(
+  original: KyberSwapRoute,
+  fresh: KyberSwapRoute
+): QuoteComparison {
+  const originalAmountOut = BigInt(original.routeSummary.amountOut);
+  const freshAmountOut = BigInt(fresh.routeSummary.amountOut);
+  const degradationBps =
+    originalAmountOut === 0n
+      ? 0
+      : Number(((originalAmountOut - freshAmountOut) * 10_000n) / originalAmountOut);
+
+  return { originalAmountOut, freshAmountOut, degradationBps };
+}
 
 /**
  * Client for interacting with KyberSwap Aggregator API
+ *
+ * Quotes are stamped with the time (and block, given a `publicClient`) they
+ * were fetched. buildSwap() re-quotes a route older than `maxQuoteAgeMs` /
+ * `maxQuoteAgeBlocks` and refuses to build if the fresh amountOut is more than
+ * `maxDegradationBps` below the original.
  */
-export class KyberSwapClient {
+export class KyberSwapClient implements SwapProvider {
+  public readonly name = 'KyberSwap';
   private apiBase: string;
   private chainName: string;
   public readonly routerAddress: Address;
+  public readonly requiredSelectors: readonly Hex[] = Object.values(KYBERSWAP_SELECTORS);
+  private readonly options: KyberSwapClientOptions;
+  private readonly quoteCache = new Map<string, KyberSwapRoute>();
+  private readonly http: HttpTransport;
 
-  constructor(chainId: number) {
+  constructor(
+    public readonly chainId: number,
+    options: KyberSwapClientOptions = {}
+  ) {
+    this.options = options;
+    this.http = HttpTransport.from('KyberSwap', options.http, {
+      clientId: DEFAULT_CLIENT_ID,
+    });
     this.apiBase = KYBERSWAP_API_BASE;
 
     const chainName = KYBERSWAP_CHAIN_NAMES[chainId];
@@ -37,32 +102,84 @@ export class KyberSwapClient {
 
   /**
    * Get the best swap route from KyberSwap
+   *
+   * @param options.fresh Bypass the quote cache
    */
   async getRoute(
     tokenIn: Address,
     tokenOut: Address,
-    amountIn: string
+    amountIn: string,
+    options: { fresh?: boolean } = {}
   ): Promise<KyberSwapRoute> {
+    const cacheKey = `${tokenIn.toLowerCase()}:${tokenOut.toLowerCase()}:${amountIn}`;
+    const cached = this.quoteCache.get(cacheKey);
+    if (
+      cached &&
+      !options.fresh &&
+      Date.now() - (cached.quotedAt ?? 0) < (this.options.quoteCacheMs ?? 0)
+    ) {
+      return cached;
+    }
+
     const url = `${this.apiBase}/${this.chainName}/api/v1/routes?tokenIn=${tokenIn}&tokenOut=${tokenOut}&amountIn=${amountIn}`;
 
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
+    const [data, blockNumber] = await Promise.all([
+      this.http.get<{ data: KyberSwapRoute }>(url),
+      this.options.publicClient?.getBlockNumber(),
+    ]);
+    const route: KyberSwapRoute = { ...data.data, quotedAt: Date.now(), blockNumber };
+
+    if (this.options.quoteCacheMs) this.quoteCache.set(cacheKey, route);
+    return route;
+  }
+
+  /**
+   * Whether a quote is older than `maxQuoteAgeMs` or `maxQuoteAgeBlocks`
+   *
+   * Quotes without a timestamp (built outside getRoute()) count as stale.
+   */
+  async isQuoteStale(route: KyberSwapRoute): Promise<boolean> {
+    if (route.quotedAt === undefined) return true;
+    if (Date.now() - route.quotedAt > (this.options.maxQuoteAgeMs ?? 30_000)) {
+      return true;
+    }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`KyberSwap API error: ${response.status} - ${error}`);
+    const { publicClient, maxQuoteAgeBlocks } = this.options;
+    if (publicClient && maxQuoteAgeBlocks !== undefined && route.blockNumber !== undefined) {
+      const head = await publicClient.getBlockNumber();
+      return head - route.blockNumber > maxQuoteAgeBlocks;
     }
+    return false;
+  }
 
-    const data = await response.json() as { data: KyberSwapRoute };
-    return data.data;
+  /**
+   * Fetch a fresh quote for the same swap and compare it with the original
+   *
+   * @throws {QuoteDegradedError} If amountOut dropped more than `maxDegradationBps`
+   */
+  async requote(route: KyberSwapRoute): Promise<KyberSwapRoute> {
+    const { tokenIn, tokenOut, amountIn } = route.routeSummary;
+    const fresh = await this.getRoute(
+      tokenIn as Address,
+      tokenOut as Address,
+      amountIn,
+      { fresh: true }
+    );
+
+    const comparison = compareQuotes(route, fresh);
+    const maxDegradationBps = this.options.maxDegradationBps ?? 100;
+    if (comparison.degradationBps > maxDegradationBps) {
+      throw new QuoteDegradedError(comparison, maxDegradationBps);
+    }
+    return fresh;
   }
 
   /**
    * Build swap transaction calldata
+   *
+   * A stale route is re-quoted first (see requote()).
+   *
+   * @throws {QuoteDegradedError} If the re-quote dropped more than `maxDegradationBps`
    */
   async buildSwap(
     route: KyberSwapRoute,
@@ -71,29 +188,73 @@ export class KyberSwapClient {
     slippageTolerance: number = 50
   ): Promise<KyberSwapBuildRouteResponse> {
     const url = `${this.apiBase}/${this.chainName}/api/v1/route/build`;
+    const current = (await this.isQuoteStale(route)) ? await this.requote(route) : route;
 
     const buildRequest: KyberSwapBuildRouteRequest = {
-      routeSummary: route.routeSummary,
+      routeSummary: current.routeSummary,
       sender,
       recipient,
       slippageTolerance,
     };
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(buildRequest),
-    });
+    // Building a route only encodes calldata, so it is safe to retry
+    const data = await this.http.post<{ data: KyberSwapBuildRouteResponse }>(
+      url,
+      buildRequest,
+      undefined,
+      { retry: true }
+    );
+    return data.data;
+  }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`KyberSwap build API error: ${response.status} - ${error}`);
-    }
+  /**
+   * Quote a swap (SwapProvider)
+   */
+  async quote(request: SwapQuoteRequest): Promise<SwapQuote> {
+    const tokenIn = isNativeToken(request.tokenIn) ? NATIVE_TOKEN_ADDRESS : request.tokenIn;
+    const tokenOut = isNativeToken(request.tokenOut) ? NATIVE_TOKEN_ADDRESS : request.tokenOut;
+    const route = await this.getRoute(tokenIn, tokenOut, request.amountIn.toString());
+    const { routeSummary } = route;
 
-    const data = await response.json() as { data: KyberSwapBuildRouteResponse };
-    return data.data;
+    return {
+      provider: this.name,
+      chainId: this.chainId,
+      tokenIn,
+      tokenOut,
+      amountIn: request.amountIn,
+      amountOut: BigInt(routeSummary.amountOut),
+      routerAddress: (route.routerAddress as Address) || this.routerAddress,
+      gasEstimate: routeSummary.gas ? BigInt(routeSummary.gas) : undefined,
+      gasUsd: routeSummary.gasUsd ? Number(routeSummary.gasUsd) : undefined,
+      quotedAt: route.quotedAt ?? Date.now(),
+      raw: route,
+    };
+  }
+
+  /**
+   * Build the router call for a quote (SwapProvider)
+   *
+   * A stale route is re-quoted first (see buildSwap()).
+   */
+  async buildCalldata(quote: SwapQuote, params: SwapBuildParams): Promise<SwapCalldata> {
+    const swap = await this.buildSwap(
+      quote.raw as KyberSwapRoute,
+      params.sender,
+      params.recipient,
+      params.slippageBps ?? 50
+    );
+    const routerAddress = (swap.routerAddress as Address) || this.routerAddress;
+
+    return {
+      provider: this.name,
+      target: routerAddress,
+      data: swap.data as Hex,
+      value: isNativeToken(quote.tokenIn) ? quote.amountIn : 0n,
+      spender: routerAddress,
+      tokenIn: quote.tokenIn,
+      amountIn: quote.amountIn,
+      amountOut: BigInt(swap.amountOut),
+    };
   }
 
   /**
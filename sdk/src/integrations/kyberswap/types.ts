@@ -1,4 +1,5 @@
-import { Address } from 'viem';
+import { Address, PublicClient } from 'viem';
+import type { HttpTransport, HttpTransportOptions } from '../http.js';
 
 /**
  * KyberSwap route summary
@@ -36,6 +37,44 @@ export interface KyberSwapRouteSummary {
 export interface KyberSwapRoute {
   routeSummary: KyberSwapRouteSummary;
   routerAddress: string;
+  /** When the route was quoted (ms since epoch) */
+  quotedAt?: number;
+  /** Latest block when the route was quoted (needs `publicClient` in the client options) */
+  blockNumber?: bigint;
+}
+
+/**
+ * Options for KyberSwapClient
+ */
+export interface KyberSwapClientOptions {
+  /** Public client used to stamp quotes with a block number */
+  publicClient?: PublicClient;
+  /** Age after which buildSwap() re-quotes a route, in ms (default: 30000) */
+  maxQuoteAgeMs?: number;
+  /** Blocks after which buildSwap() re-quotes a route (requires `publicClient`) */
+  maxQuoteAgeBlocks?: bigint;
+  /** Largest drop in amountOut a re-quote may show before buildSwap() refuses, in bps (default: 100) */
+  maxDegradationBps?: number;
+  /** How long getRoute() reuses an identical quote, in ms (default: 0, no caching) */
+  quoteCacheMs?: number;
+  /**
+   * HTTP settings (timeouts, retries, rate limit, `x-client-id`), or a
+   * transport shared with other integrations. The client ID defaults to
+   * "legionsafe-sdk".
+   */
+  http?: HttpTransportOptions | HttpTransport;
+}
+
+/**
+ * Outcome of comparing a fresh quote with the original one
+ */
+export interface QuoteComparison {
+  /** amountOut of the original quote */
+  originalAmountOut: bigint;
+  /** amountOut of the fresh quote */
+  freshAmountOut: bigint;
+  /** Drop from the original to the fresh amountOut, in bps (negative if it improved) */
+  degradationBps: number;
 }
 
 /**
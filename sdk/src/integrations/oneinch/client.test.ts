@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { OneInchClient } from './client.js';
+import { ONEINCH_ROUTERS } from './constants.js';
+import { NATIVE_TOKEN_ADDRESS } from '../../constants.js';
+import { stubFetch } from '../../test/stubs.js';
+
+const USDT = '0x55d398326f99059fF775485246999027B3197955';
+const SAFE = '0x1111111111111111111111111111111111111111';
+
+describe('OneInchClient', () => {
+  it('quotes with the API key and maps the zero address to the native token', async () => {
+    const { fetch, requests } = stubFetch({ dstAmount: '2500', gas: 180000 });
+    const oneinch = new OneInchClient(56, { apiKey: 'key', http: { fetch } });
+
+    const quote = await oneinch.quote({
+      tokenIn: '0x0000000000000000000000000000000000000000',
+      tokenOut: USDT,
+      amountIn: 10n,
+    });
+
+    expect(quote).toMatchObject({ provider: '1inch', amountOut: 2500n, gasEstimate: 180000n });
+    expect(requests[0].url.pathname).toBe('/swap/v6.0/56/quote');
+    expect(requests[0].url.searchParams.get('src')).toBe(NATIVE_TOKEN_ADDRESS);
+    expect(requests[0].headers.Authorization).toBe('Bearer key');
+  });
+
+  it('builds calldata with slippage in percent and rejects unexpected routers', async () => {
+    const tx = { to: ONEINCH_ROUTERS[56], data: '0x07ed2379', value: '0' };
+    const { fetch, requests } = stubFetch({ dstAmount: '2490', tx });
+    const oneinch = new OneInchClient(56, { http: { fetch } });
+    const quote = await oneinch.quote({ tokenIn: USDT, tokenOut: NATIVE_TOKEN_ADDRESS, amountIn: 10n });
+
+    const calldata = await oneinch.buildCalldata(quote, { sender: SAFE, recipient: SAFE, slippageBps: 30 });
+
+    expect(calldata).toMatchObject({ target: ONEINCH_ROUTERS[56], spender: ONEINCH_ROUTERS[56], amountOut: 2490n });
+    expect(requests[1].url.searchParams.get('slippage')).toBe('0.3');
+    expect(requests[1].url.searchParams.get('disableEstimate')).toBe('true');
+
+    tx.to = SAFE;
+    await expect(oneinch.buildCalldata(quote, { sender: SAFE, recipient: SAFE })).rejects.toThrow(
+      'expected'
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { Address, Hex, getAddress } from 'viem';
+import { ONEINCH_API_BASE, ONEINCH_ROUTERS, ONEINCH_SELECTORS } from './constants.js';
+import type { OneInchQuoteResponse, OneInchSwapResponse } from './types.js';
+import { DEFAULT_CLIENT_ID, HttpTransport } from '../http.js';
+import type {
+  AggregatorClientOptions,
+  SwapBuildParams,
+  SwapCalldata,
+  SwapProvider,
+  SwapQuote,
+  SwapQuoteRequest,
+} from '../types.js';
+import { NATIVE_TOKEN_ADDRESS } from '../../constants.js';
+import { isNativeToken } from '../../utils.js';
+
+/**
+ * Client for the 1inch Swap API (v6)
+ *
+ * Calldata is requested with `disableEstimate=true`: the API would otherwise
+ * reject the vault for lacking an allowance that the same batch grants.
+ */
+export class OneInchClient implements SwapProvider {
+  public readonly name = '1inch';
+  public readonly routerAddress: Address;
+  public readonly requiredSelectors: readonly Hex[] = Object.values(ONEINCH_SELECTORS);
+  private readonly apiBase: string;
+  private readonly http: HttpTransport;
+
+  constructor(
+    public readonly chainId: number,
+    options: AggregatorClientOptions = {}
+  ) {
+    const routerAddress = ONEINCH_ROUTERS[chainId];
+    if (!routerAddress) {
+      throw new Error(`No 1inch router for chain ID: ${chainId}`);
+    }
+    this.routerAddress = routerAddress;
+    this.apiBase = `${options.apiBase ?? ONEINCH_API_BASE}/${chainId}`;
+    this.http = HttpTransport.from('1inch', options.http, {
+      clientId: DEFAULT_CLIENT_ID,
+      headers: options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : undefined,
+    });
+  }
+
+  /**
+   * Quote a swap
+   */
+  async quote(request: SwapQuoteRequest): Promise<SwapQuote> {
+    const tokenIn = isNativeToken(request.tokenIn) ? NATIVE_TOKEN_ADDRESS : request.tokenIn;
+    const tokenOut = isNativeToken(request.tokenOut) ? NATIVE_TOKEN_ADDRESS : request.tokenOut;
+    const query = new URLSearchParams({
+      src: tokenIn,
+      dst: tokenOut,
+      amount: request.amountIn.toString(),
+      includeGas: 'true',
+    });
+
+    const data = await this.http.get<OneInchQuoteResponse>(`${this.apiBase}/quote?${query}`);
+
+    return {
+      provider: this.name,
+      chainId: this.chainId,
+      tokenIn,
+      tokenOut,
+      amountIn: request.amountIn,
+      amountOut: BigInt(data.dstAmount),
+      routerAddress: this.routerAddress,
+      gasEstimate: data.gas !== undefined ? BigInt(data.gas) : undefined,
+      quotedAt: Date.now(),
+      raw: data,
+    };
+  }
+
+  /**
+   * Build the router call for a quote
+   *
+   * @throws {Error} If the API returns a router other than `routerAddress`
+   */
+  async buildCalldata(quote: SwapQuote, params: SwapBuildParams): Promise<SwapCalldata> {
+    const query = new URLSearchParams({
+      src: quote.tokenIn,
+      dst: quote.tokenOut,
+      amount: quote.amountIn.toString(),
+      from: params.sender,
+      origin: params.sender,
+      receiver: params.recipient,
+      // 1inch takes slippage in percent
+      slippage: String((params.slippageBps ?? 50) / 100),
+      disableEstimate: 'true',
+    });
+
+    const data = await this.http.get<OneInchSwapResponse>(`${this.apiBase}/swap?${query}`);
+    const target = getAddress(data.tx.to);
+    if (target !== this.routerAddress) {
+      throw new Error(`1inch returned router ${target}, expected ${this.routerAddress}`);
+    }
+
+    return {
+      provider: this.name,
+      target,
+      data: data.tx.data as Hex,
+      value: BigInt(data.tx.value),
+      spender: this.routerAddress,
+      tokenIn: quote.tokenIn,
+      amountIn: quote.amountIn,
+      amountOut: BigInt(data.dstAmount),
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { Address } from 'viem';
+
+/**
+ * 1inch Swap API base (requires an API key from the 1inch developer portal)
+ */
+export const ONEINCH_API_BASE = 'https://api.1inch.dev/swap/v6.0';
+
+/**
+ * 1inch Aggregation Router V6 addresses by chain
+ */
+export const ONEINCH_ROUTERS: Record<number, Address> = {
+  1: '0x111111125421cA6dc452d289314280a0f8842A65',
+  10: '0x111111125421cA6dc452d289314280a0f8842A65',
+  56: '0x111111125421cA6dc452d289314280a0f8842A65',
+  137: '0x111111125421cA6dc452d289314280a0f8842A65',
+  8453: '0x111111125421cA6dc452d289314280a0f8842A65',
+  42161: '0x111111125421cA6dc452d289314280a0f8842A65',
+  43114: '0x111111125421cA6dc452d289314280a0f8842A65',
+};
+
+/**
+ * Aggregation Router V6 selectors the Swap API returns
+ */
+export const ONEINCH_SELECTORS = {
+  SWAP: '0x07ed2379',
+  UNOSWAP: '0x83800a8e',
+  UNOSWAP_2: '0x8770ba91',
+  UNOSWAP_3: '0x19367472',
+  ETH_UNOSWAP: '0xa76dfc3b',
+  ETH_UNOSWAP_2: '0x89af926a',
+  ETH_UNOSWAP_3: '0x188ac35d',
+} as const;
@@ -0,0 +1,23 @@
+/**
+ * 1inch /quote response
+ */
+export interface OneInchQuoteResponse {
+  dstAmount: string;
+  /** Present when requested with includeGas=true */
+  gas?: number;
+}
+
+/**
+ * 1inch /swap response
+ */
+export interface OneInchSwapResponse {
+  dstAmount: string;
+  tx: {
+    from: string;
+    to: string;
+    data: string;
+    value: string;
+    gas: number;
+    gasPrice: string;
+  };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { OpenOceanClient } from './client.js';
+import { OPENOCEAN_ROUTERS } from './constants.js';
+import { AggregatorApiError } from '../http.js';
+import { stubFetch } from '../../test/stubs.js';
+
+const USDT = '0x55d398326f99059fF775485246999027B3197955';
+const WBNB = '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c';
+const SAFE = '0x1111111111111111111111111111111111111111';
+
+describe('OpenOceanClient', () => {
+  it('quotes and builds calldata from the response envelope', async () => {
+    const { fetch, requests } = stubFetch({
+      code: 200,
+      data: {
+        inAmount: '1000',
+        outAmount: '800',
+        minOutAmount: '796',
+        estimatedGas: '150000',
+        to: OPENOCEAN_ROUTERS[56],
+        data: '0x90411a32',
+        value: '0',
+      },
+    });
+    const openocean = new OpenOceanClient(56, { http: { fetch } });
+
+    const quote = await openocean.quote({ tokenIn: USDT, tokenOut: WBNB, amountIn: 1000n });
+    const calldata = await openocean.buildCalldata(quote, { sender: SAFE, recipient: SAFE });
+
+    expect(quote.amountOut).toBe(800n);
+    expect(requests[1].url.pathname).toBe('/v4/56/swap');
+    expect(requests[1].url.searchParams.get('slippage')).toBe('0.5');
+    expect(calldata).toMatchObject({ target: OPENOCEAN_ROUTERS[56], minAmountOut: 796n });
+  });
+
+  it('turns an error code in a 200 response into AggregatorApiError', async () => {
+    const { fetch } = stubFetch({ code: 400, error: 'token not supported' });
+    const openocean = new OpenOceanClient(56, { http: { fetch } });
+
+    const error = await openocean.quote({ tokenIn: USDT, tokenOut: WBNB, amountIn: 1n }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(AggregatorApiError);
+    expect(error).toMatchObject({ status: 400, retryable: false });
+    expect(error.message).toContain('token not supported');
+  });
+});
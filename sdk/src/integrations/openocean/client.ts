@@ -0,0 +1,124 @@
+import { Address, Hex, getAddress } from 'viem';
+import { OPENOCEAN_API_BASE, OPENOCEAN_ROUTERS, OPENOCEAN_SELECTORS } from './constants.js';
+import type { OpenOceanQuote, OpenOceanResponse, OpenOceanSwap } from './types.js';
+import { AggregatorApiError, DEFAULT_CLIENT_ID, HttpTransport } from '../http.js';
+import type {
+  AggregatorClientOptions,
+  SwapBuildParams,
+  SwapCalldata,
+  SwapProvider,
+  SwapQuote,
+  SwapQuoteRequest,
+} from '../types.js';
+import { NATIVE_TOKEN_ADDRESS } from '../../constants.js';
+import { isNativeToken } from '../../utils.js';
+
+/**
+ * Client for the OpenOcean API (v4)
+ */
+export class OpenOceanClient implements SwapProvider {
+  public readonly name = 'OpenOcean';
+  public readonly routerAddress: Address;
+  public readonly requiredSelectors: readonly Hex[] = Object.values(OPENOCEAN_SELECTORS);
+  private readonly apiBase: string;
+  private readonly http: HttpTransport;
+
+  constructor(
+    public readonly chainId: number,
+    options: AggregatorClientOptions = {}
+  ) {
+    const routerAddress = OPENOCEAN_ROUTERS[chainId];
+    if (!routerAddress) {
+      throw new Error(`No OpenOcean router for chain ID: ${chainId}`);
+    }
+    this.routerAddress = routerAddress;
+    this.apiBase = `${options.apiBase ?? OPENOCEAN_API_BASE}/${chainId}`;
+    this.http = HttpTransport.from('OpenOcean', options.http, {
+      clientId: DEFAULT_CLIENT_ID,
+      headers: options.apiKey ? { apikey: options.apiKey } : undefined,
+    });
+  }
+
+  /**
+   * Quote a swap
+   */
+  async quote(request: SwapQuoteRequest): Promise<SwapQuote> {
+    const tokenIn = isNativeToken(request.tokenIn) ? NATIVE_TOKEN_ADDRESS : request.tokenIn;
+    const tokenOut = isNativeToken(request.tokenOut) ? NATIVE_TOKEN_ADDRESS : request.tokenOut;
+    const query = new URLSearchParams({
+      inTokenAddress: tokenIn,
+      outTokenAddress: tokenOut,
+      amountDecimals: request.amountIn.toString(),
+    });
+
+    const data = await this.get<OpenOceanQuote>(`${this.apiBase}/quote?${query}`);
+
+    return {
+      provider: this.name,
+      chainId: this.chainId,
+      tokenIn,
+      tokenOut,
+      amountIn: request.amountIn,
+      amountOut: BigInt(data.outAmount),
+      routerAddress: this.routerAddress,
+      gasEstimate: data.estimatedGas ? BigInt(data.estimatedGas) : undefined,
+      quotedAt: Date.now(),
+      raw: data,
+    };
+  }
+
+  /**
+   * Build the router call for a quote
+   *
+   * @throws {Error} If the API returns a router other than `routerAddress`
+   */
+  async buildCalldata(quote: SwapQuote, params: SwapBuildParams): Promise<SwapCalldata> {
+    const query = new URLSearchParams({
+      inTokenAddress: quote.tokenIn,
+      outTokenAddress: quote.tokenOut,
+      amountDecimals: quote.amountIn.toString(),
+      // OpenOcean takes slippage in percent
+      slippage: String((params.slippageBps ?? 50) / 100),
+      sender: params.sender,
+      account: params.recipient,
+    });
+
+    const data = await this.get<OpenOceanSwap>(`${this.apiBase}/swap?${query}`);
+    const target = getAddress(data.to);
+    if (target !== this.routerAddress) {
+      throw new Error(`OpenOcean returned router ${target}, expected ${this.routerAddress}`);
+    }
+
+    return {
+      provider: this.name,
+      target,
+      data: data.data as Hex,
+      value: BigInt(data.value),
+      spender: this.routerAddress,
+      tokenIn: quote.tokenIn,
+      amountIn: quote.amountIn,
+      amountOut: BigInt(data.outAmount),
+      minAmountOut: BigInt(data.minOutAmount),
+    };
+  }
+
+  /**
+   * GET and unwrap the response envelope
+   *
+   * OpenOcean reports failures with HTTP 200 and an HTTP-like `code` in the body.
+   */
+  private async get<T>(url: string): Promise<T> {
+    const response = await this.http.get<OpenOceanResponse<T>>(url);
+    if (response.code !== 200) {
+      throw new AggregatorApiError({
+        provider: this.name,
+        url,
+        message: response.error ?? response.message ?? 'request failed',
+        status: response.code,
+        code: response.code,
+        body: JSON.stringify(response),
+      });
+    }
+    return response.data;
+  }
+}
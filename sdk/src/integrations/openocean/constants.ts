@@ -0,0 +1,26 @@
+import { Address } from 'viem';
+
+/**
+ * OpenOcean API base (v4)
+ */
+export const OPENOCEAN_API_BASE = 'https://open-api.openocean.finance/v4';
+
+/**
+ * OpenOcean Exchange V2 addresses by chain
+ */
+export const OPENOCEAN_ROUTERS: Record<number, Address> = {
+  1: '0x6352a56caadC4F1E25CD6c75970Fa768A3304e64',
+  10: '0x6352a56caadC4F1E25CD6c75970Fa768A3304e64',
+  56: '0x6352a56caadC4F1E25CD6c75970Fa768A3304e64',
+  137: '0x6352a56caadC4F1E25CD6c75970Fa768A3304e64',
+  8453: '0x6352a56caadC4F1E25CD6c75970Fa768A3304e64',
+  42161: '0x6352a56caadC4F1E25CD6c75970Fa768A3304e64',
+  43114: '0x6352a56caadC4F1E25CD6c75970Fa768A3304e64',
+};
+
+/**
+ * Exchange V2 selectors the API returns
+ */
+export const OPENOCEAN_SELECTORS = {
+  SWAP: '0x90411a32',
+} as const;
@@ -0,0 +1,32 @@
+/**
+ * OpenOcean response envelope; `code` is 200 on success
+ */
+export interface OpenOceanResponse<T> {
+  code: number;
+  data: T;
+  error?: string;
+  message?: string;
+}
+
+/**
+ * OpenOcean /quote data
+ */
+export interface OpenOceanQuote {
+  inAmount: string;
+  outAmount: string;
+  estimatedGas: string;
+}
+
+/**
+ * OpenOcean /swap data
+ */
+export interface OpenOceanSwap {
+  inAmount: string;
+  outAmount: string;
+  minOutAmount: string;
+  estimatedGas: number;
+  from: string;
+  to: string;
+  data: string;
+  value: string;
+}
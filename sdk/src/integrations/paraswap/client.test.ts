@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { ParaSwapClient } from './client.js';
+import { PARASWAP_ROUTERS } from './constants.js';
+import { stubFetch } from '../../test/stubs.js';
+
+const USDT = '0x55d398326f99059fF775485246999027B3197955';
+const WBNB = '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c';
+const SAFE = '0x1111111111111111111111111111111111111111';
+const AUGUSTUS = PARASWAP_ROUTERS[56];
+
+const priceRoute = {
+  srcToken: USDT,
+  srcDecimals: 18,
+  srcAmount: '1000',
+  destToken: WBNB,
+  destDecimals: 18,
+  destAmount: '2000',
+  gasCost: '120000',
+  gasCostUSD: '0.05',
+  contractAddress: AUGUSTUS,
+  contractMethod: 'swapExactAmountIn',
+  tokenTransferProxy: AUGUSTUS,
+};
+
+describe('ParaSwapClient', () => {
+  it('restricts routes to swapExactAmountIn and posts the price route back', async () => {
+    const { fetch, requests } = stubFetch(({ url }) =>
+      url.pathname.startsWith('/prices')
+        ? { priceRoute }
+        : { from: SAFE, to: AUGUSTUS, value: '0', data: '0xe3ead59e', chainId: 56 }
+    );
+    const paraswap = new ParaSwapClient(56, { http: { fetch } });
+
+    const quote = await paraswap.quote({ tokenIn: USDT, tokenOut: WBNB, amountIn: 1000n });
+    const calldata = await paraswap.buildCalldata(quote, { sender: SAFE, recipient: SAFE, slippageBps: 100 });
+
+    expect(quote).toMatchObject({ amountOut: 2000n, gasEstimate: 120000n, gasUsd: 0.05 });
+    expect(requests[0].url.searchParams.get('includeContractMethods')).toBe('swapExactAmountIn');
+    expect(requests[1].url.pathname).toBe('/transactions/56');
+    expect(JSON.parse(requests[1].body!)).toMatchObject({ slippage: 100, userAddress: SAFE, priceRoute });
+    expect(calldata).toMatchObject({ target: AUGUSTUS, spender: AUGUSTUS, minAmountOut: 1980n });
+  });
+});
@@ -0,0 +1,133 @@
+import { Address, Hex, getAddress } from 'viem';
+import { PARASWAP_API_BASE, PARASWAP_ROUTERS, PARASWAP_SELECTORS } from './constants.js';
+import type {
+  ParaSwapPriceResponse,
+  ParaSwapPriceRoute,
+  ParaSwapTransactionRequest,
+  ParaSwapTransactionResponse,
+} from './types.js';
+import { DEFAULT_CLIENT_ID, HttpTransport } from '../http.js';
+import type {
+  AggregatorClientOptions,
+  SwapBuildParams,
+  SwapCalldata,
+  SwapProvider,
+  SwapQuote,
+  SwapQuoteRequest,
+} from '../types.js';
+import { NATIVE_TOKEN_ADDRESS } from '../../constants.js';
+import { isNativeToken } from '../../utils.js';
+
+/**
+ * Client for the ParaSwap API (Augustus V6.2)
+ */
+export class ParaSwapClient implements SwapProvider {
+  public readonly name = 'ParaSwap';
+  public readonly routerAddress: Address;
+  public readonly requiredSelectors: readonly Hex[] = Object.values(PARASWAP_SELECTORS);
+  private readonly apiBase: string;
+  private readonly http: HttpTransport;
+
+  constructor(
+    public readonly chainId: number,
+    options: AggregatorClientOptions = {}
+  ) {
+    const routerAddress = PARASWAP_ROUTERS[chainId];
+    if (!routerAddress) {
+      throw new Error(`No ParaSwap router for chain ID: ${chainId}`);
+    }
+    this.routerAddress = routerAddress;
+    this.apiBase = options.apiBase ?? PARASWAP_API_BASE;
+    this.http = HttpTransport.from('ParaSwap', options.http, {
+      clientId: DEFAULT_CLIENT_ID,
+      headers: options.apiKey ? { 'X-API-KEY': options.apiKey } : undefined,
+    });
+  }
+
+  /**
+   * Quote a swap
+   */
+  async quote(request: SwapQuoteRequest): Promise<SwapQuote> {
+    const tokenIn = isNativeToken(request.tokenIn) ? NATIVE_TOKEN_ADDRESS : request.tokenIn;
+    const tokenOut = isNativeToken(request.tokenOut) ? NATIVE_TOKEN_ADDRESS : request.tokenOut;
+    const query = new URLSearchParams({
+      srcToken: tokenIn,
+      destToken: tokenOut,
+      amount: request.amountIn.toString(),
+      side: 'SELL',
+      network: String(this.chainId),
+      version: '6.2',
+      includeContractMethods: 'swapExactAmountIn',
+    });
+    if (request.tokenInDecimals !== undefined) {
+      query.set('srcDecimals', String(request.tokenInDecimals));
+    }
+    if (request.tokenOutDecimals !== undefined) {
+      query.set('destDecimals', String(request.tokenOutDecimals));
+    }
+
+    const { priceRoute } = await this.http.get<ParaSwapPriceResponse>(
+      `${this.apiBase}/prices?${query}`
+    );
+
+    return {
+      provider: this.name,
+      chainId: this.chainId,
+      tokenIn,
+      tokenOut,
+      amountIn: request.amountIn,
+      amountOut: BigInt(priceRoute.destAmount),
+      routerAddress: this.routerAddress,
+      gasEstimate: priceRoute.gasCost ? BigInt(priceRoute.gasCost) : undefined,
+      gasUsd: priceRoute.gasCostUSD ? Number(priceRoute.gasCostUSD) : undefined,
+      quotedAt: Date.now(),
+      raw: priceRoute,
+    };
+  }
+
+  /**
+   * Build the Augustus call for a quote
+   *
+   * @throws {Error} If the API returns a router other than `routerAddress`
+   */
+  async buildCalldata(quote: SwapQuote, params: SwapBuildParams): Promise<SwapCalldata> {
+    const priceRoute = quote.raw as ParaSwapPriceRoute;
+    const body: ParaSwapTransactionRequest = {
+      srcToken: quote.tokenIn,
+      srcDecimals: priceRoute.srcDecimals,
+      destToken: quote.tokenOut,
+      destDecimals: priceRoute.destDecimals,
+      srcAmount: quote.amountIn.toString(),
+      slippage: params.slippageBps ?? 50,
+      priceRoute,
+      userAddress: params.sender,
+      receiver: params.recipient,
+    };
+
+    // ignoreChecks: the vault's allowance is granted in the same batch. The
+    // endpoint only encodes calldata, so it is safe to retry
+    const data = await this.http.post<ParaSwapTransactionResponse>(
+      `${this.apiBase}/transactions/${this.chainId}?ignoreChecks=true`,
+      body,
+      undefined,
+      { retry: true }
+    );
+    const target = getAddress(data.to);
+    if (target !== this.routerAddress) {
+      throw new Error(`ParaSwap returned router ${target}, expected ${this.routerAddress}`);
+    }
+
+    const amountOut = BigInt(priceRoute.destAmount);
+    return {
+      provider: this.name,
+      target,
+      data: data.data as Hex,
+      value: BigInt(data.value),
+      spender: getAddress(priceRoute.tokenTransferProxy),
+      tokenIn: quote.tokenIn,
+      amountIn: quote.amountIn,
+      amountOut,
+      minAmountOut: (amountOut * BigInt(10_000 - body.slippage)) / 10_000n,
+    };
+  }
+}
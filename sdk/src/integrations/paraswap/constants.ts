@@ -0,0 +1,31 @@
+import { Address } from 'viem';
+
+/**
+ * ParaSwap (Velora) API base
+ */
+export const PARASWAP_API_BASE = 'https://api.paraswap.io';
+
+/**
+ * Augustus V6.2 addresses by chain
+ *
+ * V6.2 pulls ERC20 input itself, so Augustus is also the spender.
+ */
+export const PARASWAP_ROUTERS: Record<number, Address> = {
+  1: '0x6A000F20005980200259B80c5102003040001068',
+  10: '0x6A000F20005980200259B80c5102003040001068',
+  56: '0x6A000F20005980200259B80c5102003040001068',
+  137: '0x6A000F20005980200259B80c5102003040001068',
+  8453: '0x6A000F20005980200259B80c5102003040001068',
+  42161: '0x6A000F20005980200259B80c5102003040001068',
+  43114: '0x6A000F20005980200259B80c5102003040001068',
+};
+
+/**
+ * Augustus V6.2 selectors
+ *
+ * Prices are requested with `includeContractMethods=swapExactAmountIn`, so the
+ * API only returns the generic method and one authorization covers every route.
+ */
+export const PARASWAP_SELECTORS = {
+  SWAP_EXACT_AMOUNT_IN: '0xe3ead59e',
+} as const;
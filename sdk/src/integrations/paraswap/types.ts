@@ -0,0 +1,51 @@
+/**
+ * ParaSwap price route, passed back unchanged to /transactions
+ */
+export interface ParaSwapPriceRoute {
+  srcToken: string;
+  srcDecimals: number;
+  srcAmount: string;
+  destToken: string;
+  destDecimals: number;
+  destAmount: string;
+  gasCost: string;
+  gasCostUSD: string;
+  contractAddress: string;
+  contractMethod: string;
+  tokenTransferProxy: string;
+  [key: string]: unknown;
+}
+
+/**
+ * ParaSwap /prices response
+ */
+export interface ParaSwapPriceResponse {
+  priceRoute: ParaSwapPriceRoute;
+}
+
+/**
+ * ParaSwap /transactions request body
+ */
+export interface ParaSwapTransactionRequest {
+  srcToken: string;
+  srcDecimals: number;
+  destToken: string;
+  destDecimals: number;
+  srcAmount: string;
+  /** Slippage in bps */
+  slippage: number;
+  priceRoute: ParaSwapPriceRoute;
+  userAddress: string;
+  receiver: string;
+}
+
+/**
+ * ParaSwap /transactions response
+ */
+export interface ParaSwapTransactionResponse {
+  from: string;
+  to: string;
+  value: string;
+  data: string;
+  chainId: number;
+}
@@ -0,0 +1,125 @@
+import { Address, Hex } from 'viem';
+import type { HttpTransport, HttpTransportOptions } from './http.js';
+
+/**
+ * Swap to quote
+ */
+export interface SwapQuoteRequest {
+  /** Input token (NATIVE_TOKEN_ADDRESS or the zero address for native token) */
+  tokenIn: Address;
+  /** Output token (NATIVE_TOKEN_ADDRESS or the zero address for native token) */
+  tokenOut: Address;
+  /** Input amount */
+  amountIn: bigint;
+  /** Input token decimals (needed by ParaSwap for tokens outside its token list) */
+  tokenInDecimals?: number;
+  /** Output token decimals (needed by ParaSwap for tokens outside its token list) */
+  tokenOutDecimals?: number;
+}
+
+/**
+ * Quote from a swap provider
+ */
+export interface SwapQuote {
+  /** Provider that produced the quote, e.g. 'KyberSwap' */
+  provider: string;
+  /** Chain ID */
+  chainId: number;
+  /** Input token as sent to the API */
+  tokenIn: Address;
+  /** Output token as sent to the API */
+  tokenOut: Address;
+  /** Input amount */
+  amountIn: bigint;
+  /** Quoted output amount */
+  amountOut: bigint;
+  /** Router the swap will call */
+  routerAddress: Address;
+  /** Gas the swap is expected to use, when the API reports it */
+  gasEstimate?: bigint;
+  /** Gas cost in USD, when the API reports it */
+  gasUsd?: number;
+  /** When the quote was fetched (ms since epoch) */
+  quotedAt: number;
+  /** Provider-specific response needed to build the swap */
+  raw: unknown;
+}
+
+/**
+ * Parameters for SwapProvider.buildCalldata()
+ */
+export interface SwapBuildParams {
+  /** Address that executes the swap (the vault) */
+  sender: Address;
+  /** Address that receives the output (the vault) */
+  recipient: Address;
+  /** Slippage tolerance in bps (default: 50 = 0.5%) */
+  slippageBps?: number;
+}
+
+/**
+ * Swap call ready for manageBatch(), as returned by SwapProvider.buildCalldata()
+ */
+export interface SwapCalldata {
+  /** Provider that built the call */
+  provider: string;
+  /** Router to call */
+  target: Address;
+  /** Swap calldata */
+  data: Hex;
+  /** Native value to send (the input amount for native token input) */
+  value: bigint;
+  /** Address to approve for ERC20 input (must be whitelisted on the vault) */
+  spender: Address;
+  /** Input token (NATIVE_TOKEN_ADDRESS for native token) */
+  tokenIn: Address;
+  /** Input amount */
+  amountIn: bigint;
+  /** Expected output amount */
+  amountOut: bigint;
+  /** Minimum output after slippage, when the API reports it */
+  minAmountOut?: bigint;
+}
+
+/**
+ * A DEX aggregator the vault can swap through
+ *
+ * Every provider follows the same vault flow: approve `routerAddress` (a
+ * whitelisted spender) for ERC20 input, then call the router with one of
+ * `requiredSelectors` (authorized via authorizeCall()) in one manageBatch().
+ */
+export interface SwapProvider {
+  /** Provider name, e.g. 'KyberSwap' */
+  readonly name: string;
+  /** Chain ID the provider is configured for */
+  readonly chainId: number;
+  /** Router the swap calls, and the spender to whitelist */
+  readonly routerAddress: Address;
+  /** Router selectors the API may return; each must be authorized on the vault */
+  readonly requiredSelectors: readonly Hex[];
+
+  /**
+   * Quote a swap
+   */
+  quote(request: SwapQuoteRequest): Promise<SwapQuote>;
+
+  /**
+   * Build the router call for a quote
+   */
+  buildCalldata(quote: SwapQuote, params: SwapBuildParams): Promise<SwapCalldata>;
+}
+
+/**
+ * Options shared by the aggregator clients
+ */
+export interface AggregatorClientOptions {
+  /** API key (required by 1inch and 0x) */
+  apiKey?: string;
+  /** API base URL override */
+  apiBase?: string;
+  /**
+   * HTTP settings (timeouts, retries, rate limit, `x-client-id`), or a
+   * transport shared with other integrations
+   */
+  http?: HttpTransportOptions | HttpTransport;
+}
@@ -0,0 +1,63 @@
+import { Address } from 'viem';
+import type { UniswapV2Deployment, UniswapV3Deployment } from './types.js';
+
+/**
+ * Default Uniswap V2-style deployment by chain
+ */
+export const UNISWAP_V2_DEPLOYMENTS: Record<number, UniswapV2Deployment> = {
+  1: { name: 'Uniswap V2', router: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D' },
+  56: { name: 'PancakeSwap V2', router: '0x10ED43C718714eb63d5aA57B78B54704E256024E' },
+  8453: { name: 'Uniswap V2', router: '0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24' },
+};
+
+/**
+ * Default Uniswap V3-style deployment by chain
+ */
+export const UNISWAP_V3_DEPLOYMENTS: Record<number, UniswapV3Deployment> = {
+  1: {
+    name: 'Uniswap V3',
+    router: '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45',
+    quoter: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+    feeTiers: [100, 500, 3000, 10000],
+  },
+  56: {
+    name: 'PancakeSwap V3',
+    router: '0x13f4EA83D0bd40E75C8222255bc855a974568Dd4',
+    quoter: '0xB048Bbc1Ee6b733FFfCFb9e9CeF7375518e25997',
+    feeTiers: [100, 500, 2500, 10000],
+  },
+  8453: {
+    name: 'Uniswap V3',
+    router: '0x2626664c2603336E57B271c5C0b26F421741e481',
+    quoter: '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a',
+    feeTiers: [100, 500, 3000, 10000],
+  },
+};
+
+/**
+ * Router selectors used by UniswapV2Provider
+ */
+export const UNISWAP_V2_SELECTORS = {
+  SWAP_EXACT_TOKENS_FOR_TOKENS_FOT: '0x5c11d795',
+  SWAP_EXACT_ETH_FOR_TOKENS_FOT: '0xb6f9de95',
+  SWAP_EXACT_TOKENS_FOR_ETH_FOT: '0x791ac947',
+} as const;
+
+/**
+ * Router selectors used by UniswapV3Provider; the vault only sees MULTICALL,
+ * which wraps every EXACT_INPUT_SINGLE
+ */
+export const UNISWAP_V3_SELECTORS = {
+  EXACT_INPUT_SINGLE: '0x04e45aaf',
+  MULTICALL: '0x5ae401dc',
+} as const;
+
+/**
+ * Rough gas per V2 hop, for ranking against providers that report gas
+ */
+export const UNISWAP_V2_GAS_PER_HOP = 100_000n;
+
+/**
+ * SwapRouter02 placeholder for "the router itself" as recipient
+ */
+export const UNISWAP_V3_ADDRESS_THIS = '0x0000000000000000000000000000000000000002' as Address;
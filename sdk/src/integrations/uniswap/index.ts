@@ -0,0 +1,5 @@
+export * from './types.js';
+export * from './abis.js';
+export * from './v2.js';
+export * from './v3.js';
+export * from './constants.js';
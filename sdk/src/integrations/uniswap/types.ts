@@ -0,0 +1,76 @@
+import { Address } from 'viem';
+
+/**
+ * A Uniswap V2-style deployment
+ */
+export interface UniswapV2Deployment {
+  /** Name used as the provider name, e.g. 'PancakeSwap V2' */
+  name: string;
+  /** Router02 address */
+  router: Address;
+}
+
+/**
+ * A Uniswap V3-style deployment (SwapRouter02 interface)
+ */
+export interface UniswapV3Deployment {
+  /** Name used as the provider name, e.g. 'Uniswap V3' */
+  name: string;
+  /** SwapRouter02 (or PancakeSwap SmartRouter) address */
+  router: Address;
+  /** QuoterV2 address */
+  quoter: Address;
+  /** Fee tiers to try, in hundredths of a bip */
+  feeTiers: readonly number[];
+}
+
+/**
+ * Options shared by the Uniswap providers
+ */
+export interface UniswapProviderOptions<TDeployment> {
+  /** Deployment to use instead of the chain default (e.g. another fork) */
+  deployment?: TDeployment;
+  /** Wrapped native token (default: WRAPPED_NATIVE_TOKENS[chainId]) */
+  wrappedNative?: Address;
+  /** Seconds from the latest block until the swap expires (default: 300) */
+  deadlineSeconds?: number;
+}
+
+/**
+ * Options for UniswapV2Provider
+ */
+export interface UniswapV2ProviderOptions extends UniswapProviderOptions<UniswapV2Deployment> {
+  /**
+   * Tokens to try as a single intermediate hop when there is no direct pair
+   * or it quotes worse (default: the wrapped native token)
+   */
+  intermediateTokens?: Address[];
+}
+
+/**
+ * Options for UniswapV3Provider
+ */
+export interface UniswapV3ProviderOptions extends UniswapProviderOptions<UniswapV3Deployment> {
+  /** Fee tiers to try (default: the deployment's) */
+  feeTiers?: number[];
+}
+
+/**
+ * Route behind a Uniswap V2 quote (`SwapQuote.raw`)
+ */
+export interface UniswapV2Route {
+  /** Token path, with the wrapped native token in place of native */
+  path: Address[];
+}
+
+/**
+ * Route behind a Uniswap V3 quote (`SwapQuote.raw`)
+ */
+export interface UniswapV3Route {
+  /** Pool fee tier */
+  fee: number;
+  /** Input token, with the wrapped native token in place of native */
+  tokenIn: Address;
+  /** Output token, with the wrapped native token in place of native */
+  tokenOut: Address;
+}
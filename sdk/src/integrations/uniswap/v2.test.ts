@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { PublicClient, decodeFunctionData } from 'viem';
+import { UNISWAP_V2_ROUTER_ABI } from './abis.js';
+import { UNISWAP_V2_DEPLOYMENTS } from './constants.js';
+import { UniswapV2Provider } from './v2.js';
+import { NATIVE_TOKEN_ADDRESS, WRAPPED_NATIVE_TOKENS } from '../../constants.js';
+
+const MEME = '0x2222222222222222222222222222222222222222';
+const USDT = '0x55d398326f99059fF775485246999027B3197955';
+const SAFE = '0x1111111111111111111111111111111111111111';
+const WBNB = WRAPPED_NATIVE_TOKENS[56];
+
+/** Router with MEME/WBNB and USDT/WBNB pairs; output is 2x input per hop */
+const POOLS = [[MEME, WBNB].sort().join(), [USDT, WBNB].sort().join()];
+const publicClient = {
+  readContract: async ({ args: [amountIn, path] }: { args: [bigint, string[]] }) => {
+    const pairs = path.slice(1).map((token, i) => [path[i], token].sort().join());
+    if (!pairs.every((pair) => POOLS.includes(pair))) throw new Error('INSUFFICIENT_LIQUIDITY');
+    return path.map((_, i) => amountIn * 2n ** BigInt(i));
+  },
+  getBlock: async () => ({ timestamp: 1_000n }),
+} as unknown as PublicClient;
+
+describe('UniswapV2Provider', () => {
+  it('sells native for a token through the fee-on-transfer-safe router function', async () => {
+    const pancake = new UniswapV2Provider(publicClient, 56);
+
+    const quote = await pancake.quote({ tokenIn: NATIVE_TOKEN_ADDRESS, tokenOut: MEME, amountIn: 100n });
+    const calldata = await pancake.buildCalldata(quote, { sender: SAFE, recipient: SAFE, slippageBps: 1000 });
+
+    expect(quote).toMatchObject({ provider: 'PancakeSwap V2', amountOut: 200n, raw: { path: [WBNB, MEME] } });
+    expect(calldata).toMatchObject({ target: UNISWAP_V2_DEPLOYMENTS[56].router, value: 100n, minAmountOut: 180n });
+    expect(decodeFunctionData({ abi: UNISWAP_V2_ROUTER_ABI, data: calldata.data })).toEqual({
+      functionName: 'swapExactETHForTokensSupportingFeeOnTransferTokens',
+      args: [180n, [WBNB, MEME], SAFE, 1_300n],
+    });
+  });
+
+  it('routes through the wrapped native token when there is no direct pair', async () => {
+    const pancake = new UniswapV2Provider(publicClient, 56);
+
+    const quote = await pancake.quote({ tokenIn: USDT, tokenOut: MEME, amountIn: 1n });
+    const calldata = await pancake.buildCalldata(quote, { sender: SAFE, recipient: SAFE });
+
+    expect(quote).toMatchObject({ amountOut: 4n, gasEstimate: 200_000n, raw: { path: [USDT, WBNB, MEME] } });
+    expect(decodeFunctionData({ abi: UNISWAP_V2_ROUTER_ABI, data: calldata.data }).functionName).toBe(
+      'swapExactTokensForTokensSupportingFeeOnTransferTokens'
+    );
+    await expect(pancake.quote({ tokenIn: MEME, tokenOut: SAFE, amountIn: 1n })).rejects.toThrow('no pool');
+  });
+});
@@ -0,0 +1,157 @@
+import { Address, Hex, PublicClient, encodeFunctionData, getAddress } from 'viem';
+import { UNISWAP_V2_ROUTER_ABI } from './abis.js';
+import {
+  UNISWAP_V2_DEPLOYMENTS,
+  UNISWAP_V2_GAS_PER_HOP,
+  UNISWAP_V2_SELECTORS,
+} from './constants.js';
+import type { UniswapV2Deployment, UniswapV2ProviderOptions, UniswapV2Route } from './types.js';
+import type {
+  SwapBuildParams,
+  SwapCalldata,
+  SwapProvider,
+  SwapQuote,
+  SwapQuoteRequest,
+} from '../types.js';
+import { NATIVE_TOKEN_ADDRESS, WRAPPED_NATIVE_TOKENS } from '../../constants.js';
+import { isNativeToken } from '../../utils.js';
+
+/**
+ * Swaps straight against a Uniswap V2-style router, with no HTTP API
+ *
+ * Quotes come from the router's getAmountsOut() over the direct pair and
+ * one-hop paths through `intermediateTokens`. Swaps use the
+ * fee-on-transfer-safe router functions; the router is the spender.
+ */
+export class UniswapV2Provider implements SwapProvider {
+  public readonly name: string;
+  public readonly routerAddress: Address;
+  public readonly requiredSelectors: readonly Hex[] = Object.values(UNISWAP_V2_SELECTORS);
+  private readonly wrappedNative: Address;
+
+  constructor(
+    private readonly publicClient: PublicClient,
+    public readonly chainId: number,
+    private readonly options: UniswapV2ProviderOptions = {}
+  ) {
+    const deployment: UniswapV2Deployment | undefined =
+      options.deployment ?? UNISWAP_V2_DEPLOYMENTS[chainId];
+    if (!deployment) {
+      throw new Error(`No Uniswap V2 deployment for chain ID: ${chainId}; pass one in options`);
+    }
+    const wrappedNative = options.wrappedNative ?? WRAPPED_NATIVE_TOKENS[chainId];
+    if (!wrappedNative) {
+      throw new Error(`No wrapped native token known for chain ${chainId}; pass it in options`);
+    }
+    this.name = deployment.name;
+    this.routerAddress = deployment.router;
+    this.wrappedNative = wrappedNative;
+  }
+
+  /**
+   * Quote the best of the direct and one-hop paths
+   *
+   * @throws {Error} If no path has liquidity
+   */
+  async quote(request: SwapQuoteRequest): Promise<SwapQuote> {
+    if (isNativeToken(request.tokenIn) && isNativeToken(request.tokenOut)) {
+      throw new Error('Cannot swap native token for itself');
+    }
+    const tokenIn = this.toPathToken(request.tokenIn);
+    const tokenOut = this.toPathToken(request.tokenOut);
+
+    const hops = (this.options.intermediateTokens ?? [this.wrappedNative])
+      .map((token) => getAddress(token))
+      .filter((token) => token !== tokenIn && token !== tokenOut);
+    const paths = [[tokenIn, tokenOut], ...hops.map((hop) => [tokenIn, hop, tokenOut])];
+
+    const results = await Promise.allSettled(
+      paths.map((path) =>
+        this.publicClient.readContract({
+          address: this.routerAddress,
+          abi: UNISWAP_V2_ROUTER_ABI,
+          functionName: 'getAmountsOut',
+          args: [request.amountIn, path],
+        })
+      )
+    );
+
+    let best: { path: Address[]; amountOut: bigint } | undefined;
+    results.forEach((result, index) => {
+      if (result.status !== 'fulfilled') return;
+      const amountOut = result.value[result.value.length - 1];
+      if (!best || amountOut > best.amountOut) best = { path: paths[index], amountOut };
+    });
+    if (!best) {
+      throw new Error(`${this.name} has no pool for ${request.tokenIn} -> ${request.tokenOut}`);
+    }
+
+    const route: UniswapV2Route = { path: best.path };
+    return {
+      provider: this.name,
+      chainId: this.chainId,
+      tokenIn: isNativeToken(request.tokenIn) ? NATIVE_TOKEN_ADDRESS : tokenIn,
+      tokenOut: isNativeToken(request.tokenOut) ? NATIVE_TOKEN_ADDRESS : tokenOut,
+      amountIn: request.amountIn,
+      amountOut: best.amountOut,
+      routerAddress: this.routerAddress,
+      gasEstimate: UNISWAP_V2_GAS_PER_HOP * BigInt(best.path.length - 1),
+      quotedAt: Date.now(),
+      raw: route,
+    };
+  }
+
+  /**
+   * Encode the router call with `amountOutMin` = quoted output minus slippage
+   *
+   * For taxed tokens the quote does not include the tax; raise `slippageBps`
+   * above the buy/sell tax.
+   */
+  async buildCalldata(quote: SwapQuote, params: SwapBuildParams): Promise<SwapCalldata> {
+    const { path } = quote.raw as UniswapV2Route;
+    const minAmountOut = (quote.amountOut * BigInt(10_000 - (params.slippageBps ?? 50))) / 10_000n;
+    const deadline = await this.deadline();
+
+    let data: Hex;
+    if (isNativeToken(quote.tokenIn)) {
+      data = encodeFunctionData({
+        abi: UNISWAP_V2_ROUTER_ABI,
+        functionName: 'swapExactETHForTokensSupportingFeeOnTransferTokens',
+        args: [minAmountOut, path, params.recipient, deadline],
+      });
+    } else if (isNativeToken(quote.tokenOut)) {
+      data = encodeFunctionData({
+        abi: UNISWAP_V2_ROUTER_ABI,
+        functionName: 'swapExactTokensForETHSupportingFeeOnTransferTokens',
+        args: [quote.amountIn, minAmountOut, path, params.recipient, deadline],
+      });
+    } else {
+      data = encodeFunctionData({
+        abi: UNISWAP_V2_ROUTER_ABI,
+        functionName: 'swapExactTokensForTokensSupportingFeeOnTransferTokens',
+        args: [quote.amountIn, minAmountOut, path, params.recipient, deadline],
+      });
+    }
+
+    return {
+      provider: this.name,
+      target: this.routerAddress,
+      data,
+      value: isNativeToken(quote.tokenIn) ? quote.amountIn : 0n,
+      spender: this.routerAddress,
+      tokenIn: quote.tokenIn,
+      amountIn: quote.amountIn,
+      amountOut: quote.amountOut,
+      minAmountOut,
+    };
+  }
+
+  private toPathToken(token: Address): Address {
+    return isNativeToken(token) ? getAddress(this.wrappedNative) : getAddress(token);
+  }
+
+  private async deadline(): Promise<bigint> {
+    const block = await this.publicClient.getBlock();
+    return block.timestamp + BigInt(this.options.deadlineSeconds ?? 300);
+  }
+}
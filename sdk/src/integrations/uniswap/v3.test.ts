@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { PublicClient, decodeFunctionData } from 'viem';
+import { UNISWAP_V3_ROUTER_ABI } from './abis.js';
+import { UNISWAP_V3_ADDRESS_THIS } from './constants.js';
+import { UniswapV3Provider } from './v3.js';
+import { NATIVE_TOKEN_ADDRESS, WRAPPED_NATIVE_TOKENS } from '../../constants.js';
+
+const MEME = '0x2222222222222222222222222222222222222222';
+const SAFE = '0x1111111111111111111111111111111111111111';
+const WETH = WRAPPED_NATIVE_TOKENS[8453];
+
+/** Quoter where only the 1% pool has liquidity */
+const publicClient = {
+  simulateContract: async ({ args: [params] }: { args: [{ fee: number; amountIn: bigint }] }) => {
+    if (params.fee !== 10000) throw new Error('execution reverted');
+    return { result: [params.amountIn * 3n, 0n, 1, 90_000n] };
+  },
+  getBlock: async () => ({ timestamp: 1_000n }),
+} as unknown as PublicClient;
+
+describe('UniswapV3Provider', () => {
+  it('picks the fee tier with liquidity and encodes exactInputSingle to the vault under a deadline', async () => {
+    const uniswap = new UniswapV3Provider(publicClient, 8453);
+
+    const quote = await uniswap.quote({ tokenIn: NATIVE_TOKEN_ADDRESS, tokenOut: MEME, amountIn: 10n });
+    const calldata = await uniswap.buildCalldata(quote, { sender: SAFE, recipient: SAFE, slippageBps: 100 });
+
+    expect(quote).toMatchObject({ amountOut: 30n, gasEstimate: 90_000n, raw: { fee: 10000, tokenIn: WETH } });
+    expect(calldata.value).toBe(10n);
+    const multicall = decodeFunctionData({ abi: UNISWAP_V3_ROUTER_ABI, data: calldata.data });
+    expect(multicall.functionName).toBe('multicall');
+    const [deadline, [swap, ...rest]] = multicall.args as [bigint, `0x${string}`[]];
+    expect(deadline).toBe(1_300n);
+    expect(rest).toEqual([]);
+    expect(decodeFunctionData({ abi: UNISWAP_V3_ROUTER_ABI, data: swap }).args).toEqual([
+      {
+        tokenIn: WETH,
+        tokenOut: MEME,
+        fee: 10000,
+        recipient: SAFE,
+        amountIn: 10n,
+        amountOutMinimum: 29n,
+        sqrtPriceLimitX96: 0n,
+      },
+    ]);
+  });
+
+  it('unwraps native output through multicall', async () => {
+    const uniswap = new UniswapV3Provider(publicClient, 8453, { deadlineSeconds: 60 });
+
+    const quote = await uniswap.quote({ tokenIn: MEME, tokenOut: NATIVE_TOKEN_ADDRESS, amountIn: 10n });
+    const calldata = await uniswap.buildCalldata(quote, { sender: SAFE, recipient: SAFE, slippageBps: 100 });
+
+    const multicall = decodeFunctionData({ abi: UNISWAP_V3_ROUTER_ABI, data: calldata.data });
+    expect(multicall.functionName).toBe('multicall');
+    const [deadline, [swap, unwrap]] = multicall.args as [bigint, `0x${string}`[]];
+    expect(deadline).toBe(1_060n);
+    expect(decodeFunctionData({ abi: UNISWAP_V3_ROUTER_ABI, data: swap }).args).toMatchObject([
+      { recipient: UNISWAP_V3_ADDRESS_THIS },
+    ]);
+    expect(decodeFunctionData({ abi: UNISWAP_V3_ROUTER_ABI, data: unwrap }).args).toEqual([29n, SAFE]);
+  });
+});
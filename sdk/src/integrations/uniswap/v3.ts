@@ -0,0 +1,163 @@
+import { Address, Hex, PublicClient, encodeFunctionData, getAddress } from 'viem';
+import { UNISWAP_V3_QUOTER_ABI, UNISWAP_V3_ROUTER_ABI } from './abis.js';
+import {
+  UNISWAP_V3_ADDRESS_THIS,
+  UNISWAP_V3_DEPLOYMENTS,
+  UNISWAP_V3_SELECTORS,
+} from './constants.js';
+import type { UniswapV3Deployment, UniswapV3ProviderOptions, UniswapV3Route } from './types.js';
+import type {
+  SwapBuildParams,
+  SwapCalldata,
+  SwapProvider,
+  SwapQuote,
+  SwapQuoteRequest,
+} from '../types.js';
+import { NATIVE_TOKEN_ADDRESS, WRAPPED_NATIVE_TOKENS } from '../../constants.js';
+import { isNativeToken } from '../../utils.js';
+
+/**
+ * Swaps straight against a single Uniswap V3-style pool, with no HTTP API
+ *
+ * Every fee tier is quoted through QuoterV2 with eth_call and the best pool is
+ * used. The `exactInputSingle` call is wrapped in `multicall(deadline, ...)`,
+ * as SwapRouter02's version takes no deadline, and followed by `unwrapWETH9`
+ * for native output. Native input is sent as value and wrapped by the router.
+ * The router is the spender.
+ */
+export class UniswapV3Provider implements SwapProvider {
+  public readonly name: string;
+  public readonly routerAddress: Address;
+  public readonly requiredSelectors: readonly Hex[] = [UNISWAP_V3_SELECTORS.MULTICALL];
+  private readonly deployment: UniswapV3Deployment;
+  private readonly wrappedNative: Address;
+
+  constructor(
+    private readonly publicClient: PublicClient,
+    public readonly chainId: number,
+    private readonly options: UniswapV3ProviderOptions = {}
+  ) {
+    const deployment = options.deployment ?? UNISWAP_V3_DEPLOYMENTS[chainId];
+    if (!deployment) {
+      throw new Error(`No Uniswap V3 deployment for chain ID: ${chainId}; pass one in options`);
+    }
+    const wrappedNative = options.wrappedNative ?? WRAPPED_NATIVE_TOKENS[chainId];
+    if (!wrappedNative) {
+      throw new Error(`No wrapped native token known for chain ${chainId}; pass it in options`);
+    }
+    this.deployment = deployment;
+    this.name = deployment.name;
+    this.routerAddress = deployment.router;
+    this.wrappedNative = getAddress(wrappedNative);
+  }
+
+  /**
+   * Quote every fee tier and keep the best pool
+   *
+   * @throws {Error} If no fee tier has a pool with liquidity
+   */
+  async quote(request: SwapQuoteRequest): Promise<SwapQuote> {
+    if (isNativeToken(request.tokenIn) && isNativeToken(request.tokenOut)) {
+      throw new Error('Cannot swap native token for itself');
+    }
+    const tokenIn = this.toPoolToken(request.tokenIn);
+    const tokenOut = this.toPoolToken(request.tokenOut);
+    const feeTiers = this.options.feeTiers ?? this.deployment.feeTiers;
+
+    const results = await Promise.allSettled(
+      feeTiers.map((fee) =>
+        this.publicClient.simulateContract({
+          address: this.deployment.quoter,
+          abi: UNISWAP_V3_QUOTER_ABI,
+          functionName: 'quoteExactInputSingle',
+          args: [{ tokenIn, tokenOut, amountIn: request.amountIn, fee, sqrtPriceLimitX96: 0n }],
+        })
+      )
+    );
+
+    let best: { fee: number; amountOut: bigint; gasEstimate: bigint } | undefined;
+    results.forEach((result, index) => {
+      if (result.status !== 'fulfilled') return;
+      const [amountOut, , , gasEstimate] = result.value.result;
+      if (!best || amountOut > best.amountOut) {
+        best = { fee: feeTiers[index], amountOut, gasEstimate };
+      }
+    });
+    if (!best || best.amountOut === 0n) {
+      throw new Error(`${this.name} has no pool for ${request.tokenIn} -> ${request.tokenOut}`);
+    }
+
+    const route: UniswapV3Route = { fee: best.fee, tokenIn, tokenOut };
+    return {
+      provider: this.name,
+      chainId: this.chainId,
+      tokenIn: isNativeToken(request.tokenIn) ? NATIVE_TOKEN_ADDRESS : tokenIn,
+      tokenOut: isNativeToken(request.tokenOut) ? NATIVE_TOKEN_ADDRESS : tokenOut,
+      amountIn: request.amountIn,
+      amountOut: best.amountOut,
+      routerAddress: this.routerAddress,
+      gasEstimate: best.gasEstimate,
+      quotedAt: Date.now(),
+      raw: route,
+    };
+  }
+
+  /**
+   * Encode the router call with `amountOutMinimum` = quoted output minus slippage
+   */
+  async buildCalldata(quote: SwapQuote, params: SwapBuildParams): Promise<SwapCalldata> {
+    const route = quote.raw as UniswapV3Route;
+    const minAmountOut = (quote.amountOut * BigInt(10_000 - (params.slippageBps ?? 50))) / 10_000n;
+    const nativeOut = isNativeToken(quote.tokenOut);
+
+    const swap = encodeFunctionData({
+      abi: UNISWAP_V3_ROUTER_ABI,
+      functionName: 'exactInputSingle',
+      args: [
+        {
+          tokenIn: route.tokenIn,
+          tokenOut: route.tokenOut,
+          fee: route.fee,
+          // Native output: the router keeps WETH and unwraps it to the recipient
+          recipient: nativeOut ? UNISWAP_V3_ADDRESS_THIS : params.recipient,
+          amountIn: quote.amountIn,
+          amountOutMinimum: minAmountOut,
+          sqrtPriceLimitX96: 0n,
+        },
+      ],
+    });
+
+    const calls = [swap];
+    if (nativeOut) {
+      calls.push(
+        encodeFunctionData({
+          abi: UNISWAP_V3_ROUTER_ABI,
+          functionName: 'unwrapWETH9',
+          args: [minAmountOut, params.recipient],
+        })
+      );
+    }
+    const block = await this.publicClient.getBlock();
+    const data = encodeFunctionData({
+      abi: UNISWAP_V3_ROUTER_ABI,
+      functionName: 'multicall',
+      args: [block.timestamp + BigInt(this.options.deadlineSeconds ?? 300), calls],
+    });
+
+    return {
+      provider: this.name,
+      target: this.routerAddress,
+      data,
+      value: isNativeToken(quote.tokenIn) ? quote.amountIn : 0n,
+      spender: this.routerAddress,
+      tokenIn: quote.tokenIn,
+      amountIn: quote.amountIn,
+      amountOut: quote.amountOut,
+      minAmountOut,
+    };
+  }
+
+  private toPoolToken(token: Address): Address {
+    return isNativeToken(token) ? this.wrappedNative : getAddress(token);
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { ZeroExClient } from './client.js';
+import { ZEROX_ALLOWANCE_HOLDERS } from './constants.js';
+import { stubFetch } from '../../test/stubs.js';
+
+const USDT = '0x55d398326f99059fF775485246999027B3197955';
+const WBNB = '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c';
+const SAFE = '0x1111111111111111111111111111111111111111';
+const HOLDER = ZEROX_ALLOWANCE_HOLDERS[56];
+
+/** Body answering /price and /quote */
+function swapResponse(liquidityAvailable = true) {
+  return {
+    liquidityAvailable,
+    buyAmount: '700',
+    minBuyAmount: '693',
+    sellAmount: '1000',
+    gas: '210000',
+    issues: { allowance: { actual: '0', spender: HOLDER } },
+    transaction: { to: HOLDER, data: '0x2213bc0b', gas: '210000', gasPrice: '1', value: '0' },
+  };
+}
+
+describe('ZeroExClient', () => {
+  it('prices indicatively and builds a firm AllowanceHolder quote for the vault', async () => {
+    const { fetch, requests } = stubFetch(swapResponse());
+    const zerox = new ZeroExClient(56, { apiKey: 'key', http: { fetch } });
+
+    const quote = await zerox.quote({ tokenIn: USDT, tokenOut: WBNB, amountIn: 1000n });
+    const calldata = await zerox.buildCalldata(quote, { sender: SAFE, recipient: SAFE, slippageBps: 100 });
+
+    expect(requests.map((request) => request.url.pathname)).toEqual([
+      '/swap/allowance-holder/price',
+      '/swap/allowance-holder/quote',
+    ]);
+    expect(requests[0].headers['0x-api-key']).toBe('key');
+    expect(requests[1].url.searchParams.get('taker')).toBe(SAFE);
+    expect(requests[1].url.searchParams.get('slippageBps')).toBe('100');
+    expect(calldata).toMatchObject({ target: HOLDER, spender: HOLDER, amountOut: 700n, minAmountOut: 693n });
+  });
+
+  it('throws when there is no liquidity', async () => {
+    const zerox = new ZeroExClient(56, { http: { fetch: stubFetch(swapResponse(false)).fetch } });
+
+    await expect(zerox.quote({ tokenIn: USDT, tokenOut: WBNB, amountIn: 1n })).rejects.toThrow(
+      'no liquidity'
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import { Address, Hex, getAddress } from 'viem';
+import { ZEROX_ALLOWANCE_HOLDERS, ZEROX_API_BASE, ZEROX_SELECTORS } from './constants.js';
+import type { ZeroExPriceResponse, ZeroExQuoteResponse } from './types.js';
+import { DEFAULT_CLIENT_ID, HttpTransport } from '../http.js';
+import type {
+  AggregatorClientOptions,
+  SwapBuildParams,
+  SwapCalldata,
+  SwapProvider,
+  SwapQuote,
+  SwapQuoteRequest,
+} from '../types.js';
+import { NATIVE_TOKEN_ADDRESS } from '../../constants.js';
+import { isNativeToken } from '../../utils.js';
+
+/**
+ * Client for the 0x Swap API (v2, AllowanceHolder flow)
+ *
+ * quote() uses the indicative /price endpoint; buildCalldata() fetches a firm
+ * /quote with the vault as taker.
+ */
+export class ZeroExClient implements SwapProvider {
+  public readonly name = '0x';
+  public readonly routerAddress: Address;
+  public readonly requiredSelectors: readonly Hex[] = Object.values(ZEROX_SELECTORS);
+  private readonly apiBase: string;
+  private readonly http: HttpTransport;
+
+  constructor(
+    public readonly chainId: number,
+    options: AggregatorClientOptions = {}
+  ) {
+    const routerAddress = ZEROX_ALLOWANCE_HOLDERS[chainId];
+    if (!routerAddress) {
+      throw new Error(`No 0x AllowanceHolder for chain ID: ${chainId}`);
+    }
+    this.routerAddress = routerAddress;
+    this.apiBase = `${options.apiBase ?? ZEROX_API_BASE}/swap/allowance-holder`;
+    this.http = HttpTransport.from('0x', options.http, {
+      clientId: DEFAULT_CLIENT_ID,
+      headers: {
+        '0x-version': 'v2',
+        ...(options.apiKey ? { '0x-api-key': options.apiKey } : {}),
+      },
+    });
+  }
+
+  /**
+   * Quote a swap
+   *
+   * @throws {Error} If 0x has no liquidity for the pair
+   */
+  async quote(request: SwapQuoteRequest): Promise<SwapQuote> {
+    const tokenIn = isNativeToken(request.tokenIn) ? NATIVE_TOKEN_ADDRESS : request.tokenIn;
+    const tokenOut = isNativeToken(request.tokenOut) ? NATIVE_TOKEN_ADDRESS : request.tokenOut;
+    const query = new URLSearchParams({
+      chainId: String(this.chainId),
+      sellToken: tokenIn,
+      buyToken: tokenOut,
+      sellAmount: request.amountIn.toString(),
+    });
+
+    const data = await this.http.get<ZeroExPriceResponse>(`${this.apiBase}/price?${query}`);
+    if (!data.liquidityAvailable) {
+      throw new Error(`0x has no liquidity for ${tokenIn} -> ${tokenOut}`);
+    }
+
+    return {
+      provider: this.name,
+      chainId: this.chainId,
+      tokenIn,
+      tokenOut,
+      amountIn: request.amountIn,
+      amountOut: BigInt(data.buyAmount),
+      routerAddress: this.routerAddress,
+      gasEstimate: data.gas ? BigInt(data.gas) : undefined,
+      quotedAt: Date.now(),
+      raw: data,
+    };
+  }
+
+  /**
+   * Build the AllowanceHolder call for a quote
+   *
+   * @throws {Error} If 0x has no liquidity, or returns a target other than `routerAddress`
+   */
+  async buildCalldata(quote: SwapQuote, params: SwapBuildParams): Promise<SwapCalldata> {
+    const query = new URLSearchParams({
+      chainId: String(this.chainId),
+      sellToken: quote.tokenIn,
+      buyToken: quote.tokenOut,
+      sellAmount: quote.amountIn.toString(),
+      taker: params.sender,
+      recipient: params.recipient,
+      slippageBps: String(params.slippageBps ?? 50),
+    });
+
+    const data = await this.http.get<ZeroExQuoteResponse>(`${this.apiBase}/quote?${query}`);
+    if (!data.liquidityAvailable) {
+      throw new Error(`0x has no liquidity for ${quote.tokenIn} -> ${quote.tokenOut}`);
+    }
+    const target = getAddress(data.transaction.to);
+    if (target !== this.routerAddress) {
+      throw new Error(`0x returned target ${target}, expected ${this.routerAddress}`);
+    }
+
+    return {
+      provider: this.name,
+      target,
+      data: data.transaction.data as Hex,
+      value: BigInt(data.transaction.value),
+      spender: data.issues?.allowance ? getAddress(data.issues.allowance.spender) : target,
+      tokenIn: quote.tokenIn,
+      amountIn: quote.amountIn,
+      amountOut: BigInt(data.buyAmount),
+      minAmountOut: BigInt(data.minBuyAmount),
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { Address } from 'viem';
+
+/**
+ * 0x Swap API base (v2, requires an API key from the 0x dashboard)
+ */
+export const ZEROX_API_BASE = 'https://api.0x.org';
+
+/**
+ * 0x AllowanceHolder addresses by chain
+ *
+ * AllowanceHolder is both the transaction target and the spender: it pulls the
+ * approved input and forwards it to the Settler contract in one call.
+ */
+export const ZEROX_ALLOWANCE_HOLDERS: Record<number, Address> = {
+  1: '0x0000000000001fF3684f28c67538d4D072C22734',
+  10: '0x0000000000001fF3684f28c67538d4D072C22734',
+  56: '0x0000000000001fF3684f28c67538d4D072C22734',
+  137: '0x0000000000001fF3684f28c67538d4D072C22734',
+  8453: '0x0000000000001fF3684f28c67538d4D072C22734',
+  42161: '0x0000000000001fF3684f28c67538d4D072C22734',
+  43114: '0x0000000000001fF3684f28c67538d4D072C22734',
+};
+
+/**
+ * AllowanceHolder selectors the Swap API returns
+ */
+export const ZEROX_SELECTORS = {
+  EXEC: '0x2213bc0b',
+} as const;
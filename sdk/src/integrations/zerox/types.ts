@@ -0,0 +1,26 @@
+/**
+ * 0x /swap/allowance-holder/price response
+ */
+export interface ZeroExPriceResponse {
+  liquidityAvailable: boolean;
+  buyAmount: string;
+  minBuyAmount: string;
+  sellAmount: string;
+  gas: string | null;
+  issues?: {
+    allowance: { actual: string; spender: string } | null;
+  };
+}
+
+/**
+ * 0x /swap/allowance-holder/quote response
+ */
+export interface ZeroExQuoteResponse extends ZeroExPriceResponse {
+  transaction: {
+    to: string;
+    data: string;
+    gas: string | null;
+    gasPrice: string;
+    value: string;
+  };
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { WalletClient } from 'viem';
+import { LegionSafeClient } from './LegionSafeClient.js';
+import { getOwnershipStatus } from './ownership.js';
+import { StubEventLog, eventLog, stubChain, stubEvents } from './test/stubs.js';
+
+const SAFE = '0x1111111111111111111111111111111111111111';
+const OWNER = '0x2222222222222222222222222222222222222222';
+const NEXT = '0x3333333333333333333333333333333333333333';
+const STALE = '0x4444444444444444444444444444444444444444';
+const OPERATOR = '0x5555555555555555555555555555555555555555';
+const ZERO = '0x0000000000000000000000000000000000000000';
+
+/** Chain with fixed ownership state and history; block timestamps are 12s apart */
+function chain(state: Record<string, string>, events: StubEventLog[] = []) {
+  const queries: unknown[] = [];
+  return {
+    queries,
+    ...stubChain(
+      {
+        getBlock: async ({ blockNumber }: { blockNumber: bigint }) => ({ timestamp: blockNumber * 12n }),
+        readContract: async ({ functionName }: { functionName: string }) => state[functionName],
+        getContractEvents: stubEvents(events, (query) => queries.push(query)),
+      },
+      { account: OWNER }
+    ),
+  };
+}
+
+describe('getOwnershipStatus', () => {
+  it('reports the pending owner with the event that named it', async () => {
+    const { publicClient } = chain({ owner: OWNER, pendingOwner: NEXT, operator: OPERATOR }, [
+      eventLog('OwnershipTransferred', { previousOwner: ZERO, newOwner: OWNER }, 1n),
+      eventLog('OwnershipTransferStarted', { previousOwner: OWNER, newOwner: STALE }, 5n),
+      eventLog('OwnershipTransferStarted', { previousOwner: OWNER, newOwner: NEXT }, 9n),
+    ]);
+
+    const status = await getOwnershipStatus(publicClient, SAFE, { fromBlock: 0n });
+
+    expect(status).toMatchObject({ blockNumber: 100n, owner: OWNER, operator: OPERATOR, pendingOwner: NEXT });
+    expect(status.transferStarted).toMatchObject({ newOwner: NEXT, blockNumber: 9n, timestamp: 108n });
+    expect(status.lastTransferred).toMatchObject({ previousOwner: ZERO, newOwner: OWNER, timestamp: 12n });
+    expect(status.renounced).toBe(false);
+  });
+
+  it('has no pending owner once the transfer is accepted or cancelled', async () => {
+    const { publicClient } = chain({ owner: ZERO, pendingOwner: ZERO, operator: OPERATOR }, [
+      eventLog('OwnershipTransferStarted', { previousOwner: OWNER, newOwner: NEXT }, 9n),
+      eventLog('OwnershipTransferred', { previousOwner: OWNER, newOwner: ZERO }, 20n),
+    ]);
+
+    const status = await getOwnershipStatus(publicClient, SAFE, { fromBlock: 0n, toBlock: 50n });
+
+    expect(status.pendingOwner).toBeUndefined();
+    expect(status.transferStarted).toBeUndefined();
+    expect(status.lastTransferred).toMatchObject({ newOwner: ZERO, blockNumber: 20n });
+    expect(status.renounced).toBe(true);
+  });
+
+  it('skips the event lookup without a start block', async () => {
+    const { publicClient, queries } = chain({ owner: OWNER, pendingOwner: NEXT, operator: OPERATOR }, [
+      eventLog('OwnershipTransferStarted', { previousOwner: OWNER, newOwner: NEXT }, 9n),
+    ]);
+    const client = new LegionSafeClient({ safeAddress: SAFE, publicClient, walletClient: {} as WalletClient });
+
+    const status = await client.getOwnershipStatus();
+
+    expect(status).toMatchObject({ owner: OWNER, pendingOwner: NEXT });
+    expect(status.transferStarted).toBeUndefined();
+    expect(queries).toEqual([]);
+  });
+});
+
+describe('LegionSafeClient.transferOwnership', () => {
+  const state = { owner: OWNER, pendingOwner: ZERO, operator: OPERATOR };
+
+  it('refuses the zero address and the operator unless allowed', async () => {
+    const { publicClient, walletClient, sent } = chain(state);
+    const client = new LegionSafeClient({ safeAddress: SAFE, publicClient, walletClient });
+
+    await expect(client.transferOwnership(ZERO)).rejects.toThrow('cancelOwnershipTransfer()');
+    await expect(client.transferOwnership(OPERATOR)).rejects.toThrow(`to the operator ${OPERATOR}`);
+    expect(sent).toEqual([]);
+
+    await client.transferOwnership(ZERO, undefined, { allowZeroAddress: true });
+    await client.transferOwnership(OPERATOR, undefined, { allowOperator: true });
+    await client.transferOwnership(NEXT);
+    expect(sent).toHaveLength(3);
+  });
+});
@@ -0,0 +1,93 @@
+import { Address, PublicClient } from "viem";
+import { LEGION_SAFE_ABI } from "./abis.js";
+import { ZERO_ADDRESS } from "./constants.js";
+import { LegionSafeEventIndexer, LegionSafeEventLog } from "./indexer.js";
+import { ReadBatcher } from "./reads.js";
+import type {
+  OwnershipEventInfo,
+  OwnershipStatus,
+  OwnershipStatusOptions,
+} from "./types.js";
+
+/**
+ * Read the vault's owner, pending owner and operator, with the
+ * `OwnershipTransferStarted` event that named the pending owner and the
+ * `OwnershipTransferred` event that installed the current owner
+ *
+ * Events are only searched from `fromBlock`; a vault whose ownership last
+ * changed before it reports the owner without `lastTransferred`. Without
+ * `fromBlock` the events are not looked up at all, since scanning from
+ * genesis takes one `eth_getLogs` per `maxBlockRange` blocks.
+ *
+ * @param publicClient Public client
+ * @param safeAddress Vault address
+ * @param options Block range
+ * @param reads Batcher the role reads are aggregated through (default: a new
+ *   one on `publicClient`)
+ */
+export async function getOwnershipStatus(
+  publicClient: PublicClient,
+  safeAddress: Address,
+  options: OwnershipStatusOptions = {},
+  reads: ReadBatcher = new ReadBatcher(publicClient)
+): Promise<OwnershipStatus> {
+  const blockNumber = options.toBlock ?? (await publicClient.getBlockNumber());
+  const read = (functionName: "owner" | "pendingOwner" | "operator") =>
+    reads.read({ address: safeAddress, abi: LEGION_SAFE_ABI, functionName }, { blockNumber });
+
+  const [owner, pendingOwner, operator] = await Promise.all([
+    read("owner"),
+    read("pendingOwner"),
+    read("operator"),
+  ]);
+  const pending = pendingOwner === ZERO_ADDRESS ? undefined : pendingOwner;
+  const status = {
+    blockNumber,
+    owner,
+    operator,
+    pendingOwner: pending,
+    renounced: owner === ZERO_ADDRESS,
+  };
+  if (options.fromBlock === undefined) return status;
+
+  const indexer = new LegionSafeEventIndexer({
+    publicClient,
+    safeAddress,
+    fromBlock: options.fromBlock,
+    maxBlockRange: options.maxBlockRange,
+  });
+  const [started, transferred] = await Promise.all([
+    pending
+      ? indexer.getEvents({
+          eventName: "OwnershipTransferStarted",
+          args: { newOwner: pending },
+          toBlock: blockNumber,
+        })
+      : [],
+    indexer.getEvents({ eventName: "OwnershipTransferred", toBlock: blockNumber }),
+  ]);
+
+  const [transferStarted, lastTransferred] = await Promise.all([
+    withTimestamp(publicClient, started.at(-1)),
+    withTimestamp(publicClient, transferred.at(-1)),
+  ]);
+
+  return { ...status, transferStarted, lastTransferred };
+}
+
+async function withTimestamp(
+  publicClient: PublicClient,
+  event:
+    | LegionSafeEventLog<"OwnershipTransferStarted" | "OwnershipTransferred">
+    | undefined
+): Promise<OwnershipEventInfo | undefined> {
+  if (!event) return undefined;
+  const block = await publicClient.getBlock({ blockNumber: event.blockNumber });
+  return {
+    previousOwner: event.args.previousOwner,
+    newOwner: event.args.newOwner,
+    blockNumber: event.blockNumber,
+    timestamp: block.timestamp,
+    transactionHash: event.transactionHash,
+  };
+}
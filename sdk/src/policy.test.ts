@@ -0,0 +1,216 @@
+import { describe, expect, it } from 'vitest';
+import { Hash, RawContractError, encodeErrorResult } from 'viem';
+import { LEGION_SAFE_ABI } from './abis.js';
+import { LegionSafeClient } from './LegionSafeClient.js';
+import { diffPolicy, formatPolicyPlan } from './policy.js';
+import { stubChain, txHash } from './test/stubs.js';
+import type { PolicyState, VaultPolicy } from './types.js';
+
+const OPERATOR = '0x1111111111111111111111111111111111111111';
+const NEW_OPERATOR = '0x2222222222222222222222222222222222222222';
+const ROUTER = '0x6131B5fae19EA4f9D964eAc0408E4408b66337b5';
+const OLD_ROUTER = '0x3333333333333333333333333333333333333333';
+const USDT = '0x55d398326f99059fF775485246999027B3197955';
+const WBNB = '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c';
+const SAFE = '0x4444444444444444444444444444444444444444';
+const HOUR = 3600n;
+
+const current: PolicyState = {
+  operator: OPERATOR,
+  authorizedCalls: [
+    { target: USDT, selector: '0x095ea7b3', signature: 'approve(address,uint256)' },
+    { target: OLD_ROUTER, selector: '0x12345678' },
+  ],
+  whitelistedSpenders: [OLD_ROUTER],
+  trackedTokens: [USDT, WBNB],
+  spendingLimits: [
+    { token: USDT, limitPerWindow: 1000n, windowDuration: 6n * HOUR },
+    { token: WBNB, limitPerWindow: 5n, windowDuration: HOUR },
+  ],
+};
+
+describe('diffPolicy', () => {
+  it('returns no changes when the policy matches', () => {
+    const changes = diffPolicy(
+      {
+        operator: OPERATOR,
+        authorizedCalls: [
+          { target: USDT, signature: 'approve(address,uint256)' },
+          { target: OLD_ROUTER, selector: '0x12345678' },
+        ],
+        whitelistedSpenders: [OLD_ROUTER],
+        trackedTokens: [WBNB, USDT],
+        // Zero window means the contract default of 6 hours
+        spendingLimits: [
+          { token: USDT, limitPerWindow: '1000' },
+          { token: WBNB, limitPerWindow: 5, windowDuration: 3600 },
+        ],
+      },
+      current
+    );
+
+    expect(changes).toEqual([]);
+  });
+
+  it('adds, updates and prunes entries', () => {
+    const changes = diffPolicy(
+      {
+        operator: NEW_OPERATOR,
+        authorizedCalls: [{ target: USDT, selector: '0x095ea7b3' }],
+        whitelistedSpenders: [ROUTER],
+        trackedTokens: [USDT],
+        spendingLimits: [{ token: USDT, limitPerWindow: 2000n, windowDuration: HOUR }],
+      },
+      current
+    );
+
+    expect(changes.map((change) => [change.kind, change.action])).toEqual([
+      ['setOperator', 'update'],
+      ['setSpenderWhitelist', 'add'],
+      ['setSpenderWhitelist', 'remove'],
+      ['setCallAuthorization', 'remove'],
+      ['setSpendingLimit', 'update'],
+      ['setSpendingLimit', 'remove'],
+      ['removeTrackedToken', 'remove'],
+    ]);
+  });
+
+  it('leaves unlisted entries alone without prune', () => {
+    const changes = diffPolicy(
+      { whitelistedSpenders: [ROUTER], trackedTokens: [] },
+      current,
+      false
+    );
+
+    expect(changes).toEqual([
+      { kind: 'setSpenderWhitelist', action: 'add', spender: ROUTER, whitelisted: true },
+    ]);
+  });
+
+  it('rejects a selector that does not match its signature', () => {
+    expect(() =>
+      diffPolicy(
+        {
+          authorizedCalls: [
+            { target: USDT, signature: 'approve(address,uint256)', selector: '0xa9059cbb' },
+          ],
+        },
+        current
+      )
+    ).toThrow('does not match');
+  });
+});
+
+describe('formatPolicyPlan', () => {
+  it('renders one line per change and a summary', () => {
+    const output = formatPolicyPlan({
+      blockNumber: 1n,
+      changes: diffPolicy(
+        {
+          authorizedCalls: [{ target: ROUTER, signature: 'transfer(address,uint256)' }],
+          spendingLimits: [{ token: WBNB, limitPerWindow: 0 }],
+        },
+        current,
+        false
+      ),
+    });
+
+    expect(output).toBe(
+      [
+        `  + call ${ROUTER} transfer(address,uint256) [0xa9059cbb]`,
+        `  - spending limit ${WBNB}: 5 per 3600s -> none`,
+        '',
+        'Plan: 1 to add, 0 to change, 1 to remove.',
+      ].join('\n')
+    );
+  });
+});
+
+describe('LegionSafeClient policy', () => {
+  /** Vault with OPERATOR and a tracked, unlimited USDT; transaction `revertAt` reverts */
+  function vault(revertAt?: number) {
+    const state: Record<string, unknown> = {
+      operator: OPERATOR,
+      getTrackedTokens: [USDT],
+      authorizedCalls: false,
+      whitelistedSpenders: false,
+      spendingLimits: [0n, 0n, 0n, 0n],
+    };
+    const multicalls: { functionNames: string[]; blockNumber?: bigint }[] = [];
+    const chain = stubChain(
+      {
+        readContract: async ({ functionName }: { functionName: string }) => state[functionName],
+        multicall: async ({
+          contracts,
+          blockNumber,
+        }: {
+          contracts: { functionName: string }[];
+          blockNumber?: bigint;
+        }) => {
+          multicalls.push({ functionNames: contracts.map((call) => call.functionName), blockNumber });
+          return contracts.map(({ functionName }) => ({ status: 'success', result: state[functionName] }));
+        },
+        waitForTransactionReceipt: async ({ hash }: { hash: Hash }) => ({
+          status: hash === txHash(revertAt ?? 0) ? 'reverted' : 'success',
+          transactionHash: hash,
+          blockNumber: 100n,
+          gasUsed: 50_000n,
+        }),
+        call: async () => {
+          const data = encodeErrorResult({
+            abi: LEGION_SAFE_ABI,
+            errorName: 'OwnableUnauthorizedAccount',
+            args: [OPERATOR],
+          });
+          throw new RawContractError({ data });
+        },
+      },
+      { account: OPERATOR }
+    );
+    const client = new LegionSafeClient({
+      safeAddress: SAFE,
+      publicClient: chain.publicClient,
+      walletClient: chain.walletClient,
+    });
+    return { client, sent: chain.sent, multicalls };
+  }
+
+  const policy: VaultPolicy = {
+    operator: NEW_OPERATOR,
+    whitelistedSpenders: [ROUTER],
+    spendingLimits: [{ token: USDT, limitPerWindow: 100n, windowDuration: HOUR }],
+  };
+
+  it('plans against the vault state and sends one transaction per change', async () => {
+    const { client, sent, multicalls } = vault();
+
+    const plan = await client.planPolicy(policy, { prune: false });
+    const applied = await client.applyPolicy(plan);
+
+    // Roles first, then one aggregated read for every listed entry, all at one block
+    expect(multicalls).toEqual([
+      { functionNames: ['operator', 'getTrackedTokens'], blockNumber: 100n },
+      { functionNames: ['whitelistedSpenders', 'spendingLimits'], blockNumber: 100n },
+    ]);
+
+    expect(plan.changes.map((change) => change.kind)).toEqual([
+      'setOperator',
+      'setSpenderWhitelist',
+      'setSpendingLimit',
+    ]);
+    expect(applied.transactions.map(({ result }) => result.status)).toEqual(['success', 'success', 'success']);
+    expect(sent).toHaveLength(3);
+  });
+
+  it('stops at a step that reverts once mined', async () => {
+    const { client, sent } = vault(2);
+
+    // The reverted receipt makes the write method throw its decoded revert
+
+    const error = await client.applyPolicy(policy, { prune: false }).catch((e: Error) => e);
+
+    expect(error).toMatchObject({ errorName: 'OwnableUnauthorizedAccount', transactionHash: txHash(2) });
+    expect(sent).toHaveLength(2);
+  });
+});
+
@@ -0,0 +1,367 @@
+import { Address, Hex, PublicClient, toFunctionSelector } from "viem";
+import { LEGION_SAFE_ABI } from "./abis.js";
+import { getAuthorizationSnapshot } from "./authorization.js";
+import { ReadBatcher } from "./reads.js";
+import type {
+  PolicyAmount,
+  PolicyChange,
+  PolicyPlan,
+  PolicyPlanOptions,
+  PolicyState,
+  SpendingLimitConfig,
+  VaultPolicy,
+} from "./types.js";
+
+/**
+ * `DEFAULT_WINDOW_DURATION` in LegionSafe, applied when a limit is set with a
+ * zero window
+ */
+const DEFAULT_WINDOW_DURATION = 6n * 60n * 60n;
+
+const key = (address: Address) => address.toLowerCase();
+const callKey = (target: Address, selector: Hex) =>
+  `${target.toLowerCase()}:${selector.toLowerCase()}`;
+
+function toBigInt(value: PolicyAmount, field: string): bigint {
+  try {
+    const amount = BigInt(value);
+    if (amount >= 0n) return amount;
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid ${field}: ${String(value)}`);
+}
+
+/**
+ * Resolve a policy call to its selector
+ */
+function resolveCall(call: { target: Address; signature?: string; selector?: Hex }) {
+  if (call.signature) {
+    const selector = toFunctionSelector(call.signature);
+    if (call.selector && call.selector.toLowerCase() !== selector) {
+      throw new Error(
+        `Selector ${call.selector} does not match signature ${call.signature}`
+      );
+    }
+    return { target: call.target, selector, signature: call.signature };
+  }
+  if (!call.selector) {
+    throw new Error(`Call to ${call.target} needs a signature or selector`);
+  }
+  return { target: call.target, selector: call.selector.toLowerCase() as Hex };
+}
+
+/**
+ * Limit as it will be stored, with the contract's zero-window default applied
+ */
+function toLimitConfig(
+  limitPerWindow: PolicyAmount,
+  windowDuration: PolicyAmount | undefined
+): SpendingLimitConfig {
+  const duration = toBigInt(windowDuration ?? 0n, "windowDuration");
+  return {
+    limitPerWindow: toBigInt(limitPerWindow, "limitPerWindow"),
+    windowDuration: duration === 0n ? DEFAULT_WINDOW_DURATION : duration,
+  };
+}
+
+function limitsEqual(a: SpendingLimitConfig, b: SpendingLimitConfig): boolean {
+  // Without a limit the window is irrelevant
+  if (a.limitPerWindow === 0n && b.limitPerWindow === 0n) return true;
+  return a.limitPerWindow === b.limitPerWindow && a.windowDuration === b.windowDuration;
+}
+
+function assertUnique(values: string[], section: string): void {
+  const seen = new Set<string>();
+  for (const value of values) {
+    if (seen.has(value)) throw new Error(`Duplicate entry in ${section}: ${value}`);
+    seen.add(value);
+  }
+}
+
+/**
+ * Compute the changes that move `current` to `desired`
+ *
+ * Pure counterpart of planPolicy(); `current` must contain every on-chain entry
+ * that may need revoking when `prune` is set.
+ *
+ * @param desired Desired policy
+ * @param current On-chain state
+ * @param prune Revoke entries the policy does not list (default: true)
+ */
+export function diffPolicy(
+  desired: VaultPolicy,
+  current: PolicyState,
+  prune = true
+): PolicyChange[] {
+  const changes: PolicyChange[] = [];
+
+  if (desired.operator && key(desired.operator) !== key(current.operator)) {
+    changes.push({
+      kind: "setOperator",
+      action: "update",
+      from: current.operator,
+      to: desired.operator,
+    });
+  }
+
+  if (desired.whitelistedSpenders) {
+    const wanted = desired.whitelistedSpenders;
+    assertUnique(wanted.map(key), "whitelistedSpenders");
+    const enabled = new Set(current.whitelistedSpenders.map(key));
+    const wantedKeys = new Set(wanted.map(key));
+
+    for (const spender of wanted) {
+      if (enabled.has(key(spender))) continue;
+      changes.push({ kind: "setSpenderWhitelist", action: "add", spender, whitelisted: true });
+    }
+    if (prune) {
+      for (const spender of current.whitelistedSpenders) {
+        if (wantedKeys.has(key(spender))) continue;
+        changes.push({
+          kind: "setSpenderWhitelist",
+          action: "remove",
+          spender,
+          whitelisted: false,
+        });
+      }
+    }
+  }
+
+  if (desired.authorizedCalls) {
+    const wanted = desired.authorizedCalls.map(resolveCall);
+    assertUnique(
+      wanted.map((call) => callKey(call.target, call.selector)),
+      "authorizedCalls"
+    );
+    const enabled = new Set(
+      current.authorizedCalls.map((call) => callKey(call.target, call.selector))
+    );
+    const wantedKeys = new Set(wanted.map((call) => callKey(call.target, call.selector)));
+
+    for (const call of wanted) {
+      if (enabled.has(callKey(call.target, call.selector))) continue;
+      changes.push({ kind: "setCallAuthorization", action: "add", ...call, authorized: true });
+    }
+    if (prune) {
+      for (const call of current.authorizedCalls) {
+        if (wantedKeys.has(callKey(call.target, call.selector))) continue;
+        changes.push({
+          kind: "setCallAuthorization",
+          action: "remove",
+          target: call.target,
+          selector: call.selector,
+          signature: call.signature,
+          authorized: false,
+        });
+      }
+    }
+  }
+
+  const tracked = new Set(current.trackedTokens.map(key));
+  if (desired.trackedTokens) {
+    assertUnique(desired.trackedTokens.map(key), "trackedTokens");
+    for (const token of desired.trackedTokens) {
+      if (tracked.has(key(token))) continue;
+      changes.push({ kind: "addTrackedToken", action: "add", token });
+    }
+  }
+
+  if (desired.spendingLimits) {
+    assertUnique(desired.spendingLimits.map((limit) => key(limit.token)), "spendingLimits");
+    const currentLimits = new Map(
+      current.spendingLimits.map((limit) => [key(limit.token), limit])
+    );
+    const unset: SpendingLimitConfig = { limitPerWindow: 0n, windowDuration: 0n };
+
+    for (const limit of desired.spendingLimits) {
+      const to = toLimitConfig(limit.limitPerWindow, limit.windowDuration);
+      const from = currentLimits.get(key(limit.token)) ?? unset;
+      if (limitsEqual(from, to)) continue;
+      changes.push({
+        kind: "setSpendingLimit",
+        action:
+          from.limitPerWindow === 0n ? "add" : to.limitPerWindow === 0n ? "remove" : "update",
+        token: limit.token,
+        from: { limitPerWindow: from.limitPerWindow, windowDuration: from.windowDuration },
+        to,
+      });
+    }
+    if (prune) {
+      const wantedKeys = new Set(desired.spendingLimits.map((limit) => key(limit.token)));
+      for (const limit of current.spendingLimits) {
+        if (wantedKeys.has(key(limit.token)) || limit.limitPerWindow === 0n) continue;
+        changes.push({
+          kind: "setSpendingLimit",
+          action: "remove",
+          token: limit.token,
+          from: { limitPerWindow: limit.limitPerWindow, windowDuration: limit.windowDuration },
+          to: { limitPerWindow: 0n, windowDuration: DEFAULT_WINDOW_DURATION },
+        });
+      }
+    }
+  }
+
+  if (desired.trackedTokens && prune) {
+    const wantedKeys = new Set(desired.trackedTokens.map(key));
+    for (const token of current.trackedTokens) {
+      if (wantedKeys.has(key(token))) continue;
+      changes.push({ kind: "removeTrackedToken", action: "remove", token });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Read the on-chain state a policy is compared against and plan the changes
+ *
+ * Calls and spenders listed in the policy are checked directly against the
+ * mappings. With `prune`, entries enabled on-chain but missing from the policy
+ * are found through getAuthorizationSnapshot(), which replays events from
+ * `options.fromBlock`. Every read is pinned to one block and aggregated, so
+ * the state costs a few `eth_call`s however many entries the policy lists.
+ *
+ * @param publicClient Public client
+ * @param safeAddress Vault address
+ * @param desired Desired policy
+ * @param options Pruning and event replay range
+ * @param reads Batcher the vault reads are aggregated through (default: a new
+ *   one on `publicClient`)
+ */
+export async function planPolicy(
+  publicClient: PublicClient,
+  safeAddress: Address,
+  desired: VaultPolicy,
+  options: PolicyPlanOptions = {},
+  reads: ReadBatcher = new ReadBatcher(publicClient)
+): Promise<PolicyPlan> {
+  const prune = options.prune ?? true;
+  const blockNumber = await publicClient.getBlockNumber();
+  const vault = { address: safeAddress, abi: LEGION_SAFE_ABI } as const;
+  const block = { blockNumber };
+
+  const needsSnapshot =
+    prune && (desired.authorizedCalls !== undefined || desired.whitelistedSpenders !== undefined);
+  const [operator, trackedTokens, snapshot] = await Promise.all([
+    reads.read({ ...vault, functionName: "operator" }, block),
+    reads.read({ ...vault, functionName: "getTrackedTokens" }, block),
+    needsSnapshot
+      ? getAuthorizationSnapshot(
+          publicClient,
+          safeAddress,
+          { fromBlock: options.fromBlock, toBlock: blockNumber, abis: options.abis },
+          reads
+        )
+      : undefined,
+  ]);
+
+  const wantedCalls = (desired.authorizedCalls ?? []).map(resolveCall);
+  const wantedSpenders = desired.whitelistedSpenders ?? [];
+  const limitTokens = new Map<string, Address>();
+  for (const limit of desired.spendingLimits ?? []) limitTokens.set(key(limit.token), limit.token);
+  if (prune && desired.spendingLimits) {
+    // Limits only apply to tracked tokens, so those are the ones worth pruning
+    for (const token of trackedTokens) limitTokens.set(key(token), token);
+  }
+
+  const [callStates, spenderStates, spendingLimits] = await Promise.all([
+    Promise.all(
+      wantedCalls.map((call) =>
+        reads.read({ ...vault, functionName: "authorizedCalls", args: [call.target, call.selector] }, block)
+      )
+    ),
+    Promise.all(
+      wantedSpenders.map((spender) =>
+        reads.read({ ...vault, functionName: "whitelistedSpenders", args: [spender] }, block)
+      )
+    ),
+    Promise.all(
+      [...limitTokens.values()].map(async (token) => {
+        const [limitPerWindow, windowDuration] = await reads.read(
+          { ...vault, functionName: "spendingLimits", args: [token] },
+          block
+        );
+        return { token, limitPerWindow, windowDuration };
+      })
+    ),
+  ]);
+
+  const authorizedCalls = new Map<string, PolicyState["authorizedCalls"][number]>();
+  for (const call of snapshot?.calls ?? []) {
+    authorizedCalls.set(callKey(call.target, call.selector), call);
+  }
+  wantedCalls.forEach((call, i) => {
+    if (callStates[i]) authorizedCalls.set(callKey(call.target, call.selector), call);
+  });
+
+  const whitelistedSpenders = new Map<string, Address>();
+  for (const entry of snapshot?.spenders ?? []) {
+    whitelistedSpenders.set(key(entry.spender), entry.spender);
+  }
+  wantedSpenders.forEach((spender, i) => {
+    if (spenderStates[i]) whitelistedSpenders.set(key(spender), spender);
+  });
+
+  const current: PolicyState = {
+    operator,
+    authorizedCalls: [...authorizedCalls.values()],
+    whitelistedSpenders: [...whitelistedSpenders.values()],
+    trackedTokens: [...trackedTokens],
+    spendingLimits,
+  };
+
+  return { blockNumber, changes: diffPolicy(desired, current, prune) };
+}
+
+function formatLimit(limit: SpendingLimitConfig): string {
+  return limit.limitPerWindow === 0n
+    ? "none"
+    : `${limit.limitPerWindow} per ${limit.windowDuration}s`;
+}
+
+/**
+ * Render a plan in the style of `terraform plan`
+ *
+ * @example
+ * ```
+ *   ~ operator 0x1234... -> 0xabcd...
+ *   + call 0x6131...37b5 swap(address,uint256) [0x12345678]
+ *   - spender 0x1111...1111
+ *
+ * Plan: 1 to add, 1 to change, 1 to remove.
+ * ```
+ */
+export function formatPolicyPlan(plan: PolicyPlan): string {
+  if (plan.changes.length === 0) {
+    return "No changes. The vault matches the policy.";
+  }
+
+  const symbol = { add: "+", update: "~", remove: "-" } as const;
+  const lines = plan.changes.map((change) => {
+    const prefix = `  ${symbol[change.action]} `;
+    switch (change.kind) {
+      case "setOperator":
+        return `${prefix}operator ${change.from} -> ${change.to}`;
+      case "setCallAuthorization":
+        return change.signature
+          ? `${prefix}call ${change.target} ${change.signature} [${change.selector}]`
+          : `${prefix}call ${change.target} ${change.selector}`;
+      case "setSpenderWhitelist":
+        return `${prefix}spender ${change.spender}`;
+      case "addTrackedToken":
+      case "removeTrackedToken":
+        return `${prefix}tracked token ${change.token}`;
+      case "setSpendingLimit":
+        return `${prefix}spending limit ${change.token}: ${formatLimit(change.from)} -> ${formatLimit(change.to)}`;
+    }
+  });
+
+  const count = (action: PolicyChange["action"]) =>
+    plan.changes.filter((change) => change.action === action).length;
+  lines.push(
+    "",
+    `Plan: ${count("add")} to add, ${count("update")} to change, ${count("remove")} to remove.`
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { PublicClient, WalletClient, parseAbi } from 'viem';
+import { LegionSafeClient } from './LegionSafeClient.js';
+import { MULTICALL3_ADDRESS } from './constants.js';
+import { ReadBatcher } from './reads.js';
+
+const SAFE = '0x1111111111111111111111111111111111111111';
+const OWNER = '0x2222222222222222222222222222222222222222';
+const OPERATOR = '0x3333333333333333333333333333333333333333';
+const USDT = '0x4444444444444444444444444444444444444444';
+const WETH = '0x5555555555555555555555555555555555555555';
+const ROUTER = '0x6666666666666666666666666666666666666666';
+const ZERO = '0x0000000000000000000000000000000000000000';
+
+const ABI = parseAbi(['function value(uint256) view returns (uint256)']);
+
+type Call = { address: string; functionName: string; args?: readonly unknown[] };
+
+/**
+ * Client answering reads with `answer` at head block 50, without
+ * eth_simulateV1; records every read round trip
+ */
+function stubClient(answer: (call: Call) => unknown, options: { multicall?: boolean } = {}) {
+  const rpc: { method: string; calls: Call[]; blockNumber?: bigint; blockTag?: string }[] = [];
+  const settle = (call: Call) => {
+    try {
+      return { status: 'success', result: answer(call) };
+    } catch (error) {
+      return { status: 'failure', error };
+    }
+  };
+  const publicClient = {
+    readContract: async (call: Call & { blockNumber?: bigint; blockTag?: string }) => {
+      rpc.push({ method: 'readContract', calls: [call], blockNumber: call.blockNumber, blockTag: call.blockTag });
+      return answer(call);
+    },
+    multicall: async ({ contracts, ...block }: { contracts: Call[]; blockNumber?: bigint; blockTag?: string }) => {
+      rpc.push({ method: 'multicall', calls: contracts, ...block });
+      if (options.multicall === false) throw new Error('returned no data');
+      return contracts.map(settle);
+    },
+    getBlockNumber: async () => 50n,
+    simulateBlocks: async () => {
+      throw new Error('method not found');
+    },
+    call: async () => ({ data: '0x' }),
+    estimateGas: async () => 21_000n,
+  } as unknown as PublicClient;
+  return { publicClient, rpc };
+}
+
+function value(n: number) {
+  return { address: SAFE, abi: ABI, functionName: 'value', args: [BigInt(n)] } as const;
+}
+
+describe('ReadBatcher', () => {
+  it('aggregates reads of one tick per block and sends lone reads as plain calls', async () => {
+    const { publicClient, rpc } = stubClient((call) => (call.args![0] as bigint) * 2n);
+    const reads = new ReadBatcher(publicClient);
+
+    const results = await Promise.all([
+      reads.read(value(1)),
+      reads.read(value(2)),
+      reads.read(value(3), { blockNumber: 7n }),
+    ]);
+
+    expect(results).toEqual([2n, 4n, 6n]);
+    expect(rpc).toEqual([
+      expect.objectContaining({ method: 'multicall', calls: [value(1), value(2)] }),
+      expect.objectContaining({ method: 'readContract', blockNumber: 7n }),
+    ]);
+  });
+
+  it('rejects only the failed read, and falls back to plain calls without Multicall3', async () => {
+    const answer = (call: Call) => {
+      if (call.args![0] === 2n) throw new Error('execution reverted');
+      return 1n;
+    };
+
+    for (const multicall of [true, false]) {
+      const { publicClient, rpc } = stubClient(answer, { multicall });
+      const reads = new ReadBatcher(publicClient);
+
+      const results = await Promise.allSettled([reads.read(value(1)), reads.read(value(2))]);
+
+      expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+      expect(rpc.filter((call) => call.method === 'readContract')).toHaveLength(multicall ? 0 : 2);
+    }
+  });
+});
+
+describe('LegionSafeClient.getVaultSnapshot', () => {
+  it('reads the vault at one block, in one round trip once tracked tokens are known', async () => {
+    const { publicClient, rpc } = stubClient(({ address, functionName, args }) => {
+      if (address === MULTICALL3_ADDRESS) return 50n;
+      const token = args?.[0];
+      const results: Record<string, unknown> = {
+        owner: OWNER,
+        pendingOwner: ZERO,
+        operator: OPERATOR,
+        getTrackedTokens: [ZERO, USDT],
+        getETHBalance: 10n ** 18n,
+        whitelistedSpenders: true,
+        getTokenBalance: 2_500000n,
+        decimals: 6,
+        symbol: address === USDT ? 'USDT' : 'WETH',
+        spendingLimits: token === USDT ? [100n, 3600n, 60n, 0n] : [0n, 0n, 0n, 0n],
+        getRemainingLimit: token === USDT ? [40n, 3600n] : [0n, 0n],
+      };
+      return results[functionName];
+    });
+    const client = new LegionSafeClient({
+      safeAddress: SAFE,
+      publicClient,
+      walletClient: {} as WalletClient,
+    });
+
+    const snapshot = await client.getVaultSnapshot({ tokens: [WETH], spenders: [ROUTER] });
+
+    expect(snapshot).toMatchObject({
+      blockNumber: 50n,
+      owner: OWNER,
+      pendingOwner: undefined,
+      operator: OPERATOR,
+      nativeBalance: { raw: 10n ** 18n, formatted: '1' },
+      trackedTokens: [ZERO, USDT],
+      spenders: [{ spender: ROUTER, whitelisted: true }],
+    });
+    expect(snapshot.tokens).toEqual([
+      { token: ZERO, tracked: true, balance: snapshot.nativeBalance, limit: undefined },
+      {
+        token: USDT,
+        tracked: true,
+        balance: { raw: 2_500000n, formatted: '2.5', decimals: 6, symbol: 'USDT' },
+        limit: { limitPerWindow: 100n, windowDuration: 3600n, spent: 60n, lastWindowStart: 0n, remaining: 40n, windowEndsAt: 3600n },
+      },
+      expect.objectContaining({ token: WETH, tracked: false, limit: undefined }),
+    ]);
+    // Tracked tokens were unknown: a second call, pinned to the first call's block
+    expect(rpc).toHaveLength(2);
+    expect(rpc[1].blockNumber).toBe(50n);
+
+    await client.getVaultSnapshot({ tokens: [WETH], spenders: [ROUTER] });
+
+    expect(rpc).toHaveLength(3);
+    // Token metadata is cached
+    expect(rpc[2].calls.some((call) => call.functionName === 'decimals')).toBe(false);
+  });
+});
+
+describe('LegionSafeClient role reads', () => {
+  it('aggregates the reads of ownership status and simulations', async () => {
+    const roles: Record<string, unknown> = { owner: OWNER, pendingOwner: ZERO, operator: OPERATOR, getTrackedTokens: [] };
+    const { publicClient, rpc } = stubClient(({ functionName }) => roles[functionName]);
+    const client = new LegionSafeClient({ safeAddress: SAFE, publicClient, walletClient: {} as WalletClient });
+
+    await client.getOwnershipStatus();
+    await client.simulate.setOperator(ROUTER);
+
+    expect(rpc.map(({ method, calls }) => [method, calls.map((call) => call.functionName)])).toEqual([
+      ['multicall', ['owner', 'pendingOwner', 'operator']],
+      ['multicall', ['owner', 'getTrackedTokens']],
+    ]);
+    expect(rpc[0].blockNumber).toBe(50n);
+  });
+});
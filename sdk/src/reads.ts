@@ -0,0 +1,237 @@
+import {
+  Abi,
+  Address,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  ContractFunctionParameters,
+  ContractFunctionReturnType,
+  PublicClient,
+  ReadContractParameters,
+  parseAbi,
+} from "viem";
+import { MULTICALL3_ADDRESS } from "./constants.js";
+import type { MulticallConfig, ReadOptions } from "./types.js";
+
+const MULTICALL3_BLOCK_ABI = parseAbi([
+  "function getBlockNumber() view returns (uint256 blockNumber)",
+]);
+
+/**
+ * View call to aggregate
+ */
+export type ContractRead = ContractFunctionParameters<Abi, "pure" | "view">;
+
+/**
+ * Outcome of one aggregated call; a failed call does not fail the others
+ */
+export type ReadResult =
+  | { status: "success"; result: unknown; error?: undefined }
+  | { status: "failure"; result?: undefined; error: Error };
+
+interface PendingRead {
+  call: ContractRead;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Aggregates contract reads into Multicall3 calls
+ *
+ * `read()` queues a call and sends everything queued for the same block in
+ * one `eth_call` once the current tick ends, so reads started together (e.g.
+ * under Promise.all) cost one round trip. A read that is alone is sent as a
+ * plain call. When the aggregated call fails as a whole (no Multicall3 on
+ * the chain, or a node that rejects it), the queued reads are retried one by
+ * one.
+ */
+export class ReadBatcher {
+  private readonly queues = new Map<string, { options: ReadOptions; reads: PendingRead[] }>();
+
+  /**
+   * @param publicClient Public client
+   * @param config Multicall3 settings; false sends every read on its own
+   */
+  constructor(
+    private readonly publicClient: PublicClient,
+    private readonly config: MulticallConfig | false = {}
+  ) {}
+
+  /**
+   * Multicall3 address used on this client's chain
+   */
+  get multicallAddress(): Address {
+    return (
+      (this.config ? this.config.address : undefined) ??
+      this.publicClient.chain?.contracts?.multicall3?.address ??
+      MULTICALL3_ADDRESS
+    );
+  }
+
+  /**
+   * Read a view function, aggregated with the other reads of this tick
+   *
+   * @param call Contract, function and arguments
+   * @param options Block to read at
+   */
+  read<
+    const abi extends Abi | readonly unknown[],
+    functionName extends ContractFunctionName<abi, "pure" | "view">,
+    const args extends ContractFunctionArgs<abi, "pure" | "view", functionName>,
+  >(
+    call: ContractFunctionParameters<abi, "pure" | "view", functionName, args>,
+    options: ReadOptions = {}
+  ): Promise<ContractFunctionReturnType<abi, "pure" | "view", functionName, args>> {
+    if (!this.config) {
+      return this.readOne(call, options);
+    }
+
+    return new Promise((resolve, reject) => {
+      const key = blockKey(options);
+      let queue = this.queues.get(key);
+      if (!queue) {
+        queue = { options, reads: [] };
+        this.queues.set(key, queue);
+        setTimeout(() => this.flush(key), (this.config && this.config.wait) || 0);
+      }
+      queue.reads.push({ call: call as ContractRead, resolve: resolve as (value: unknown) => void, reject });
+    });
+  }
+
+  /**
+   * Read many calls in one aggregated call
+   *
+   * Falls back to one plain call per read when the aggregated call fails as
+   * a whole.
+   *
+   * @param calls View calls
+   * @param options Block to read at
+   * @returns One result per call, in order
+   */
+  async readAll(calls: ContractRead[], options: ReadOptions = {}): Promise<ReadResult[]> {
+    if (calls.length === 0) return [];
+    if (this.config) {
+      try {
+        return await multicall(this.publicClient, calls, {
+          ...options,
+          address: this.multicallAddress,
+          batchSize: this.config.batchSize,
+        });
+      } catch {
+        // No Multicall3 on the chain, or a node that rejects it
+      }
+    }
+    return Promise.all(calls.map((call) => settle(this.readOne(call, options))));
+  }
+
+  /**
+   * Read many calls in one aggregated call and report the block they were
+   * read at, so follow-up reads can be pinned to it
+   *
+   * @param calls View calls
+   * @param options Block to read at (default: latest)
+   */
+  async readAllWithBlock(
+    calls: ContractRead[],
+    options: ReadOptions = {}
+  ): Promise<{ blockNumber: bigint; results: ReadResult[] }> {
+    if (options.blockNumber !== undefined) {
+      return { blockNumber: options.blockNumber, results: await this.readAll(calls, options) };
+    }
+    if (this.config) {
+      try {
+        const results = await multicall(
+          this.publicClient,
+          [...calls, { address: this.multicallAddress, abi: MULTICALL3_BLOCK_ABI, functionName: "getBlockNumber" }],
+          { ...options, address: this.multicallAddress, batchSize: this.config.batchSize }
+        );
+        const blockNumber = results.pop()!;
+        if (blockNumber.status === "success") {
+          return { blockNumber: blockNumber.result as bigint, results };
+        }
+      } catch {
+        // Fall through to plain calls pinned to a block read first
+      }
+    }
+
+    const block = await this.publicClient.getBlock({ blockTag: options.blockTag ?? "latest" });
+    return { blockNumber: block.number!, results: await this.readAll(calls, { blockNumber: block.number! }) };
+  }
+
+  private async flush(key: string): Promise<void> {
+    const { options, reads } = this.queues.get(key)!;
+    this.queues.delete(key);
+
+    const results =
+      reads.length === 1
+        ? [await settle(this.readOne(reads[0].call, options))]
+        : await this.readAll(reads.map((read) => read.call), options);
+
+    results.forEach((result, i) =>
+      result.status === "success" ? reads[i].resolve(result.result) : reads[i].reject(result.error)
+    );
+  }
+
+  private readOne<
+    const abi extends Abi | readonly unknown[],
+    functionName extends ContractFunctionName<abi, "pure" | "view">,
+    const args extends ContractFunctionArgs<abi, "pure" | "view", functionName>,
+  >(
+    call: ContractFunctionParameters<abi, "pure" | "view", functionName, args>,
+    options: ReadOptions
+  ): Promise<ContractFunctionReturnType<abi, "pure" | "view", functionName, args>> {
+    return this.publicClient.readContract({
+      ...call,
+      ...blockParameters(options),
+    } as ReadContractParameters<abi, functionName, args>);
+  }
+}
+
+/**
+ * Aggregate view calls through Multicall3 without throwing on failed calls
+ *
+ * @param publicClient Public client
+ * @param calls View calls
+ * @param options Block to read at, Multicall3 address and the most calldata
+ *   bytes per `eth_call` (default: 0, everything in one call)
+ */
+export async function multicall(
+  publicClient: PublicClient,
+  calls: ContractRead[],
+  options: ReadOptions & { address?: Address; batchSize?: number } = {}
+): Promise<ReadResult[]> {
+  if (calls.length === 0) return [];
+  return publicClient.multicall({
+    contracts: calls,
+    allowFailure: true,
+    multicallAddress: options.address ?? MULTICALL3_ADDRESS,
+    batchSize: options.batchSize ?? 0,
+    ...blockParameters(options),
+  }) as Promise<ReadResult[]>;
+}
+
+/**
+ * Value of a successful read
+ *
+ * @throws The read's error if it failed
+ */
+export function readValue<T>(result: ReadResult): T {
+  if (result.status === "failure") throw result.error;
+  return result.result as T;
+}
+
+function settle(promise: Promise<unknown>): Promise<ReadResult> {
+  return promise.then(
+    (result): ReadResult => ({ status: "success", result }),
+    (error): ReadResult => ({ status: "failure", error })
+  );
+}
+
+function blockParameters(options: ReadOptions) {
+  if (options.blockNumber !== undefined) return { blockNumber: options.blockNumber };
+  if (options.blockTag) return { blockTag: options.blockTag };
+  return {};
+}
+
+function blockKey(options: ReadOptions): string {
+  return options.blockNumber !== undefined ? options.blockNumber.toString() : options.blockTag ?? "latest";
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { Hex, encodeFunctionResult, parseAbi } from 'viem';
+import { LEGION_SAFE_ABI } from './abis.js';
+import { LegionSafeClient } from './LegionSafeClient.js';
+import { recoverTransactionOutput } from './returnData.js';
+import { stubChain, txHash } from './test/stubs.js';
+
+const SAFE = '0x1111111111111111111111111111111111111111';
+const OPERATOR = '0x2222222222222222222222222222222222222222';
+const ROUTER = '0x3333333333333333333333333333333333333333';
+
+const ROUTER_ABI = parseAbi(['function swap(uint256 amountIn) returns (uint256 amountOut)']);
+const SWAP_DATA = '0x94b918de0000000000000000000000000000000000000000000000000000000000000064';
+const AMOUNT_OUT = encodeFunctionResult({ abi: ROUTER_ABI, functionName: 'swap', result: 95n });
+const MANAGE_OUTPUT = encodeFunctionResult({ abi: LEGION_SAFE_ABI, functionName: 'manage', result: AMOUNT_OUT });
+
+/**
+ * Chain where `debug_traceTransaction` answers with `trace` (or fails when it
+ * is undefined) and a replay returns `replay`; records the replays
+ */
+function chain(options: { trace?: { output?: Hex; error?: string }; replay?: Hex } = {}) {
+  const replays: { account: string; to: string; data: Hex; blockNumber: bigint }[] = [];
+  const stub = stubChain(
+    {
+      request: async ({ method }: { method: string }) => {
+        if (method !== 'debug_traceTransaction' || !options.trace) throw new Error('method not found');
+        return options.trace;
+      },
+      call: async (request: (typeof replays)[number]) => {
+        replays.push(request);
+        return { data: options.replay };
+      },
+    },
+    { account: OPERATOR }
+  );
+  const client = new LegionSafeClient({
+    safeAddress: SAFE,
+    publicClient: stub.publicClient,
+    walletClient: stub.walletClient,
+  });
+  return { ...stub, client, replays };
+}
+
+describe('recoverTransactionOutput', () => {
+  it('reads the output from a trace without replaying', async () => {
+    const { publicClient, replays } = chain({ trace: { output: MANAGE_OUTPUT }, replay: '0x' });
+
+    expect(await recoverTransactionOutput(publicClient, txHash(1), 100n, 'auto')).toEqual({
+      output: MANAGE_OUTPUT,
+      source: 'trace',
+    });
+    expect(replays).toEqual([]);
+  });
+
+  it('replays the transaction on the parent block when tracing fails', async () => {
+    for (const trace of [undefined, { output: '0x' as Hex, error: 'execution reverted' }]) {
+      const { publicClient, walletClient, replays } = chain({ trace, replay: MANAGE_OUTPUT });
+      await walletClient.sendTransaction({ to: SAFE, data: '0xabcd' } as never);
+
+      expect(await recoverTransactionOutput(publicClient, txHash(1), 100n, 'auto')).toEqual({
+        output: MANAGE_OUTPUT,
+        source: 'simulate',
+      });
+      expect(replays).toMatchObject([{ account: OPERATOR, to: SAFE, data: '0xabcd', blockNumber: 99n }]);
+      expect(await recoverTransactionOutput(publicClient, txHash(1), 100n, 'trace')).toBeUndefined();
+    }
+  });
+
+  it('makes no request with source "none"', async () => {
+    const { publicClient, replays } = chain({ trace: { output: MANAGE_OUTPUT }, replay: MANAGE_OUTPUT });
+
+    expect(await recoverTransactionOutput(publicClient, txHash(1), 100n, 'none')).toBeUndefined();
+    expect(replays).toEqual([]);
+  });
+});
+
+describe('LegionSafeClient return data', () => {
+  const swap = { target: ROUTER, data: SWAP_DATA, value: 0n, abi: ROUTER_ABI } as const;
+
+  it('decodes the recovered output with the call ABI', async () => {
+    const { client } = chain({ trace: { output: MANAGE_OUTPUT } });
+
+    expect(await client.manage(swap)).toMatchObject({
+      returnData: AMOUNT_OUT,
+      decodedReturnData: 95n,
+      returnDataSource: 'trace',
+    });
+  });
+
+  it('reports a replay output that does not decode as unavailable', async () => {
+    const { client } = chain({ replay: '0x1234' });
+
+    expect(await client.manage(swap)).toMatchObject({
+      status: 'success',
+      returnData: '0x',
+      returnDataSource: 'unavailable',
+    });
+    expect(await client.manageBatch({ calls: [swap] })).toMatchObject({
+      status: 'success',
+      returnData: [],
+      decodedReturnData: [undefined],
+      returnDataSource: 'unavailable',
+    });
+  });
+});
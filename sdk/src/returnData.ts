@@ -0,0 +1,109 @@
+import {
+  Hash,
+  Hex,
+  PublicClient,
+  decodeFunctionData,
+  decodeFunctionResult,
+} from "viem";
+import { LEGION_SAFE_ABI } from "./abis.js";
+import type { BatchCallItem, ReturnDataSource } from "./types.js";
+
+/**
+ * Recover the raw return value of a mined LegionSafe transaction
+ *
+ * `trace` reads the top-level call output with `debug_traceTransaction`.
+ * `simulate` replays the transaction with `eth_call` on the parent block, which
+ * is exact unless an earlier transaction in the same block touched the same state.
+ * `auto` tries the trace first and falls back to the replay.
+ *
+ * @returns Output of the top-level call, or undefined if it could not be recovered
+ */
+export async function recoverTransactionOutput(
+  publicClient: PublicClient,
+  hash: Hash,
+  blockNumber: bigint,
+  source: ReturnDataSource
+): Promise<{ output: Hex; source: "trace" | "simulate" } | undefined> {
+  if (source === "none") return undefined;
+
+  if (source === "trace" || source === "auto") {
+    try {
+      const trace = await publicClient.request<{
+        Parameters: [Hash, { tracer: "callTracer"; tracerConfig: { onlyTopCall: true } }];
+        ReturnType: { output?: Hex; error?: string };
+      }>({
+        method: "debug_traceTransaction",
+        params: [hash, { tracer: "callTracer", tracerConfig: { onlyTopCall: true } }],
+      });
+      if (trace.output && !trace.error) {
+        return { output: trace.output, source: "trace" };
+      }
+    } catch {
+      // Tracing is not available on every RPC; fall through to replay
+    }
+    if (source === "trace") return undefined;
+  }
+
+  try {
+    const tx = await publicClient.getTransaction({ hash });
+    const { data } = await publicClient.call({
+      account: tx.from,
+      to: tx.to!,
+      data: tx.input,
+      value: tx.value,
+      blockNumber: blockNumber - 1n,
+    });
+    return data ? { output: data, source: "simulate" } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decode the output of `manage()` into the target's raw return data
+ */
+export function decodeManageOutput(output: Hex): Hex {
+  return decodeFunctionResult({
+    abi: LEGION_SAFE_ABI,
+    functionName: "manage",
+    data: output,
+  });
+}
+
+/**
+ * Decode the output of `manageBatch()` into each target's raw return data
+ */
+export function decodeManageBatchOutput(output: Hex): Hex[] {
+  return [
+    ...decodeFunctionResult({
+      abi: LEGION_SAFE_ABI,
+      functionName: "manageBatch",
+      data: output,
+    }),
+  ];
+}
+
+/**
+ * Decode a target's return data using the call's optional ABI
+ *
+ * The function is identified from the call's selector, so the ABI may contain
+ * any number of functions.
+ *
+ * @returns Decoded value, or undefined if no ABI was given or decoding failed
+ */
+export function decodeCallReturnData(
+  call: Pick<BatchCallItem, "abi" | "data">,
+  returnData: Hex
+): unknown {
+  if (!call.abi) return undefined;
+  try {
+    const { functionName } = decodeFunctionData({ abi: call.abi, data: call.data });
+    return decodeFunctionResult({
+      abi: call.abi,
+      functionName,
+      data: returnData,
+    });
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { encodeFunctionResult, toFunctionSelector } from 'viem';
+import { ERC20_ABI } from './abis.js';
+import { WRAPPED_NATIVE_TOKENS } from './constants.js';
+import { UNISWAP_V2_ROUTER_ABI } from './integrations/uniswap/abis.js';
+import { TokenScreener, TokenScreeningError, extractSelectors } from './screener.js';
+import { stubChain } from './test/stubs.js';
+
+const TOKEN = '0x2222222222222222222222222222222222222222';
+const OWNER = '0x3333333333333333333333333333333333333333';
+const PAIR = '0x4444444444444444444444444444444444444444';
+const WBNB = WRAPPED_NATIVE_TOKENS[56];
+
+const uint = (value: bigint) => encodeFunctionResult({ abi: ERC20_ABI, functionName: 'balanceOf', result: value });
+const amounts = (values: bigint[]) =>
+  encodeFunctionResult({ abi: UNISWAP_V2_ROUTER_ABI, functionName: 'getAmountsOut', result: values });
+const ok = (data = '0x') => ({ status: 'success', data });
+const reverted = { status: 'failure', data: '0x' };
+
+/**
+ * Chain where the router quotes 1000 tokens per buy and 100 native per sell,
+ * the token keeps `buyTaxBps` of buys and `sellTaxBps` of sells, and the
+ * token bytecode exposes `selectors`; aggregated reads are recorded in
+ * `multicalls`
+ */
+function chain(options: {
+  buyTaxBps: bigint;
+  sellTaxBps: bigint;
+  sellReverts?: boolean;
+  simulateV1?: boolean;
+  simulateError?: Error;
+  selectors: string[];
+  owner?: string | Error;
+  multicalls?: string[][];
+}) {
+  const received = 1000n - (1000n * options.buyTaxBps) / 10_000n;
+  const read = async ({ functionName }: { functionName: string }) => {
+    switch (functionName) {
+      case 'factory':
+        return '0x5555555555555555555555555555555555555555';
+      case 'getPair':
+        return PAIR;
+      case 'token0':
+        return TOKEN;
+      case 'getReserves':
+        return [1_000_000n, 50n * 10n ** 18n, 0];
+      case 'owner':
+        if (options.owner instanceof Error) throw options.owner;
+        return options.owner ?? OWNER;
+    }
+    throw new Error(`unexpected ${functionName}`);
+  };
+  return stubChain({
+    getBlock: async () => ({ timestamp: 1_000n }),
+    simulateBlocks: async ({ blocks: [{ calls }] }: { blocks: [{ calls: unknown[] }] }) => {
+      if (options.simulateV1 === false) throw new Error('method not found');
+      if (options.simulateError) throw options.simulateError;
+      const buy = [ok(amounts([10n ** 16n, 1000n])), ok(uint(0n)), ok(), ok(uint(received))];
+      if (calls.length === 4) return [{ calls: buy }];
+      const sold = 100n - (100n * options.sellTaxBps) / 10_000n;
+      return [
+        {
+          calls: [
+            ...buy,
+            ok(),
+            ok(amounts([received, 100n])),
+            ok(uint(5n)),
+            options.sellReverts ? reverted : ok(),
+            ok(uint(5n + sold)),
+          ],
+        },
+      ];
+    },
+    readContract: read,
+    multicall: async ({ contracts }: { contracts: { functionName: string }[] }) => {
+      options.multicalls?.push(contracts.map((call) => call.functionName));
+      return Promise.all(
+        contracts.map((call) =>
+          read(call).then(
+            (result) => ({ status: 'success', result }),
+            (error) => ({ status: 'failure', error })
+          )
+        )
+      );
+    },
+    getCode: async () => `0x${options.selectors.map((s) => `63${s.slice(2)}`).join('')}`,
+    getStorageAt: async () => `0x${'0'.repeat(64)}`,
+  }).publicClient;
+}
+
+const BLACKLIST = toFunctionSelector('blacklist(address)');
+const OWNER_OF = toFunctionSelector('owner()');
+const SET_FEES = toFunctionSelector('setFees(uint256,uint256)');
+
+describe('TokenScreener', () => {
+  it('measures taxes and reads the main pool', async () => {
+    const multicalls: string[][] = [];
+    const screener = new TokenScreener(chain({ buyTaxBps: 300n, sellTaxBps: 500n, selectors: [], multicalls }));
+
+    const report = await screener.screen(TOKEN);
+
+    expect(multicalls).toEqual([['token0', 'getReserves']]);
+    expect(report.passed).toBe(true);
+    expect(report.roundTrip).toMatchObject({ receivedTokens: 970n, buyTaxBps: 300, receivedNative: 95n, sellTaxBps: 500 });
+    expect(report.liquidity).toEqual({ pair: PAIR, nativeReserve: 50n * 10n ** 18n, tokenReserve: 1_000_000n });
+    expect(report.ownerRenounced).toBe(true);
+  });
+
+  it('fails honeypots, high taxes and owner-controlled blacklists', async () => {
+    const honeypot = new TokenScreener(
+      chain({ buyTaxBps: 0n, sellTaxBps: 0n, sellReverts: true, selectors: [] })
+    );
+    const taxed = new TokenScreener(
+      chain({ buyTaxBps: 0n, sellTaxBps: 2_500n, selectors: [OWNER_OF, BLACKLIST, SET_FEES] })
+    );
+
+    expect((await honeypot.screen(TOKEN)).reasons).toEqual(['sell reverts (honeypot)']);
+    const report = await taxed.screen(TOKEN);
+    expect(report.reasons).toEqual([
+      'sell tax 2500 bps exceeds 1000 bps',
+      'owner can call blacklist: blacklist(address)',
+    ]);
+    expect(report.warnings).toEqual(['fee-control: setFees(uint256,uint256)']);
+    await expect(taxed.assertSafe(TOKEN)).rejects.toBeInstanceOf(TokenScreeningError);
+  });
+
+  it('treats a renounced owner as harmless and fails without eth_simulateV1', async () => {
+    const renounced = new TokenScreener(
+      chain({
+        buyTaxBps: 0n,
+        sellTaxBps: 0n,
+        simulateV1: false,
+        selectors: [OWNER_OF, BLACKLIST],
+        owner: '0x000000000000000000000000000000000000dEaD',
+      })
+    );
+
+    const report = await renounced.screen(TOKEN);
+
+    expect(report.reasons).toEqual(['round trip could not be simulated (RPC lacks eth_simulateV1)']);
+    expect(report.warnings).toEqual(['blacklist: blacklist(address)']);
+  });
+
+  it('throws simulation failures other than a missing eth_simulateV1', async () => {
+    const screener = new TokenScreener(
+      chain({ buyTaxBps: 0n, sellTaxBps: 0n, simulateError: new Error('request timed out'), selectors: [] })
+    );
+
+    await expect(screener.screen(TOKEN)).rejects.toThrow('request timed out');
+  });
+
+  it('does not treat an owner() that reverts as renounced', async () => {
+    const screener = new TokenScreener(
+      chain({
+        buyTaxBps: 0n,
+        sellTaxBps: 0n,
+        selectors: [OWNER_OF, BLACKLIST],
+        owner: new Error('execution reverted'),
+      })
+    );
+
+    const report = await screener.screen(TOKEN);
+
+    expect(report).toMatchObject({ passed: false, owner: undefined, ownerRenounced: false });
+    expect(report.reasons).toEqual(['owner can call blacklist: blacklist(address)']);
+  });
+});
+
+describe('extractSelectors', () => {
+  it('reads PUSH4 operands and skips other push data', () => {
+    // PUSH32 whose data contains 0x63aabbccdd, then PUSH4 0x12345678
+    const code = `0x7f63aabbccdd${'00'.repeat(27)}6312345678` as const;
+
+    expect([...extractSelectors(code)]).toEqual(['0x12345678']);
+  });
+});
@@ -0,0 +1,539 @@
+import {
+  Address,
+  Hex,
+  PublicClient,
+  decodeFunctionResult,
+  encodeFunctionData,
+  getAddress,
+  maxUint256,
+  parseAbi,
+  toFunctionSelector,
+} from "viem";
+import { ERC20_ABI } from "./abis.js";
+import { ERC1967_IMPLEMENTATION_SLOT, WRAPPED_NATIVE_TOKENS, ZERO_ADDRESS } from "./constants.js";
+import { isUnsupportedMethodError } from "./errors.js";
+import {
+  UNISWAP_V2_FACTORY_ABI,
+  UNISWAP_V2_PAIR_ABI,
+  UNISWAP_V2_ROUTER_ABI,
+} from "./integrations/uniswap/abis.js";
+import { UNISWAP_V2_DEPLOYMENTS } from "./integrations/uniswap/constants.js";
+import type { UniswapV2Deployment } from "./integrations/uniswap/types.js";
+import { ReadBatcher } from "./reads.js";
+
+/**
+ * Kinds of privileged functions looked for in token bytecode
+ */
+export type TokenRiskCategory =
+  | "blacklist"
+  | "pausable"
+  | "mintable"
+  | "fee-control"
+  | "tx-limits";
+
+/**
+ * Function signatures that indicate each risk category
+ *
+ * Matched against the PUSH4 selectors in the token's (and its proxy
+ * implementation's) runtime bytecode.
+ */
+export const TOKEN_RISK_SIGNATURES: Record<TokenRiskCategory, readonly string[]> = {
+  blacklist: [
+    "blacklist(address)",
+    "blackList(address)",
+    "addToBlacklist(address)",
+    "setBlacklist(address,bool)",
+    "isBlacklisted(address)",
+    "addBots(address[])",
+    "setBot(address,bool)",
+    "blockBots(address[])",
+  ],
+  pausable: [
+    "pause()",
+    "unpause()",
+    "setTradingEnabled(bool)",
+    "enableTrading()",
+    "openTrading()",
+    "setTrading(bool)",
+  ],
+  mintable: ["mint(address,uint256)", "mint(uint256)"],
+  "fee-control": [
+    "setFees(uint256,uint256)",
+    "setTaxFee(uint256)",
+    "setBuyFee(uint256)",
+    "setSellFee(uint256)",
+    "updateFees(uint256,uint256)",
+    "setTax(uint256,uint256)",
+  ],
+  "tx-limits": [
+    "setMaxTxAmount(uint256)",
+    "setMaxWalletSize(uint256)",
+    "setMaxTxPercent(uint256)",
+  ],
+};
+
+const OWNABLE_ABI = parseAbi(["function owner() view returns (address)"]);
+const OWNER_SELECTOR = toFunctionSelector("owner()");
+const DEAD_ADDRESS = "0x000000000000000000000000000000000000dEaD";
+/** Stand-in for the probe when none is given */
+const DEFAULT_PROBE = "0x00000000000000000000000000000000005afe01";
+
+/**
+ * Options for TokenScreener
+ */
+export interface TokenScreenerOptions {
+  /** Account that buys and sells in the simulation (default: the vault, via createTokenScreener()) */
+  probe?: Address;
+  /** Native amount to buy with (default: 0.01 native token) */
+  buyAmount?: bigint;
+  /** Highest acceptable buy tax in bps (default: 1000 = 10%) */
+  maxBuyTaxBps?: number;
+  /** Highest acceptable sell tax in bps (default: 1000 = 10%) */
+  maxSellTaxBps?: number;
+  /** Least wrapped native token the main pool must hold (default: any pool) */
+  minLiquidity?: bigint;
+  /**
+   * Categories that fail the screen while the token has a live owner
+   * (default: blacklist, pausable, mintable); others are reported as warnings
+   */
+  failOnOwnerControls?: TokenRiskCategory[];
+  /** Chain ID (default: the public client's) */
+  chainId?: number;
+  /** V2 router to trade through (default: UNISWAP_V2_DEPLOYMENTS[chainId]) */
+  deployment?: UniswapV2Deployment;
+  /** Wrapped native token (default: WRAPPED_NATIVE_TOKENS[chainId]) */
+  wrappedNative?: Address;
+}
+
+/**
+ * A privileged function found in the token's bytecode
+ */
+export interface TokenRiskFinding {
+  /** Risk category */
+  category: TokenRiskCategory;
+  /** Matched function signature */
+  signature: string;
+}
+
+/**
+ * Outcome of the simulated buy and sell
+ */
+export interface TokenRoundTrip {
+  /** Native amount spent on the buy */
+  buyAmount: bigint;
+  /** Whether the buy reverted */
+  buyReverts: boolean;
+  /** Whether the sell reverted (honeypot) */
+  sellReverts: boolean;
+  /** Tokens the router quoted for the buy */
+  expectedTokens: bigint;
+  /** Tokens that reached the probe */
+  receivedTokens: bigint;
+  /** Wrapped native the router quoted for selling `receivedTokens` */
+  expectedNative: bigint;
+  /** Wrapped native that reached the probe */
+  receivedNative: bigint;
+  /** Buy tax in bps */
+  buyTaxBps: number;
+  /** Sell tax in bps */
+  sellTaxBps: number;
+}
+
+/**
+ * Main pool of the token against the wrapped native token
+ */
+export interface TokenLiquidity {
+  /** V2 pair address */
+  pair: Address;
+  /** Wrapped native token held by the pair */
+  nativeReserve: bigint;
+  /** Tokens held by the pair */
+  tokenReserve: bigint;
+}
+
+/**
+ * Result of TokenScreener.screen()
+ */
+export interface TokenScreeningReport {
+  /** Screened token */
+  token: Address;
+  /** Block the screen ran against */
+  blockNumber: bigint;
+  /** Whether the token passed every check */
+  passed: boolean;
+  /** Why the token failed; empty when it passed */
+  reasons: string[];
+  /** Risks that did not fail the screen */
+  warnings: string[];
+  /** Simulated round trip; undefined when the RPC lacks eth_simulateV1 */
+  roundTrip?: TokenRoundTrip;
+  /** Main pool; undefined when there is none */
+  liquidity?: TokenLiquidity;
+  /** Owner, when the token exposes owner() */
+  owner?: Address;
+  /**
+   * Whether ownership is renounced (no owner(), or zero/dead owner); false
+   * when owner() exists but cannot be read
+   */
+  ownerRenounced: boolean;
+  /** Privileged functions found in the bytecode */
+  findings: TokenRiskFinding[];
+}
+
+/**
+ * Thrown by assertSafe() when a token fails the screen
+ */
+export class TokenScreeningError extends Error {
+  constructor(public readonly report: TokenScreeningReport) {
+    super(`Token ${report.token} failed screening: ${report.reasons.join("; ")}`);
+    this.name = "TokenScreeningError";
+  }
+}
+
+/**
+ * Screens a token for honeypot and rug patterns before the vault buys it
+ *
+ * - Round trip: buys with `buyAmount` of native token and sells everything
+ *   back through the chain's V2 router in one `eth_simulateV1` block, with the
+ *   probe's balance set by a state override. Buy and sell tax are measured
+ *   against the router's getAmountsOut().
+ * - Bytecode: looks for blacklist, pause, mint, fee and limit setters, and
+ *   reads owner() to see whether anyone can still call them.
+ * - Liquidity: reads the token/wrapped-native pair reserves.
+ *
+ * @example
+ * ```typescript
+ * const screener = client.createTokenScreener({ maxSellTaxBps: 500 });
+ * const report = await screener.screen(token);
+ * if (!report.passed) console.log(report.reasons);
+ *
+ * // Or make a swap require it
+ * await client.swap(pancake, { tokenIn: NATIVE_TOKEN_ADDRESS, tokenOut: token, amountIn, screener });
+ * ```
+ */
+export class TokenScreener {
+  /**
+   * @param publicClient Public client
+   * @param options Tax, liquidity and owner-control thresholds
+   * @param reads Batcher the pool and owner reads are aggregated through
+   *   (default: a new one on `publicClient`)
+   */
+  constructor(
+    private readonly publicClient: PublicClient,
+    private readonly options: TokenScreenerOptions = {},
+    private readonly reads: ReadBatcher = new ReadBatcher(publicClient)
+  ) {}
+
+  /**
+   * Run every check against the latest block
+   */
+  async screen(token: Address): Promise<TokenScreeningReport> {
+    token = getAddress(token);
+    const chainId = this.options.chainId ?? (await this.publicClient.getChainId());
+    const deployment = this.options.deployment ?? UNISWAP_V2_DEPLOYMENTS[chainId];
+    const wrappedNative = this.options.wrappedNative ?? WRAPPED_NATIVE_TOKENS[chainId];
+    if (!deployment || !wrappedNative) {
+      throw new Error(
+        `No V2 router or wrapped native token known for chain ${chainId}; pass them in options`
+      );
+    }
+
+    const blockNumber = await this.publicClient.getBlockNumber();
+    const [roundTrip, liquidity, bytecode] = await Promise.all([
+      this.simulateRoundTrip(token, deployment.router, wrappedNative, blockNumber),
+      this.readLiquidity(token, deployment.router, wrappedNative, blockNumber),
+      this.scanBytecode(token, blockNumber),
+    ]);
+
+    const reasons: string[] = [];
+    const warnings: string[] = [];
+    const maxBuyTaxBps = this.options.maxBuyTaxBps ?? 1_000;
+    const maxSellTaxBps = this.options.maxSellTaxBps ?? 1_000;
+
+    if (!roundTrip) {
+      reasons.push("round trip could not be simulated (RPC lacks eth_simulateV1)");
+    } else if (roundTrip.buyReverts) {
+      reasons.push("buy reverts");
+    } else if (roundTrip.sellReverts) {
+      reasons.push("sell reverts (honeypot)");
+    } else {
+      if (roundTrip.buyTaxBps > maxBuyTaxBps) {
+        reasons.push(`buy tax ${roundTrip.buyTaxBps} bps exceeds ${maxBuyTaxBps} bps`);
+      }
+      if (roundTrip.sellTaxBps > maxSellTaxBps) {
+        reasons.push(`sell tax ${roundTrip.sellTaxBps} bps exceeds ${maxSellTaxBps} bps`);
+      }
+    }
+
+    if (!liquidity) {
+      reasons.push(`no ${deployment.name} pool against the wrapped native token`);
+    } else if (
+      this.options.minLiquidity !== undefined &&
+      liquidity.nativeReserve < this.options.minLiquidity
+    ) {
+      reasons.push(
+        `pool holds ${liquidity.nativeReserve} wrapped native, below ${this.options.minLiquidity}`
+      );
+    }
+
+    const failOn = this.options.failOnOwnerControls ?? ["blacklist", "pausable", "mintable"];
+    for (const finding of bytecode.findings) {
+      const message = `${finding.category}: ${finding.signature}`;
+      if (!bytecode.ownerRenounced && failOn.includes(finding.category)) {
+        reasons.push(`owner can call ${message}`);
+      } else {
+        warnings.push(message);
+      }
+    }
+
+    return {
+      token,
+      blockNumber,
+      passed: reasons.length === 0,
+      reasons,
+      warnings,
+      roundTrip,
+      liquidity,
+      ...bytecode,
+    };
+  }
+
+  /**
+   * Screen a token and throw if it fails
+   *
+   * @throws {TokenScreeningError} If the token fails any check
+   */
+  async assertSafe(token: Address): Promise<TokenScreeningReport> {
+    const report = await this.screen(token);
+    if (!report.passed) throw new TokenScreeningError(report);
+    return report;
+  }
+
+  /**
+   * Buy then sell in one simulated block
+   *
+   * The sell amount depends on what the buy delivered, so the buy runs once
+   * on its own to learn it, then again followed by the sell.
+   */
+  private async simulateRoundTrip(
+    token: Address,
+    router: Address,
+    wrappedNative: Address,
+    blockNumber: bigint
+  ): Promise<TokenRoundTrip | undefined> {
+    const probe = this.options.probe ?? DEFAULT_PROBE;
+    const buyAmount = this.options.buyAmount ?? 10n ** 16n;
+    const block = await this.publicClient.getBlock({ blockNumber });
+    const deadline = block.timestamp + 300n;
+
+    const call = (to: Address, data: Hex, value?: bigint) => ({ account: probe, to, data, value });
+    const balanceOf = (asset: Address) =>
+      call(asset, encodeFunctionData({ abi: ERC20_ABI, functionName: "balanceOf", args: [probe] }));
+    const buyCalls = [
+      call(
+        router,
+        encodeFunctionData({
+          abi: UNISWAP_V2_ROUTER_ABI,
+          functionName: "getAmountsOut",
+          args: [buyAmount, [wrappedNative, token]],
+        })
+      ),
+      balanceOf(token),
+      call(
+        router,
+        encodeFunctionData({
+          abi: UNISWAP_V2_ROUTER_ABI,
+          functionName: "swapExactETHForTokensSupportingFeeOnTransferTokens",
+          args: [0n, [wrappedNative, token], probe, deadline],
+        }),
+        buyAmount
+      ),
+      balanceOf(token),
+    ];
+    const simulate = async (calls: ReturnType<typeof call>[]) => {
+      try {
+        const [simulated] = await this.publicClient.simulateBlocks({
+          blocks: [{ calls, stateOverrides: [{ address: probe, balance: buyAmount * 2n }] }],
+          blockNumber,
+        });
+        return simulated;
+      } catch (error) {
+        // Only a node without eth_simulateV1 leaves the round trip unknown;
+        // rate limits, timeouts and bad routers are real failures
+        if (isUnsupportedMethodError(error)) return undefined;
+        throw error;
+      }
+    };
+
+    const buyBlock = await simulate(buyCalls);
+    if (!buyBlock) return undefined;
+
+    const uint = (data: Hex) =>
+      decodeFunctionResult({ abi: ERC20_ABI, functionName: "balanceOf", data });
+    const amounts = (data: Hex) =>
+      decodeFunctionResult({ abi: UNISWAP_V2_ROUTER_ABI, functionName: "getAmountsOut", data });
+
+    const expectedTokens =
+      buyBlock.calls[0].status === "success" ? amounts(buyBlock.calls[0].data)[1] : 0n;
+    const buyReverts = buyBlock.calls[2].status !== "success";
+    const receivedTokens = buyReverts
+      ? 0n
+      : uint(buyBlock.calls[3].data) - uint(buyBlock.calls[1].data);
+    const buyTaxBps = taxBps(expectedTokens, receivedTokens);
+
+    const result: TokenRoundTrip = {
+      buyAmount,
+      buyReverts,
+      sellReverts: false,
+      expectedTokens,
+      receivedTokens,
+      expectedNative: 0n,
+      receivedNative: 0n,
+      buyTaxBps,
+      sellTaxBps: 0,
+    };
+    if (buyReverts || receivedTokens === 0n) return result;
+
+    const sellBlock = await simulate([
+      ...buyCalls,
+      call(
+        token,
+        encodeFunctionData({ abi: ERC20_ABI, functionName: "approve", args: [router, maxUint256] })
+      ),
+      call(
+        router,
+        encodeFunctionData({
+          abi: UNISWAP_V2_ROUTER_ABI,
+          functionName: "getAmountsOut",
+          args: [receivedTokens, [token, wrappedNative]],
+        })
+      ),
+      balanceOf(wrappedNative),
+      call(
+        router,
+        encodeFunctionData({
+          abi: UNISWAP_V2_ROUTER_ABI,
+          functionName: "swapExactTokensForTokensSupportingFeeOnTransferTokens",
+          args: [receivedTokens, 0n, [token, wrappedNative], probe, deadline],
+        })
+      ),
+      balanceOf(wrappedNative),
+    ]);
+
+    if (!sellBlock) return undefined;
+
+    const [, , , , approve, quote, before, sell, after] = sellBlock.calls;
+    result.sellReverts = approve.status !== "success" || sell.status !== "success";
+    if (result.sellReverts) return result;
+
+    result.expectedNative = quote.status === "success" ? amounts(quote.data)[1] : 0n;
+    result.receivedNative = uint(after.data) - uint(before.data);
+    result.sellTaxBps = taxBps(result.expectedNative, result.receivedNative);
+    return result;
+  }
+
+  private async readLiquidity(
+    token: Address,
+    router: Address,
+    wrappedNative: Address,
+    blockNumber: bigint
+  ): Promise<TokenLiquidity | undefined> {
+    // Each address depends on the previous read; the pair's own reads go
+    // out together
+    const block = { blockNumber };
+    const factory = await this.reads.read(
+      { address: router, abi: UNISWAP_V2_ROUTER_ABI, functionName: "factory" },
+      block
+    );
+    const pair = await this.reads.read(
+      {
+        address: factory,
+        abi: UNISWAP_V2_FACTORY_ABI,
+        functionName: "getPair",
+        args: [token, wrappedNative],
+      },
+      block
+    );
+    if (pair === ZERO_ADDRESS) return undefined;
+
+    const [token0, [reserve0, reserve1]] = await Promise.all([
+      this.reads.read({ address: pair, abi: UNISWAP_V2_PAIR_ABI, functionName: "token0" }, block),
+      this.reads.read({ address: pair, abi: UNISWAP_V2_PAIR_ABI, functionName: "getReserves" }, block),
+    ]);
+    const tokenIsToken0 = getAddress(token0) === token;
+    return {
+      pair,
+      nativeReserve: tokenIsToken0 ? reserve1 : reserve0,
+      tokenReserve: tokenIsToken0 ? reserve0 : reserve1,
+    };
+  }
+
+  private async scanBytecode(
+    token: Address,
+    blockNumber: bigint
+  ): Promise<Pick<TokenScreeningReport, "owner" | "ownerRenounced" | "findings">> {
+    const [code, implementationSlot] = await Promise.all([
+      this.publicClient.getCode({ address: token, blockNumber }),
+      this.publicClient.getStorageAt({ address: token, slot: ERC1967_IMPLEMENTATION_SLOT, blockNumber }),
+    ]);
+    const selectors = extractSelectors(code ?? "0x");
+
+    const implementation =
+      implementationSlot && BigInt(implementationSlot) !== 0n
+        ? getAddress(`0x${implementationSlot.slice(-40)}`)
+        : undefined;
+    if (implementation) {
+      const implementationCode = await this.publicClient.getCode({
+        address: implementation,
+        blockNumber,
+      });
+      extractSelectors(implementationCode ?? "0x").forEach((selector) => selectors.add(selector));
+    }
+
+    const findings: TokenRiskFinding[] = [];
+    for (const [category, signatures] of Object.entries(TOKEN_RISK_SIGNATURES)) {
+      for (const signature of signatures) {
+        if (selectors.has(toFunctionSelector(signature))) {
+          findings.push({ category: category as TokenRiskCategory, signature });
+        }
+      }
+    }
+
+    if (!selectors.has(OWNER_SELECTOR)) return { ownerRenounced: true, findings };
+    // An owner() that reverts may hide a live owner; only a readable zero or
+    // dead owner counts as renounced
+    const owner = await this.reads
+      .read({ address: token, abi: OWNABLE_ABI, functionName: "owner" }, { blockNumber })
+      .catch(() => undefined);
+    return {
+      owner,
+      ownerRenounced:
+        owner !== undefined && (owner === ZERO_ADDRESS || getAddress(owner) === DEAD_ADDRESS),
+      findings,
+    };
+  }
+}
+
+/**
+ * Collect every PUSH4 operand in runtime bytecode, skipping other push data
+ */
+export function extractSelectors(bytecode: Hex): Set<Hex> {
+  const selectors = new Set<Hex>();
+  const hex = bytecode.slice(2);
+  for (let i = 0; i < hex.length; ) {
+    const opcode = parseInt(hex.slice(i, i + 2), 16);
+    i += 2;
+    // PUSH1 (0x60) .. PUSH32 (0x7f)
+    if (opcode >= 0x60 && opcode <= 0x7f) {
+      const size = opcode - 0x5f;
+      if (size === 4) selectors.add(`0x${hex.slice(i, i + 8).toLowerCase()}`);
+      i += size * 2;
+    }
+  }
+  return selectors;
+}
+
+function taxBps(expected: bigint, received: bigint): number {
+  if (expected === 0n || received >= expected) return 0;
+  return Number(((expected - received) * 10_000n) / expected);
+}
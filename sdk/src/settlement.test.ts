@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { Address, Log, encodeAbiParameters, encodeEventTopics } from 'viem';
+import { ERC20_ABI } from './abis.js';
+import { measureTokenFlow, realizedSlippageBps } from './settlement.js';
+
+const SAFE = '0x1111111111111111111111111111111111111111';
+const MEME = '0x2222222222222222222222222222222222222222';
+const PAIR = '0x4444444444444444444444444444444444444444';
+const TAX_WALLET = '0x5555555555555555555555555555555555555555';
+const USDT = '0x55d398326f99059fF775485246999027B3197955';
+
+const transfer = (token: Address, from: Address, to: Address, value: bigint) =>
+  ({
+    address: token,
+    topics: encodeEventTopics({ abi: ERC20_ABI, eventName: 'Transfer', args: { from, to } }),
+    data: encodeAbiParameters([{ type: 'uint256' }], [value]),
+  }) as unknown as Log;
+
+describe('measureTokenFlow', () => {
+  it('counts what reached the vault after a transfer tax', () => {
+    const logs = [
+      transfer(USDT, SAFE, PAIR, 500n),
+      transfer(MEME, PAIR, TAX_WALLET, 50n),
+      transfer(MEME, PAIR, SAFE, 950n),
+    ];
+
+    expect(measureTokenFlow(logs, MEME, SAFE)).toEqual({ received: 950n, sent: 0n, transfers: 1 });
+    expect(measureTokenFlow(logs, USDT, SAFE)).toEqual({ received: 0n, sent: 500n, transfers: 1 });
+  });
+
+  it('nets refunds and ignores self-transfers and other tokens', () => {
+    const logs = [
+      transfer(USDT, SAFE, PAIR, 500n),
+      transfer(USDT, PAIR, SAFE, 20n),
+      transfer(USDT, SAFE, SAFE, 7n),
+      transfer(MEME, SAFE, PAIR, 1n),
+    ];
+
+    expect(measureTokenFlow(logs, USDT, SAFE)).toEqual({ received: 20n, sent: 500n, transfers: 2 });
+  });
+});
+
+describe('realizedSlippageBps', () => {
+  it('is positive for a shortfall and negative for a surplus', () => {
+    expect(realizedSlippageBps(1000n, 950n)).toBe(500);
+    expect(realizedSlippageBps(1000n, 1010n)).toBe(-100);
+    expect(realizedSlippageBps(0n, 5n)).toBe(0);
+  });
+});
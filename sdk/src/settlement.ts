@@ -0,0 +1,66 @@
+import { Address, Log, parseEventLogs } from "viem";
+import { ERC20_ABI } from "./abis.js";
+
+/**
+ * Where a settled swap amount was read from
+ *
+ * - `transfer-logs`: ERC20 Transfer events to and from the vault in the receipt
+ * - `call-value`: native value the vault attached to the router call
+ * - `balance-snapshot`: vault balance before and after the swap block, which
+ *   also picks up any other transfer to the vault in that block
+ */
+export type SettlementSource = "transfer-logs" | "call-value" | "balance-snapshot";
+
+/**
+ * Net ERC20 movement of one token in and out of an account
+ */
+export interface TokenFlow {
+  /** Sum of Transfer events to the account */
+  received: bigint;
+  /** Sum of Transfer events from the account */
+  sent: bigint;
+  /** Number of matching Transfer events */
+  transfers: number;
+}
+
+/**
+ * Sum a token's Transfer events to and from an account in a receipt's logs
+ *
+ * Fee-on-transfer tokens emit the tax as a separate Transfer, so `received`
+ * is what actually landed in the account.
+ *
+ * @param logs Receipt logs
+ * @param token ERC20 token
+ * @param account Account to net the transfers for (the vault)
+ */
+export function measureTokenFlow(logs: Log[], token: Address, account: Address): TokenFlow {
+  const flow: TokenFlow = { received: 0n, sent: 0n, transfers: 0 };
+  const events = parseEventLogs({
+    abi: ERC20_ABI,
+    eventName: "Transfer",
+    logs: logs.filter((log) => log.address.toLowerCase() === token.toLowerCase()),
+    strict: false,
+  });
+
+  for (const { args } of events) {
+    if (args.value === undefined) continue;
+    const toAccount = args.to?.toLowerCase() === account.toLowerCase();
+    const fromAccount = args.from?.toLowerCase() === account.toLowerCase();
+    if (toAccount === fromAccount) continue;
+    if (toAccount) flow.received += args.value;
+    else flow.sent += args.value;
+    flow.transfers++;
+  }
+
+  return flow;
+}
+
+/**
+ * Shortfall of a realized amount against a quote, in bps of the quote
+ *
+ * Positive when the vault got less than quoted, negative when it got more.
+ */
+export function realizedSlippageBps(quoted: bigint, realized: bigint): number {
+  if (quoted === 0n) return 0;
+  return Number(((quoted - realized) * 10_000n) / quoted);
+}
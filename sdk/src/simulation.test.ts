@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Hex,
+  RawContractError,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeFunctionResult,
+} from 'viem';
+import { LEGION_SAFE_ABI } from './abis.js';
+import { SpendingLimitExceededError } from './errors.js';
+import { LegionSafeSimulator } from './simulation.js';
+import { stubChain } from './test/stubs.js';
+
+const SAFE = '0x1111111111111111111111111111111111111111';
+const OWNER = '0x2222222222222222222222222222222222222222';
+const OPERATOR = '0x3333333333333333333333333333333333333333';
+const NEXT = '0x4444444444444444444444444444444444444444';
+const USDT = '0x55d398326f99059fF775485246999027B3197955';
+const ROUTER = '0x6666666666666666666666666666666666666666';
+
+const uint = (value: bigint) => encodeAbiParameters([{ type: 'uint256' }], [value]);
+const call = { target: ROUTER, data: '0x12345678', value: 0n } as const;
+const limitExceeded = encodeErrorResult({
+  abi: LEGION_SAFE_ABI,
+  errorName: 'SpendingLimitExceeded',
+  args: [USDT, 150n, 100n],
+});
+
+type Request = { account: string; data: Hex; blockNumber?: bigint };
+
+/**
+ * Vault tracking USDT whose simulated call spends 40 USDT and returns 0x01;
+ * `revert` makes the call revert, `simulateV1: false` an RPC without
+ * eth_simulateV1, and `simulateError` fails eth_simulateV1 with that error
+ */
+function simulator(options: { revert?: Hex; simulateV1?: boolean; simulateError?: Error } = {}) {
+  const rpc = { simulated: [] as Request[], called: [] as Request[], estimated: [] as Request[] };
+  const { publicClient } = stubChain({
+    readContract: async ({ functionName }: { functionName: string }) =>
+      ({ owner: OWNER, operator: OPERATOR, pendingOwner: NEXT, getTrackedTokens: [USDT] })[functionName],
+    simulateBlocks: async ({
+      blocks: [{ calls }],
+      blockNumber,
+    }: {
+      blocks: [{ calls: Request[] }];
+      blockNumber?: bigint;
+    }) => {
+      if (options.simulateV1 === false) throw new Error('method not found');
+      if (options.simulateError) throw options.simulateError;
+      rpc.simulated.push({ ...calls[1], blockNumber });
+      return [
+        {
+          calls: [
+            { status: 'success', data: uint(100n) },
+            options.revert
+              ? { status: 'failure', data: options.revert, error: new Error('reverted') }
+              : {
+                  status: 'success',
+                  data: encodeFunctionResult({ abi: LEGION_SAFE_ABI, functionName: 'manage', result: '0x01' }),
+                  gasUsed: 80_000n,
+                },
+            { status: 'success', data: uint(60n) },
+          ],
+        },
+      ];
+    },
+    call: async (request: Request) => {
+      rpc.called.push(request);
+      if (options.revert) throw new RawContractError({ data: options.revert });
+      return { data: encodeFunctionResult({ abi: LEGION_SAFE_ABI, functionName: 'manage', result: '0x01' }) };
+    },
+    estimateGas: async (request: Request) => {
+      rpc.estimated.push(request);
+      return 95_000n;
+    },
+  });
+  return { simulate: new LegionSafeSimulator(publicClient, SAFE), rpc };
+}
+
+describe('LegionSafeSimulator', () => {
+  it('predicts balance deltas and estimates gas at the simulated block', async () => {
+    const { simulate, rpc } = simulator();
+
+    const result = await simulate.manage(call, { blockNumber: 42n });
+
+    expect(result).toMatchObject({
+      success: true,
+      account: OPERATOR,
+      returnData: '0x01',
+      balanceDeltas: [{ token: USDT, before: 100n, after: 60n, delta: -40n }],
+      // eth_estimateGas, not the simulated gasUsed
+      gasEstimate: 95_000n,
+    });
+    expect(rpc.simulated).toMatchObject([{ account: OPERATOR, blockNumber: 42n }]);
+    expect(rpc.estimated).toMatchObject([{ account: OPERATOR, blockNumber: 42n }]);
+  });
+
+  it('falls back to eth_call without eth_simulateV1 and keeps the block', async () => {
+    const { simulate, rpc } = simulator({ simulateV1: false });
+
+    const result = await simulate.manage(call, { blockNumber: 42n });
+
+    expect(result).toMatchObject({ success: true, returnData: '0x01', gasEstimate: 95_000n });
+    expect(result.balanceDeltas).toBeUndefined();
+    expect(rpc.called).toMatchObject([{ account: OPERATOR, blockNumber: 42n }]);
+    expect(rpc.estimated).toMatchObject([{ account: OPERATOR, blockNumber: 42n }]);
+  });
+
+  it('reads a token listed in a different case once', async () => {
+    const { simulate } = simulator();
+
+    const result = await simulate.manage(call, { tokens: [USDT.toLowerCase() as Hex] });
+
+    expect(result.balanceDeltas).toEqual([{ token: USDT, before: 100n, after: 60n, delta: -40n }]);
+  });
+
+  it('throws eth_simulateV1 failures other than an unsupported method', async () => {
+    const { simulate, rpc } = simulator({ simulateError: new Error('429 Too Many Requests') });
+
+    await expect(simulate.manage(call)).rejects.toThrow('Too Many Requests');
+    expect(rpc.called).toEqual([]);
+  });
+
+  it('decodes a revert on either path without estimating gas', async () => {
+    for (const simulateV1 of [true, false]) {
+      const { simulate, rpc } = simulator({ revert: limitExceeded, simulateV1 });
+
+      const result = await simulate.manageBatch({ calls: [call] });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(SpendingLimitExceededError);
+      expect(result.gasEstimate).toBeUndefined();
+      expect(result.returnData).toEqual([]);
+      expect(rpc.estimated).toEqual([]);
+    }
+  });
+
+  it('simulates the ownership handover from the account allowed to make each call', async () => {
+    const { simulate, rpc } = simulator();
+
+    await simulate.cancelOwnershipTransfer();
+    await simulate.acceptOwnership();
+    await simulate.renounceOwnership();
+
+    expect(
+      rpc.simulated.map(({ account, data }) => {
+        const { functionName, args } = decodeFunctionData({ abi: LEGION_SAFE_ABI, data });
+        return [account, functionName, args];
+      })
+    ).toEqual([
+      [OWNER, 'transferOwnership', ['0x0000000000000000000000000000000000000000']],
+      [NEXT, 'acceptOwnership', undefined],
+      [OWNER, 'renounceOwnership', undefined],
+    ]);
+  });
+});
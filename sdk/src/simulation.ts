@@ -0,0 +1,458 @@
+import {
+  Address,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  EncodeFunctionDataParameters,
+  Hex,
+  PublicClient,
+  decodeFunctionResult,
+  encodeFunctionData,
+} from "viem";
+import { LEGION_SAFE_ABI } from "./abis.js";
+import { ZERO_ADDRESS } from "./constants.js";
+import { decodeLegionSafeError, getRevertData, isUnsupportedMethodError } from "./errors.js";
+import { ReadBatcher } from "./reads.js";
+import {
+  decodeManageOutput,
+  decodeManageBatchOutput,
+  decodeCallReturnData,
+} from "./returnData.js";
+import type {
+  AuthorizeCallParams,
+  BalanceDelta,
+  BatchCallItem,
+  ManageBatchParams,
+  ManageBatchSimulationResult,
+  ManageCallParams,
+  ManageSimulationResult,
+  SetSpenderWhitelistParams,
+  SetSpendingLimitParams,
+  SimulationOptions,
+  SimulationResult,
+  WithdrawERC20Params,
+  WithdrawETHParams,
+} from "./types.js";
+import { uniqueAddresses } from "./utils.js";
+
+type WriteFunctionName = ContractFunctionName<
+  typeof LEGION_SAFE_ABI,
+  "nonpayable" | "payable"
+>;
+
+/**
+ * Dry-run counterpart of every LegionSafeClient write method
+ *
+ * Each simulation runs from the account allowed to make the call (operator for
+ * manage/manageBatch, pending owner for acceptOwnership, owner for everything
+ * else) unless `options.account` is given. On RPCs that support
+ * `eth_simulateV1` the call runs between balance reads of every tracked token,
+ * so the result includes predicted balance deltas; on RPCs that reject the
+ * method it falls back to `eth_call` without deltas, while any other failure
+ * of `eth_simulateV1` is thrown. Successful calls are then gas-estimated with
+ * `eth_estimateGas` at the same block.
+ *
+ * @example
+ * ```typescript
+ * const sim = await client.simulate.manageBatch({ calls });
+ * if (!sim.success) throw sim.error;
+ * console.log(sim.gasEstimate, sim.balanceDeltas);
+ * ```
+ */
+export class LegionSafeSimulator {
+  /**
+   * @param publicClient Public client
+   * @param safeAddress Vault address
+   * @param reads Batcher the vault reads are aggregated through (default: a
+   *   new one on `publicClient`)
+   */
+  constructor(
+    private readonly publicClient: PublicClient,
+    private readonly safeAddress: Address,
+    private readonly reads: ReadBatcher = new ReadBatcher(publicClient)
+  ) {}
+
+  /**
+   * Simulate manage()
+   */
+  async manage(
+    params: ManageCallParams,
+    options: SimulationOptions = {}
+  ): Promise<ManageSimulationResult> {
+    const result = await this.run(
+      "manage",
+      [params.target, params.data, params.value],
+      "operator",
+      [params],
+      options
+    );
+    if (!result.success) return result;
+
+    const returnData = decodeManageOutput(result.output);
+    return {
+      ...result,
+      returnData,
+      decodedReturnData: decodeCallReturnData(params, returnData),
+    };
+  }
+
+  /**
+   * Simulate manageBatch()
+   */
+  async manageBatch(
+    params: ManageBatchParams,
+    options: SimulationOptions = {}
+  ): Promise<ManageBatchSimulationResult> {
+    const result = await this.run(
+      "manageBatch",
+      [
+        params.calls.map((call) => call.target),
+        params.calls.map((call) => call.data),
+        params.calls.map((call) => call.value),
+      ],
+      "operator",
+      params.calls,
+      options
+    );
+    if (!result.success) {
+      return {
+        ...result,
+        returnData: [],
+        decodedReturnData: params.calls.map(() => undefined),
+      };
+    }
+
+    const returnData = decodeManageBatchOutput(result.output);
+    return {
+      ...result,
+      returnData,
+      decodedReturnData: params.calls.map((call, i) =>
+        decodeCallReturnData(call, returnData[i])
+      ),
+    };
+  }
+
+  /**
+   * Simulate setCallAuthorization()
+   */
+  async authorizeCall(
+    params: AuthorizeCallParams,
+    options: SimulationOptions = {}
+  ): Promise<SimulationResult> {
+    return this.run(
+      "setCallAuthorization",
+      [params.target, params.selector, params.authorized],
+      "owner",
+      [],
+      options
+    );
+  }
+
+  /**
+   * Simulate withdrawETH()
+   */
+  async withdrawETH(
+    params: WithdrawETHParams,
+    options: SimulationOptions = {}
+  ): Promise<SimulationResult> {
+    return this.run("withdrawETH", [params.amount], "owner", [], options);
+  }
+
+  /**
+   * Simulate withdrawAllETH()
+   */
+  async withdrawAllETH(options: SimulationOptions = {}): Promise<SimulationResult> {
+    return this.run("withdrawAllETH", [], "owner", [], options);
+  }
+
+  /**
+   * Simulate withdrawERC20()
+   */
+  async withdrawERC20(
+    params: WithdrawERC20Params,
+    options: SimulationOptions = {}
+  ): Promise<SimulationResult> {
+    return this.run(
+      "withdrawERC20",
+      [params.token, params.amount],
+      "owner",
+      [],
+      { ...options, tokens: [params.token, ...(options.tokens ?? [])] }
+    );
+  }
+
+  /**
+   * Simulate withdrawAllERC20()
+   */
+  async withdrawAllERC20(
+    token: Address,
+    options: SimulationOptions = {}
+  ): Promise<SimulationResult> {
+    return this.run("withdrawAllERC20", [token], "owner", [], {
+      ...options,
+      tokens: [token, ...(options.tokens ?? [])],
+    });
+  }
+
+  /**
+   * Simulate transferOwnership()
+   */
+  async transferOwnership(
+    newOwner: Address,
+    options: SimulationOptions = {}
+  ): Promise<SimulationResult> {
+    return this.run("transferOwnership", [newOwner], "owner", [], options);
+  }
+
+  /**
+   * Simulate cancelOwnershipTransfer() (transferOwnership() to the zero address)
+   */
+  async cancelOwnershipTransfer(
+    options: SimulationOptions = {}
+  ): Promise<SimulationResult> {
+    return this.run("transferOwnership", [ZERO_ADDRESS], "owner", [], options);
+  }
+
+  /**
+   * Simulate acceptOwnership()
+   */
+  async acceptOwnership(options: SimulationOptions = {}): Promise<SimulationResult> {
+    return this.run("acceptOwnership", [], "pendingOwner", [], options);
+  }
+
+  /**
+   * Simulate renounceOwnership()
+   */
+  async renounceOwnership(options: SimulationOptions = {}): Promise<SimulationResult> {
+    return this.run("renounceOwnership", [], "owner", [], options);
+  }
+
+  /**
+   * Simulate upgrade() (the upgradeToAndCall call only, without its checks)
+   */
+  async upgrade(
+    newImplementation: Address,
+    initData: Hex = "0x",
+    options: SimulationOptions = {}
+  ): Promise<SimulationResult> {
+    return this.run("upgradeToAndCall", [newImplementation, initData], "owner", [], options);
+  }
+
+  /**
+   * Simulate setOperator()
+   */
+  async setOperator(
+    newOperator: Address,
+    options: SimulationOptions = {}
+  ): Promise<SimulationResult> {
+    return this.run("setOperator", [newOperator], "owner", [], options);
+  }
+
+  /**
+   * Simulate setSpenderWhitelist()
+   */
+  async setSpenderWhitelist(
+    params: SetSpenderWhitelistParams,
+    options: SimulationOptions = {}
+  ): Promise<SimulationResult> {
+    return this.run(
+      "setSpenderWhitelist",
+      [params.spender, params.whitelisted],
+      "owner",
+      [],
+      options
+    );
+  }
+
+  /**
+   * Simulate addTrackedToken()
+   */
+  async addTrackedToken(
+    token: Address,
+    options: SimulationOptions = {}
+  ): Promise<SimulationResult> {
+    return this.run("addTrackedToken", [token], "owner", [], options);
+  }
+
+  /**
+   * Simulate removeTrackedToken()
+   */
+  async removeTrackedToken(
+    token: Address,
+    options: SimulationOptions = {}
+  ): Promise<SimulationResult> {
+    return this.run("removeTrackedToken", [token], "owner", [], options);
+  }
+
+  /**
+   * Simulate setSpendingLimit()
+   */
+  async setSpendingLimit(
+    params: SetSpendingLimitParams,
+    options: SimulationOptions = {}
+  ): Promise<SimulationResult> {
+    return this.run(
+      "setSpendingLimit",
+      [params.token, params.limitPerWindow, params.windowDuration || 0n],
+      "owner",
+      [],
+      options
+    );
+  }
+
+  /**
+   * Run one vault call, bracketed by balance reads where the RPC allows it
+   */
+  private async run<functionName extends WriteFunctionName>(
+    functionName: functionName,
+    args: ContractFunctionArgs<
+      typeof LEGION_SAFE_ABI,
+      "nonpayable" | "payable",
+      functionName
+    >,
+    role: "owner" | "operator" | "pendingOwner",
+    calls: BatchCallItem[],
+    options: SimulationOptions
+  ): Promise<SimulationResult> {
+    const data = encodeFunctionData({
+      abi: LEGION_SAFE_ABI,
+      functionName,
+      args,
+    } as EncodeFunctionDataParameters);
+
+    const block = { blockNumber: options.blockNumber };
+    const [account, trackedTokens] = await Promise.all([
+      options.account ??
+        this.reads.read({ address: this.safeAddress, abi: LEGION_SAFE_ABI, functionName: role }, block),
+      this.reads.read(
+        { address: this.safeAddress, abi: LEGION_SAFE_ABI, functionName: "getTrackedTokens" },
+        block
+      ),
+    ]);
+    const tokens = uniqueAddresses([...trackedTokens, ...(options.tokens ?? [])]);
+
+    try {
+      return await this.runWithBalances(account, data, tokens, calls, options);
+    } catch (error) {
+      // eth_simulateV1 is not supported everywhere; anything else is a real failure
+      if (!isUnsupportedMethodError(error)) throw error;
+      return this.runWithCall(account, data, calls, options);
+    }
+  }
+
+  /**
+   * Simulate with `eth_simulateV1`: balance reads, the call, balance reads
+   */
+  private async runWithBalances(
+    account: Address,
+    data: Hex,
+    tokens: Address[],
+    calls: BatchCallItem[],
+    options: SimulationOptions
+  ): Promise<SimulationResult> {
+    const balanceReads = tokens.map((token) => ({
+      to: this.safeAddress,
+      data:
+        token === ZERO_ADDRESS
+          ? encodeFunctionData({ abi: LEGION_SAFE_ABI, functionName: "getETHBalance" })
+          : encodeFunctionData({
+              abi: LEGION_SAFE_ABI,
+              functionName: "getTokenBalance",
+              args: [token],
+            }),
+    }));
+
+    const [block] = await this.publicClient.simulateBlocks({
+      blocks: [
+        {
+          calls: [
+            ...balanceReads,
+            { account, to: this.safeAddress, data },
+            ...balanceReads,
+          ],
+        },
+      ],
+      blockNumber: options.blockNumber,
+    });
+
+    const txCall = block.calls[tokens.length];
+    // getETHBalance and getTokenBalance both return a single uint256
+    const readBalance = (index: number) =>
+      decodeFunctionResult({
+        abi: LEGION_SAFE_ABI,
+        functionName: "getETHBalance",
+        data: block.calls[index].data,
+      });
+
+    const success = txCall.status === "success";
+    const balanceDeltas: BalanceDelta[] | undefined = success
+      ? tokens.map((token, i) => {
+          const before = readBalance(i);
+          const after = readBalance(tokens.length + 1 + i);
+          return { token, before, after, delta: after - before };
+        })
+      : undefined;
+
+    return {
+      success,
+      account,
+      output: success ? txCall.data : "0x",
+      gasEstimate: success ? await this.estimateGas(account, data, options) : undefined,
+      error: success
+        ? undefined
+        : decodeLegionSafeError(txCall.data, { calls, cause: txCall.error }),
+      balanceDeltas,
+    };
+  }
+
+  /**
+   * Simulate with `eth_call` and `eth_estimateGas` (no balance deltas)
+   */
+  private async runWithCall(
+    account: Address,
+    data: Hex,
+    calls: BatchCallItem[],
+    options: SimulationOptions
+  ): Promise<SimulationResult> {
+    try {
+      const { data: output } = await this.publicClient.call({
+        account,
+        to: this.safeAddress,
+        data,
+        blockNumber: options.blockNumber,
+      });
+      const gasEstimate = await this.estimateGas(account, data, options);
+
+      return { success: true, account, output: output ?? "0x", gasEstimate };
+    } catch (error) {
+      const revertData = getRevertData(error);
+      if (!revertData) throw error;
+      return {
+        success: false,
+        account,
+        output: "0x",
+        error: decodeLegionSafeError(revertData, { calls, cause: error }),
+      };
+    }
+  }
+
+  /**
+   * Gas limit for the call at the simulated block
+   *
+   * The simulated gasUsed is not enough as a limit: it excludes refunds
+   * consumed during execution and the 63/64 rule on calls to the target.
+   */
+  private async estimateGas(
+    account: Address,
+    data: Hex,
+    options: SimulationOptions
+  ): Promise<bigint | undefined> {
+    return this.publicClient
+      .estimateGas({
+        account,
+        to: this.safeAddress,
+        data,
+        blockNumber: options.blockNumber,
+      })
+      .catch(() => undefined);
+  }
+}
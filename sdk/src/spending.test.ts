@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Hex,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeFunctionResult,
+  keccak256,
+  pad,
+} from 'viem';
+import { LEGION_SAFE_ABI } from './abis.js';
+import { CallNotAuthorizedError } from './errors.js';
+import { forecastSpending, preflightSpendingLimits } from './spending.js';
+import { stubChain } from './test/stubs.js';
+
+const TOKEN = '0x55d398326f99059fF775485246999027B3197955';
+const SAFE = '0x1111111111111111111111111111111111111111';
+const OPERATOR = '0x2222222222222222222222222222222222222222';
+const ROUTER = '0x3333333333333333333333333333333333333333';
+const ZERO = '0x0000000000000000000000000000000000000000';
+const HOUR = 3600n;
+
+describe('forecastSpending', () => {
+  const limit = {
+    limitPerWindow: 1000n,
+    windowDuration: 6n * HOUR,
+    spent: 700n,
+    lastWindowStart: 0n,
+  };
+
+  it('reports headroom in the current window', () => {
+    const forecast = forecastSpending(TOKEN, limit, [200n], 1n * HOUR);
+
+    expect(forecast).toMatchObject({
+      limited: true,
+      spend: 200n,
+      spentInWindow: 700n,
+      headroom: 300n,
+      remainingAfter: 100n,
+      windowEndsAt: 6n * HOUR,
+      windowRollsOver: false,
+      wouldExceed: false,
+    });
+  });
+
+  it('flags the first call that breaches the limit', () => {
+    const forecast = forecastSpending(TOKEN, limit, [0n, 200n, 200n], 1n * HOUR);
+
+    expect(forecast.wouldExceed).toBe(true);
+    expect(forecast.breachedAtCall).toBe(2);
+  });
+
+  it('resets spent once the timestamp crosses windowEndsAt', () => {
+    const forecast = forecastSpending(TOKEN, limit, [900n], 6n * HOUR);
+
+    expect(forecast.windowRollsOver).toBe(true);
+    expect(forecast.spentInWindow).toBe(0n);
+    expect(forecast.headroom).toBe(1000n);
+    expect(forecast.windowEndsAt).toBe(12n * HOUR);
+    expect(forecast.wouldExceed).toBe(false);
+  });
+
+  it('never exceeds when no limit is configured', () => {
+    const forecast = forecastSpending(
+      TOKEN,
+      { limitPerWindow: 0n, windowDuration: 0n, spent: 0n, lastWindowStart: 0n },
+      [10n ** 30n],
+      1n
+    );
+
+    expect(forecast.limited).toBe(false);
+    expect(forecast.wouldExceed).toBe(false);
+  });
+});
+
+describe('preflightSpendingLimits', () => {
+  type SimulatedCall = { account?: string; to: string; data: Hex };
+  type SimulatedBlock = {
+    calls: SimulatedCall[];
+    stateOverrides: { address: string; stateDiff: { slot: Hex; value: Hex }[] }[];
+  };
+
+  const uint = (value: bigint) =>
+    encodeFunctionResult({ abi: LEGION_SAFE_ABI, functionName: 'getETHBalance', result: value });
+  const ok = (data: Hex) => ({ status: 'success', data });
+  const calls = [
+    { target: ROUTER, data: '0x12345678', value: 0n },
+    { target: ROUTER, data: '0x9abcdef0', value: 0n },
+  ] as const;
+
+  /**
+   * Vault tracking TOKEN (700 of 1000 spent this window) and the unlimited
+   * native token; each manage() spends the next of `spends` TOKEN, and
+   * `revertAt` makes that call revert with CallNotAuthorized
+   */
+  function vault(spends: bigint[], revertAt?: number) {
+    const simulated: { block: SimulatedBlock; blockNumber?: bigint }[] = [];
+    const { publicClient } = stubChain({
+      getBlock: async () => ({ number: 100n, timestamp: 1n * HOUR }),
+      readContract: async ({ functionName, args }: { functionName: string; args?: string[] }) => {
+        if (functionName === 'operator') return OPERATOR;
+        if (functionName === 'getTrackedTokens') return [TOKEN, ZERO];
+        return args?.[0] === TOKEN ? [1000n, 6n * HOUR, 700n, 0n] : [0n, 0n, 0n, 0n];
+      },
+      simulateBlocks: async ({ blocks: [block], blockNumber }: { blocks: [SimulatedBlock]; blockNumber?: bigint }) => {
+        simulated.push({ block, blockNumber });
+        let balance = 1000n;
+        const results = [ok(uint(balance)), ok(uint(5n))];
+        spends.forEach((spend, i) => {
+          balance -= spend;
+          results.push(
+            i === revertAt
+              ? { status: 'failure', data: encodeErrorResult({ abi: LEGION_SAFE_ABI, errorName: 'CallNotAuthorized' }) }
+              : ok('0x'),
+            ok(uint(balance)),
+            ok(uint(5n))
+          );
+        });
+        return [{ calls: results }];
+      },
+    });
+    return { publicClient, simulated };
+  }
+
+  it('lifts the limits through the spendingLimits slot and replays each call\'s spend', async () => {
+    const { publicClient, simulated } = vault([200n, 150n]);
+
+    const result = await preflightSpendingLimits(publicClient, SAFE, { calls: [...calls] });
+
+    // limitPerWindow is the first field of spendingLimits[token], mapping slot 3
+    const limitSlot = (token: string) =>
+      keccak256(encodeAbiParameters([{ type: 'address' }, { type: 'uint256' }], [token as Hex, 3n]));
+    const [{ block, blockNumber }] = simulated;
+    expect(blockNumber).toBe(100n);
+    expect(block.stateOverrides).toEqual([
+      {
+        address: SAFE,
+        stateDiff: [
+          { slot: limitSlot(TOKEN), value: pad('0x0') },
+          { slot: limitSlot(ZERO), value: pad('0x0') },
+        ],
+      },
+    ]);
+    const managed = block.calls.filter((call) => call.account === OPERATOR);
+    expect(managed.map(({ data }) => decodeFunctionData({ abi: LEGION_SAFE_ABI, data }).args)).toEqual(
+      calls.map((call) => [call.target, call.data, call.value])
+    );
+
+    expect(result.wouldExceed).toBe(true);
+    expect(result.tokens).toMatchObject([
+      { token: TOKEN, limited: true, spend: 350n, spentInWindow: 700n, wouldExceed: true, breachedAtCall: 1 },
+      { token: ZERO, limited: false, spend: 0n, wouldExceed: false },
+    ]);
+  });
+
+  it('reports a call that reverts for another reason', async () => {
+    const { publicClient } = vault([100n, 0n], 1);
+
+    const result = await preflightSpendingLimits(publicClient, SAFE, { calls: [...calls] });
+
+    expect(result).toMatchObject({ wouldExceed: false, tokens: [], failedCall: 1 });
+    expect(result.error).toBeInstanceOf(CallNotAuthorizedError);
+  });
+});
@@ -0,0 +1,234 @@
+import {
+  Address,
+  Hex,
+  PublicClient,
+  decodeFunctionResult,
+  encodeAbiParameters,
+  encodeFunctionData,
+  keccak256,
+  pad,
+} from "viem";
+import { LEGION_SAFE_ABI } from "./abis.js";
+import { ZERO_ADDRESS } from "./constants.js";
+import { decodeLegionSafeError } from "./errors.js";
+import { ReadBatcher } from "./reads.js";
+import type {
+  ManageBatchParams,
+  SpendingForecast,
+  SpendingLimitState,
+  SpendingPreflightOptions,
+  SpendingPreflightResult,
+} from "./types.js";
+
+/**
+ * Storage slot of the `spendingLimits` mapping in LegionSafe
+ * (see `forge inspect LegionSafe storageLayout`)
+ */
+const SPENDING_LIMITS_SLOT = 3n;
+
+/**
+ * Forecast how a sequence of spends of one token plays out against its limit,
+ * mirroring `_checkAndUpdateLimit`
+ *
+ * @param token Token address
+ * @param limit Current on-chain limit state
+ * @param spends Amount spent by each managed call, in execution order
+ * @param timestamp Block timestamp the calls are expected to execute at
+ */
+export function forecastSpending(
+  token: Address,
+  limit: SpendingLimitState,
+  spends: bigint[],
+  timestamp: bigint
+): SpendingForecast {
+  const spend = spends.reduce((sum, amount) => sum + amount, 0n);
+
+  // No limit configured: the contract skips the check entirely
+  if (limit.limitPerWindow === 0n || limit.windowDuration === 0n) {
+    return {
+      token,
+      limited: false,
+      spend,
+      spentInWindow: 0n,
+      headroom: 0n,
+      remainingAfter: 0n,
+      windowEndsAt: 0n,
+      windowRollsOver: false,
+      wouldExceed: false,
+    };
+  }
+
+  const windowStart = (timestamp / limit.windowDuration) * limit.windowDuration;
+  const windowRollsOver = windowStart > limit.lastWindowStart;
+  const spentInWindow = windowRollsOver ? 0n : limit.spent;
+  const headroom =
+    limit.limitPerWindow > spentInWindow ? limit.limitPerWindow - spentInWindow : 0n;
+
+  let running = spentInWindow;
+  let breachedAt: number | undefined;
+  spends.forEach((amount, i) => {
+    if (amount === 0n || breachedAt !== undefined) return;
+    if (running + amount > limit.limitPerWindow) {
+      breachedAt = i;
+      return;
+    }
+    running += amount;
+  });
+
+  return {
+    token,
+    limited: true,
+    spend,
+    spentInWindow,
+    headroom,
+    remainingAfter: headroom > spend ? headroom - spend : 0n,
+    windowEndsAt: windowStart + limit.windowDuration,
+    windowRollsOver,
+    wouldExceed: breachedAt !== undefined,
+    breachedAtCall: breachedAt,
+  };
+}
+
+/**
+ * Storage slot holding `spendingLimits[token].limitPerWindow`
+ */
+function limitPerWindowSlot(token: Address): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "address" }, { type: "uint256" }],
+      [token, SPENDING_LIMITS_SLOT]
+    )
+  );
+}
+
+/**
+ * Predict whether a batch would trip `SpendingLimitExceeded`
+ *
+ * The batch is simulated with `eth_simulateV1` as a sequence of manage() calls
+ * from the operator, with tracked-token balance reads between them, so spends
+ * are measured per call exactly like `_checkSpendingLimits` does. Limits are
+ * disabled through a state override during the simulation so every call's
+ * spend is measured, then replayed against the on-chain window state.
+ *
+ * @param publicClient Public client (RPC must support eth_simulateV1)
+ * @param safeAddress Vault address
+ * @param params Batch to check
+ * @param options Execution timestamp override. Defaults to the latest block's
+ *   timestamp, which is conservative: a later block can only roll the window over.
+ * @param reads Batcher the vault reads are aggregated through (default: a new
+ *   one on `publicClient`)
+ */
+export async function preflightSpendingLimits(
+  publicClient: PublicClient,
+  safeAddress: Address,
+  params: ManageBatchParams,
+  options: SpendingPreflightOptions = {},
+  reads: ReadBatcher = new ReadBatcher(publicClient)
+): Promise<SpendingPreflightResult> {
+  const [operator, tokens, block] = await Promise.all([
+    reads.read({ address: safeAddress, abi: LEGION_SAFE_ABI, functionName: "operator" }),
+    reads.read({ address: safeAddress, abi: LEGION_SAFE_ABI, functionName: "getTrackedTokens" }),
+    publicClient.getBlock(),
+  ]);
+  const timestamp = options.timestamp ?? block.timestamp;
+
+  const limits = await Promise.all(
+    tokens.map(async (token) => {
+      const [limitPerWindow, windowDuration, spent, lastWindowStart] = await reads.read(
+        {
+          address: safeAddress,
+          abi: LEGION_SAFE_ABI,
+          functionName: "spendingLimits",
+          args: [token],
+        },
+        { blockNumber: block.number }
+      );
+      return { limitPerWindow, windowDuration, spent, lastWindowStart };
+    })
+  );
+
+  const balanceReads = tokens.map((token) => ({
+    to: safeAddress,
+    data:
+      token === ZERO_ADDRESS
+        ? encodeFunctionData({ abi: LEGION_SAFE_ABI, functionName: "getETHBalance" })
+        : encodeFunctionData({
+            abi: LEGION_SAFE_ABI,
+            functionName: "getTokenBalance",
+            args: [token],
+          }),
+  }));
+
+  const calls = params.calls.flatMap((call) => [
+    ...balanceReads,
+    {
+      account: operator,
+      to: safeAddress,
+      data: encodeFunctionData({
+        abi: LEGION_SAFE_ABI,
+        functionName: "manage",
+        args: [call.target, call.data, call.value],
+      }),
+    },
+  ]);
+  calls.push(...balanceReads);
+
+  const [result] = await publicClient.simulateBlocks({
+    blocks: [
+      {
+        calls,
+        blockOverrides:
+          options.timestamp !== undefined ? { time: options.timestamp } : undefined,
+        stateOverrides: [
+          {
+            address: safeAddress,
+            stateDiff: tokens.map((token) => ({
+              slot: limitPerWindowSlot(token),
+              value: pad("0x0"),
+            })),
+          },
+        ],
+      },
+    ],
+    blockNumber: block.number,
+  });
+
+  const stride = tokens.length + 1;
+  const balanceAt = (step: number, tokenIndex: number) =>
+    decodeFunctionResult({
+      abi: LEGION_SAFE_ABI,
+      functionName: "getETHBalance",
+      data: result.calls[step * stride + tokenIndex].data,
+    });
+
+  for (let i = 0; i < params.calls.length; i++) {
+    const call = result.calls[i * stride + tokens.length];
+    if (call.status !== "success") {
+      return {
+        wouldExceed: false,
+        timestamp,
+        tokens: [],
+        failedCall: i,
+        error: decodeLegionSafeError(call.data, {
+          calls: [params.calls[i]],
+          cause: call.error,
+        }),
+      };
+    }
+  }
+
+  const forecasts = tokens.map((token, t) => {
+    const spends = params.calls.map((_, i) => {
+      const before = balanceAt(i, t);
+      const after = balanceAt(i + 1, t);
+      return before > after ? before - after : 0n;
+    });
+    return forecastSpending(token, limits[t], spends, timestamp);
+  });
+
+  return {
+    wouldExceed: forecasts.some((forecast) => forecast.wouldExceed),
+    timestamp,
+    tokens: forecasts,
+  };
+}
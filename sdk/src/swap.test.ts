@@ -0,0 +1,167 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  Address,
+  Hex,
+  RawContractError,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  encodeFunctionResult,
+} from 'viem';
+import { ERC20_ABI, LEGION_SAFE_ABI } from './abis.js';
+import { SpendingLimitExceededError } from './errors.js';
+import type { SwapProvider } from './integrations/types.js';
+import { LegionSafeClient } from './LegionSafeClient.js';
+import { stubChain, stubFetch, txHash } from './test/stubs.js';
+
+const SAFE = '0x1111111111111111111111111111111111111111';
+const OPERATOR = '0x2222222222222222222222222222222222222222';
+const ROUTER = '0x6131B5fae19EA4f9D964eAc0408E4408b66337b5';
+const USDT = '0x55d398326f99059fF775485246999027B3197955';
+const MEME = '0x4444444444444444444444444444444444444444';
+const SWAP_DATA = '0xe21fd0e9';
+
+const uint = (value: bigint) => encodeAbiParameters([{ type: 'uint256' }], [value]);
+const limitExceeded = encodeErrorResult({
+  abi: LEGION_SAFE_ABI,
+  errorName: 'SpendingLimitExceeded',
+  args: [USDT, 150n, 100n],
+});
+
+const transfer = (token: Address, from: Address, to: Address, value: bigint) => ({
+  address: token,
+  topics: encodeEventTopics({ abi: ERC20_ABI, eventName: 'Transfer', args: { from, to } }),
+  data: uint(value),
+});
+
+/** Provider quoting 1000 MEME for any input through ROUTER */
+const provider: SwapProvider = {
+  name: 'Stub',
+  chainId: 56,
+  routerAddress: ROUTER,
+  requiredSelectors: [SWAP_DATA],
+  async quote(request) {
+    return { ...request, provider: 'Stub', chainId: 56, amountOut: 1000n, routerAddress: ROUTER, quotedAt: 0, raw: null };
+  },
+  async buildCalldata(quote) {
+    return {
+      provider: 'Stub',
+      target: ROUTER,
+      data: SWAP_DATA,
+      value: 0n,
+      spender: ROUTER,
+      tokenIn: quote.tokenIn,
+      amountIn: quote.amountIn,
+      amountOut: quote.amountOut,
+    };
+  },
+};
+
+/**
+ * Vault that allows every call and spender; the simulated swap adds 1000 MEME
+ * (or reverts with `simulatedRevert`), and the mined swap delivers 950 MEME
+ * (or reverts with `minedRevert`)
+ */
+function vault(options: { simulatedRevert?: Hex; minedRevert?: Hex } = {}) {
+  const chain = stubChain(
+    {
+      readContract: async ({ functionName }: { functionName: string }) => {
+        if (functionName === 'operator') return OPERATOR;
+        if (functionName === 'getTrackedTokens') return [];
+        return true;
+      },
+      simulateBlocks: async () => [
+        {
+          calls: [
+            { status: 'success', data: uint(0n) },
+            options.simulatedRevert
+              ? { status: 'failure', data: options.simulatedRevert, error: new Error('reverted') }
+              : {
+                  status: 'success',
+                  data: encodeFunctionResult({ abi: LEGION_SAFE_ABI, functionName: 'manageBatch', result: ['0x', '0x'] }),
+                  gasUsed: 150_000n,
+                },
+            { status: 'success', data: uint(1000n) },
+          ],
+        },
+      ],
+      waitForTransactionReceipt: async () => ({
+        status: options.minedRevert ? 'reverted' : 'success',
+        blockNumber: 100n,
+        gasUsed: 150_000n,
+        logs: [transfer(USDT, SAFE, ROUTER, 10n ** 18n), transfer(MEME, ROUTER, SAFE, 950n)],
+      }),
+      call: async () => {
+        throw new RawContractError({ data: options.minedRevert });
+      },
+    },
+    { account: OPERATOR }
+  );
+  const client = new LegionSafeClient({
+    safeAddress: SAFE,
+    publicClient: chain.publicClient,
+    walletClient: chain.walletClient,
+    multicall: false,
+    returnDataSource: 'none',
+  });
+  return { client, sent: chain.sent };
+}
+
+const params = { tokenIn: USDT, tokenOut: MEME, amountIn: 10n ** 18n } as const;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('LegionSafeClient.swap', () => {
+  it('approves, swaps and measures the settled output from the receipt', async () => {
+    const { client, sent } = vault();
+
+    const result = await client.swap(provider, params);
+
+    expect(sent).toHaveLength(1);
+    expect(result).toMatchObject({
+      hash: txHash(1),
+      status: 'success',
+      provider: 'Stub',
+      quotedAmountOut: 1000n,
+      simulatedAmountOut: 1000n,
+      amountOut: 950n,
+      amountOutSource: 'transfer-logs',
+      amountSpent: 10n ** 18n,
+      realizedSlippageBps: 500,
+    });
+  });
+
+  it('throws the simulated revert without sending', async () => {
+    const { client, sent } = vault({ simulatedRevert: limitExceeded });
+
+    await expect(client.swap(provider, params)).rejects.toBeInstanceOf(SpendingLimitExceededError);
+    expect(sent).toEqual([]);
+  });
+
+  it('throws the decoded revert of a swap that reverts once mined', async () => {
+    const { client, sent } = vault({ minedRevert: limitExceeded });
+
+    const error = await client.swap(provider, params).catch((e: SpendingLimitExceededError) => e);
+
+    expect(error).toBeInstanceOf(SpendingLimitExceededError);
+    expect(error).toMatchObject({ token: USDT, transactionHash: txHash(1) });
+    expect(sent).toHaveLength(1);
+  });
+
+  it('routes swapViaKyber through the KyberSwap API for the vault chain', async () => {
+    const { client } = vault();
+    const { fetch, requests } = stubFetch(({ url }) =>
+      url.pathname.endsWith('/route/build')
+        ? { data: { data: SWAP_DATA, amountOut: '1000', routerAddress: ROUTER } }
+        : { data: { routeSummary: { amountOut: '1000' }, routerAddress: ROUTER } }
+    );
+    vi.stubGlobal('fetch', fetch);
+
+    const result = await client.swapViaKyber({ ...params, skipSimulation: true });
+
+    expect(requests[0].url.pathname).toContain('/bsc/');
+    expect(result).toMatchObject({ provider: 'KyberSwap', routerAddress: ROUTER, amountOut: 950n });
+  });
+});
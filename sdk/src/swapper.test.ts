@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import type { PublicClient } from 'viem';
+import { LegionSafeBatchBuilder } from './batch.js';
+import { NATIVE_TOKEN_ADDRESS } from './constants.js';
+import type { SwapProvider, SwapQuote } from './integrations/types.js';
+import type { LegionSafeClient } from './LegionSafeClient.js';
+import { BestRouteSwapper, NoRouteError } from './swapper.js';
+
+const SAFE = '0x1111111111111111111111111111111111111111';
+const USDT = '0x55d398326f99059fF775485246999027B3197955';
+const ROUTER_A = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const ROUTER_B = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+const ROUTER_C = '0xcccccccccccccccccccccccccccccccccccccccc';
+const ROUTER_D = '0xdddddddddddddddddddddddddddddddddddddddd';
+const SELECTOR = '0x12345678';
+
+/** Vault that whitelists and authorizes routers A and B only; reads for router D fail */
+const client = {
+  safeAddress: SAFE,
+  isSpenderWhitelisted: async (spender: string) => spender !== ROUTER_C,
+  isCallAuthorized: async (target: string) => {
+    if (target === ROUTER_D) throw new Error('request timed out');
+    return target !== ROUTER_C;
+  },
+  batch() {
+    return new LegionSafeBatchBuilder(this as unknown as LegionSafeClient);
+  },
+} as unknown as LegionSafeClient;
+
+const publicClient = { getGasPrice: async () => 1_000_000_000n } as unknown as PublicClient;
+
+function provider(
+  name: string,
+  routerAddress: `0x${string}`,
+  amountOut: bigint,
+  gasEstimate: bigint | undefined,
+  behaviour: { quoteDelayMs?: number; buildError?: Error } = {}
+): SwapProvider {
+  return {
+    name,
+    chainId: 56,
+    routerAddress,
+    requiredSelectors: [SELECTOR],
+    async quote(request) {
+      if (behaviour.quoteDelayMs) await new Promise((r) => setTimeout(r, behaviour.quoteDelayMs));
+      return { ...request, provider: name, chainId: 56, amountOut, routerAddress, gasEstimate, quotedAt: 0, raw: null };
+    },
+    async buildCalldata(quote: SwapQuote) {
+      if (behaviour.buildError) throw behaviour.buildError;
+      return {
+        provider: name,
+        target: routerAddress,
+        data: SELECTOR,
+        value: 0n,
+        spender: routerAddress,
+        tokenIn: quote.tokenIn,
+        amountIn: quote.amountIn,
+        amountOut,
+      };
+    },
+  };
+}
+
+const params = { tokenIn: USDT, tokenOut: NATIVE_TOKEN_ADDRESS, amountIn: 10n ** 18n } as const;
+
+describe('BestRouteSwapper', () => {
+  it('ranks by output net of gas and skips unauthorized routers', async () => {
+    // A quotes 0.0004 BNB more but burns 0.0005 BNB more gas at 1 gwei
+    const swapper = new BestRouteSwapper(client, publicClient, [
+      provider('A', ROUTER_A, 1_400_000_000_000_000n, 600_000n),
+      provider('B', ROUTER_B, 1_000_000_000_000_000n, 100_000n),
+      provider('C', ROUTER_C, 2_000_000_000_000_000n, 100_000n),
+    ]);
+
+    const route = await swapper.findBestRoute(params);
+
+    expect(route.quotes.map((q) => q.quote.provider)).toEqual(['B', 'A']);
+    expect(route.quotes[0].netAmountOut).toBe(900_000_000_000_000n);
+    expect(route.excluded).toEqual([{ provider: 'C', reason: 'unauthorized' }]);
+    expect(route.batch.build().map((call) => call.target)).toEqual([USDT, ROUTER_B]);
+  });
+
+  it('falls back down the ranking and reports timeouts and build failures', async () => {
+    const swapper = new BestRouteSwapper(
+      client,
+      publicClient,
+      [
+        provider('A', ROUTER_A, 3n * 10n ** 18n, 0n, { buildError: new Error('router mismatch') }),
+        provider('B', ROUTER_B, 2n * 10n ** 18n, 0n),
+        provider('slow', ROUTER_B, 4n * 10n ** 18n, 0n, { quoteDelayMs: 100 }),
+      ],
+      { timeoutMs: 10 }
+    );
+
+    const route = await swapper.findBestRoute(params);
+
+    expect(route.best.quote.provider).toBe('B');
+    expect(route.excluded.map((entry) => [entry.provider, entry.reason])).toEqual([
+      ['slow', 'quote-failed'],
+      ['A', 'build-failed'],
+    ]);
+  });
+
+  it('ranks quotes without a gas price after the priced ones', async () => {
+    const swapper = new BestRouteSwapper(client, publicClient, [
+      provider('unpriced', ROUTER_A, 3n * 10n ** 18n, undefined),
+      provider('A', ROUTER_A, 1n * 10n ** 18n, 100_000n),
+      provider('B', ROUTER_B, 2n * 10n ** 18n, 100_000n),
+    ]);
+
+    const route = await swapper.findBestRoute(params);
+
+    expect(route.quotes.map((q) => [q.quote.provider, q.gasCostOut])).toEqual([
+      ['B', 100_000_000_000_000n],
+      ['A', 100_000_000_000_000n],
+      ['unpriced', undefined],
+    ]);
+  });
+
+  it('skips a provider whose authorization cannot be read', async () => {
+    const swapper = new BestRouteSwapper(client, publicClient, [
+      provider('D', ROUTER_D, 2n * 10n ** 18n, 0n),
+      provider('B', ROUTER_B, 1n * 10n ** 18n, 0n),
+    ]);
+
+    const route = await swapper.findBestRoute(params);
+
+    expect(route.best.quote.provider).toBe('B');
+    expect(route.excluded).toEqual([
+      { provider: 'D', reason: 'unauthorized', error: new Error('request timed out') },
+    ]);
+  });
+
+  it('throws NoRouteError when nothing is executable', async () => {
+    const swapper = new BestRouteSwapper(client, publicClient, [
+      provider('C', ROUTER_C, 1n, 0n),
+    ]);
+
+    await expect(swapper.findBestRoute(params)).rejects.toBeInstanceOf(NoRouteError);
+  });
+});
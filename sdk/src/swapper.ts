@@ -0,0 +1,284 @@
+import { Address, PublicClient, formatEther } from "viem";
+import type { LegionSafeBatchBuilder, BatchIssue } from "./batch.js";
+import type { LegionSafeClient } from "./LegionSafeClient.js";
+import type {
+  SwapCalldata,
+  SwapProvider,
+  SwapQuote,
+  SwapQuoteRequest,
+} from "./integrations/types.js";
+import type { SwapParams, SwapResult } from "./types.js";
+import { isNativeToken } from "./utils.js";
+
+/**
+ * Options for BestRouteSwapper
+ */
+export interface BestRouteSwapperOptions {
+  /** Per-provider timeout for quoting and building, in ms (default: 5000) */
+  timeoutMs?: number;
+  /** Native token price in USD, used to convert between gas in wei and `gasUsd` */
+  nativePriceUsd?: number;
+  /** Gas price used to cost each route (default: the node's eth_gasPrice) */
+  gasPrice?: bigint;
+}
+
+/**
+ * Swap to route through the best provider
+ */
+export interface BestRouteParams extends SwapParams, SwapQuoteRequest {
+  /**
+   * Output token price in USD, used to express the gas cost of ERC20 output in
+   * output token units (not needed for native output)
+   */
+  tokenOutPriceUsd?: number;
+  /** Output token decimals (default: 18) */
+  tokenOutDecimals?: number;
+}
+
+/**
+ * A provider's quote with its gas cost and net output
+ */
+export interface RankedQuote {
+  /** The provider's quote */
+  quote: SwapQuote;
+  /** Gas cost in wei, when it could be derived */
+  gasCostWei?: bigint;
+  /** Gas cost in USD, when it could be derived */
+  gasCostUsd?: number;
+  /** Gas cost in output token units, when it could be derived */
+  gasCostOut?: bigint;
+  /** Quoted output minus `gasCostOut` (or the quoted output if gas could not be priced) */
+  netAmountOut: bigint;
+}
+
+/**
+ * A provider left out of the ranking, and why
+ */
+export interface ExcludedProvider {
+  /** Provider name */
+  provider: string;
+  /**
+   * Why it was left out; "unauthorized" with an `error` means the vault's
+   * authorization could not be read
+   */
+  reason: "unauthorized" | "quote-failed" | "build-failed" | "rejected-by-vault";
+  /** Underlying error or vault issues */
+  error?: unknown;
+}
+
+/**
+ * Outcome of BestRouteSwapper.findBestRoute()
+ */
+export interface BestRouteResult {
+  /**
+   * Quotes ranked by net output, best first; quotes whose gas could not be
+   * priced follow the priced ones, ranked by quoted output
+   */
+  quotes: RankedQuote[];
+  /** Providers that were skipped */
+  excluded: ExcludedProvider[];
+  /** Quote the batch was built from */
+  best: RankedQuote;
+  /** Router call for the best quote */
+  calldata: SwapCalldata;
+  /** Validated batch, ready for send() or simulate() */
+  batch: LegionSafeBatchBuilder;
+}
+
+/**
+ * Thrown when no provider produced a route the vault can execute
+ */
+export class NoRouteError extends Error {
+  constructor(public readonly excluded: ExcludedProvider[]) {
+    super(
+      `No executable route:\n` +
+        excluded.map((entry) => `  ${entry.provider}: ${entry.reason}${formatCause(entry.error)}`).join("\n")
+    );
+    this.name = "NoRouteError";
+  }
+}
+
+/**
+ * Routes a swap through whichever SwapProvider nets the most output
+ *
+ * Providers whose router is not whitelisted (ERC20 input) or has none of its
+ * selectors authorized on the vault are skipped before quoting. The rest are
+ * quoted in parallel, each under `timeoutMs`, and ranked by output net of
+ * gas; a quote whose gas cannot be priced is not comparable to a net output,
+ * so it ranks after every priced quote. Calldata is then built for the best quote, falling back down the
+ * ranking when building fails or the vault would reject the batch.
+ *
+ * @example
+ * ```typescript
+ * const swapper = client.createBestRouteSwapper(
+ *   [new KyberSwapClient(56), new OneInchClient(56, { apiKey }), new ParaSwapClient(56)],
+ *   { nativePriceUsd: 600 }
+ * );
+ * const route = await swapper.findBestRoute({ tokenIn: WBNB, tokenOut: NATIVE_TOKEN_ADDRESS, amountIn });
+ * console.table(route.quotes.map((q) => [q.quote.provider, q.netAmountOut]));
+ * await route.batch.send();
+ * ```
+ */
+export class BestRouteSwapper {
+  constructor(
+    private readonly client: LegionSafeClient,
+    private readonly publicClient: PublicClient,
+    private readonly providers: SwapProvider[],
+    private readonly options: BestRouteSwapperOptions = {}
+  ) {}
+
+  /**
+   * Quote every authorized provider and build a batch for the best route
+   *
+   * @throws {NoRouteError} If no provider produced an executable route
+   */
+  async findBestRoute(params: BestRouteParams): Promise<BestRouteResult> {
+    const excluded: ExcludedProvider[] = [];
+
+    const authorized = await Promise.allSettled(
+      this.providers.map((provider) => this.isAuthorized(provider, params.tokenIn))
+    );
+    const eligible = this.providers.filter((provider, index) => {
+      const result = authorized[index];
+      if (result.status === "rejected") {
+        excluded.push({ provider: provider.name, reason: "unauthorized", error: result.reason });
+        return false;
+      }
+      if (!result.value) excluded.push({ provider: provider.name, reason: "unauthorized" });
+      return result.value;
+    });
+
+    const [settled, gasPrice] = await Promise.all([
+      Promise.allSettled(
+        eligible.map((provider) =>
+          this.withTimeout(provider, provider.quote(params))
+        )
+      ),
+      this.options.gasPrice ?? this.publicClient.getGasPrice(),
+    ]);
+
+    const quotes: RankedQuote[] = [];
+    const providerOf = new Map<SwapQuote, SwapProvider>();
+    settled.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        providerOf.set(result.value, eligible[index]);
+        quotes.push(this.rank(result.value, gasPrice, params));
+      } else {
+        excluded.push({ provider: eligible[index].name, reason: "quote-failed", error: result.reason });
+      }
+    });
+    quotes.sort(compareRanked);
+
+    for (const ranked of quotes) {
+      const provider = providerOf.get(ranked.quote)!;
+      let calldata: SwapCalldata;
+      try {
+        calldata = await this.withTimeout(
+          provider,
+          provider.buildCalldata(ranked.quote, {
+            sender: this.client.safeAddress,
+            recipient: this.client.safeAddress,
+            slippageBps: params.slippageBps ?? 50,
+          })
+        );
+      } catch (error) {
+        excluded.push({ provider: provider.name, reason: "build-failed", error });
+        continue;
+      }
+
+      const batch = this.client.batch().swap(calldata);
+      const issues: BatchIssue[] = await batch.validate();
+      if (issues.length > 0) {
+        excluded.push({ provider: provider.name, reason: "rejected-by-vault", error: issues });
+        continue;
+      }
+
+      return { quotes, excluded, best: ranked, calldata, batch };
+    }
+
+    throw new NoRouteError(excluded);
+  }
+
+  /**
+   * Find the best route and execute it through the vault
+   *
+   * @throws {NoRouteError} If no provider produced an executable route
+   * @throws {LegionSafeError} If the simulation reverts
+   */
+  async swap(params: BestRouteParams): Promise<SwapResult & { route: BestRouteResult }> {
+    const route = await this.findBestRoute(params);
+    const result = await this.client.executeSwap(route.calldata, params);
+    return { ...result, route };
+  }
+
+  /**
+   * Router whitelisted as spender (ERC20 input only) and at least one of its
+   * selectors authorized; the built calldata is checked again in validate()
+   */
+  private async isAuthorized(provider: SwapProvider, tokenIn: Address): Promise<boolean> {
+    const [whitelisted, ...selectors] = await Promise.all([
+      isNativeToken(tokenIn) ? true : this.client.isSpenderWhitelisted(provider.routerAddress),
+      ...provider.requiredSelectors.map((selector) =>
+        this.client.isCallAuthorized(provider.routerAddress, selector)
+      ),
+    ]);
+    return whitelisted && selectors.some(Boolean);
+  }
+
+  private rank(quote: SwapQuote, gasPrice: bigint, params: BestRouteParams): RankedQuote {
+    const { nativePriceUsd } = this.options;
+
+    let gasCostWei = quote.gasEstimate !== undefined ? quote.gasEstimate * gasPrice : undefined;
+    let gasCostUsd = quote.gasUsd;
+    if (gasCostUsd === undefined && gasCostWei !== undefined && nativePriceUsd !== undefined) {
+      gasCostUsd = Number(formatEther(gasCostWei)) * nativePriceUsd;
+    }
+    if (gasCostWei === undefined && gasCostUsd !== undefined && nativePriceUsd) {
+      gasCostWei = BigInt(Math.round((gasCostUsd / nativePriceUsd) * 1e18));
+    }
+
+    let gasCostOut: bigint | undefined;
+    if (isNativeToken(params.tokenOut)) {
+      gasCostOut = gasCostWei;
+    } else if (gasCostUsd !== undefined && params.tokenOutPriceUsd) {
+      const units = (gasCostUsd / params.tokenOutPriceUsd) * 10 ** (params.tokenOutDecimals ?? 18);
+      gasCostOut = BigInt(Math.round(units));
+    }
+
+    return {
+      quote,
+      gasCostWei,
+      gasCostUsd,
+      gasCostOut,
+      netAmountOut: quote.amountOut - (gasCostOut ?? 0n),
+    };
+  }
+
+  private withTimeout<T>(provider: SwapProvider, promise: Promise<T>): Promise<T> {
+    const timeoutMs = this.options.timeoutMs ?? 5_000;
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`${provider.name} timed out after ${timeoutMs}ms`)),
+        timeoutMs
+      );
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
+
+/**
+ * Priced quotes first, by net output; then unpriced ones, by quoted output
+ */
+function compareRanked(a: RankedQuote, b: RankedQuote): number {
+  const aPriced = a.gasCostOut !== undefined;
+  const bPriced = b.gasCostOut !== undefined;
+  if (aPriced !== bPriced) return aPriced ? -1 : 1;
+  return b.netAmountOut > a.netAmountOut ? 1 : b.netAmountOut < a.netAmountOut ? -1 : 0;
+}
+
+function formatCause(error: unknown): string {
+  if (error === undefined) return "";
+  if (Array.isArray(error)) return ` (${error.length} step(s) rejected)`;
+  return ` (${error instanceof Error ? error.message : String(error)})`;
+}
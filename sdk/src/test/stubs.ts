@@ -0,0 +1,165 @@
+import type { Address, Hash, Hex, PublicClient, WalletClient } from 'viem';
+
+/**
+ * Test doubles shared by the SDK's unit tests
+ *
+ * Stubs implement only the client methods a test exercises and are cast to
+ * the viem client types; calling anything else fails loudly.
+ */
+
+/** Public client methods to stub, by name */
+export type StubMethods = Record<string, (...args: never[]) => unknown>;
+
+/** Transaction handed to the stub wallet's `sendTransaction` */
+export interface SentTransaction {
+  to?: Address | null;
+  data?: Hex;
+  value?: bigint;
+  gas?: bigint;
+  nonce?: number;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+}
+
+/**
+ * Deterministic transaction hash
+ *
+ * @param n Index of the transaction
+ */
+export function txHash(n: number): Hash {
+  return `0x${n.toString(16).padStart(64, '0')}`;
+}
+
+/**
+ * Chain with a wallet that records what it sends
+ *
+ * Every sent transaction gets hash `txHash(1)`, `txHash(2)`, … and a
+ * successful receipt at `blockNumber`; `getTransaction` returns it back.
+ * `methods` replace or add public client methods, and a throwing `onSend`
+ * fails the send before it is recorded.
+ */
+export function stubChain(
+  methods: StubMethods = {},
+  options: {
+    account?: Address;
+    chainId?: number;
+    blockNumber?: bigint;
+    onSend?: (request: SentTransaction) => void;
+  } = {}
+) {
+  const account = options.account ?? '0x000000000000000000000000000000000000a11c';
+  const blockNumber = options.blockNumber ?? 100n;
+  const sent: SentTransaction[] = [];
+
+  const publicClient = {
+    getChainId: async () => options.chainId ?? 56,
+    getBlockNumber: async () => blockNumber,
+    estimateGas: async () => 100_000n,
+    estimateFeesPerGas: async () => ({ maxFeePerGas: 2n, maxPriorityFeePerGas: 1n }),
+    waitForTransactionReceipt: async ({ hash }: { hash: Hash }) => ({
+      status: 'success',
+      transactionHash: hash,
+      blockNumber,
+      gasUsed: 21_000n,
+      logs: [],
+    }),
+    getTransaction: async ({ hash }: { hash: Hash }) => {
+      const tx = sent[Number(BigInt(hash)) - 1];
+      return { hash, from: account, to: tx.to, input: tx.data, value: tx.value ?? 0n };
+    },
+    ...methods,
+  } as unknown as PublicClient;
+
+  const walletClient = {
+    account: { address: account, type: 'json-rpc' },
+    sendTransaction: async (request: SentTransaction) => {
+      options.onSend?.(request);
+      sent.push(request);
+      return txHash(sent.length);
+    },
+  } as unknown as WalletClient;
+
+  return { publicClient, walletClient, sent };
+}
+
+/** Request seen by a `stubFetch` fetch */
+export interface StubRequest {
+  url: URL;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * fetch that records requests and answers them with `respond`
+ *
+ * `respond` gets the request and its index and returns a `Response`, sent
+ * as is, or a body, sent as JSON; anything other than a function is the body
+ * of every response. A throwing `respond` fails the request like a network
+ * error.
+ */
+export function stubFetch(respond: ((request: StubRequest, index: number) => unknown) | object) {
+  const requests: StubRequest[] = [];
+  const fetch = (async (url: string, init?: RequestInit) => {
+    const request = {
+      url: new URL(url),
+      headers: (init?.headers ?? {}) as Record<string, string>,
+      body: init?.body as string | undefined,
+    };
+    requests.push(request);
+    const answer =
+      typeof respond === 'function' ? await respond(request, requests.length - 1) : respond;
+    return answer instanceof Response ? answer : new Response(JSON.stringify(answer));
+  }) as typeof globalThis.fetch;
+  return { fetch, requests };
+}
+
+/** Event log as returned by `getContractEvents` */
+export interface StubEventLog {
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: Hash;
+}
+
+/**
+ * Event log
+ *
+ * @param logIndex Position in the block (default: 0)
+ */
+export function eventLog(
+  eventName: string,
+  args: Record<string, unknown>,
+  blockNumber: bigint,
+  logIndex = 0
+): StubEventLog {
+  return { eventName, args, blockNumber, logIndex, transactionHash: txHash(Number(blockNumber)) };
+}
+
+/**
+ * `getContractEvents` over a fixed history, filtered by event name, indexed
+ * arguments and block range; `onQuery` sees every query and may throw to
+ * fail it
+ */
+export function stubEvents(
+  events: StubEventLog[],
+  onQuery?: (query: { eventName?: string; fromBlock: bigint; toBlock: bigint }) => void
+) {
+  return async (query: {
+    eventName?: string;
+    args?: Record<string, unknown>;
+    fromBlock?: bigint;
+    toBlock?: bigint;
+  }) => {
+    const fromBlock = query.fromBlock ?? 0n;
+    const toBlock = query.toBlock ?? BigInt(Number.MAX_SAFE_INTEGER);
+    onQuery?.({ eventName: query.eventName, fromBlock, toBlock });
+    return events.filter(
+      (event) =>
+        (!query.eventName || event.eventName === query.eventName) &&
+        event.blockNumber >= fromBlock &&
+        event.blockNumber <= toBlock &&
+        Object.entries(query.args ?? {}).every(([name, value]) => event.args[name] === value)
+    );
+  };
+}
@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Hash, RawContractError, encodeErrorResult } from 'viem';
+import { LEGION_SAFE_ABI } from './abis.js';
+import { SpendingLimitExceededError } from './errors.js';
+import { GasPriceTooHighError } from './gas.js';
+import { LegionSafeTransactionManager, TransactionDroppedError, TransactionManagerOptions } from './transactions.js';
+import { stubChain, txHash } from './test/stubs.js';
+
+const SAFE = '0x1111111111111111111111111111111111111111';
+const OPERATOR = '0x2222222222222222222222222222222222222222';
+const ROUTER = '0x3333333333333333333333333333333333333333';
+const TOKEN = '0x4444444444444444444444444444444444444444';
+
+const call = { target: ROUTER, data: '0x12345678', value: 0n } as const;
+const fees = { maxFeePerGas: 100n, maxPriorityFeePerGas: 10n };
+
+/**
+ * Operator account with `pendingNonce` transactions sent and `minedNonce`
+ * mined; `mine()` includes a sent transaction at the head block
+ */
+function network(options: TransactionManagerOptions = {}) {
+  const state = {
+    pendingNonce: 5,
+    minedNonce: 5,
+    head: 100n,
+    sendError: undefined as Error | undefined,
+    mempool: new Set<Hash>(),
+    receipts: new Map<Hash, { status: string; transactionHash: Hash; blockNumber: bigint; gasUsed: bigint }>(),
+    replay: undefined as Error | undefined,
+  };
+  const chain = stubChain(
+    {
+      getTransactionCount: async ({ blockTag }: { blockTag: string }) =>
+        blockTag === 'pending' ? state.pendingNonce : state.minedNonce,
+      getBlockNumber: async () => state.head,
+      getTransactionReceipt: async ({ hash }: { hash: Hash }) => {
+        const receipt = state.receipts.get(hash);
+        if (!receipt) throw new Error('receipt not found');
+        return receipt;
+      },
+      getTransaction: async ({ hash }: { hash: Hash }) => {
+        if (!state.mempool.has(hash) && !state.receipts.has(hash)) throw new Error('transaction not found');
+        return { hash, from: OPERATOR, to: SAFE, input: '0x', value: 0n };
+      },
+      call: async () => {
+        if (state.replay) throw state.replay;
+        return { data: '0x' };
+      },
+    },
+    {
+      account: OPERATOR,
+      onSend: () => {
+        if (state.sendError) throw state.sendError;
+        state.mempool.add(txHash(chain.sent.length + 1));
+      },
+    }
+  );
+  const txm = new LegionSafeTransactionManager(chain.walletClient, chain.publicClient, SAFE, {
+    pollingInterval: 1_000,
+    ...options,
+  });
+
+  const mine = (hash: Hash, status = 'success') => {
+    state.mempool.delete(hash);
+    state.receipts.set(hash, { status, transactionHash: hash, blockNumber: state.head, gasUsed: 50_000n });
+    state.minedNonce++;
+  };
+  return { txm, state, sent: chain.sent, mine };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('LegionSafeTransactionManager', () => {
+  it('assigns contiguous nonces to concurrent submissions, in call order', async () => {
+    const { txm, sent } = network();
+
+    const submissions = await Promise.all([
+      txm.manage(call),
+      txm.manageBatch({ calls: [call, call] }),
+      txm.manage(call),
+    ]);
+
+    expect(submissions.map((s) => s.nonce)).toEqual([5, 6, 7]);
+    expect(sent.map((tx) => tx.nonce)).toEqual([5, 6, 7]);
+    expect(submissions.map((s) => s.status)).toEqual(['pending', 'pending', 'pending']);
+    txm.stop();
+  });
+
+  it('re-reads the nonce after a failed broadcast', async () => {
+    const { txm, state } = network();
+    await txm.manage(call);
+
+    state.sendError = new Error('nonce too low');
+    await expect(txm.manage(call)).rejects.toThrow('nonce too low');
+
+    state.sendError = undefined;
+    state.pendingNonce = 9;
+    expect((await txm.manage(call)).nonce).toBe(9);
+    txm.stop();
+  });
+
+  it('drops a transaction whose nonce was used elsewhere and re-reads the nonce', async () => {
+    const { txm, state } = network();
+    const submission = await txm.manage(call);
+    const settled = submission.wait().catch((e: TransactionDroppedError) => e);
+
+    // An outside transaction took nonce 5
+    state.minedNonce = 6;
+    state.pendingNonce = 8;
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    const error = await settled;
+    expect(error).toBeInstanceOf(TransactionDroppedError);
+    expect(error).toMatchObject({ nonce: 5, reason: 'dropped' });
+    expect(submission.status).toBe('dropped');
+    expect((await txm.manage(call)).nonce).toBe(8);
+    txm.stop();
+  });
+
+  it('drops a transaction missing from the mempool for longer than dropTimeout', async () => {
+    const { txm, state } = network({ dropTimeout: 5_000 });
+    const submission = await txm.manage(call);
+    const settled = submission.wait().catch((e: TransactionDroppedError) => e);
+    state.mempool.clear();
+
+    await vi.advanceTimersByTimeAsync(4_000);
+    expect(submission.status).toBe('pending');
+
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(await settled).toMatchObject({ reason: 'dropped' });
+    txm.stop();
+  });
+
+  it('settles as cancelled when the cancel replacement is mined', async () => {
+    const { txm, sent, mine } = network();
+    const submission = await txm.manage({ ...call, gasOptions: fees });
+    const settled = submission.wait().catch((e: TransactionDroppedError) => e);
+
+    await txm.cancel(submission);
+    mine(submission.hash);
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(sent[1]).toMatchObject({ to: OPERATOR, data: '0x', nonce: 5, gas: 21_000n });
+    expect(await settled).toMatchObject({ nonce: 5, reason: 'cancelled' });
+    expect(submission.status).toBe('cancelled');
+    expect(submission.hashes).toEqual([txHash(1), txHash(2)]);
+  });
+
+  it('resolves a confirmed replacement and rejects a mined revert with the decoded error', async () => {
+    const { txm, state, mine } = network();
+    const sped = await txm.manage({ ...call, gasOptions: fees });
+    await txm.speedUp(sped);
+    const reverted = await txm.manage({ ...call, gasOptions: fees });
+    const settled = reverted.wait().catch((e: SpendingLimitExceededError) => e);
+
+    mine(sped.hash);
+    mine(reverted.hash, 'reverted');
+    state.replay = new RawContractError({
+      data: encodeErrorResult({ abi: LEGION_SAFE_ABI, errorName: 'SpendingLimitExceeded', args: [TOKEN, 2n, 1n] }),
+    });
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    await expect(sped.wait()).resolves.toMatchObject({ hash: txHash(2), status: 'success' });
+    const error = await settled;
+    expect(error).toBeInstanceOf(SpendingLimitExceededError);
+    expect(error).toMatchObject({ token: TOKEN, transactionHash: txHash(3) });
+    expect(reverted.status).toBe('reverted');
+  });
+
+  it('bumps replacement fees by bumpBps and refuses to exceed maxFeePerGasCap', async () => {
+    const { txm, sent } = network({ bumpBps: 2_000n, gas: { maxFeePerGasCap: 130n } });
+    const submission = await txm.manage({ ...call, gasOptions: fees });
+
+    await txm.speedUp(submission);
+
+    expect(sent[1]).toMatchObject({ nonce: 5, maxFeePerGas: 120n, maxPriorityFeePerGas: 12n });
+    await expect(txm.speedUp(submission)).rejects.toBeInstanceOf(GasPriceTooHighError);
+    expect(sent).toHaveLength(2);
+    txm.stop();
+  });
+});
@@ -0,0 +1,502 @@
+import {
+  Address,
+  Hash,
+  Hex,
+  PublicClient,
+  TransactionReceipt,
+  WalletClient,
+  encodeFunctionData,
+} from "viem";
+import { LEGION_SAFE_ABI } from "./abis.js";
+import { replayRevertError, toLegionSafeError } from "./errors.js";
+import { GasPriceTooHighError, resolveGasFees, resolveGasParameters } from "./gas.js";
+import type {
+  BatchCallItem,
+  GasConfig,
+  GasFees,
+  GasOptions,
+  ManageBatchParams,
+  ManageCallParams,
+  TransactionResult,
+} from "./types.js";
+
+/**
+ * Lifecycle of a submitted transaction
+ *
+ * - `pending`: broadcast, not yet confirmed
+ * - `confirmed`: mined with status success and `confirmations` deep
+ * - `reverted`: mined with status reverted
+ * - `cancelled`: the cancel replacement was mined instead
+ * - `dropped`: the nonce was consumed by an unknown transaction, or the
+ *   transaction disappeared from the mempool
+ */
+export type TransactionStatus =
+  | "pending"
+  | "confirmed"
+  | "reverted"
+  | "cancelled"
+  | "dropped";
+
+/**
+ * Fees a transaction was sent with
+ */
+export type TransactionFees = GasFees;
+
+/**
+ * Thrown by `Submission.wait()` when the transaction will never be mined
+ */
+export class TransactionDroppedError extends Error {
+  constructor(
+    public readonly nonce: number,
+    public readonly reason: "cancelled" | "dropped"
+  ) {
+    super(
+      reason === "cancelled"
+        ? `Transaction with nonce ${nonce} was cancelled`
+        : `Transaction with nonce ${nonce} was dropped`
+    );
+    this.name = "TransactionDroppedError";
+  }
+}
+
+/**
+ * A transaction handed to the manager, tracked across replacements
+ */
+export interface Submission {
+  /** Nonce shared by the original and every replacement */
+  readonly nonce: number;
+  /** Hash of the latest broadcast (changes on speed-up and cancel) */
+  readonly hash: Hash;
+  /** Every hash broadcast for this nonce, oldest first */
+  readonly hashes: readonly Hash[];
+  /** Current status */
+  readonly status: TransactionStatus;
+  /** Fees of the latest broadcast */
+  readonly fees: TransactionFees;
+  /**
+   * Resolves once confirmed; rejects with the decoded LegionSafeError if it
+   * reverted, or with TransactionDroppedError if it was cancelled or dropped
+   */
+  wait(): Promise<TransactionResult>;
+}
+
+/**
+ * Options for LegionSafeTransactionManager
+ */
+export interface TransactionManagerOptions {
+  /** Blocks a receipt must be buried under before it resolves (default: 1) */
+  confirmations?: number;
+  /** Poll interval in ms (default: the public client's) */
+  pollingInterval?: number;
+  /** How long a transaction may be missing from the mempool before it is dropped, in ms (default: 180000) */
+  dropTimeout?: number;
+  /** Fee increase for speedUp()/cancel(), in bps (default: 1250; nodes require at least 1000) */
+  bumpBps?: bigint;
+  /** Gas strategy, limit multiplier and fee cap (default: the client's) */
+  gas?: GasConfig;
+  /** Called on every status change */
+  onStatusChange?: (submission: Submission) => void;
+}
+
+interface TrackedSubmission extends Submission {
+  nonce: number;
+  hash: Hash;
+  hashes: Hash[];
+  status: TransactionStatus;
+  fees: TransactionFees;
+  gas: bigint;
+  to: Address;
+  data: Hex;
+  calls: BatchCallItem[];
+  cancelHash?: Hash;
+  lastSeen: number;
+  promise: Promise<TransactionResult>;
+  resolve: (result: TransactionResult) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Pipelines vault transactions from one account without waiting for each to
+ * be mined
+ *
+ * Nonces are assigned locally, so several manage()/manageBatch() calls can be
+ * in flight at once. Each submission resolves through `wait()` and can be
+ * replaced with higher fees (`speedUp`) or with a zero-value self-transfer
+ * (`cancel`). Only this manager should send from the account while it is in
+ * use; an outside transaction consumes a nonce and shows up as `dropped`.
+ *
+ * @example
+ * ```typescript
+ * const txm = client.createTransactionManager({ confirmations: 1 });
+ *
+ * const buy = await txm.manage({ target: ROUTER, data: swapData, value: 0n });
+ * const sell = await txm.manageBatch({ calls });
+ *
+ * setTimeout(() => txm.speedUp(buy), 3_000);
+ * const result = await buy.wait();
+ * ```
+ */
+export class LegionSafeTransactionManager {
+  private readonly confirmations: bigint;
+  private readonly pollingInterval: number;
+  private readonly dropTimeout: number;
+  private readonly bumpBps: bigint;
+  /** Pending submissions by nonce */
+  private readonly submissions = new Map<number, TrackedSubmission>();
+  private nextNonce?: number;
+  private sending: Promise<unknown> = Promise.resolve();
+  private pollTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private readonly walletClient: WalletClient,
+    private readonly publicClient: PublicClient,
+    private readonly safeAddress: Address,
+    private readonly options: TransactionManagerOptions = {}
+  ) {
+    this.confirmations = BigInt(options.confirmations ?? 1);
+    this.pollingInterval = options.pollingInterval ?? publicClient.pollingInterval;
+    this.dropTimeout = options.dropTimeout ?? 180_000;
+    this.bumpBps = options.bumpBps ?? 1250n;
+
+    if (this.bumpBps < 1000n) {
+      throw new Error("bumpBps must be at least 1000 for nodes to accept replacements");
+    }
+  }
+
+  /**
+   * Transactions that are not final yet
+   */
+  get pending(): Submission[] {
+    return [...this.submissions.values()];
+  }
+
+  /**
+   * Submit manage() and return once it is broadcast
+   *
+   * @throws {LegionSafeError} If gas estimation shows the call would revert
+   */
+  async manage(params: ManageCallParams): Promise<Submission> {
+    const data = encodeFunctionData({
+      abi: LEGION_SAFE_ABI,
+      functionName: "manage",
+      args: [params.target, params.data, params.value],
+    });
+    return this.submit(data, params.gasOptions, [params]);
+  }
+
+  /**
+   * Submit manageBatch() and return once it is broadcast
+   *
+   * @throws {LegionSafeError} If gas estimation shows the batch would revert
+   */
+  async manageBatch(params: ManageBatchParams): Promise<Submission> {
+    const data = encodeFunctionData({
+      abi: LEGION_SAFE_ABI,
+      functionName: "manageBatch",
+      args: [
+        params.calls.map((call) => call.target),
+        params.calls.map((call) => call.data),
+        params.calls.map((call) => call.value),
+      ],
+    });
+    return this.submit(data, params.gasOptions, params.calls);
+  }
+
+  /**
+   * Re-broadcast a pending transaction with higher fees
+   */
+  async speedUp(submission: Submission): Promise<Submission> {
+    const tracked = this.getPending(submission);
+    // Speeding up a cancelled transaction speeds up the cancellation
+    if (tracked.cancelHash) return this.cancel(tracked);
+
+    const fees = await this.bumpFees(tracked.fees);
+    const hash = await this.broadcast(tracked.to, tracked.data, tracked.nonce, tracked.gas, fees);
+
+    tracked.hashes.push(hash);
+    tracked.hash = hash;
+    tracked.fees = fees;
+    tracked.lastSeen = Date.now();
+    this.options.onStatusChange?.(tracked);
+    return tracked;
+  }
+
+  /**
+   * Replace a pending transaction with a zero-value transfer to self
+   *
+   * The original may still be mined first; `wait()` tells which one won.
+   */
+  async cancel(submission: Submission): Promise<Submission> {
+    const tracked = this.getPending(submission);
+    const account = this.getAccount();
+    const fees = await this.bumpFees(tracked.fees);
+    const hash = await this.broadcast(account.address, "0x", tracked.nonce, 21_000n, fees);
+
+    tracked.hashes.push(hash);
+    tracked.hash = hash;
+    tracked.cancelHash = hash;
+    tracked.fees = fees;
+    tracked.lastSeen = Date.now();
+    this.options.onStatusChange?.(tracked);
+    return tracked;
+  }
+
+  /**
+   * Stop polling; pending submissions are left unresolved
+   */
+  stop(): void {
+    clearTimeout(this.pollTimer);
+    this.pollTimer = undefined;
+  }
+
+  private getAccount() {
+    if (!this.walletClient.account) {
+      throw new Error("Wallet client must have an account");
+    }
+    return this.walletClient.account;
+  }
+
+  private getPending(submission: Submission): TrackedSubmission {
+    const tracked = this.submissions.get(submission.nonce);
+    if (!tracked || tracked.status !== "pending") {
+      throw new Error(`Transaction with nonce ${submission.nonce} is not pending`);
+    }
+    return tracked;
+  }
+
+  /**
+   * Assign a nonce and broadcast; submissions are serialized so nonces stay
+   * contiguous
+   */
+  private submit(
+    data: Hex,
+    gasOptions: GasOptions | undefined,
+    calls: BatchCallItem[]
+  ): Promise<Submission> {
+    const run = async (): Promise<Submission> => {
+      const account = this.getAccount();
+      let gas: bigint;
+      let fees: GasFees;
+      try {
+        ({ gas, ...fees } = await resolveGasParameters(
+          this.publicClient,
+          { account, to: this.safeAddress, data },
+          this.options.gas,
+          gasOptions
+        ));
+      } catch (error) {
+        throw toLegionSafeError(error, { calls });
+      }
+
+      const nonce =
+        this.nextNonce ??
+        (await this.publicClient.getTransactionCount({
+          address: account.address,
+          blockTag: "pending",
+        }));
+
+      let hash: Hash;
+      try {
+        hash = await this.broadcast(this.safeAddress, data, nonce, gas, fees);
+      } catch (error) {
+        // The nonce may or may not have been consumed; re-read it next time
+        this.nextNonce = undefined;
+        throw toLegionSafeError(error, { calls });
+      }
+      this.nextNonce = nonce + 1;
+
+      let resolve!: TrackedSubmission["resolve"];
+      let reject!: TrackedSubmission["reject"];
+      const promise = new Promise<TransactionResult>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      // Unobserved rejections must not crash the process
+      promise.catch(() => {});
+
+      const submission: TrackedSubmission = {
+        nonce,
+        hash,
+        hashes: [hash],
+        status: "pending",
+        fees,
+        gas,
+        to: this.safeAddress,
+        data,
+        calls,
+        lastSeen: Date.now(),
+        promise,
+        resolve,
+        reject,
+        wait: () => promise,
+      };
+      this.submissions.set(nonce, submission);
+      this.options.onStatusChange?.(submission);
+      this.schedulePoll();
+      return submission;
+    };
+
+    const result = this.sending.then(run, run);
+    this.sending = result.catch(() => {});
+    return result;
+  }
+
+  private async broadcast(
+    to: Address,
+    data: Hex,
+    nonce: number,
+    gas: bigint,
+    fees: TransactionFees
+  ): Promise<Hash> {
+    return this.walletClient.sendTransaction({
+      account: this.getAccount(),
+      chain: this.walletClient.chain,
+      to,
+      data,
+      nonce,
+      gas,
+      ...fees,
+    });
+  }
+
+  /**
+   * Fees for a replacement: the old fees plus `bumpBps`, or what the gas
+   * strategy asks for now if that is higher
+   */
+  private async bumpFees(previous: TransactionFees): Promise<TransactionFees> {
+    const bump = (fee: bigint) => (fee * (10_000n + this.bumpBps) + 9_999n) / 10_000n;
+    const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+    const current = await resolveGasFees(this.publicClient, {
+      strategy: this.options.gas?.strategy,
+    });
+    const fees: GasFees =
+      previous.gasPrice !== undefined
+        ? { gasPrice: max(bump(previous.gasPrice), current.gasPrice ?? 0n) }
+        : {
+            maxFeePerGas: max(bump(previous.maxFeePerGas), current.maxFeePerGas ?? 0n),
+            maxPriorityFeePerGas: max(
+              bump(previous.maxPriorityFeePerGas),
+              current.maxPriorityFeePerGas ?? 0n
+            ),
+          };
+
+    const cap = this.options.gas?.maxFeePerGasCap;
+    const fee = fees.gasPrice ?? fees.maxFeePerGas;
+    if (cap !== undefined && fee > cap) {
+      throw new GasPriceTooHighError(fee, cap);
+    }
+    return fees;
+  }
+
+  private schedulePoll(): void {
+    if (this.pollTimer) return;
+    this.pollTimer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch {
+        // Transient RPC failure; try again on the next tick
+      }
+      this.pollTimer = undefined;
+      if (this.pending.length > 0) this.schedulePoll();
+    }, this.pollingInterval);
+  }
+
+  /**
+   * Check every pending submission for a receipt, an outside replacement or a
+   * mempool drop
+   */
+  private async poll(): Promise<void> {
+    const pending = [...this.submissions.values()];
+    if (pending.length === 0) return;
+
+    // Read the nonce before the receipts: a transaction mined in between then
+    // still shows up as a receipt instead of as an outside replacement
+    const account = this.getAccount();
+    const [minedNonce, head] = await Promise.all([
+      this.publicClient.getTransactionCount({ address: account.address, blockTag: "latest" }),
+      this.publicClient.getBlockNumber(),
+    ]);
+
+    for (const submission of pending) {
+      const receipt = await this.findReceipt(submission);
+      if (receipt) {
+        if (head - receipt.blockNumber + 1n < this.confirmations) continue;
+        await this.settle(submission, receipt);
+        continue;
+      }
+
+      if (minedNonce > submission.nonce) {
+        this.drop(submission, "dropped");
+        continue;
+      }
+
+      const known = await Promise.all(
+        submission.hashes.map((hash) =>
+          this.publicClient.getTransaction({ hash }).then(
+            () => true,
+            () => false
+          )
+        )
+      );
+      if (known.some(Boolean)) {
+        submission.lastSeen = Date.now();
+      } else if (Date.now() - submission.lastSeen > this.dropTimeout) {
+        this.drop(submission, "dropped");
+      }
+    }
+  }
+
+  private async findReceipt(
+    submission: TrackedSubmission
+  ): Promise<TransactionReceipt | undefined> {
+    for (const hash of [...submission.hashes].reverse()) {
+      try {
+        return await this.publicClient.getTransactionReceipt({ hash });
+      } catch {
+        // Not mined
+      }
+    }
+    return undefined;
+  }
+
+  private async settle(submission: TrackedSubmission, receipt: TransactionReceipt): Promise<void> {
+    if (receipt.transactionHash === submission.cancelHash) {
+      this.drop(submission, "cancelled");
+      return;
+    }
+
+    this.submissions.delete(submission.nonce);
+    submission.hash = receipt.transactionHash;
+    submission.status = receipt.status === "success" ? "confirmed" : "reverted";
+    this.options.onStatusChange?.(submission);
+    if (receipt.status === "reverted") {
+      submission.reject(
+        await replayRevertError(
+          this.publicClient,
+          receipt.transactionHash,
+          receipt.blockNumber,
+          submission.calls
+        )
+      );
+      return;
+    }
+    submission.resolve({
+      hash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed,
+      status: receipt.status,
+    });
+  }
+
+  private drop(submission: TrackedSubmission, reason: "cancelled" | "dropped"): void {
+    this.submissions.delete(submission.nonce);
+    submission.status = reason;
+    if (reason === "dropped") {
+      // Later nonces may now be out of sync with the chain
+      this.nextNonce = undefined;
+    }
+    this.options.onStatusChange?.(submission);
+    submission.reject(new TransactionDroppedError(submission.nonce, reason));
+  }
+}
@@ -1,10 +1,47 @@
-import { Address, Hash, PublicClient, WalletClient } from "viem";
+import { Abi, Address, BlockTag, Hash, Hex, PublicClient, WalletClient } from "viem";
+import type { LegionSafeError } from "./errors.js";
+import type { TokenScreener } from "./screener.js";
+import type { SettlementSource } from "./settlement.js";
+import type { ExactOutputQuoteRequest } from "./exactOutput.js";
+import type { UpgradeValidationParams } from "./upgrade.js";
+
+/**
+ * Fees a transaction is sent with
+ */
+export type GasFees =
+  | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint; gasPrice?: undefined }
+  | { gasPrice: bigint; maxFeePerGas?: undefined; maxPriorityFeePerGas?: undefined };
+
+/**
+ * Computes the fees for the next transaction
+ */
+export interface GasStrategy {
+  /** Name shown in logs and errors */
+  readonly name: string;
+  /** Fees to send the next transaction with */
+  getFees(publicClient: PublicClient): Promise<GasFees>;
+}
+
+/**
+ * Client-wide gas configuration
+ */
+export interface GasConfig {
+  /** Fee strategy (default: the node's suggested fees) */
+  strategy?: GasStrategy;
+  /** Multiplier applied to estimated gas limits, in bps (default: 12000 = 1.2x) */
+  gasLimitMultiplierBps?: bigint;
+  /** Refuse to send when maxFeePerGas (or gasPrice) would exceed this, in wei */
+  maxFeePerGasCap?: bigint;
+}
 
 /**
  * Optional gas configuration for transactions
+ *
+ * Explicit values win over the strategy; anything left out comes from the
+ * client's GasConfig.
  */
-export interface GasOptions {
-  /** Gas limit for the transaction */
+export interface GasOptions extends GasConfig {
+  /** Gas limit for the transaction (skips estimation) */
   gas?: bigint;
   /** Gas price for legacy transactions (in wei) */
   gasPrice?: bigint;
@@ -24,8 +61,59 @@ export interface LegionSafeConfig {
   walletClient: WalletClient;
   /** Public client for reading contract state */
   publicClient: PublicClient;
+  /**
+   * How manage()/manageBatch() recover the targets' return data after mining
+   * (default: "auto", trace with replay fallback)
+   */
+  returnDataSource?: ReturnDataSource;
+  /**
+   * Block the vault was deployed at; history queries start here. Without it,
+   * authorization snapshots and policy plans scan logs from block 0, one
+   * `eth_getLogs` per 5000 blocks, and ownership status skips its event
+   * lookup.
+   */
+  deploymentBlock?: bigint;
+  /** Gas strategy, gas limit multiplier and fee cap for every write */
+  gas?: GasConfig;
+  /**
+   * Aggregation of reads through Multicall3 (default: enabled with the
+   * chain's Multicall3); false sends every read on its own
+   */
+  multicall?: MulticallConfig | false;
+}
+
+/**
+ * How reads are aggregated through Multicall3
+ */
+export interface MulticallConfig {
+  /** Multicall3 address (default: the chain's `multicall3` contract, else MULTICALL3_ADDRESS) */
+  address?: Address;
+  /** Most calldata bytes per `eth_call`; 0 sends each batch as one call (default: 0) */
+  batchSize?: number;
+  /** Milliseconds to wait for more reads before sending a batch (default: 0) */
+  wait?: number;
 }
 
+/**
+ * Block to read at; use the same block for reads that must be consistent
+ */
+export interface ReadOptions {
+  /** Block number */
+  blockNumber?: bigint;
+  /** Block tag, when no block number is given (default: "latest") */
+  blockTag?: BlockTag;
+}
+
+/**
+ * Strategy for recovering return data of mined manage()/manageBatch() calls
+ *
+ * - `trace`: `debug_traceTransaction` (needs a tracing RPC)
+ * - `simulate`: replay with `eth_call` on the parent block
+ * - `auto`: trace, falling back to simulate
+ * - `none`: skip recovery
+ */
+export type ReturnDataSource = "auto" | "trace" | "simulate" | "none";
+
 /**
  * Parameters for authorizing a function call
  */
@@ -50,6 +138,8 @@ export interface ManageCallParams {
   data: `0x${string}`;
   /** Native token value to send (in wei) */
   value: bigint;
+  /** Optional ABI of the target, used to decode its return data and reverts */
+  abi?: Abi;
   /** Optional gas configuration */
   gasOptions?: GasOptions;
 }
@@ -64,6 +154,8 @@ export interface BatchCallItem {
   data: `0x${string}`;
   /** Native token value to send (in wei) */
   value: bigint;
+  /** Optional ABI of the target, used to decode its return data and reverts */
+  abi?: Abi;
 }
 
 /**
@@ -112,6 +204,97 @@ export interface TransactionResult {
   status: "success" | "reverted";
 }
 
+/**
+ * Result of manage()
+ */
+export interface ManageResult extends TransactionResult {
+  /** Raw data returned by the target ("0x" if it could not be recovered) */
+  returnData: `0x${string}`;
+  /** Return data decoded with the call's `abi`, if one was given */
+  decodedReturnData?: unknown;
+  /** How the return data was recovered */
+  returnDataSource: "trace" | "simulate" | "unavailable";
+}
+
+/**
+ * Result of manageBatch()
+ */
+export interface ManageBatchResult extends TransactionResult {
+  /** Raw data returned by each target (empty if it could not be recovered) */
+  returnData: `0x${string}`[];
+  /** Return data of each call decoded with its `abi` (undefined where none was given) */
+  decodedReturnData: unknown[];
+  /** How the return data was recovered */
+  returnDataSource: "trace" | "simulate" | "unavailable";
+}
+
+/**
+ * Options for simulating a vault call
+ */
+export interface SimulationOptions {
+  /**
+   * Account to simulate from (default: operator for manage calls, pending
+   * owner for acceptOwnership, owner otherwise)
+   */
+  account?: Address;
+  /** Tokens to report balance deltas for, in addition to the tracked tokens */
+  tokens?: Address[];
+  /** Block to simulate on (default: latest) */
+  blockNumber?: bigint;
+}
+
+/**
+ * Change of a vault balance predicted by a simulation
+ */
+export interface BalanceDelta {
+  /** Token address (zero address for native token) */
+  token: Address;
+  /** Balance before the call */
+  before: bigint;
+  /** Balance after the call */
+  after: bigint;
+  /** after - before (negative when the vault spends) */
+  delta: bigint;
+}
+
+/**
+ * Result of a simulated vault call
+ */
+export interface SimulationResult {
+  /** Whether the call would succeed */
+  success: boolean;
+  /** Account the call was simulated from */
+  account: Address;
+  /** Raw output of the vault function ("0x" on failure) */
+  output: `0x${string}`;
+  /** Gas limit estimated for the call (undefined if it would fail or estimation failed) */
+  gasEstimate?: bigint;
+  /** Decoded revert, if the call would fail */
+  error?: LegionSafeError;
+  /** Predicted balance changes of tracked tokens (requires eth_simulateV1) */
+  balanceDeltas?: BalanceDelta[];
+}
+
+/**
+ * Result of a simulated manage()
+ */
+export interface ManageSimulationResult extends SimulationResult {
+  /** Raw data returned by the target */
+  returnData?: `0x${string}`;
+  /** Return data decoded with the call's `abi`, if one was given */
+  decodedReturnData?: unknown;
+}
+
+/**
+ * Result of a simulated manageBatch()
+ */
+export interface ManageBatchSimulationResult extends SimulationResult {
+  /** Raw data returned by each target (empty on failure) */
+  returnData: `0x${string}`[];
+  /** Return data of each call decoded with its `abi` */
+  decodedReturnData: unknown[];
+}
+
 /**
  * Balance information
  */
@@ -169,3 +352,476 @@ export interface SpendingLimitInfo {
   /** Timestamp when current window ends */
   windowEndsAt: bigint;
 }
+
+/**
+ * Raw spending limit state as stored on-chain
+ */
+export interface SpendingLimitState {
+  /** Maximum amount per window */
+  limitPerWindow: bigint;
+  /** Window duration in seconds */
+  windowDuration: bigint;
+  /** Amount spent in the window of the last spend */
+  spent: bigint;
+  /** Start of the window of the last spend */
+  lastWindowStart: bigint;
+}
+
+/**
+ * Options for getVaultSnapshot()
+ */
+export interface VaultSnapshotOptions extends ReadOptions {
+  /** Tokens to include besides the tracked tokens */
+  tokens?: Address[];
+  /** Spenders to report the whitelist state of */
+  spenders?: Address[];
+}
+
+/**
+ * Balance and spending limit of one token in a vault snapshot
+ */
+export interface VaultTokenSnapshot {
+  /** Token (zero address for native token) */
+  token: Address;
+  /** Whether the token is tracked for spending limits */
+  tracked: boolean;
+  /** Vault balance */
+  balance: BalanceInfo;
+  /** Spending limit, if one is configured */
+  limit?: SpendingLimitInfo;
+}
+
+/**
+ * Vault state read at one block
+ */
+export interface VaultSnapshot {
+  /** Block every value was read at */
+  blockNumber: bigint;
+  /** Owner */
+  owner: Address;
+  /** Address that can accept ownership, if a transfer is pending */
+  pendingOwner?: Address;
+  /** Operator */
+  operator: Address;
+  /** Native token balance */
+  nativeBalance: BalanceInfo;
+  /** Tokens tracked for spending limits */
+  trackedTokens: Address[];
+  /** Tracked tokens followed by the other requested tokens */
+  tokens: VaultTokenSnapshot[];
+  /** Whitelist state of each requested spender */
+  spenders: { spender: Address; whitelisted: boolean }[];
+}
+
+/**
+ * Options for a spending limit pre-flight check
+ */
+export interface SpendingPreflightOptions {
+  /**
+   * Timestamp the batch is expected to execute at (default: latest block).
+   * Must be later than the latest block when given.
+   */
+  timestamp?: bigint;
+}
+
+/**
+ * Predicted effect of a batch on one tracked token's spending limit
+ */
+export interface SpendingForecast {
+  /** Token address (zero address for native token) */
+  token: Address;
+  /** Whether a limit is configured for the token */
+  limited: boolean;
+  /** Total amount the batch would spend */
+  spend: bigint;
+  /** Amount already spent in the window the batch executes in */
+  spentInWindow: bigint;
+  /** Amount that can still be spent before the batch */
+  headroom: bigint;
+  /** Amount that could still be spent after the batch */
+  remainingAfter: bigint;
+  /** Timestamp when the window the batch executes in ends */
+  windowEndsAt: bigint;
+  /** Whether the batch executes in a new window, resetting `spent` */
+  windowRollsOver: boolean;
+  /** Whether the batch would revert with SpendingLimitExceeded */
+  wouldExceed: boolean;
+  /** Index of the first call that would breach the limit */
+  breachedAtCall?: number;
+}
+
+/**
+ * Result of a spending limit pre-flight check
+ */
+export interface SpendingPreflightResult {
+  /** Whether any tracked token's limit would be breached */
+  wouldExceed: boolean;
+  /** Timestamp the forecast was computed for */
+  timestamp: bigint;
+  /** Forecast per tracked token */
+  tokens: SpendingForecast[];
+  /** Index of a call that would revert for another reason */
+  failedCall?: number;
+  /** Revert of that call */
+  error?: LegionSafeError;
+}
+
+/**
+ * Options for reconstructing the authorization policy
+ */
+export interface AuthorizationSnapshotOptions {
+  /** First block to replay events from (default: the vault's deployment block) */
+  fromBlock?: bigint;
+  /** Block to take the snapshot at (default: latest) */
+  toBlock?: bigint;
+  /** Largest block range per eth_getLogs call (default: 5000) */
+  maxBlockRange?: bigint;
+  /** ABIs of call targets, used to resolve selectors to signatures */
+  abis?: Abi[];
+  /** Extra selector -> signature labels; take precedence over `abis` */
+  signatures?: Record<Hex, string>;
+}
+
+/**
+ * A (target, selector) pair the operator may currently call
+ */
+export interface AuthorizedCallEntry {
+  /** Target contract */
+  target: Address;
+  /** Function selector */
+  selector: Hex;
+  /** Human-readable signature, when the selector is known */
+  signature?: string;
+  /** Block of the event that enabled the pair */
+  blockNumber: bigint;
+  /** Transaction that enabled the pair */
+  transactionHash: Hash;
+}
+
+/**
+ * A spender currently allowed to receive approvals
+ */
+export interface WhitelistedSpenderEntry {
+  /** Spender address */
+  spender: Address;
+  /** Block of the event that whitelisted the spender */
+  blockNumber: bigint;
+  /** Transaction that whitelisted the spender */
+  transactionHash: Hash;
+}
+
+/**
+ * Entry whose last event disagrees with the mapping, e.g. after a storage
+ * migration in an upgrade
+ */
+export type AuthorizationInconsistency =
+  | { kind: "call"; target: Address; selector: Hex; onChain: boolean }
+  | { kind: "spender"; spender: Address; onChain: boolean };
+
+/**
+ * Authorization policy currently in force on a vault
+ */
+export interface AuthorizationSnapshot {
+  /** Block the snapshot was taken at */
+  blockNumber: bigint;
+  /** Enabled (target, selector) pairs, sorted by target then selector */
+  calls: AuthorizedCallEntry[];
+  /** Whitelisted spenders, sorted by address */
+  spenders: WhitelistedSpenderEntry[];
+  /** Entries where event history and storage disagree */
+  inconsistencies: AuthorizationInconsistency[];
+}
+
+/**
+ * Guards on LegionSafeClient.transferOwnership()
+ */
+export interface TransferOwnershipOptions {
+  /**
+   * Allow the zero address, which cancels a pending transfer instead of
+   * starting one (prefer cancelOwnershipTransfer())
+   */
+  allowZeroAddress?: boolean;
+  /** Allow the current operator to become owner, merging the two roles */
+  allowOperator?: boolean;
+}
+
+/**
+ * Parameters for LegionSafeClient.upgrade()
+ */
+export interface UpgradeParams extends UpgradeValidationParams {
+  /** Call to make on the vault right after the upgrade, e.g. a reinitializer (default: none) */
+  initData?: Hex;
+  /** Optional gas configuration */
+  gasOptions?: GasOptions;
+}
+
+/**
+ * Options for reading the ownership status
+ */
+export interface OwnershipStatusOptions {
+  /**
+   * First block to search ownership events from (default: the vault's
+   * deployment block); without one, `transferStarted` and `lastTransferred`
+   * are not looked up
+   */
+  fromBlock?: bigint;
+  /** Block to read the status at (default: latest) */
+  toBlock?: bigint;
+  /** Largest block range per eth_getLogs call (default: 5000) */
+  maxBlockRange?: bigint;
+}
+
+/**
+ * Ownership event with the time of its block
+ */
+export interface OwnershipEventInfo {
+  /** Previous owner */
+  previousOwner: Address;
+  /** Owner the event named */
+  newOwner: Address;
+  /** Block of the event */
+  blockNumber: bigint;
+  /** Timestamp of that block, in seconds */
+  timestamp: bigint;
+  /** Transaction that emitted the event */
+  transactionHash: Hash;
+}
+
+/**
+ * Owner, pending owner and the events behind them
+ */
+export interface OwnershipStatus {
+  /** Block the status was read at */
+  blockNumber: bigint;
+  /** Current owner (zero address once renounced) */
+  owner: Address;
+  /** Current operator */
+  operator: Address;
+  /** Address that can call acceptOwnership(), if a transfer is pending */
+  pendingOwner?: Address;
+  /** OwnershipTransferStarted event that named `pendingOwner` */
+  transferStarted?: OwnershipEventInfo;
+  /** Last OwnershipTransferred event, i.e. when `owner` took over */
+  lastTransferred?: OwnershipEventInfo;
+  /** Whether ownership was renounced; nobody can withdraw or change the policy */
+  renounced: boolean;
+}
+
+/**
+ * Amount in a policy; strings and numbers allow policies loaded from JSON/YAML
+ */
+export type PolicyAmount = bigint | string | number;
+
+/**
+ * A call the operator should be allowed to make
+ */
+export interface PolicyCall {
+  /** Target contract */
+  target: Address;
+  /** Function signature, e.g. "approve(address,uint256)" */
+  signature?: string;
+  /** 4-byte selector; required when `signature` is omitted */
+  selector?: Hex;
+}
+
+/**
+ * Spending limit for one token
+ */
+export interface PolicySpendingLimit {
+  /** Token address (zero address for native token) */
+  token: Address;
+  /** Max amount per window; 0 disables the limit */
+  limitPerWindow: PolicyAmount;
+  /** Window duration in seconds (default: 6 hours) */
+  windowDuration?: PolicyAmount;
+}
+
+/**
+ * Desired vault configuration
+ *
+ * Every section is optional; omitted sections are left as they are on-chain.
+ * A section that is present is authoritative: entries enabled on-chain but not
+ * listed are revoked unless `prune` is false.
+ */
+export interface VaultPolicy {
+  /** Operator address */
+  operator?: Address;
+  /** (target, selector) pairs the operator may call */
+  authorizedCalls?: PolicyCall[];
+  /** Spenders the operator may approve */
+  whitelistedSpenders?: Address[];
+  /** Tokens whose spending is tracked */
+  trackedTokens?: Address[];
+  /** Spending limits per token */
+  spendingLimits?: PolicySpendingLimit[];
+}
+
+/**
+ * Options for planning a policy
+ */
+export interface PolicyPlanOptions {
+  /**
+   * Revoke calls, spenders, tracked tokens and limits that the policy does not
+   * list (default: true). Finding enabled calls and spenders replays events
+   * from `fromBlock`.
+   */
+  prune?: boolean;
+  /** First block to replay authorization events from (default: the vault's deployment block) */
+  fromBlock?: bigint;
+  /** ABIs of call targets, used to label revoked selectors */
+  abis?: Abi[];
+}
+
+/**
+ * Limit parameters as stored on-chain
+ */
+export interface SpendingLimitConfig {
+  /** Max amount per window */
+  limitPerWindow: bigint;
+  /** Window duration in seconds */
+  windowDuration: bigint;
+}
+
+/**
+ * On-chain state a policy is compared against
+ */
+export interface PolicyState {
+  /** Current operator */
+  operator: Address;
+  /** Enabled (target, selector) pairs */
+  authorizedCalls: { target: Address; selector: Hex; signature?: string }[];
+  /** Whitelisted spenders */
+  whitelistedSpenders: Address[];
+  /** Tracked tokens */
+  trackedTokens: Address[];
+  /** Limits of the tokens the policy covers */
+  spendingLimits: ({ token: Address } & SpendingLimitConfig)[];
+}
+
+/**
+ * A single transaction needed to reach the desired policy
+ */
+export type PolicyChange =
+  | { kind: "setOperator"; action: "update"; from: Address; to: Address }
+  | {
+      kind: "setCallAuthorization";
+      action: "add" | "remove";
+      target: Address;
+      selector: Hex;
+      signature?: string;
+      authorized: boolean;
+    }
+  | {
+      kind: "setSpenderWhitelist";
+      action: "add" | "remove";
+      spender: Address;
+      whitelisted: boolean;
+    }
+  | { kind: "addTrackedToken"; action: "add"; token: Address }
+  | { kind: "removeTrackedToken"; action: "remove"; token: Address }
+  | {
+      kind: "setSpendingLimit";
+      action: "add" | "update" | "remove";
+      token: Address;
+      from: SpendingLimitConfig;
+      to: SpendingLimitConfig;
+    };
+
+/**
+ * Changes needed to move a vault from its on-chain state to a policy
+ */
+export interface PolicyPlan {
+  /** Block the on-chain state was read at */
+  blockNumber: bigint;
+  /** Changes, in the order applyPolicy() sends them */
+  changes: PolicyChange[];
+}
+
+/**
+ * Result of applying a policy
+ */
+export interface PolicyApplyResult {
+  /** Plan that was applied */
+  plan: PolicyPlan;
+  /** Transaction per change, in plan order */
+  transactions: { change: PolicyChange; result: TransactionResult }[];
+}
+
+/**
+ * Parameters for LegionSafeClient.swap() and swapViaKyber()
+ */
+export interface SwapParams {
+  /** Input token (NATIVE_TOKEN_ADDRESS for native token) */
+  tokenIn: Address;
+  /** Output token (NATIVE_TOKEN_ADDRESS for native token) */
+  tokenOut: Address;
+  /** Input amount */
+  amountIn: bigint;
+  /** Slippage tolerance in bps (default: 50 = 0.5%) */
+  slippageBps?: number;
+  /** Skip the simulation before sending (default: false) */
+  skipSimulation?: boolean;
+  /** Require `tokenOut` (unless native) to pass this screener before sending */
+  screener?: TokenScreener;
+  /** Optional gas configuration */
+  gasOptions?: GasOptions;
+}
+
+/**
+ * Result of LegionSafeClient.swap() and swapViaKyber()
+ */
+export interface SwapResult extends ManageBatchResult {
+  /** Provider the swap went through, e.g. "KyberSwap" */
+  provider: string;
+  /** Router the swap went through */
+  routerAddress: Address;
+  /** Input amount */
+  amountIn: bigint;
+  /** Output amount quoted by the provider */
+  quotedAmountOut: bigint;
+  /** Output amount predicted by the simulation (requires eth_simulateV1) */
+  simulatedAmountOut?: bigint;
+  /**
+   * Output amount that landed in the vault, net of any transfer tax
+   * (see `amountOutSource`)
+   */
+  amountOut: bigint;
+  /** How `amountOut` was measured */
+  amountOutSource: SettlementSource;
+  /**
+   * Input amount that left the vault, net of refunds; this is what tracked-token
+   * spending limits are charged
+   */
+  amountSpent: bigint;
+  /** How `amountSpent` was measured */
+  amountSpentSource: SettlementSource;
+  /** Shortfall of `amountOut` against `quotedAmountOut` in bps (negative if the vault got more) */
+  realizedSlippageBps: number;
+}
+
+/**
+ * Parameters for LegionSafeClient.swapExactOutput()
+ */
+export interface ExactOutputSwapParams
+  extends Omit<SwapParams, "amountIn">,
+    Omit<ExactOutputQuoteRequest, "slippageBps"> {}
+
+/**
+ * Result of LegionSafeClient.swapExactOutput()
+ */
+export interface ExactOutputSwapResult extends SwapResult {
+  /** Output amount the swap was sized for */
+  targetAmountOut: bigint;
+  /** Number of quotes used to size the input */
+  quotes: number;
+}
+
+/**
+ * Parameters for LegionSafeClient.swapViaKyber()
+ */
+export type SwapViaKyberParams = SwapParams;
+
+/**
+ * Result of LegionSafeClient.swapViaKyber()
+ */
+export type SwapViaKyberResult = SwapResult;
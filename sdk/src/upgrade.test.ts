@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { PublicClient } from 'viem';
+import { ERC1967_IMPLEMENTATION_SLOT } from './constants.js';
+import { LEGION_SAFE_STORAGE_LAYOUT } from './generated/legionSafeStorageLayout.js';
+import { StorageLayout, compareStorageLayouts, validateUpgrade } from './upgrade.js';
+
+const SAFE = '0x1111111111111111111111111111111111111111';
+const CURRENT = '0x2222222222222222222222222222222222222222';
+const NEXT = '0x3333333333333333333333333333333333333333';
+
+/** Copy of the bundled layout, edited by `edit` */
+function layout(edit: (layout: StorageLayout) => void): StorageLayout {
+  const copy = structuredClone(LEGION_SAFE_STORAGE_LAYOUT);
+  edit(copy);
+  return copy;
+}
+
+const variable = (copy: StorageLayout, label: string) => copy.storage.find((v) => v.label === label)!;
+
+describe('compareStorageLayouts', () => {
+  it('accepts appended and renamed variables', () => {
+    const next = layout((copy) => {
+      variable(copy, 'whitelistedSpenders').label = 'approvedSpenders';
+      copy.storage.push({ label: 'paused', offset: 0, slot: '5', type: 't_bool' });
+    });
+
+    expect(compareStorageLayouts(LEGION_SAFE_STORAGE_LAYOUT, next)).toEqual([]);
+  });
+
+  it('catches reordered, retyped and inserted variables', () => {
+    const next = layout((copy) => {
+      variable(copy, 'spendingLimits').slot = '4';
+      variable(copy, 'trackedTokens').slot = '3';
+      variable(copy, 'authorizedCalls').type = 't_mapping(t_address,t_bool)';
+      copy.storage.push({ label: 'paused', offset: 20, slot: '0', type: 't_bool' });
+    });
+
+    const issues = compareStorageLayouts(LEGION_SAFE_STORAGE_LAYOUT, next);
+
+    expect(issues.map((issue) => [issue.kind, issue.label])).toEqual([
+      ['retyped', 'authorizedCalls'],
+      ['moved', 'spendingLimits'],
+      ['moved', 'trackedTokens'],
+      ['inserted', 'paused'],
+    ]);
+    expect(issues[0].message).toBe(
+      'authorizedCalls changed type from mapping(address => mapping(bytes4 => bool)) to mapping(address => bool)'
+    );
+
+  });
+
+  it('compares struct members, not just the struct name', () => {
+    const retypedMember = layout((copy) => {
+      copy.types['t_struct(SpendingLimit)_storage'].members![2].type = 't_bool';
+    });
+    expect(compareStorageLayouts(LEGION_SAFE_STORAGE_LAYOUT, retypedMember)).toMatchObject([
+      { kind: 'retyped', label: 'spendingLimits' },
+    ]);
+  });
+});
+
+describe('validateUpgrade', () => {
+  const client = (uuid: string | undefined) =>
+    ({
+      getStorageAt: async () => `0x${CURRENT.slice(2).padStart(64, '0')}`,
+      getCode: async () => '0x6080',
+      readContract: async () => {
+        if (!uuid) throw new Error('execution reverted');
+        return uuid;
+      },
+    }) as unknown as PublicClient;
+
+  it('passes a proxiable implementation with a compatible layout', async () => {
+    const validation = await validateUpgrade(client(ERC1967_IMPLEMENTATION_SLOT), SAFE, {
+      newImplementation: NEXT,
+      newLayout: LEGION_SAFE_STORAGE_LAYOUT,
+    });
+
+    expect(validation).toEqual({ currentImplementation: CURRENT, newImplementation: NEXT, issues: [] });
+  });
+
+  it('refuses implementations without proxiableUUID or a storage layout', async () => {
+    const validation = await validateUpgrade(client(undefined), SAFE, { newImplementation: CURRENT });
+
+    expect(validation.issues.map((issue) => issue.kind)).toEqual(['not-proxiable', 'same-implementation', 'no-layout']);
+  });
+});
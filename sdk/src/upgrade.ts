@@ -0,0 +1,330 @@
+import { Address, Hex, PublicClient, getAddress } from "viem";
+import { LEGION_SAFE_ABI } from "./abis.js";
+import { ERC1967_IMPLEMENTATION_SLOT } from "./constants.js";
+import { LEGION_SAFE_STORAGE_LAYOUT } from "./generated/legionSafeStorageLayout.js";
+
+/**
+ * State variable in a solc storage layout
+ */
+export interface StorageVariable {
+  /** Variable name */
+  label: string;
+  /** Byte offset within the slot */
+  offset: number;
+  /** Slot, as a decimal string */
+  slot: string;
+  /** Type id, a key of `StorageLayout.types` */
+  type: string;
+}
+
+/**
+ * Type in a solc storage layout
+ */
+export interface StorageType {
+  /** "inplace", "mapping", "dynamic_array" or "bytes" */
+  encoding: string;
+  /** Solidity type, e.g. "mapping(address => bool)" */
+  label: string;
+  /** Size in storage, as a decimal string */
+  numberOfBytes: string;
+  /** Element type of arrays */
+  base?: string;
+  /** Key type of mappings */
+  key?: string;
+  /** Value type of mappings */
+  value?: string;
+  /** Members of structs */
+  members?: StorageVariable[];
+}
+
+/**
+ * `storageLayout` of a Foundry build artifact (`extra_output = ["storageLayout"]`)
+ */
+export interface StorageLayout {
+  storage: StorageVariable[];
+  types: Record<string, StorageType>;
+}
+
+/**
+ * A change between two storage layouts that would corrupt existing state
+ */
+export interface StorageLayoutIssue {
+  /**
+   * - `removed`: the variable is gone and nothing compatible took its place
+   * - `moved`: the variable is at a different slot or offset
+   * - `retyped`: the variable has an incompatible type
+   * - `inserted`: a new variable overlaps existing state instead of being appended
+   */
+  kind: "removed" | "moved" | "retyped" | "inserted";
+  /** Variable name */
+  label: string;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * A reason not to upgrade to an implementation
+ */
+export interface UpgradeIssue {
+  /**
+   * - `no-code`: nothing is deployed at the new implementation
+   * - `same-implementation`: the vault already runs it
+   * - `not-proxiable`: proxiableUUID() is missing or does not return the ERC-1967 slot
+   * - `no-layout`: no storage layout was given for the new implementation
+   * - `storage`: the storage layouts are incompatible (see `storage`)
+   */
+  kind: "no-code" | "same-implementation" | "not-proxiable" | "no-layout" | "storage";
+  /** Human-readable description */
+  message: string;
+  /** Storage change, for `storage` issues */
+  storage?: StorageLayoutIssue;
+}
+
+/**
+ * Upgrade to check before sending
+ */
+export interface UpgradeValidationParams {
+  /** Implementation to upgrade to */
+  newImplementation: Address;
+  /** Storage layout of the new implementation, from its Foundry build artifact */
+  newLayout?: StorageLayout;
+  /** Storage layout of the running implementation (default: the one this SDK was built against) */
+  currentLayout?: StorageLayout;
+  /** Skip the storage layout comparison (default: false) */
+  skipStorageCheck?: boolean;
+}
+
+/**
+ * Outcome of validateUpgrade()
+ */
+export interface UpgradeValidation {
+  /** Implementation the vault runs now */
+  currentImplementation: Address;
+  /** Implementation checked */
+  newImplementation: Address;
+  /** Reasons not to upgrade; empty if the upgrade is safe */
+  issues: UpgradeIssue[];
+}
+
+/**
+ * Thrown by LegionSafeClient.upgrade() when validateUpgrade() finds issues
+ */
+export class UpgradeValidationError extends Error {
+  constructor(public readonly issues: UpgradeIssue[]) {
+    super(
+      `Upgrade refused:\n` + issues.map((issue) => `  ${issue.kind}: ${issue.message}`).join("\n")
+    );
+    this.name = "UpgradeValidationError";
+  }
+}
+
+/**
+ * Take the storage layout out of a Foundry build artifact
+ *
+ * @param artifact Parsed `out/<Contract>.sol/<Contract>.json`
+ * @throws {Error} If the artifact was built without `extra_output = ["storageLayout"]`
+ */
+export function storageLayoutFromArtifact(artifact: {
+  storageLayout?: StorageLayout;
+}): StorageLayout {
+  if (!artifact.storageLayout?.storage) {
+    throw new Error(
+      'Artifact has no storage layout; set `extra_output = ["storageLayout"]` in foundry.toml and rebuild'
+    );
+  }
+  return artifact.storageLayout;
+}
+
+/**
+ * Compare the storage layout of an upgrade against the running one
+ *
+ * Variables are matched by name. Renaming is allowed when the new variable
+ * sits at the same slot with the same type; appending variables after the
+ * existing ones is allowed. Types are compared structurally, so changing a
+ * mapping's value type or a struct's members is caught even when the type's
+ * name stays the same.
+ *
+ * @param current Layout of the running implementation
+ * @param next Layout of the new implementation
+ * @returns Changes that would corrupt existing state; empty if compatible
+ */
+export function compareStorageLayouts(
+  current: StorageLayout,
+  next: StorageLayout
+): StorageLayoutIssue[] {
+  const issues: StorageLayoutIssue[] = [];
+  const currentLabels = new Set(current.storage.map((variable) => variable.label));
+  const nextByLabel = new Map(next.storage.map((variable) => [variable.label, variable]));
+  const nextByPosition = new Map(next.storage.map((variable) => [position(variable), variable]));
+  const matched = new Set<StorageVariable>();
+
+  for (const variable of current.storage) {
+    const type = describeType(current, variable.type);
+    const byLabel = nextByLabel.get(variable.label);
+
+    if (byLabel) {
+      matched.add(byLabel);
+      if (position(byLabel) !== position(variable)) {
+        issues.push({
+          kind: "moved",
+          label: variable.label,
+          message: `${variable.label} moved from ${describePosition(variable)} to ${describePosition(byLabel)}`,
+        });
+      } else if (describeType(next, byLabel.type) !== type) {
+        issues.push({
+          kind: "retyped",
+          label: variable.label,
+          message: `${variable.label} changed type from ${typeLabel(current, variable)} to ${typeLabel(next, byLabel)}`,
+        });
+      }
+      continue;
+    }
+
+    const renamed = nextByPosition.get(position(variable));
+    if (renamed && !currentLabels.has(renamed.label) && describeType(next, renamed.type) === type) {
+      matched.add(renamed);
+      continue;
+    }
+    issues.push({
+      kind: "removed",
+      label: variable.label,
+      message: `${variable.label} (${typeLabel(current, variable)}, ${describePosition(variable)}) was removed`,
+    });
+  }
+
+  // First slot after the running implementation's state
+  let end = 0n;
+  for (const variable of current.storage) {
+    const after = BigInt(variable.slot) + slotCount(current, variable);
+    if (after > end) end = after;
+  }
+  for (const variable of next.storage) {
+    if (matched.has(variable) || currentLabels.has(variable.label)) continue;
+    if (BigInt(variable.slot) < end) {
+      issues.push({
+        kind: "inserted",
+        label: variable.label,
+        message: `${variable.label} was inserted at ${describePosition(variable)}, inside existing state (append new variables after slot ${end - 1n})`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Read the implementation behind a proxy from its ERC-1967 slot
+ */
+export async function getImplementation(
+  publicClient: PublicClient,
+  proxy: Address,
+  blockNumber?: bigint
+): Promise<Address> {
+  const slot = await publicClient.getStorageAt({
+    address: proxy,
+    slot: ERC1967_IMPLEMENTATION_SLOT,
+    blockNumber,
+  });
+  return getAddress(`0x${(slot ?? "0x").slice(2).padStart(64, "0").slice(-40)}`);
+}
+
+/**
+ * Check an upgrade before sending it
+ *
+ * Confirms the new implementation is deployed, still UUPS (proxiableUUID()
+ * returns the ERC-1967 slot, without which the vault could never be upgraded
+ * again) and keeps the running implementation's storage layout.
+ *
+ * @param publicClient Public client
+ * @param safeAddress Vault (proxy) address
+ * @param params New implementation and storage layouts
+ */
+export async function validateUpgrade(
+  publicClient: PublicClient,
+  safeAddress: Address,
+  params: UpgradeValidationParams
+): Promise<UpgradeValidation> {
+  const { newImplementation } = params;
+  const issues: UpgradeIssue[] = [];
+
+  const [currentImplementation, code, uuid] = await Promise.all([
+    getImplementation(publicClient, safeAddress),
+    publicClient.getCode({ address: newImplementation }),
+    publicClient
+      .readContract({ address: newImplementation, abi: LEGION_SAFE_ABI, functionName: "proxiableUUID" })
+      .catch(() => undefined as Hex | undefined),
+  ]);
+
+  if (!code || code === "0x") {
+    issues.push({ kind: "no-code", message: `No contract deployed at ${newImplementation}` });
+  } else if (uuid?.toLowerCase() !== ERC1967_IMPLEMENTATION_SLOT) {
+    issues.push({
+      kind: "not-proxiable",
+      message: uuid
+        ? `proxiableUUID() returned ${uuid}, not the ERC-1967 implementation slot`
+        : `${newImplementation} has no proxiableUUID(); the vault could not be upgraded again`,
+    });
+  }
+  if (currentImplementation.toLowerCase() === newImplementation.toLowerCase()) {
+    issues.push({ kind: "same-implementation", message: `The vault already runs ${newImplementation}` });
+  }
+
+  if (!params.skipStorageCheck) {
+    if (!params.newLayout) {
+      issues.push({
+        kind: "no-layout",
+        message: "No storage layout given for the new implementation; pass newLayout or skipStorageCheck",
+      });
+    } else {
+      for (const storage of compareStorageLayouts(
+        params.currentLayout ?? LEGION_SAFE_STORAGE_LAYOUT,
+        params.newLayout
+      )) {
+        issues.push({ kind: "storage", message: storage.message, storage });
+      }
+    }
+  }
+
+  return { currentImplementation, newImplementation, issues };
+}
+
+function position(variable: StorageVariable): string {
+  return `${variable.slot}:${variable.offset}`;
+}
+
+function describePosition(variable: StorageVariable): string {
+  return variable.offset === 0 ? `slot ${variable.slot}` : `slot ${variable.slot} offset ${variable.offset}`;
+}
+
+function typeLabel(layout: StorageLayout, variable: StorageVariable): string {
+  return layout.types[variable.type]?.label ?? variable.type;
+}
+
+function slotCount(layout: StorageLayout, variable: StorageVariable): bigint {
+  const bytes = BigInt(layout.types[variable.type]?.numberOfBytes ?? "32");
+  return (BigInt(variable.offset) + bytes + 31n) / 32n;
+}
+
+/**
+ * Canonical description of a type's storage shape, independent of type ids
+ * and struct names
+ */
+function describeType(layout: StorageLayout, id: string): string {
+  const type = layout.types[id];
+  if (!type) return id;
+
+  if (type.encoding === "mapping") {
+    return `mapping(${describeType(layout, type.key!)}=>${describeType(layout, type.value!)})`;
+  }
+  if (type.base) {
+    const length = type.encoding === "dynamic_array" ? "" : type.label.match(/\[(\d+)\]$/)?.[1] ?? "?";
+    return `${describeType(layout, type.base)}[${length}]`;
+  }
+  if (type.members) {
+    const members = type.members.map(
+      (member) => `${member.label}:${describeType(layout, member.type)}@${position(member)}`
+    );
+    return `struct{${members.join(",")}}`;
+  }
+  return `${type.label}/${type.numberOfBytes}`;
+}
@@ -1,4 +1,5 @@
 import { Address, keccak256, toBytes } from 'viem';
+import { NATIVE_TOKEN_ADDRESS, ZERO_ADDRESS } from './constants.js';
 
 /**
  * Extract 4-byte function selector from calldata or function signature
@@ -30,6 +31,14 @@ export function isZeroAddress(address: Address): boolean {
   return address === '0x0000000000000000000000000000000000000000';
 }
 
+/**
+ * Check if an address denotes the native token (NATIVE_TOKEN_ADDRESS or the zero address)
+ */
+export function isNativeToken(address: Address): boolean {
+  const lower = address.toLowerCase();
+  return lower === NATIVE_TOKEN_ADDRESS.toLowerCase() || lower === ZERO_ADDRESS;
+}
+
 /**
  * Validate that a value is a valid address
  */
@@ -37,6 +46,19 @@ export function isValidAddress(value: string): value is Address {
   return /^0x[a-fA-F0-9]{40}$/.test(value);
 }
 
+/**
+ * Drop repeated addresses, comparing case-insensitively and keeping the first spelling
+ */
+export function uniqueAddresses(addresses: Address[]): Address[] {
+  const seen = new Set<string>();
+  return addresses.filter((address) => {
+    const key = address.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
 /**
  * Format a transaction hash for display with ellipsis
  */
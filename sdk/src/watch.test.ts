@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LegionSafeEventLog } from './indexer.js';
+import { StubEventLog, eventLog, stubChain, stubEvents } from './test/stubs.js';
+import { LegionSafeWatcher, WatchHandlers, WatchOptions, WatchSignal } from './watch.js';
+
+const SAFE = '0x1111111111111111111111111111111111111111';
+const USDT = '0x2222222222222222222222222222222222222222';
+const WBNB = '0x3333333333333333333333333333333333333333';
+const OPERATOR = '0x4444444444444444444444444444444444444444';
+const ATTACKER = '0x5555555555555555555555555555555555555555';
+const IMPLEMENTATION = '0x6666666666666666666666666666666666666666';
+
+/**
+ * Watcher over a fixed history with the head at block 100; `emit` delivers a
+ * new head to the current block subscription and `fail` breaks it
+ */
+function watcher(events: StubEventLog[], options: WatchOptions = {}, handlers: WatchHandlers = {}) {
+  const subscriptions: { onBlockNumber: (blockNumber: bigint) => void; onError: (error: Error) => void }[] = [];
+  const state = { unwatched: 0 };
+  const { publicClient } = stubChain({
+    getContractEvents: stubEvents(events),
+    readContract: async ({ args }: { args: [string] }) => [args[0] === USDT ? 1_000n : 0n, 3600n, 0n, 0n],
+    watchBlockNumber: (subscription: (typeof subscriptions)[number]) => {
+      subscriptions.push(subscription);
+      return () => state.unwatched++;
+    },
+  });
+
+  const delivered: LegionSafeEventLog[] = [];
+  const signals: WatchSignal[] = [];
+  const errors: unknown[] = [];
+  const watch = new LegionSafeWatcher(
+    publicClient,
+    SAFE,
+    {
+      onEvent: (event) => void delivered.push(event),
+      onSignal: (signal) => void signals.push(signal),
+      onError: (error) => void errors.push(error),
+      ...handlers,
+    },
+    options
+  );
+
+  const emit = async (blockNumber: bigint) => {
+    subscriptions[subscriptions.length - 1].onBlockNumber(blockNumber);
+    await vi.advanceTimersByTimeAsync(0);
+  };
+  const fail = (error = new Error('socket closed')) => subscriptions[subscriptions.length - 1].onError(error);
+  return { watch, emit, fail, subscriptions, state, delivered, signals, errors };
+}
+
+const blocks = (events: LegionSafeEventLog[]) => events.map((event) => event.blockNumber);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('LegionSafeWatcher', () => {
+  it('delivers each event once it is buried under the confirmation depth', async () => {
+    const managed = (block: bigint) => eventLog('Managed', { target: USDT }, block);
+    const { watch, emit, delivered } = watcher([managed(98n), managed(99n), managed(101n), managed(103n)], {
+      confirmations: 2,
+    });
+
+    await watch.start();
+    // Head 100: block 98 was confirmed before start(), block 99 is not yet
+    await emit(100n);
+    expect(delivered).toEqual([]);
+
+    await emit(101n);
+    expect(blocks(delivered)).toEqual([99n]);
+
+    await emit(104n);
+    await emit(104n);
+    expect(blocks(delivered)).toEqual([99n, 101n]);
+    watch.stop();
+  });
+
+  it('resubscribes with doubling backoff and resumes from the cursor', async () => {
+    const { watch, emit, fail, subscriptions, state, delivered, errors } = watcher(
+      [eventLog('Withdrawn', { token: USDT }, 100n), eventLog('Withdrawn', { token: USDT }, 102n)],
+      { confirmations: 0, fromBlock: 100n }
+    );
+    await watch.start();
+    await emit(100n);
+
+    fail();
+    expect(state.unwatched).toBe(1);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(subscriptions).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(subscriptions).toHaveLength(2);
+
+    fail();
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(subscriptions).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(subscriptions).toHaveLength(3);
+
+    // A delivered block resets the backoff; blocks missed while down are not skipped
+    await emit(105n);
+    fail();
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(subscriptions).toHaveLength(4);
+
+    expect(errors).toHaveLength(3);
+    expect(blocks(delivered)).toEqual([100n, 102n]);
+
+    watch.stop();
+    fail();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(subscriptions).toHaveLength(4);
+  });
+
+  it('derives spending, operator and ownership signals', async () => {
+    const { watch, emit, signals } = watcher(
+      [
+        eventLog('SpendingTracked', { token: USDT, amount: 700n, totalSpent: 700n }, 10n),
+        eventLog('SpendingTracked', { token: USDT, amount: 200n, totalSpent: 900n }, 11n),
+        eventLog('SpendingLimitSet', { token: WBNB, limitPerWindow: 100n }, 12n),
+        eventLog('SpendingTracked', { token: WBNB, amount: 95n, totalSpent: 95n }, 13n),
+        eventLog('OperatorChanged', { previousOperator: OPERATOR, newOperator: ATTACKER }, 14n),
+        eventLog('OwnershipTransferStarted', { previousOwner: OPERATOR, newOwner: ATTACKER }, 15n),
+      ],
+      { confirmations: 0, fromBlock: 0n }
+    );
+
+    await watch.start();
+    await emit(20n);
+
+    expect(signals.map(({ event: _, ...signal }) => signal)).toEqual([
+      { type: 'spendingNearLimit', token: USDT, totalSpent: 900n, limit: 1_000n, usedBps: 9_000n },
+      { type: 'spendingNearLimit', token: WBNB, totalSpent: 95n, limit: 100n, usedBps: 9_500n },
+      { type: 'operatorChanged', previousOperator: OPERATOR, newOperator: ATTACKER },
+      { type: 'ownershipTransferStarted', previousOwner: OPERATOR, newOwner: ATTACKER },
+    ]);
+    watch.stop();
+  });
+
+  it('raises unexpectedUpgrade for upgrades outside the allowlist, or for any upgrade without one', async () => {
+    const history = [
+      eventLog('Upgraded', { implementation: IMPLEMENTATION }, 10n),
+      eventLog('Upgraded', { implementation: ATTACKER }, 11n),
+    ];
+
+    for (const [expectedImplementations, upgrades] of [
+      [[IMPLEMENTATION], [ATTACKER]],
+      [undefined, [IMPLEMENTATION, ATTACKER]],
+    ] as const) {
+      const { watch, emit, signals } = watcher(history, {
+        confirmations: 0,
+        fromBlock: 0n,
+        expectedImplementations: expectedImplementations && [...expectedImplementations],
+      });
+      await watch.start();
+      await emit(20n);
+
+      expect(signals).toMatchObject(upgrades.map((implementation) => ({ type: 'unexpectedUpgrade', implementation })));
+      watch.stop();
+    }
+  });
+});
@@ -0,0 +1,329 @@
+import { Address, PublicClient } from "viem";
+import { LEGION_SAFE_ABI } from "./abis.js";
+import { LegionSafeEventIndexer, LegionSafeEventLog } from "./indexer.js";
+import { ReadBatcher } from "./reads.js";
+
+/** Events that change the vault's configuration */
+type ConfigEventName =
+  | "CallAuthorized"
+  | "SpenderWhitelisted"
+  | "SpendingLimitSet"
+  | "TrackedTokenAdded"
+  | "TrackedTokenRemoved"
+  | "OperatorChanged";
+
+/** Events that change the vault's ownership */
+type OwnershipEventName = "OwnershipTransferStarted" | "OwnershipTransferred";
+
+/**
+ * Derived alert computed from vault events
+ */
+export type WatchSignal =
+  | {
+      type: "spendingNearLimit";
+      token: Address;
+      /** Amount spent in the current window */
+      totalSpent: bigint;
+      /** Configured limit per window */
+      limit: bigint;
+      /** totalSpent / limit in basis points */
+      usedBps: bigint;
+      event: LegionSafeEventLog<"SpendingTracked">;
+    }
+  | {
+      type: "operatorChanged";
+      previousOperator: Address;
+      newOperator: Address;
+      event: LegionSafeEventLog<"OperatorChanged">;
+    }
+  | {
+      type: "ownershipTransferStarted";
+      previousOwner: Address;
+      newOwner: Address;
+      event: LegionSafeEventLog<"OwnershipTransferStarted">;
+    }
+  | {
+      type: "unexpectedUpgrade";
+      implementation: Address;
+      event: LegionSafeEventLog<"Upgraded">;
+    };
+
+/**
+ * Callbacks for LegionSafeClient.watch()
+ */
+export interface WatchHandlers {
+  /** Every confirmed event, in chain order */
+  onEvent?: (event: LegionSafeEventLog) => void | Promise<void>;
+  /** A call executed through manage()/manageBatch() */
+  onManaged?: (event: LegionSafeEventLog<"Managed">) => void | Promise<void>;
+  /** A completed manageBatch() */
+  onManagedBatch?: (event: LegionSafeEventLog<"ManagedBatch">) => void | Promise<void>;
+  /** Spending recorded against a limit */
+  onSpendingTracked?: (
+    event: LegionSafeEventLog<"SpendingTracked">
+  ) => void | Promise<void>;
+  /** A withdrawal to the owner */
+  onWithdrawn?: (event: LegionSafeEventLog<"Withdrawn">) => void | Promise<void>;
+  /** Native token received */
+  onEthReceived?: (event: LegionSafeEventLog<"EthReceived">) => void | Promise<void>;
+  /** Authorization, whitelist, limit, tracked token or operator change */
+  onConfigChanged?: (
+    event: LegionSafeEventLog<ConfigEventName>
+  ) => void | Promise<void>;
+  /** Ownership handover started or completed */
+  onOwnershipChanged?: (
+    event: LegionSafeEventLog<OwnershipEventName>
+  ) => void | Promise<void>;
+  /** Implementation upgraded */
+  onUpgraded?: (event: LegionSafeEventLog<"Upgraded">) => void | Promise<void>;
+  /** Derived alert */
+  onSignal?: (signal: WatchSignal) => void | Promise<void>;
+  /** RPC or handler error; watching continues */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Options for LegionSafeClient.watch()
+ */
+export interface WatchOptions {
+  /** Blocks an event must be buried under before it is delivered (default: 2) */
+  confirmations?: number;
+  /** First block to deliver events from (default: the next confirmed block) */
+  fromBlock?: bigint;
+  /** Block polling interval in ms (default: the public client's) */
+  pollingInterval?: number;
+  /** Fraction of a spending limit, in bps, that raises spendingNearLimit (default: 8000) */
+  spendingAlertBps?: bigint;
+  /**
+   * Implementations that are expected; any other upgrade raises
+   * unexpectedUpgrade (default: none, so every upgrade raises it)
+   */
+  expectedImplementations?: Address[];
+  /** Largest block range per eth_getLogs call (default: 5000) */
+  maxBlockRange?: bigint;
+}
+
+/**
+ * Delivers confirmed LegionSafe events to callbacks as new blocks arrive
+ *
+ * Events are delivered only once they are `confirmations` blocks deep, so a
+ * reorg shallower than that never produces an event that later disappears.
+ * Logs are read per confirmed block range instead of through an event filter,
+ * which keeps the position in a cursor: if the block subscription fails it is
+ * re-established with backoff and delivery resumes from the cursor without
+ * gaps or duplicates.
+ */
+export class LegionSafeWatcher {
+  private indexer?: LegionSafeEventIndexer;
+  private readonly confirmations: bigint;
+  private readonly spendingAlertBps: bigint;
+  private readonly expectedImplementations?: Set<string>;
+  private readonly limits = new Map<Address, bigint>();
+  private unwatchBlocks?: () => void;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private retryDelay = 1_000;
+  private latestHead?: bigint;
+  private processing = false;
+  private stopped = false;
+
+  /**
+   * @param publicClient Public client
+   * @param safeAddress Vault address
+   * @param handlers Event, signal and error callbacks
+   * @param options Confirmation depth, start block and alert thresholds
+   * @param reads Batcher the limit reads are aggregated through (default: a
+   *   new one on `publicClient`)
+   */
+  constructor(
+    private readonly publicClient: PublicClient,
+    private readonly safeAddress: Address,
+    private readonly handlers: WatchHandlers,
+    private readonly options: WatchOptions = {},
+    private readonly reads: ReadBatcher = new ReadBatcher(publicClient)
+  ) {
+    this.confirmations = BigInt(options.confirmations ?? 2);
+    this.spendingAlertBps = options.spendingAlertBps ?? 8000n;
+    this.expectedImplementations = options.expectedImplementations
+      ? new Set(options.expectedImplementations.map((a) => a.toLowerCase()))
+      : undefined;
+  }
+
+  /**
+   * Start watching
+   */
+  async start(): Promise<void> {
+    let nextBlock = this.options.fromBlock;
+    if (nextBlock === undefined) {
+      // Only deliver blocks confirmed after start()
+      const head = await this.publicClient.getBlockNumber();
+      nextBlock = head >= this.confirmations ? head - this.confirmations + 1n : 0n;
+    }
+
+    this.indexer = new LegionSafeEventIndexer({
+      publicClient: this.publicClient,
+      safeAddress: this.safeAddress,
+      maxBlockRange: this.options.maxBlockRange,
+      cursor: { nextBlock },
+    });
+    this.subscribe();
+  }
+
+  /**
+   * Stop watching
+   */
+  stop(): void {
+    this.stopped = true;
+    clearTimeout(this.retryTimer);
+    this.unwatchBlocks?.();
+  }
+
+  private subscribe(): void {
+    if (this.stopped) return;
+    this.unwatchBlocks = this.publicClient.watchBlockNumber({
+      emitOnBegin: true,
+      pollingInterval: this.options.pollingInterval,
+      onBlockNumber: (blockNumber) => {
+        this.retryDelay = 1_000;
+        this.latestHead = blockNumber;
+        void this.process();
+      },
+      onError: (error) => this.resubscribe(error),
+    });
+  }
+
+  private resubscribe(error: unknown): void {
+    this.handlers.onError?.(error);
+    this.unwatchBlocks?.();
+    if (this.stopped) return;
+
+    clearTimeout(this.retryTimer);
+    this.retryTimer = setTimeout(() => this.subscribe(), this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, 30_000);
+  }
+
+  /**
+   * Deliver everything confirmed up to the latest head, one pass at a time
+   */
+  private async process(): Promise<void> {
+    const indexer = this.indexer;
+    if (!indexer || this.processing) return;
+    this.processing = true;
+
+    try {
+      while (!this.stopped && this.latestHead !== undefined) {
+        const confirmed = this.latestHead - this.confirmations;
+        if (confirmed < indexer.cursor.nextBlock) break;
+
+        const { events } = await indexer.sync(confirmed);
+        for (const event of events) {
+          if (this.stopped) break;
+          await this.dispatch(event);
+        }
+      }
+    } catch (error) {
+      // The cursor was not advanced; the range is retried on the next block
+      this.handlers.onError?.(error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async dispatch(event: LegionSafeEventLog): Promise<void> {
+    const h = this.handlers;
+    try {
+      await h.onEvent?.(event);
+
+      switch (event.eventName) {
+        case "Managed":
+          await h.onManaged?.(event);
+          break;
+        case "ManagedBatch":
+          await h.onManagedBatch?.(event);
+          break;
+        case "SpendingTracked":
+          await h.onSpendingTracked?.(event);
+          await this.checkSpending(event);
+          break;
+        case "Withdrawn":
+          await h.onWithdrawn?.(event);
+          break;
+        case "EthReceived":
+          await h.onEthReceived?.(event);
+          break;
+        case "Upgraded":
+          await h.onUpgraded?.(event);
+          if (
+            !this.expectedImplementations?.has(event.args.implementation.toLowerCase())
+          ) {
+            await h.onSignal?.({
+              type: "unexpectedUpgrade",
+              implementation: event.args.implementation,
+              event,
+            });
+          }
+          break;
+        case "OwnershipTransferStarted":
+          await h.onOwnershipChanged?.(event);
+          await h.onSignal?.({
+            type: "ownershipTransferStarted",
+            previousOwner: event.args.previousOwner,
+            newOwner: event.args.newOwner,
+            event,
+          });
+          break;
+        case "OwnershipTransferred":
+          await h.onOwnershipChanged?.(event);
+          break;
+        case "SpendingLimitSet":
+          this.limits.set(event.args.token, event.args.limitPerWindow);
+          await h.onConfigChanged?.(event);
+          break;
+        case "OperatorChanged":
+          await h.onConfigChanged?.(event);
+          await h.onSignal?.({
+            type: "operatorChanged",
+            previousOperator: event.args.previousOperator,
+            newOperator: event.args.newOperator,
+            event,
+          });
+          break;
+        case "CallAuthorized":
+        case "SpenderWhitelisted":
+        case "TrackedTokenAdded":
+        case "TrackedTokenRemoved":
+          await h.onConfigChanged?.(event);
+          break;
+      }
+    } catch (error) {
+      h.onError?.(error);
+    }
+  }
+
+  private async checkSpending(
+    event: LegionSafeEventLog<"SpendingTracked">
+  ): Promise<void> {
+    const { token, totalSpent } = event.args;
+
+    let limit = this.limits.get(token);
+    if (limit === undefined) {
+      [limit] = await this.reads.read(
+        { address: this.safeAddress, abi: LEGION_SAFE_ABI, functionName: "spendingLimits", args: [token] },
+        { blockNumber: event.blockNumber }
+      );
+      this.limits.set(token, limit);
+    }
+    if (limit === 0n) return;
+
+    const usedBps = (totalSpent * 10_000n) / limit;
+    if (usedBps >= this.spendingAlertBps) {
+      await this.handlers.onSignal?.({
+        type: "spendingNearLimit",
+        token,
+        totalSpent,
+        limit,
+        usedBps,
+        event,
+      });
+    }
+  }
+}